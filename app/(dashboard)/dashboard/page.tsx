@@ -8,6 +8,8 @@ import { useUser } from "@clerk/nextjs"
 import { AiCoachSlideout } from "@/components/ai-coach/ai-coach-slideout"
 import { buildDashboardContext } from "@/lib/ai-coach/context-builder"
 import { GoHighLevelClient, ClientMetrics } from "@/types/gohighlevel"
+import { Reminder } from "@/types"
+import type { PortfolioSummary } from "@/lib/portfolio"
 import { useEffect, useState } from "react"
 
 // Mock data - replace with real API calls
@@ -110,6 +112,9 @@ const mockMetrics: Record<string, ClientMetrics> = {
 export default function DashboardPage() {
   const { user } = useUser()
   const [context, setContext] = useState<any>(null)
+  const [reminders, setReminders] = useState<Reminder[]>([])
+  const [remindersLoading, setRemindersLoading] = useState(true)
+  const [portfolioSummary, setPortfolioSummary] = useState<PortfolioSummary | null>(null)
 
   useEffect(() => {
     if (user) {
@@ -119,6 +124,66 @@ export default function DashboardPage() {
       setContext(ctx)
     }
   }, [user])
+
+  // Load upcoming deadlines (lease ends, document expiries, subscription renewals)
+  useEffect(() => {
+    async function loadReminders() {
+      try {
+        const response = await fetch('/api/reminders')
+        if (response.ok) {
+          const data = await response.json()
+          setReminders(data.reminders || [])
+        } else {
+          const errorData = await response.json().catch(() => ({}))
+          console.error('Failed to load reminders:', errorData)
+        }
+      } catch (error) {
+        console.error('Failed to load reminders:', error)
+      } finally {
+        setRemindersLoading(false)
+      }
+    }
+
+    loadReminders()
+  }, [])
+
+  // Load portfolio metrics for the Properties card
+  useEffect(() => {
+    async function loadPortfolioSummary() {
+      try {
+        const response = await fetch('/api/portfolio/summary')
+        if (response.ok) {
+          const data = await response.json()
+          setPortfolioSummary(data.summary)
+        } else {
+          const errorData = await response.json().catch(() => ({}))
+          console.error('Failed to load portfolio summary:', errorData)
+        }
+      } catch (error) {
+        console.error('Failed to load portfolio summary:', error)
+      }
+    }
+
+    loadPortfolioSummary()
+  }, [])
+
+  const getReminderDotClass = (window: Reminder["window"]) => {
+    switch (window) {
+      case 30:
+        return "bg-destructive"
+      case 60:
+        return "bg-yellow-500"
+      default:
+        return "bg-primary"
+    }
+  }
+
+  const formatDaysUntil = (days: number) => {
+    if (days === 0) return "Today"
+    if (days === 1) return "Tomorrow"
+    return `In ${days} days`
+  }
+
   return (
     <div className="p-8 space-y-8">
       <div className="flex items-center justify-between">
@@ -186,9 +251,17 @@ export default function DashboardPage() {
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">5</div>
+            <div className="text-2xl font-bold">
+              {portfolioSummary ? portfolioSummary.totals.count : "—"}
+            </div>
             <p className="text-xs text-muted-foreground">
-              3 active listings
+              {portfolioSummary
+                ? `${portfolioSummary.byStatus.rented?.count || 0} rented · ${new Intl.NumberFormat("en-US", {
+                    style: "currency",
+                    currency: "USD",
+                    maximumFractionDigits: 0,
+                  }).format(portfolioSummary.totals.share.totalMonthlyCashflow)}/mo cashflow`
+                : "Loading..."}
             </p>
           </CardContent>
         </Card>
@@ -223,32 +296,37 @@ export default function DashboardPage() {
           <CardHeader>
             <CardTitle>Recent Activity</CardTitle>
             <CardDescription>
-              Latest updates across your workspace
+              Upcoming lease ends, document expiries and renewals in the next 90 days
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              <div className="flex items-start gap-3">
-                <div className="h-2 w-2 rounded-full bg-primary mt-2" />
-                <div className="flex-1">
-                  <p className="text-sm">Added new website</p>
-                  <p className="text-xs text-muted-foreground">2 hours ago</p>
-                </div>
-              </div>
-              <div className="flex items-start gap-3">
-                <div className="h-2 w-2 rounded-full bg-primary mt-2" />
-                <div className="flex-1">
-                  <p className="text-sm">Updated subscription</p>
-                  <p className="text-xs text-muted-foreground">5 hours ago</p>
-                </div>
-              </div>
-              <div className="flex items-start gap-3">
-                <div className="h-2 w-2 rounded-full bg-primary mt-2" />
-                <div className="flex-1">
-                  <p className="text-sm">Created new blop</p>
-                  <p className="text-xs text-muted-foreground">1 day ago</p>
-                </div>
-              </div>
+              {remindersLoading ? (
+                <p className="text-sm text-muted-foreground">Loading...</p>
+              ) : reminders.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No upcoming deadlines</p>
+              ) : (
+                reminders.slice(0, 6).map((reminder) => (
+                  <Link
+                    key={reminder.id}
+                    href={reminder.link}
+                    className="flex items-start gap-3 hover:opacity-80 transition-opacity"
+                  >
+                    <div className={`h-2 w-2 rounded-full mt-2 ${getReminderDotClass(reminder.window)}`} />
+                    <div className="flex-1">
+                      <p className="text-sm">{reminder.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDaysUntil(reminder.daysUntil)} ({reminder.dueDate})
+                      </p>
+                    </div>
+                  </Link>
+                ))
+              )}
+              {reminders.length > 6 && (
+                <p className="text-xs text-muted-foreground">
+                  +{reminders.length - 6} more upcoming
+                </p>
+              )}
             </div>
           </CardContent>
         </Card>
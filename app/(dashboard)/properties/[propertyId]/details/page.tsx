@@ -1,7 +1,9 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
 import { useParams, useRouter } from "next/navigation"
+import Image from "next/image"
+import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -28,103 +30,52 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
-import { Property, RentRollUnit, WorkRequest } from "@/types"
-import { ArrowLeft, Plus, Trash2, Save, Upload, FileText, Star, AlertCircle } from "lucide-react"
-
-// Mock data - in production, this would come from an API
-const mockProperties: Property[] = [
-  {
-    id: "1",
-    address: "123 Main St, San Francisco, CA",
-    type: "Apartment",
-    status: "rented",
-    mortgageHolder: "Chase Bank",
-    purchasePrice: 750000,
-    currentEstValue: 850000,
-    monthlyMortgagePayment: 3200,
-    monthlyInsurance: 150,
-    monthlyPropertyTax: 800,
-    monthlyOtherCosts: 200,
-    monthlyGrossRent: 4500,
-    rentRoll: [
-      {
-        unitName: "Unit 1A",
-        tenantName: "John Doe",
-        monthlyRent: 2500,
-        leaseStart: "2024-01-01",
-        leaseEnd: "2024-12-31",
-        securityDeposit: 2500,
-      },
-      {
-        unitName: "Unit 1B",
-        tenantName: "Jane Smith",
-        monthlyRent: 2000,
-        leaseStart: "2024-02-01",
-        leaseEnd: "2025-01-31",
-        securityDeposit: 2000,
-      },
-    ],
-    workRequests: [
-      {
-        id: "1",
-        dateLogged: "2024-11-15",
-        description: "Fix leaky faucet",
-        status: "completed",
-        cost: 150,
-      },
-    ],
-  },
-  {
-    id: "2",
-    address: "456 Oak Ave, Los Angeles, CA",
-    type: "House",
-    status: "rented",
-    mortgageHolder: "Wells Fargo",
-    purchasePrice: 1100000,
-    currentEstValue: 1200000,
-    monthlyMortgagePayment: 4800,
-    monthlyInsurance: 250,
-    monthlyPropertyTax: 1200,
-    monthlyOtherCosts: 300,
-    monthlyGrossRent: 6500,
-    rentRoll: [
-      {
-        unitName: "Main House",
-        tenantName: "Bob Johnson",
-        monthlyRent: 6500,
-        leaseStart: "2024-03-01",
-        leaseEnd: "2025-02-28",
-        securityDeposit: 6500,
-      },
-    ],
-    workRequests: [],
-  },
-  {
-    id: "3",
-    address: "789 Pine Rd, San Diego, CA",
-    type: "Condo",
-    status: "vacant",
-    mortgageHolder: "Bank of America",
-    purchasePrice: 450000,
-    currentEstValue: 500000,
-    monthlyMortgagePayment: 2100,
-    monthlyInsurance: 120,
-    monthlyPropertyTax: 500,
-    monthlyOtherCosts: 150,
-    monthlyGrossRent: 0,
-    rentRoll: [],
-    workRequests: [
-      {
-        id: "2",
-        dateLogged: "2024-11-20",
-        description: "Paint interior",
-        status: "in_progress",
-        cost: 800,
-      },
-    ],
-  },
+import { Lease, Property, PropertyDocument, PropertyPartner, PropertyPhoto, PropertyTransaction, PropertyValuation, RentRollUnit, Tenant, WorkRequest } from "@/types"
+import { ArrowLeft, Plus, Trash2, Upload, FileText, Star, AlertCircle, Download, ImageIcon } from "lucide-react"
+import { SaveButton } from "@/components/ui/save-button"
+import { mapLeaseRow, mapPropertyDocumentRow, mapPropertyPhotoRow, mapPropertyRow, mapPropertyTransactionRow, mapPropertyValuationRow, mapRentRollUnitRow, mapTenantRow, mapWorkRequestRow } from "@/lib/property-mappers"
+import { calculateTimeInStatus, formatDuration } from "@/lib/work-requests"
+import { getOwnershipShare } from "@/lib/ownership"
+import {
+  buildAmortizationSchedule,
+  calculateCapRate,
+  calculateCashOnCashReturn,
+  calculateCurrentBalance,
+  calculateDSCR,
+  calculateEquity,
+  calculateMonthlyCashflow,
+  calculateMonthlyCosts,
+  calculateMonthlyPayment,
+  getLoanAmount,
+} from "@/lib/finance"
+import { TRANSACTION_CATEGORIES, isIncomeCategory, summarizeLedgerByMonth } from "@/lib/ledger"
+import { VALUATION_SOURCES, buildValueHistory, calculateAppreciation } from "@/lib/valuations"
+import { ValueHistoryChart } from "@/components/properties/value-history-chart"
+import { LeaseDialog, LeaseStatusBadge } from "@/components/properties/lease-dialog"
+import { ESCALATION_TYPES, getLeaseRentOn, getNextEscalation, toDateString } from "@/lib/leases"
+
+const documentCategories: { value: PropertyDocument["category"]; label: string }[] = [
+  { value: "insurance", label: "Insurance" },
+  { value: "tax_bill", label: "Tax Bill" },
+  { value: "mortgage", label: "Mortgage" },
+  { value: "lease", label: "Lease" },
+  { value: "inspection", label: "Inspection" },
 ]
 
+/**
+ * Parse "key=value, key=value" into a metadata object
+ */
+const parseMetadataInput = (input: string): Record<string, string> => {
+  const metadata: Record<string, string> = {}
+  input.split(",").forEach((pair) => {
+    const [key, ...rest] = pair.split("=")
+    if (key && key.trim() && rest.length > 0) {
+      metadata[key.trim()] = rest.join("=").trim()
+    }
+  })
+  return metadata
+}
+
 export default function PropertyDetailsPage() {
   const params = useParams()
   const router = useRouter()
@@ -132,22 +83,216 @@ export default function PropertyDetailsPage() {
     ? (Array.isArray(params.propertyId) ? params.propertyId[0] : params.propertyId)
     : undefined
 
-  // Find the property
-  const property = propertyId ? mockProperties.find((p) => p.id === propertyId) : undefined
-
   // State for editable property data - MUST be called before any early returns
-  const [propertyData, setPropertyData] = useState<Property | null>(property || null)
-  const [rentRoll, setRentRoll] = useState<RentRollUnit[]>(
-    property?.rentRoll || []
-  )
-  const [workRequests, setWorkRequests] = useState<WorkRequest[]>(
-    property?.workRequests || []
-  )
+  const [propertyData, setPropertyData] = useState<Property | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [rentRoll, setRentRoll] = useState<RentRollUnit[]>([])
+  const [workRequests, setWorkRequests] = useState<WorkRequest[]>([])
   const [newUnit, setNewUnit] = useState<Partial<RentRollUnit>>({})
   const [newWorkRequest, setNewWorkRequest] = useState<Partial<WorkRequest>>({})
+  const [documents, setDocuments] = useState<PropertyDocument[]>([])
+  const [documentCategoryFilter, setDocumentCategoryFilter] = useState<string>("all")
+  const [documentSearch, setDocumentSearch] = useState("")
+  const [newDocument, setNewDocument] = useState<{
+    category: PropertyDocument["category"]
+    expiryDate: string
+    metadata: string
+  }>({ category: "insurance", expiryDate: "", metadata: "" })
+  const [uploadingDocument, setUploadingDocument] = useState(false)
+  const documentInputRef = useRef<HTMLInputElement>(null)
+  const [photos, setPhotos] = useState<PropertyPhoto[]>([])
+  const [photoUnitFilter, setPhotoUnitFilter] = useState<string>("all") // "all", "property" or a unit id
+  const [newPhoto, setNewPhoto] = useState<{ unitId: string; caption: string }>({ unitId: "property", caption: "" })
+  const [uploadingPhotos, setUploadingPhotos] = useState(false)
+  const photoInputRef = useRef<HTMLInputElement>(null)
+  const [transactions, setTransactions] = useState<PropertyTransaction[]>([])
+  const [newTransaction, setNewTransaction] = useState<Partial<PropertyTransaction>>({
+    category: "rent",
+  })
+  const [valuations, setValuations] = useState<PropertyValuation[]>([])
+  const [newValuation, setNewValuation] = useState<Partial<PropertyValuation>>({
+    source: "appraisal",
+  })
+  const [leases, setLeases] = useState<Lease[]>([])
+  const [tenants, setTenants] = useState<Tenant[]>([])
+  const [newLease, setNewLease] = useState<Partial<Lease> & { tenantIds: string[] }>({ tenantIds: [] })
+  const [selectedLeaseId, setSelectedLeaseId] = useState<string | null>(null)
+
+  // Load property with its rent roll units and work requests from database on mount
+  useEffect(() => {
+    async function loadProperty() {
+      if (!propertyId) {
+        setLoading(false)
+        return
+      }
+
+      try {
+        const response = await fetch(`/api/properties/${propertyId}`)
+        if (response.ok) {
+          const data = await response.json()
+          const property = mapPropertyRow(data.property)
+          setPropertyData(property)
+          setRentRoll(property.rentRoll || [])
+          setWorkRequests(property.workRequests || [])
+        } else {
+          const errorData = await response.json().catch(() => ({}))
+          console.error('Failed to load property:', errorData)
+        }
+      } catch (error) {
+        console.error('Failed to load property:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadProperty()
+  }, [propertyId])
+
+  // Load ledger transactions (also reloaded when work request costs change)
+  const loadTransactions = useCallback(async () => {
+    if (!propertyId) return
+
+    try {
+      const response = await fetch(`/api/properties/${propertyId}/transactions`)
+      if (response.ok) {
+        const data = await response.json()
+        if (Array.isArray(data.transactions)) {
+          setTransactions(data.transactions.map(mapPropertyTransactionRow))
+        }
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        console.error('Failed to load transactions:', errorData)
+      }
+    } catch (error) {
+      console.error('Failed to load transactions:', error)
+    }
+  }, [propertyId])
+
+  useEffect(() => {
+    loadTransactions()
+  }, [loadTransactions])
+
+  // Load the valuation history (also reloaded after saving, which may record a new estimate)
+  const loadValuations = useCallback(async () => {
+    if (!propertyId) return
+
+    try {
+      const response = await fetch(`/api/properties/${propertyId}/valuations`)
+      if (response.ok) {
+        const data = await response.json()
+        if (Array.isArray(data.valuations)) {
+          setValuations(data.valuations.map(mapPropertyValuationRow))
+        }
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        console.error('Failed to load valuations:', errorData)
+      }
+    } catch (error) {
+      console.error('Failed to load valuations:', error)
+    }
+  }, [propertyId])
+
+  useEffect(() => {
+    loadValuations()
+  }, [loadValuations])
+
+  // Load leases and the tenants that can be put on one
+  useEffect(() => {
+    async function loadLeases() {
+      if (!propertyId) return
+
+      try {
+        const [leasesResponse, tenantsResponse] = await Promise.all([
+          fetch(`/api/properties/${propertyId}/leases`),
+          fetch("/api/tenants"),
+        ])
+        if (leasesResponse.ok) {
+          const data = await leasesResponse.json()
+          if (Array.isArray(data.leases)) {
+            setLeases(data.leases.map(mapLeaseRow))
+          }
+        } else {
+          const errorData = await leasesResponse.json().catch(() => ({}))
+          console.error('Failed to load leases:', errorData)
+        }
+        if (tenantsResponse.ok) {
+          const data = await tenantsResponse.json()
+          if (Array.isArray(data.tenants)) {
+            setTenants(data.tenants.map(mapTenantRow))
+          }
+        } else {
+          const errorData = await tenantsResponse.json().catch(() => ({}))
+          console.error('Failed to load tenants:', errorData)
+        }
+      } catch (error) {
+        console.error('Failed to load leases:', error)
+      }
+    }
+
+    loadLeases()
+  }, [propertyId])
+
+  // Load documents from database on mount
+  useEffect(() => {
+    async function loadDocuments() {
+      if (!propertyId) return
+
+      try {
+        const response = await fetch(`/api/properties/${propertyId}/documents`)
+        if (response.ok) {
+          const data = await response.json()
+          if (Array.isArray(data.documents)) {
+            setDocuments(data.documents.map(mapPropertyDocumentRow))
+          }
+        } else {
+          const errorData = await response.json().catch(() => ({}))
+          console.error('Failed to load documents:', errorData)
+        }
+      } catch (error) {
+        console.error('Failed to load documents:', error)
+      }
+    }
+
+    loadDocuments()
+  }, [propertyId])
+
+  // Load photos from database on mount
+  useEffect(() => {
+    async function loadPhotos() {
+      if (!propertyId) return
+
+      try {
+        const response = await fetch(`/api/properties/${propertyId}/photos`)
+        if (response.ok) {
+          const data = await response.json()
+          if (Array.isArray(data.photos)) {
+            setPhotos(data.photos.map(mapPropertyPhotoRow))
+          }
+        } else {
+          const errorData = await response.json().catch(() => ({}))
+          console.error('Failed to load photos:', errorData)
+        }
+      } catch (error) {
+        console.error('Failed to load photos:', error)
+      }
+    }
+
+    loadPhotos()
+  }, [propertyId])
+
+  if (loading) {
+    return (
+      <div className="p-8 flex items-center justify-center min-h-[400px]">
+        <div className="text-center space-y-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          <div className="text-muted-foreground">Loading property...</div>
+        </div>
+      </div>
+    )
+  }
 
   // Early return after all hooks
-  if (!property || !propertyData) {
+  if (!propertyData) {
     return (
       <div className="p-8">
         <div className="text-center">
@@ -163,35 +308,27 @@ export default function PropertyDetailsPage() {
 
   // After the early return, propertyData is guaranteed to be non-null
   // Calculate metrics
-  const calculateMonthlyCosts = (): number => {
-    return (
-      propertyData.monthlyMortgagePayment +
-      propertyData.monthlyInsurance +
-      propertyData.monthlyPropertyTax +
-      propertyData.monthlyOtherCosts
-    )
-  }
-
-  const calculateMonthlyCashflow = (): number => {
-    return propertyData.monthlyGrossRent - calculateMonthlyCosts()
-  }
-
-  const calculateAnnualCashflow = (): number => {
-    return calculateMonthlyCashflow() * 12
-  }
-
-  const calculateCapRate = (): number => {
-    if (propertyData.currentEstValue === 0) return 0
-    const netOperatingIncome = calculateAnnualCashflow()
-    return (netOperatingIncome / propertyData.currentEstValue) * 100
-  }
+  const monthlyCashflow = calculateMonthlyCashflow(propertyData)
+  const ledgerByMonth = summarizeLedgerByMonth(propertyData, transactions)
+  const annualCashflow = monthlyCashflow * 12
+  const valueHistory = buildValueHistory(propertyData, valuations)
+  const appreciation = calculateAppreciation(valuations)
+  const today = toDateString(new Date())
+  const selectedLease = leases.find((lease) => lease.id === selectedLeaseId) || null
+  const dscr = calculateDSCR(propertyData)
 
-  const calculateCashOnCashReturn = (): number => {
-    const downPayment = propertyData.purchasePrice * 0.2 // Assuming 20% down
-    if (downPayment === 0) return 0
-    const annualCashflow = calculateAnnualCashflow()
-    return (annualCashflow / downPayment) * 100
-  }
+  // Summarize the amortization schedule by loan year
+  const amortizationByYear = buildAmortizationSchedule(propertyData).reduce<
+    { year: number; principal: number; interest: number; balance: number }[]
+  >((years, payment) => {
+    const year = Math.ceil(payment.period / 12)
+    const entry = years[year - 1] || { year, principal: 0, interest: 0, balance: 0 }
+    entry.principal += payment.principal
+    entry.interest += payment.interest
+    entry.balance = payment.balance
+    years[year - 1] = entry
+    return years
+  }, [])
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat("en-US", {
@@ -213,13 +350,155 @@ export default function PropertyDetailsPage() {
     })
   }
 
-  const handleSaveProperty = () => {
-    // In production, this would save to an API
-    console.log("Saving property:", propertyData)
-    alert("Property saved! (In production, this would save to your database)")
+  const handleAddTransaction = async () => {
+    if (!newTransaction.date || !newTransaction.category || newTransaction.amount === undefined) {
+      alert("Please enter a date, category and amount")
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/properties/${propertyData.id}/transactions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(newTransaction),
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setTransactions(
+          [mapPropertyTransactionRow(data.transaction), ...transactions].sort((a, b) =>
+            b.date.localeCompare(a.date)
+          )
+        )
+        setNewTransaction({ category: newTransaction.category })
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || 'Failed to add transaction')
+      }
+    } catch (error: any) {
+      console.error('Error adding transaction:', error)
+      alert(`Failed to add transaction: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  const handleDeleteTransaction = async (id: string) => {
+    try {
+      const response = await fetch(`/api/properties/${propertyData.id}/transactions/${id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        setTransactions(transactions.filter((t) => t.id !== id))
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || 'Failed to delete transaction')
+      }
+    } catch (error: any) {
+      console.error('Error deleting transaction:', error)
+      alert(`Failed to delete transaction: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  const handleAddValuation = async () => {
+    if (!newValuation.date || !newValuation.source || newValuation.value === undefined) {
+      alert("Please enter a date, source and value")
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/properties/${propertyData.id}/valuations`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(newValuation),
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setValuations([...valuations, mapPropertyValuationRow(data.valuation)])
+        handlePropertyFieldChange("currentEstValue", data.currentEstValue)
+        setNewValuation({ source: newValuation.source })
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || 'Failed to add valuation')
+      }
+    } catch (error: any) {
+      console.error('Error adding valuation:', error)
+      alert(`Failed to add valuation: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  const handleDeleteValuation = async (id: string) => {
+    try {
+      const response = await fetch(`/api/properties/${propertyData.id}/valuations/${id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setValuations(valuations.filter((v) => v.id !== id))
+        handlePropertyFieldChange("currentEstValue", data.currentEstValue)
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || 'Failed to delete valuation')
+      }
+    } catch (error: any) {
+      console.error('Error deleting valuation:', error)
+      alert(`Failed to delete valuation: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  const handlePartnerChange = (index: number, field: keyof PropertyPartner, value: string) => {
+    const partners = [...(propertyData.partners || [])]
+    partners[index] = {
+      ...partners[index],
+      [field]: field === "percentage" ? parseFloat(value) || 0 : value,
+    }
+    handlePropertyFieldChange("partners", partners)
+  }
+
+  const handleAddPartner = () => {
+    handlePropertyFieldChange("partners", [
+      ...(propertyData.partners || []),
+      { name: "", percentage: 0 },
+    ])
+  }
+
+  const handleRemovePartner = (index: number) => {
+    handlePropertyFieldChange(
+      "partners",
+      (propertyData.partners || []).filter((_, i) => i !== index)
+    )
+  }
+
+  const handleSaveProperty = async () => {
+    const response = await fetch(`/api/properties/${propertyData.id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(propertyData),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.details || errorData.error || 'Failed to save property')
+    }
+
+    const data = await response.json()
+    // Keep the loaded rent roll and work requests - PUT only returns the property row
+    setPropertyData({
+      ...mapPropertyRow(data.property),
+      rentRoll,
+      workRequests,
+    })
+    loadValuations()
   }
 
-  const handleAddUnit = () => {
+  const handleAddUnit = async () => {
     if (
       newUnit.unitName &&
       newUnit.tenantName &&
@@ -228,58 +507,415 @@ export default function PropertyDetailsPage() {
       newUnit.leaseEnd &&
       newUnit.securityDeposit
     ) {
-      setRentRoll([
-        ...rentRoll,
-        {
-          unitName: newUnit.unitName,
-          tenantName: newUnit.tenantName,
-          monthlyRent: newUnit.monthlyRent,
-          leaseStart: newUnit.leaseStart,
-          leaseEnd: newUnit.leaseEnd,
-          securityDeposit: newUnit.securityDeposit,
+      try {
+        const response = await fetch(`/api/properties/${propertyData.id}/units`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(newUnit),
+        })
+
+        if (response.ok) {
+          const data = await response.json()
+          setRentRoll([...rentRoll, mapRentRollUnitRow(data.unit)])
+          setNewUnit({})
+          // Monthly gross rent is recalculated on the server
+          handlePropertyFieldChange("monthlyGrossRent", data.monthlyGrossRent)
+        } else {
+          const errorData = await response.json().catch(() => ({}))
+          throw new Error(errorData.details || errorData.error || 'Failed to add unit')
+        }
+      } catch (error: any) {
+        console.error('Error adding unit:', error)
+        alert(`Failed to add unit: ${error.message || 'Unknown error'}`)
+      }
+    }
+  }
+
+  const handleDeleteUnit = async (unitId: string) => {
+    try {
+      const response = await fetch(`/api/properties/${propertyData.id}/units/${unitId}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setRentRoll(rentRoll.filter((unit) => unit.id !== unitId))
+        setLeases(leases.filter((lease) => lease.unitId !== unitId))
+        handlePropertyFieldChange("monthlyGrossRent", data.monthlyGrossRent)
+        // The unit's photos are deleted with it
+        const remainingPhotos = photos.filter((photo) => photo.unitId !== unitId)
+        setPhotos(remainingPhotos)
+        if (propertyData.coverPhotoId && !remainingPhotos.some((photo) => photo.id === propertyData.coverPhotoId)) {
+          handlePropertyFieldChange("coverPhotoId", undefined)
+        }
+        if (newPhoto.unitId === unitId) setNewPhoto({ ...newPhoto, unitId: "property" })
+        if (photoUnitFilter === unitId) setPhotoUnitFilter("all")
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || 'Failed to delete unit')
+      }
+    } catch (error: any) {
+      console.error('Error deleting unit:', error)
+      alert(`Failed to delete unit: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  // A lease sets its unit's tenant, dates, rent and deposit, so reload the rent roll after changing one
+  const refreshRentRoll = async (monthlyGrossRent: number | null) => {
+    try {
+      const response = await fetch(`/api/properties/${propertyData.id}/units`)
+      if (response.ok) {
+        const data = await response.json()
+        if (Array.isArray(data.units)) {
+          setRentRoll(data.units.map(mapRentRollUnitRow))
+        }
+      }
+    } catch (error) {
+      console.error('Failed to reload rent roll:', error)
+    }
+    if (monthlyGrossRent !== null && monthlyGrossRent !== undefined) {
+      handlePropertyFieldChange("monthlyGrossRent", monthlyGrossRent)
+    }
+  }
+
+  const handleToggleLeaseTenant = (tenantId: string) => {
+    setNewLease({
+      ...newLease,
+      tenantIds: newLease.tenantIds.includes(tenantId)
+        ? newLease.tenantIds.filter((id) => id !== tenantId)
+        : [...newLease.tenantIds, tenantId],
+    })
+  }
+
+  const handleAddLease = async () => {
+    if (!newLease.unitId || newLease.tenantIds.length === 0 || !newLease.startDate || !newLease.endDate) {
+      alert("Please choose a unit, at least one tenant, and the lease dates")
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/properties/${propertyData.id}/leases`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
         },
-      ])
-      setNewUnit({})
-      // Update monthly gross rent
-      const totalRent = [...rentRoll, newUnit as RentRollUnit].reduce(
-        (sum, unit) => sum + unit.monthlyRent,
-        0
-      )
-      handlePropertyFieldChange("monthlyGrossRent", totalRent)
+        body: JSON.stringify(newLease),
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setLeases([mapLeaseRow(data.lease), ...leases].sort((a, b) => b.startDate.localeCompare(a.startDate)))
+        setNewLease({ tenantIds: [] })
+        await refreshRentRoll(data.monthlyGrossRent)
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || 'Failed to add lease')
+      }
+    } catch (error: any) {
+      console.error('Error adding lease:', error)
+      alert(`Failed to add lease: ${error.message || 'Unknown error'}`)
     }
   }
 
-  const handleDeleteUnit = (index: number) => {
-    const updated = rentRoll.filter((_, i) => i !== index)
-    setRentRoll(updated)
-    const totalRent = updated.reduce((sum, unit) => sum + unit.monthlyRent, 0)
-    handlePropertyFieldChange("monthlyGrossRent", totalRent)
+  // A saved lease, or the renewal lease created by accepting an offer
+  const handleLeaseSaved = async (lease: Lease, monthlyGrossRent: number | null) => {
+    setLeases(
+      [lease, ...leases.filter((l) => l.id !== lease.id)].sort((a, b) => b.startDate.localeCompare(a.startDate))
+    )
+    await refreshRentRoll(monthlyGrossRent)
+  }
+
+  const handleDeleteLease = async (leaseId: string) => {
+    if (!confirm("Are you sure you want to delete this lease and its ledger? This action cannot be undone.")) return
+
+    try {
+      const response = await fetch(`/api/properties/${propertyData.id}/leases/${leaseId}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setLeases(leases.filter((lease) => lease.id !== leaseId))
+        await refreshRentRoll(data.monthlyGrossRent)
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || 'Failed to delete lease')
+      }
+    } catch (error: any) {
+      console.error('Error deleting lease:', error)
+      alert(`Failed to delete lease: ${error.message || 'Unknown error'}`)
+    }
   }
 
-  const handleAddWorkRequest = () => {
+  const handleAddWorkRequest = async () => {
     if (newWorkRequest.description && newWorkRequest.dateLogged) {
-      const workRequest: WorkRequest = {
-        id: Date.now().toString(),
-        dateLogged: newWorkRequest.dateLogged,
-        description: newWorkRequest.description,
-        status: (newWorkRequest.status as WorkRequest["status"]) || "new",
-        cost: newWorkRequest.cost || 0,
+      try {
+        const response = await fetch(`/api/properties/${propertyData.id}/work-requests`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            dateLogged: newWorkRequest.dateLogged,
+            description: newWorkRequest.description,
+            status: newWorkRequest.status || "new",
+            cost: newWorkRequest.cost || 0,
+          }),
+        })
+
+        if (response.ok) {
+          const data = await response.json()
+          setWorkRequests([mapWorkRequestRow(data.workRequest), ...workRequests])
+          setNewWorkRequest({})
+          loadTransactions()
+        } else {
+          const errorData = await response.json().catch(() => ({}))
+          throw new Error(errorData.details || errorData.error || 'Failed to add work request')
+        }
+      } catch (error: any) {
+        console.error('Error adding work request:', error)
+        alert(`Failed to add work request: ${error.message || 'Unknown error'}`)
       }
-      setWorkRequests([...workRequests, workRequest])
-      setNewWorkRequest({})
     }
   }
 
-  const handleDeleteWorkRequest = (id: string) => {
-    setWorkRequests(workRequests.filter((wr) => wr.id !== id))
+  const handleDeleteWorkRequest = async (id: string) => {
+    try {
+      const response = await fetch(`/api/properties/${propertyData.id}/work-requests/${id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        setWorkRequests(workRequests.filter((wr) => wr.id !== id))
+        loadTransactions()
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || 'Failed to delete work request')
+      }
+    } catch (error: any) {
+      console.error('Error deleting work request:', error)
+      alert(`Failed to delete work request: ${error.message || 'Unknown error'}`)
+    }
   }
 
-  const handleUpdateWorkRequestStatus = (id: string, status: WorkRequest["status"]) => {
-    setWorkRequests(
-      workRequests.map((wr) => (wr.id === id ? { ...wr, status } : wr))
-    )
+  const handleUpdateWorkRequestStatus = async (id: string, status: WorkRequest["status"]) => {
+    try {
+      const response = await fetch(`/api/properties/${propertyData.id}/work-requests/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status }),
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        const updated = mapWorkRequestRow(data.workRequest)
+        setWorkRequests(
+          workRequests.map((wr) => (wr.id === id ? updated : wr))
+        )
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || 'Failed to update work request')
+      }
+    } catch (error: any) {
+      console.error('Error updating work request:', error)
+      alert(`Failed to update work request: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  const handleUploadDocument = async () => {
+    const file = documentInputRef.current?.files?.[0]
+    if (!file) {
+      alert("Please choose a file to upload")
+      return
+    }
+
+    setUploadingDocument(true)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      formData.append("category", newDocument.category)
+      if (newDocument.expiryDate) {
+        formData.append("expiryDate", newDocument.expiryDate)
+      }
+      formData.append("metadata", JSON.stringify(parseMetadataInput(newDocument.metadata)))
+
+      const response = await fetch(`/api/properties/${propertyData.id}/documents`, {
+        method: 'POST',
+        body: formData,
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setDocuments([mapPropertyDocumentRow(data.document), ...documents])
+        setNewDocument({ category: newDocument.category, expiryDate: "", metadata: "" })
+        if (documentInputRef.current) {
+          documentInputRef.current.value = ""
+        }
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || 'Failed to upload document')
+      }
+    } catch (error: any) {
+      console.error('Error uploading document:', error)
+      alert(`Failed to upload document: ${error.message || 'Unknown error'}`)
+    } finally {
+      setUploadingDocument(false)
+    }
+  }
+
+  const handleDeleteDocument = async (id: string) => {
+    if (!confirm("Are you sure you want to delete this document? This action cannot be undone.")) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/properties/${propertyData.id}/documents/${id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        setDocuments(documents.filter((doc) => doc.id !== id))
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || 'Failed to delete document')
+      }
+    } catch (error: any) {
+      console.error('Error deleting document:', error)
+      alert(`Failed to delete document: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  const handleUploadPhotos = async () => {
+    const files = Array.from(photoInputRef.current?.files || [])
+    if (files.length === 0) {
+      alert("Please choose one or more photos to upload")
+      return
+    }
+
+    setUploadingPhotos(true)
+    const uploaded: PropertyPhoto[] = []
+    let coverPhotoId = propertyData.coverPhotoId
+    const failures: string[] = []
+    try {
+      // One request per photo, so one bad file doesn't fail the rest
+      for (let i = 0; i < files.length; i++) {
+        const formData = new FormData()
+        formData.append("file", files[i])
+        if (newPhoto.unitId !== "property") {
+          formData.append("unitId", newPhoto.unitId)
+        }
+        if (newPhoto.caption.trim()) {
+          formData.append("caption", newPhoto.caption.trim())
+        }
+
+        try {
+          const response = await fetch(`/api/properties/${propertyData.id}/photos`, {
+            method: 'POST',
+            body: formData,
+          })
+
+          if (response.ok) {
+            const data = await response.json()
+            uploaded.push(mapPropertyPhotoRow(data.photo))
+            coverPhotoId = data.coverPhotoId || coverPhotoId
+          } else {
+            const errorData = await response.json().catch(() => ({}))
+            throw new Error(errorData.details || errorData.error || 'Failed to upload photo')
+          }
+        } catch (error: any) {
+          console.error('Error uploading photo:', error)
+          failures.push(`${files[i].name}: ${error.message || 'Unknown error'}`)
+        }
+      }
+    } finally {
+      setPhotos([...photos, ...uploaded])
+      handlePropertyFieldChange("coverPhotoId", coverPhotoId)
+      setNewPhoto({ ...newPhoto, caption: "" })
+      if (photoInputRef.current) {
+        photoInputRef.current.value = ""
+      }
+      setUploadingPhotos(false)
+    }
+
+    if (failures.length > 0) {
+      alert(`Failed to upload ${failures.length} photo(s):\n${failures.join("\n")}`)
+    }
+  }
+
+  const handleSetCoverPhoto = async (photoId: string | null) => {
+    try {
+      const response = await fetch(`/api/properties/${propertyData.id}/cover`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ photoId }),
+      })
+
+      if (response.ok) {
+        handlePropertyFieldChange("coverPhotoId", photoId || undefined)
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || 'Failed to set cover photo')
+      }
+    } catch (error: any) {
+      console.error('Error setting cover photo:', error)
+      alert(`Failed to set cover photo: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  const handleDeletePhoto = async (id: string) => {
+    if (!confirm("Are you sure you want to delete this photo? This action cannot be undone.")) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/properties/${propertyData.id}/photos/${id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        setPhotos(photos.filter((photo) => photo.id !== id))
+        if (propertyData.coverPhotoId === id) {
+          handlePropertyFieldChange("coverPhotoId", undefined)
+        }
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || 'Failed to delete photo')
+      }
+    } catch (error: any) {
+      console.error('Error deleting photo:', error)
+      alert(`Failed to delete photo: ${error.message || 'Unknown error'}`)
+    }
   }
 
+  const getPhotoUrl = (photoId: string, size?: "thumbnail") =>
+    `/api/properties/${propertyData.id}/photos/${photoId}${size ? `?size=${size}` : ""}`
+
+  const filteredPhotos = photos.filter((photo) => {
+    if (photoUnitFilter === "all") return true
+    if (photoUnitFilter === "property") return !photo.unitId
+    return photo.unitId === photoUnitFilter
+  })
+
+  // Filter documents by category and by a search across file name and metadata
+  const filteredDocuments = documents.filter((doc) => {
+    if (documentCategoryFilter !== "all" && doc.category !== documentCategoryFilter) {
+      return false
+    }
+    const search = documentSearch.trim().toLowerCase()
+    if (!search) return true
+    return (
+      doc.fileName.toLowerCase().includes(search) ||
+      Object.entries(doc.metadata).some(
+        ([key, value]) =>
+          key.toLowerCase().includes(search) || value.toLowerCase().includes(search)
+      )
+    )
+  })
+
   const getStatusBadgeVariant = (status: Property["status"]) => {
     switch (status) {
       case "rented":
@@ -313,9 +949,9 @@ export default function PropertyDetailsPage() {
     (wr) => wr.status === "new" || wr.status === "in_progress"
   ).length
 
-  const hasNegativeCashflow = calculateMonthlyCashflow() < 0
+  const hasNegativeCashflow = monthlyCashflow < 0
   const needsAttention = hasNegativeCashflow || pendingWorkRequests > 0
-  const isHealthy = !needsAttention && calculateMonthlyCashflow() > 0
+  const isHealthy = !needsAttention && monthlyCashflow > 0
 
   // Get work request count for badge
   const workRequestCount = workRequests.length
@@ -333,6 +969,16 @@ export default function PropertyDetailsPage() {
             Back
           </Button>
           <div className="flex items-center gap-3">
+            {propertyData.coverPhotoId && (
+              <Image
+                src={getPhotoUrl(propertyData.coverPhotoId, "thumbnail")}
+                alt={`${propertyData.address} cover photo`}
+                width={96}
+                height={72}
+                unoptimized
+                className="h-[72px] w-24 rounded-md border object-cover"
+              />
+            )}
             <div>
               <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
                 {propertyData.address}
@@ -363,10 +1009,7 @@ export default function PropertyDetailsPage() {
             </div>
           </div>
         </div>
-        <Button onClick={handleSaveProperty}>
-          <Save className="mr-2 h-4 w-4" />
-          Save Changes
-        </Button>
+        <SaveButton onSave={handleSaveProperty} />
       </div>
 
       {/* Tabs */}
@@ -383,6 +1026,7 @@ export default function PropertyDetailsPage() {
             )}
           </TabsTrigger>
           <TabsTrigger value="documents">Documents</TabsTrigger>
+          <TabsTrigger value="photos">Photos</TabsTrigger>
         </TabsList>
 
         {/* Financial Tab */}
@@ -517,13 +1161,9 @@ export default function PropertyDetailsPage() {
                     name="monthlyGrossRent"
                     type="number"
                     value={propertyData.monthlyGrossRent}
-                    onChange={(e) =>
-                      handlePropertyFieldChange(
-                        "monthlyGrossRent",
-                        parseFloat(e.target.value) || 0
-                      )
-                    }
+                    readOnly
                   />
+                  <p className="text-xs text-muted-foreground">The sum of the units on the Rent Roll tab</p>
                 </div>
 
                 <div className="space-y-2">
@@ -566,7 +1206,7 @@ export default function PropertyDetailsPage() {
                 <div className="space-y-2">
                   <Label>Monthly Total Costs</Label>
                   <div className="text-2xl font-bold">
-                    {formatCurrency(calculateMonthlyCosts())}
+                    {formatCurrency(calculateMonthlyCosts(propertyData))}
                   </div>
                 </div>
 
@@ -574,12 +1214,12 @@ export default function PropertyDetailsPage() {
                   <Label>Monthly Cashflow</Label>
                   <div
                     className={`text-2xl font-bold ${
-                      calculateMonthlyCashflow() >= 0
+                      monthlyCashflow >= 0
                         ? "text-green-600 dark:text-green-400"
                         : "text-red-600 dark:text-red-400"
                     }`}
                   >
-                    {formatCurrency(calculateMonthlyCashflow())}
+                    {formatCurrency(monthlyCashflow)}
                   </div>
                 </div>
 
@@ -587,66 +1227,673 @@ export default function PropertyDetailsPage() {
                   <Label>Annual Cashflow</Label>
                   <div
                     className={`text-2xl font-bold ${
-                      calculateAnnualCashflow() >= 0
+                      annualCashflow >= 0
+                        ? "text-green-600 dark:text-green-400"
+                        : "text-red-600 dark:text-red-400"
+                    }`}
+                  >
+                    {formatCurrency(annualCashflow)}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Our Share of Monthly Cashflow ({Math.round(getOwnershipShare(propertyData) * 10000) / 100}%)</Label>
+                  <div
+                    className={`text-2xl font-bold ${
+                      monthlyCashflow >= 0
                         ? "text-green-600 dark:text-green-400"
                         : "text-red-600 dark:text-red-400"
                     }`}
                   >
-                    {formatCurrency(calculateAnnualCashflow())}
+                    {formatCurrency(monthlyCashflow * getOwnershipShare(propertyData))}
                   </div>
                 </div>
 
                 <div className="space-y-2">
                   <Label>Cap Rate</Label>
                   <div className="text-2xl font-bold">
-                    {formatPercentage(calculateCapRate())}
+                    {formatPercentage(calculateCapRate(propertyData))}
                   </div>
                 </div>
 
                 <div className="space-y-2">
                   <Label>Cash-on-Cash Return</Label>
                   <div className="text-2xl font-bold">
-                    {formatPercentage(calculateCashOnCashReturn())}
+                    {formatPercentage(calculateCashOnCashReturn(propertyData))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Current Loan Balance</Label>
+                  <div className="text-2xl font-bold">
+                    {formatCurrency(calculateCurrentBalance(propertyData))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Equity</Label>
+                  <div className="text-2xl font-bold">
+                    {formatCurrency(calculateEquity(propertyData))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>DSCR</Label>
+                  <div
+                    className={`text-2xl font-bold ${
+                      dscr !== null && dscr < 1.25 ? "text-red-600 dark:text-red-400" : ""
+                    }`}
+                  >
+                    {dscr !== null ? `${dscr.toFixed(2)}x` : "No debt"}
                   </div>
                 </div>
               </CardContent>
             </Card>
           </div>
-        </TabsContent>
 
-        {/* Rent Roll Tab */}
-        <TabsContent value="rentroll" className="space-y-4">
+          {/* Value History */}
           <Card>
             <CardHeader>
-              <div className="flex items-center justify-between">
+              <CardTitle>Value History</CardTitle>
+              <CardDescription>
+                Dated valuations from appraisals, estimates and comps. The most recent one sets the current est. value.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3">
                 <div>
-                  <CardTitle>Rent Roll / Units</CardTitle>
-                  <CardDescription>
-                    Manage individual units and tenants
-                  </CardDescription>
+                  <div className="text-sm text-muted-foreground">Annualized Appreciation</div>
+                  <div
+                    className={`text-2xl font-bold ${
+                      appreciation && appreciation.annualizedRate < 0
+                        ? "text-red-600 dark:text-red-400"
+                        : "text-green-600 dark:text-green-400"
+                    }`}
+                  >
+                    {appreciation ? formatPercentage(appreciation.annualizedRate) : "—"}
+                  </div>
+                  {!appreciation && (
+                    <div className="text-xs text-muted-foreground">
+                      Needs valuations at least 3 months apart
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <div className="text-sm text-muted-foreground">Total Change</div>
+                  <div className="text-2xl font-bold">
+                    {appreciation ? formatPercentage(appreciation.totalChange) : "—"}
+                  </div>
+                  {appreciation && (
+                    <div className="text-xs text-muted-foreground">
+                      {formatCurrency(appreciation.startValue)} on {appreciation.startDate} to{" "}
+                      {formatCurrency(appreciation.endValue)} on {appreciation.endDate}
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <div className="text-sm text-muted-foreground">Equity Growth</div>
+                  <div className="text-2xl font-bold">
+                    {valueHistory.length > 1
+                      ? formatCurrency(valueHistory[valueHistory.length - 1].equity - valueHistory[0].equity)
+                      : "—"}
+                  </div>
                 </div>
               </div>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              {/* Units Table */}
-              <div className="border rounded-lg">
+
+              <ValueHistoryChart points={valueHistory} formatCurrency={formatCurrency} />
+
+              <div className="border rounded-lg max-h-72 overflow-y-auto">
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Unit Name</TableHead>
-                      <TableHead>Tenant Name</TableHead>
-                      <TableHead className="text-right">Monthly Rent</TableHead>
-                      <TableHead>Lease Start</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Source</TableHead>
+                      <TableHead>Notes</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...valuations].reverse().map((valuation) => (
+                      <TableRow key={valuation.id}>
+                        <TableCell>{valuation.date}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">
+                            {VALUATION_SOURCES.find((s) => s.value === valuation.source)?.label ||
+                              valuation.source}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{valuation.notes}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatCurrency(valuation.value)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteValuation(valuation.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {valuations.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-muted-foreground">
+                          No valuations recorded yet
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-4">
+                <div className="space-y-2">
+                  <Label htmlFor="valuationDate">Date</Label>
+                  <Input
+                    id="valuationDate"
+                    name="valuationDate"
+                    type="date"
+                    value={newValuation.date || ""}
+                    onChange={(e) =>
+                      setNewValuation({ ...newValuation, date: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="valuationSource">Source</Label>
+                  <Select
+                    value={newValuation.source}
+                    onValueChange={(value) =>
+                      setNewValuation({
+                        ...newValuation,
+                        source: value as PropertyValuation["source"],
+                      })
+                    }
+                  >
+                    <SelectTrigger id="valuationSource" name="valuationSource">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {VALUATION_SOURCES.map((source) => (
+                        <SelectItem key={source.value} value={source.value}>
+                          {source.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <input type="hidden" name="valuationSource" value={newValuation.source || ""} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="valuationValue">Value</Label>
+                  <Input
+                    id="valuationValue"
+                    name="valuationValue"
+                    type="number"
+                    min="0"
+                    value={newValuation.value ?? ""}
+                    onChange={(e) =>
+                      setNewValuation({
+                        ...newValuation,
+                        value: e.target.value === "" ? undefined : parseFloat(e.target.value) || 0,
+                      })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="valuationNotes">Notes</Label>
+                  <Input
+                    id="valuationNotes"
+                    name="valuationNotes"
+                    value={newValuation.notes || ""}
+                    onChange={(e) =>
+                      setNewValuation({ ...newValuation, notes: e.target.value })
+                    }
+                    placeholder="e.g., Appraiser or comparable addresses"
+                  />
+                </div>
+              </div>
+              <Button onClick={handleAddValuation}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Valuation
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Actual vs Projected */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Actual vs Projected</CardTitle>
+              <CardDescription>
+                Ledger totals for the last 12 months against the projected monthly figures
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="border rounded-lg overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Month</TableHead>
+                      <TableHead className="text-right">Income</TableHead>
+                      <TableHead className="text-right">Projected Income</TableHead>
+                      <TableHead className="text-right">Expenses</TableHead>
+                      <TableHead className="text-right">Projected Expenses</TableHead>
+                      <TableHead className="text-right">Net</TableHead>
+                      <TableHead className="text-right">Projected Net</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {ledgerByMonth.map((month) => (
+                      <TableRow key={month.month}>
+                        <TableCell className="font-medium">{month.month}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(month.actualIncome)}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">
+                          {formatCurrency(month.projectedIncome)}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(month.actualExpenses)}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">
+                          {formatCurrency(month.projectedExpenses)}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right font-semibold ${
+                            month.actualNet >= month.projectedNet
+                              ? "text-green-600 dark:text-green-400"
+                              : "text-red-600 dark:text-red-400"
+                          }`}
+                        >
+                          {formatCurrency(month.actualNet)}
+                        </TableCell>
+                        <TableCell className="text-right text-muted-foreground">
+                          {formatCurrency(month.projectedNet)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Ledger */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Ledger</CardTitle>
+              <CardDescription>
+                Actual income and expenses. Work request costs are posted automatically.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="border rounded-lg max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {transactions.map((transaction) => (
+                      <TableRow key={transaction.id}>
+                        <TableCell>{transaction.date}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">
+                            {TRANSACTION_CATEGORIES.find((c) => c.value === transaction.category)?.label ||
+                              transaction.category}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {transaction.description}
+                          {transaction.source === "work_request" && (
+                            <span className="ml-2 text-xs text-muted-foreground">(work request)</span>
+                          )}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right font-medium ${
+                            isIncomeCategory(transaction.category)
+                              ? "text-green-600 dark:text-green-400"
+                              : "text-red-600 dark:text-red-400"
+                          }`}
+                        >
+                          {isIncomeCategory(transaction.category) ? "+" : "-"}
+                          {formatCurrency(transaction.amount)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {transaction.source !== "work_request" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeleteTransaction(transaction.id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {transactions.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-muted-foreground">
+                          No transactions recorded yet
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-4">
+                <div className="space-y-2">
+                  <Label htmlFor="transactionDate">Date</Label>
+                  <Input
+                    id="transactionDate"
+                    name="transactionDate"
+                    type="date"
+                    value={newTransaction.date || ""}
+                    onChange={(e) =>
+                      setNewTransaction({ ...newTransaction, date: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="transactionCategory">Category</Label>
+                  <Select
+                    value={newTransaction.category}
+                    onValueChange={(value) =>
+                      setNewTransaction({
+                        ...newTransaction,
+                        category: value as PropertyTransaction["category"],
+                      })
+                    }
+                  >
+                    <SelectTrigger id="transactionCategory" name="transactionCategory">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TRANSACTION_CATEGORIES.map((category) => (
+                        <SelectItem key={category.value} value={category.value}>
+                          {category.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <input type="hidden" name="transactionCategory" value={newTransaction.category || ""} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="transactionAmount">Amount</Label>
+                  <Input
+                    id="transactionAmount"
+                    name="transactionAmount"
+                    type="number"
+                    min="0"
+                    value={newTransaction.amount ?? ""}
+                    onChange={(e) =>
+                      setNewTransaction({
+                        ...newTransaction,
+                        amount: e.target.value === "" ? undefined : parseFloat(e.target.value) || 0,
+                      })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="transactionDescription">Description</Label>
+                  <Input
+                    id="transactionDescription"
+                    name="transactionDescription"
+                    value={newTransaction.description || ""}
+                    onChange={(e) =>
+                      setNewTransaction({ ...newTransaction, description: e.target.value })
+                    }
+                    placeholder="e.g., March rent - Unit 1A"
+                  />
+                </div>
+              </div>
+              <Button onClick={handleAddTransaction}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Transaction
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Loan Terms */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Loan Terms</CardTitle>
+              <CardDescription>
+                Used for the loan balance, equity, cash-on-cash return and DSCR
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="downPayment">Down Payment</Label>
+                  <Input
+                    id="downPayment"
+                    name="downPayment"
+                    type="number"
+                    value={propertyData.downPayment ?? ""}
+                    onChange={(e) =>
+                      handlePropertyFieldChange(
+                        "downPayment",
+                        e.target.value === "" ? undefined : parseFloat(e.target.value) || 0
+                      )
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="interestRate">Interest Rate (%)</Label>
+                  <Input
+                    id="interestRate"
+                    name="interestRate"
+                    type="number"
+                    step="0.001"
+                    value={propertyData.interestRate ?? ""}
+                    onChange={(e) =>
+                      handlePropertyFieldChange(
+                        "interestRate",
+                        e.target.value === "" ? undefined : parseFloat(e.target.value) || 0
+                      )
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="amortizationYears">Amortization (years)</Label>
+                  <Input
+                    id="amortizationYears"
+                    name="amortizationYears"
+                    type="number"
+                    value={propertyData.amortizationYears ?? ""}
+                    onChange={(e) =>
+                      handlePropertyFieldChange(
+                        "amortizationYears",
+                        e.target.value === "" ? undefined : parseFloat(e.target.value) || 0
+                      )
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="loanOriginationDate">Origination Date</Label>
+                  <Input
+                    id="loanOriginationDate"
+                    name="loanOriginationDate"
+                    type="date"
+                    value={propertyData.loanOriginationDate || ""}
+                    onChange={(e) =>
+                      handlePropertyFieldChange("loanOriginationDate", e.target.value || undefined)
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="closingCosts">Closing Costs</Label>
+                  <Input
+                    id="closingCosts"
+                    name="closingCosts"
+                    type="number"
+                    value={propertyData.closingCosts ?? ""}
+                    onChange={(e) =>
+                      handlePropertyFieldChange(
+                        "closingCosts",
+                        e.target.value === "" ? undefined : parseFloat(e.target.value) || 0
+                      )
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2 text-sm">
+                <div>
+                  <span className="text-muted-foreground">Loan Amount: </span>
+                  <span className="font-medium">{formatCurrency(getLoanAmount(propertyData))}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Principal &amp; Interest: </span>
+                  <span className="font-medium">
+                    {formatCurrency(
+                      calculateMonthlyPayment(
+                        getLoanAmount(propertyData),
+                        propertyData.interestRate ?? 0,
+                        propertyData.amortizationYears ?? 0
+                      )
+                    )}
+                    /mo
+                  </span>
+                </div>
+              </div>
+
+              {amortizationByYear.length > 0 && (
+                <div className="border rounded-lg max-h-80 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Year</TableHead>
+                        <TableHead className="text-right">Principal</TableHead>
+                        <TableHead className="text-right">Interest</TableHead>
+                        <TableHead className="text-right">Ending Balance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {amortizationByYear.map((year) => (
+                        <TableRow key={year.year}>
+                          <TableCell>{year.year}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(year.principal)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(year.interest)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(year.balance)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Ownership */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Ownership</CardTitle>
+              <CardDescription>
+                Our equity share and co-owners. Portfolio totals are reported at our share.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2 max-w-xs">
+                <Label htmlFor="ownershipPercentage">Our Ownership (%)</Label>
+                <Input
+                  id="ownershipPercentage"
+                  name="ownershipPercentage"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={propertyData.ownershipPercentage ?? 100}
+                  onChange={(e) =>
+                    handlePropertyFieldChange(
+                      "ownershipPercentage",
+                      parseFloat(e.target.value) || 0
+                    )
+                  }
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Partners</Label>
+                {(propertyData.partners || []).map((partner, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      id={`partnerName-${index}`}
+                      name={`partnerName-${index}`}
+                      value={partner.name}
+                      onChange={(e) => handlePartnerChange(index, "name", e.target.value)}
+                      placeholder="Partner name"
+                    />
+                    <Input
+                      id={`partnerPercentage-${index}`}
+                      name={`partnerPercentage-${index}`}
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={partner.percentage}
+                      onChange={(e) => handlePartnerChange(index, "percentage", e.target.value)}
+                      className="w-28"
+                    />
+                    <span className="text-sm text-muted-foreground">%</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemovePartner(index)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={handleAddPartner}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Partner
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Rent Roll Tab */}
+        <TabsContent value="rentroll" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Rent Roll / Units</CardTitle>
+                  <CardDescription>
+                    Manage individual units and tenants
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {/* Units Table */}
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Unit Name</TableHead>
+                      <TableHead>Tenant Name</TableHead>
+                      <TableHead className="text-right">Monthly Rent</TableHead>
+                      <TableHead>Lease Start</TableHead>
                       <TableHead>Lease End</TableHead>
                       <TableHead className="text-right">
                         Security Deposit
                       </TableHead>
+                      <TableHead className="text-right">Photos</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {rentRoll.map((unit, index) => (
-                      <TableRow key={index}>
+                    {rentRoll.map((unit) => (
+                      <TableRow key={unit.id}>
                         <TableCell className="font-medium">
                           {unit.unitName}
                         </TableCell>
@@ -659,11 +1906,14 @@ export default function PropertyDetailsPage() {
                         <TableCell className="text-right">
                           {formatCurrency(unit.securityDeposit)}
                         </TableCell>
+                        <TableCell className="text-right">
+                          {photos.filter((photo) => photo.unitId === unit.id).length}
+                        </TableCell>
                         <TableCell className="text-right">
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => handleDeleteUnit(index)}
+                            onClick={() => handleDeleteUnit(unit.id)}
                           >
                             <Trash2 className="h-4 w-4" />
                           </Button>
@@ -672,7 +1922,7 @@ export default function PropertyDetailsPage() {
                     ))}
                     {rentRoll.length === 0 && (
                       <TableRow>
-                        <TableCell colSpan={7} className="text-center text-muted-foreground">
+                        <TableCell colSpan={8} className="text-center text-muted-foreground">
                           No units added yet
                         </TableCell>
                       </TableRow>
@@ -777,6 +2027,306 @@ export default function PropertyDetailsPage() {
               </Card>
             </CardContent>
           </Card>
+
+          {/* Leases */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Lease History</CardTitle>
+                  <CardDescription>
+                    Every lease of each unit. A unit&apos;s current lease sets its tenant, dates, rent and deposit
+                    above, and its rent escalations apply automatically.
+                  </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/properties/tenants">Manage Tenants</Link>
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tenants</TableHead>
+                      <TableHead>Term</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Rent Now</TableHead>
+                      <TableHead>Next Escalation</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rentRoll.map((unit) => {
+                      const unitLeases = leases.filter((lease) => lease.unitId === unit.id)
+                      return [
+                        <TableRow key={unit.id} className="bg-muted/50 hover:bg-muted/50">
+                          <TableCell colSpan={6} className="font-medium">
+                            {unit.unitName}
+                            <span className="ml-2 text-xs font-normal text-muted-foreground">
+                              {unitLeases.length} lease{unitLeases.length === 1 ? "" : "s"}
+                            </span>
+                          </TableCell>
+                        </TableRow>,
+                        ...unitLeases.map((lease) => {
+                          const nextEscalation = getNextEscalation(lease, today)
+                          return (
+                            <TableRow key={lease.id}>
+                              <TableCell>
+                                {lease.tenants.map((tenant, index) => (
+                                  <span key={tenant.tenantId}>
+                                    {index > 0 && ", "}
+                                    <Link href={`/properties/tenants/${tenant.tenantId}`} className="hover:underline">
+                                      {tenant.name}
+                                    </Link>
+                                  </span>
+                                ))}
+                                {lease.renewedFromLeaseId && (
+                                  <div className="text-xs text-muted-foreground">Renewal</div>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                {lease.startDate} to {lease.endDate}
+                                {(lease.moveInDate || lease.moveOutDate) && (
+                                  <div className="text-xs text-muted-foreground">
+                                    {lease.moveInDate && `Moved in ${lease.moveInDate}`}
+                                    {lease.moveInDate && lease.moveOutDate && " · "}
+                                    {lease.moveOutDate && `Moved out ${lease.moveOutDate}`}
+                                  </div>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                <LeaseStatusBadge lease={lease} />
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {formatCurrency(getLeaseRentOn(lease, today))}
+                              </TableCell>
+                              <TableCell>
+                                {nextEscalation
+                                  ? `${formatCurrency(nextEscalation.monthlyRent)} on ${nextEscalation.date}`
+                                  : "—"}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                <Button variant="outline" size="sm" onClick={() => setSelectedLeaseId(lease.id)}>
+                                  Manage
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleDeleteLease(lease.id)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          )
+                        }),
+                      ]
+                    })}
+                    {leases.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center text-muted-foreground">
+                          No leases added yet
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="leaseUnit">Unit</Label>
+                  <Select
+                    value={newLease.unitId || ""}
+                    onValueChange={(value) => setNewLease({ ...newLease, unitId: value })}
+                  >
+                    <SelectTrigger id="leaseUnit" name="leaseUnit">
+                      <SelectValue placeholder="Choose a unit" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {rentRoll.map((unit) => (
+                        <SelectItem key={unit.id} value={unit.id}>
+                          {unit.unitName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <input type="hidden" name="leaseUnit" value={newLease.unitId || ""} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leaseStartDate">Start</Label>
+                  <Input
+                    id="leaseStartDate"
+                    name="leaseStartDate"
+                    type="date"
+                    value={newLease.startDate || ""}
+                    onChange={(e) => setNewLease({ ...newLease, startDate: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leaseEndDate">End</Label>
+                  <Input
+                    id="leaseEndDate"
+                    name="leaseEndDate"
+                    type="date"
+                    value={newLease.endDate || ""}
+                    onChange={(e) => setNewLease({ ...newLease, endDate: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leaseMonthlyRent">Monthly Rent</Label>
+                  <Input
+                    id="leaseMonthlyRent"
+                    name="leaseMonthlyRent"
+                    type="number"
+                    min="0"
+                    value={newLease.monthlyRent ?? ""}
+                    onChange={(e) =>
+                      setNewLease({
+                        ...newLease,
+                        monthlyRent: e.target.value === "" ? undefined : parseFloat(e.target.value) || 0,
+                      })
+                    }
+                    placeholder="Unit's rent"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leaseSecurityDeposit">Security Deposit</Label>
+                  <Input
+                    id="leaseSecurityDeposit"
+                    name="leaseSecurityDeposit"
+                    type="number"
+                    min="0"
+                    value={newLease.securityDeposit ?? ""}
+                    onChange={(e) =>
+                      setNewLease({
+                        ...newLease,
+                        securityDeposit: e.target.value === "" ? undefined : parseFloat(e.target.value) || 0,
+                      })
+                    }
+                    placeholder="Unit's deposit"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leaseNewStatus">Status</Label>
+                  <Select
+                    value={newLease.status || "active"}
+                    onValueChange={(value) => setNewLease({ ...newLease, status: value as Lease["status"] })}
+                  >
+                    <SelectTrigger id="leaseNewStatus" name="leaseNewStatus">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="active">Active (signed)</SelectItem>
+                      <SelectItem value="draft">Draft</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <input type="hidden" name="leaseNewStatus" value={newLease.status || "active"} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leaseNewEscalationType">Escalation</Label>
+                  <Select
+                    value={newLease.escalationType || "none"}
+                    onValueChange={(value) =>
+                      setNewLease({ ...newLease, escalationType: value as Lease["escalationType"] })
+                    }
+                  >
+                    <SelectTrigger id="leaseNewEscalationType" name="leaseNewEscalationType">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ESCALATION_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <input type="hidden" name="leaseNewEscalationType" value={newLease.escalationType || "none"} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leaseNewEscalationValue">
+                    {newLease.escalationType === "percent" ? "Escalation (% per year)" : "Escalation ($ per year)"}
+                  </Label>
+                  <Input
+                    id="leaseNewEscalationValue"
+                    name="leaseNewEscalationValue"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    disabled={!newLease.escalationType || newLease.escalationType === "none"}
+                    value={newLease.escalationValue ?? ""}
+                    onChange={(e) =>
+                      setNewLease({
+                        ...newLease,
+                        escalationValue: e.target.value === "" ? undefined : parseFloat(e.target.value) || 0,
+                      })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leaseNewMoveInDate">Move-in Date</Label>
+                  <Input
+                    id="leaseNewMoveInDate"
+                    name="leaseNewMoveInDate"
+                    type="date"
+                    value={newLease.moveInDate || ""}
+                    onChange={(e) => setNewLease({ ...newLease, moveInDate: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="leaseNewTerms">Terms</Label>
+                  <Input
+                    id="leaseNewTerms"
+                    name="leaseNewTerms"
+                    value={newLease.terms || ""}
+                    onChange={(e) => setNewLease({ ...newLease, terms: e.target.value })}
+                    placeholder="e.g., Rent due on the 1st, no pets"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Tenants (the first one chosen is the primary tenant)</Label>
+                <div className="flex flex-wrap gap-2">
+                  {tenants.map((tenant) => {
+                    const position = newLease.tenantIds.indexOf(tenant.id)
+                    return (
+                      <Button
+                        key={tenant.id}
+                        type="button"
+                        variant={position >= 0 ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => handleToggleLeaseTenant(tenant.id)}
+                      >
+                        {tenant.name}
+                        {position === 0 && " (primary)"}
+                      </Button>
+                    )
+                  })}
+                  {tenants.length === 0 && (
+                    <div className="text-sm text-muted-foreground">
+                      No tenants yet. <Link href="/properties/tenants" className="underline">Add one</Link> first.
+                    </div>
+                  )}
+                </div>
+              </div>
+              <Button onClick={handleAddLease}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Lease
+              </Button>
+            </CardContent>
+          </Card>
+          <LeaseDialog
+            open={selectedLease !== null}
+            onOpenChange={(open) => !open && setSelectedLeaseId(null)}
+            propertyId={propertyData.id}
+            lease={selectedLease}
+            unitName={rentRoll.find((unit) => unit.id === selectedLease?.unitId)?.unitName}
+            formatCurrency={formatCurrency}
+            onLeaseSaved={handleLeaseSaved}
+          />
         </TabsContent>
 
         {/* Work Requests Tab */}
@@ -814,6 +2364,13 @@ export default function PropertyDetailsPage() {
                           >
                             {request.status.replace("_", " ")}
                           </Badge>
+                          {request.statusHistory && request.statusHistory.length > 0 && (
+                            <div className="mt-1 text-xs text-muted-foreground">
+                              {Object.entries(calculateTimeInStatus(request.statusHistory))
+                                .map(([status, ms]) => `${status.replace("_", " ")} ${formatDuration(ms || 0)}`)
+                                .join(" · ")}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell className="text-right">
                           {formatCurrency(request.cost)}
@@ -963,30 +2520,324 @@ export default function PropertyDetailsPage() {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="border-2 border-dashed rounded-lg p-8 text-center">
-                <FileText className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-                <h3 className="text-lg font-semibold mb-2">
-                  Document Management
-                </h3>
-                <p className="text-muted-foreground mb-4">
-                  Upload PDFs for insurance policies, tax bills, and mortgage
-                  agreements
-                </p>
-                <div className="flex gap-2 justify-center">
-                  <Button>
+              {/* Filters */}
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Select
+                  value={documentCategoryFilter}
+                  onValueChange={setDocumentCategoryFilter}
+                >
+                  <SelectTrigger className="w-full sm:w-48" id="documentCategoryFilter" name="documentCategoryFilter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Categories</SelectItem>
+                    {documentCategories.map((category) => (
+                      <SelectItem key={category.value} value={category.value}>
+                        {category.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <input type="hidden" name="documentCategoryFilter" value={documentCategoryFilter} />
+                <Input
+                  id="documentSearch"
+                  name="documentSearch"
+                  value={documentSearch}
+                  onChange={(e) => setDocumentSearch(e.target.value)}
+                  placeholder="Search file name or metadata"
+                  className="sm:max-w-xs"
+                />
+              </div>
+
+              {/* Documents Table */}
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>File</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Expires</TableHead>
+                      <TableHead>Metadata</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredDocuments.map((doc) => (
+                      <TableRow key={doc.id}>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            <FileText className="h-4 w-4 text-muted-foreground" />
+                            {doc.fileName}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">
+                            {documentCategories.find((c) => c.value === doc.category)?.label || doc.category}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{doc.expiryDate || "—"}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {Object.entries(doc.metadata)
+                            .map(([key, value]) => `${key}: ${value}`)
+                            .join(", ") || "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <a href={`/api/properties/${propertyData.id}/documents/${doc.id}`}>
+                              <Button variant="ghost" size="sm" title="Download">
+                                <Download className="h-4 w-4" />
+                              </Button>
+                            </a>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeleteDocument(doc.id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {filteredDocuments.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-muted-foreground">
+                          {documents.length === 0 ? "No documents uploaded yet" : "No documents match your filters"}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {/* Upload Document Form */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Upload Document</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor="documentFile">File</Label>
+                      <Input
+                        ref={documentInputRef}
+                        id="documentFile"
+                        name="documentFile"
+                        type="file"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="documentCategory">Category</Label>
+                      <Select
+                        value={newDocument.category}
+                        onValueChange={(value) =>
+                          setNewDocument({
+                            ...newDocument,
+                            category: value as PropertyDocument["category"],
+                          })
+                        }
+                      >
+                        <SelectTrigger id="documentCategory" name="documentCategory">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {documentCategories.map((category) => (
+                            <SelectItem key={category.value} value={category.value}>
+                              {category.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <input type="hidden" name="documentCategory" value={newDocument.category} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="documentExpiryDate">Expiry Date (optional)</Label>
+                      <Input
+                        id="documentExpiryDate"
+                        name="documentExpiryDate"
+                        type="date"
+                        value={newDocument.expiryDate}
+                        onChange={(e) =>
+                          setNewDocument({ ...newDocument, expiryDate: e.target.value })
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor="documentMetadata">Metadata (optional)</Label>
+                      <Input
+                        id="documentMetadata"
+                        name="documentMetadata"
+                        value={newDocument.metadata}
+                        onChange={(e) =>
+                          setNewDocument({ ...newDocument, metadata: e.target.value })
+                        }
+                        placeholder="e.g., provider=State Farm, policy=HO-12345"
+                      />
+                    </div>
+                  </div>
+                  <Button
+                    onClick={handleUploadDocument}
+                    disabled={uploadingDocument}
+                    className="mt-4"
+                  >
                     <Upload className="mr-2 h-4 w-4" />
-                    Upload Document
+                    {uploadingDocument ? "Uploading..." : "Upload Document"}
                   </Button>
-                  <Button variant="outline">
-                    <FileText className="mr-2 h-4 w-4" />
-                    Link External Document
-                  </Button>
-                </div>
-                <p className="text-sm text-muted-foreground mt-4">
-                  Note: Document upload functionality will be implemented with
-                  file storage integration (e.g., Supabase Storage, AWS S3)
-                </p>
+                </CardContent>
+              </Card>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Photos Tab */}
+        <TabsContent value="photos" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Photos</CardTitle>
+              <CardDescription>
+                Photos of the property and its units. The cover photo is shown in
+                the properties list and at the top of this page.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {/* Filter */}
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Select value={photoUnitFilter} onValueChange={setPhotoUnitFilter}>
+                  <SelectTrigger className="w-full sm:w-48" id="photoUnitFilter" name="photoUnitFilter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Photos</SelectItem>
+                    <SelectItem value="property">Whole Property</SelectItem>
+                    {rentRoll.map((unit) => (
+                      <SelectItem key={unit.id} value={unit.id}>
+                        {unit.unitName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <input type="hidden" name="photoUnitFilter" value={photoUnitFilter} />
               </div>
+
+              {/* Gallery */}
+              {filteredPhotos.length > 0 ? (
+                <div className="grid gap-4 grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
+                  {filteredPhotos.map((photo) => {
+                    const isCover = propertyData.coverPhotoId === photo.id
+                    const unit = rentRoll.find((u) => u.id === photo.unitId)
+                    return (
+                      <div key={photo.id} className="border rounded-lg overflow-hidden">
+                        <a href={getPhotoUrl(photo.id)} target="_blank" rel="noopener noreferrer">
+                          <Image
+                            src={getPhotoUrl(photo.id, "thumbnail")}
+                            alt={photo.caption || photo.fileName}
+                            width={400}
+                            height={300}
+                            unoptimized
+                            className="h-40 w-full object-cover"
+                          />
+                        </a>
+                        <div className="p-2 space-y-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="min-w-0">
+                              <div className="text-sm font-medium truncate">
+                                {photo.caption || photo.fileName}
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {unit ? unit.unitName : "Whole property"}
+                              </div>
+                            </div>
+                            <div className="flex items-center">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title={isCover ? "Remove as cover" : "Set as cover"}
+                                onClick={() => handleSetCoverPhoto(isCover ? null : photo.id)}
+                              >
+                                <Star className={`h-4 w-4 ${isCover ? "text-yellow-500 fill-yellow-500" : ""}`} />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Delete"
+                                onClick={() => handleDeletePhoto(photo.id)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                          {isCover && <Badge variant="secondary">Cover</Badge>}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              ) : (
+                <div className="border rounded-lg p-8 text-center text-muted-foreground">
+                  <ImageIcon className="h-8 w-8 mx-auto mb-2" />
+                  {photos.length === 0 ? "No photos uploaded yet" : "No photos for this unit"}
+                </div>
+              )}
+
+              {/* Upload Photos Form */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Upload Photos</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor="photoFiles">Photos (JPEG, PNG, WebP or GIF)</Label>
+                      <Input
+                        ref={photoInputRef}
+                        id="photoFiles"
+                        name="photoFiles"
+                        type="file"
+                        accept="image/jpeg,image/png,image/webp,image/gif"
+                        multiple
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="photoUnit">Shows</Label>
+                      <Select
+                        value={newPhoto.unitId}
+                        onValueChange={(value) => setNewPhoto({ ...newPhoto, unitId: value })}
+                      >
+                        <SelectTrigger id="photoUnit" name="photoUnit">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="property">Whole Property</SelectItem>
+                          {rentRoll.map((unit) => (
+                            <SelectItem key={unit.id} value={unit.id}>
+                              {unit.unitName}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <input type="hidden" name="photoUnit" value={newPhoto.unitId} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="photoCaption">Caption (optional)</Label>
+                      <Input
+                        id="photoCaption"
+                        name="photoCaption"
+                        value={newPhoto.caption}
+                        onChange={(e) => setNewPhoto({ ...newPhoto, caption: e.target.value })}
+                        placeholder="e.g., Front elevation"
+                      />
+                    </div>
+                  </div>
+                  <Button
+                    onClick={handleUploadPhotos}
+                    disabled={uploadingPhotos}
+                    className="mt-4"
+                  >
+                    <Upload className="mr-2 h-4 w-4" />
+                    {uploadingPhotos ? "Uploading..." : "Upload Photos"}
+                  </Button>
+                </CardContent>
+              </Card>
             </CardContent>
           </Card>
         </TabsContent>
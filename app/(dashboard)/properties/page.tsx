@@ -26,24 +26,60 @@ import { Label } from "@/components/ui/label"
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
+  SelectSeparator,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
-import { Plus, ArrowUpDown, Edit, Upload, Download, FileText, Star, AlertCircle, Trash2, Check, X, Minus } from "lucide-react"
+import { Plus, ArrowUpDown, Edit, Upload, Download, FileText, Star, AlertCircle, Trash2, Check, X, Minus, ChevronLeft, ChevronRight, ImageIcon, List, MapIcon, Users } from "lucide-react"
 import { SaveButton } from "@/components/ui/save-button"
-import { Property } from "@/types"
+import { TransactionImportDialog } from "@/components/properties/transaction-import-dialog"
+import { OccupancyChart } from "@/components/properties/occupancy-chart"
+import { CustomFieldDefinition, CustomFieldType, ImportMappingProfile, Property } from "@/types"
 import { useState, useMemo, useCallback, useRef, useEffect } from "react"
 import { useUser } from "@clerk/nextjs"
 import Link from "next/link"
+import Image from "next/image"
+import dynamic from "next/dynamic"
 import {
   PropertyField,
   PropertyFieldMapping,
+  CustomFieldTarget,
+  applyMappingProfile,
+  findMatchingProfile,
+  getCustomFieldTarget,
   generateInitialMapping,
-  mapCsvRowToProperty,
+  ImportRowAction,
+  PropertyImportPreviewRow,
+  buildImportPreview,
+  getGrossRentHeaders,
+  getMappedPropertyValues,
+  parseCsvFile,
   validateMapping,
   REQUIRED_FIELDS,
 } from "@/lib/csv-import"
+import { getWorkbookSheetNames, isSpreadsheetFile, readWorkbookSheet } from "@/lib/spreadsheet-import"
+import { mapPropertyRow } from "@/lib/property-mappers"
+import { formatOwnership, parseOwnershipPercentage } from "@/lib/ownership"
+import {
+  CUSTOM_FIELD_TYPES,
+  CUSTOM_FIELD_TYPE_LABELS,
+  formatCustomFieldValue,
+  parseCustomFieldValue,
+} from "@/lib/custom-fields"
+import type { PortfolioSummary, PortfolioTotals } from "@/lib/portfolio"
+import type { OccupancyReport } from "@/lib/occupancy"
+import {
+  calculateMonthlyCashflow,
+  calculateMonthlyCosts,
+  calculateROE,
+} from "@/lib/finance"
+
+// Properties loaded from the database have UUIDs; new rows use temporary ids until saved
+const isSavedPropertyId = (id: string) =>
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)
 
 // Mock data with new fields
 const mockProperties: Property[] = [
@@ -62,6 +98,7 @@ const mockProperties: Property[] = [
     monthlyGrossRent: 4500,
     rentRoll: [
       {
+        id: "1",
         unitName: "Unit 1A",
         tenantName: "John Doe",
         monthlyRent: 2500,
@@ -70,6 +107,7 @@ const mockProperties: Property[] = [
         securityDeposit: 2500,
       },
       {
+        id: "2",
         unitName: "Unit 1B",
         tenantName: "Jane Smith",
         monthlyRent: 2000,
@@ -87,7 +125,7 @@ const mockProperties: Property[] = [
         cost: 150,
       },
     ],
-    ownership: "100% ownership",
+    ownershipPercentage: 100,
     },
     {
       id: "2",
@@ -104,6 +142,7 @@ const mockProperties: Property[] = [
     monthlyGrossRent: 6500,
     rentRoll: [
       {
+        id: "3",
         unitName: "Main House",
         tenantName: "Bob Johnson",
         monthlyRent: 6500,
@@ -113,7 +152,8 @@ const mockProperties: Property[] = [
       },
     ],
     workRequests: [],
-    ownership: "50% partner",
+    ownershipPercentage: 50,
+    partners: [{ name: "Oak Ave Partners LLC", percentage: 50 }],
   },
   {
     id: "3",
@@ -138,22 +178,180 @@ const mockProperties: Property[] = [
         cost: 800,
       },
     ],
-    ownership: "100% ownership",
+    ownershipPercentage: 100,
   },
 ]
 
+const EMPTY_PORTFOLIO_TOTALS: PortfolioTotals = {
+  totalEstValue: 0,
+  totalMonthlyGrossRent: 0,
+  totalMonthlyCosts: 0,
+  totalMonthlyCashflow: 0,
+  totalLoanBalance: 0,
+  totalEquity: 0,
+  roe: 0,
+  annualizedAppreciation: null,
+}
+
 type SortField = "address" | "status" | "currentEstValue" | "purchasePrice" | "monthlyGrossRent" | "monthlyCashflow" | "roe"
 type SortDirection = "asc" | "desc"
 
+const PROPERTIES_PAGE_SIZE = 100
+
+// Leaflet needs the browser, so the map is only loaded client-side
+const PropertyMap = dynamic(
+  () => import("@/components/properties/property-map").then((mod) => mod.PropertyMap),
+  {
+    ssr: false,
+    loading: () => <div className="h-[500px] border rounded-lg flex items-center justify-center text-muted-foreground">Loading map...</div>,
+  }
+)
+
 export default function PropertiesPage() {
   const { user } = useUser()
   const [sortField, setSortField] = useState<SortField | null>(null)
   const [sortDirection, setSortDirection] = useState<SortDirection>("asc")
   const [statusFilter, setStatusFilter] = useState<string>("all")
+  const [searchQuery, setSearchQuery] = useState("")
+  const [debouncedSearch, setDebouncedSearch] = useState("")
+  const [valueRange, setValueRange] = useState<{ min: string; max: string }>({ min: "", max: "" })
+  const [cashflowRange, setCashflowRange] = useState<{ min: string; max: string }>({ min: "", max: "" })
   const [properties, setProperties] = useState<Property[]>([])
+  const [dirtyPropertyIds, setDirtyPropertyIds] = useState<Set<string>>(new Set()) // Saved properties with unsaved import changes
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [totalProperties, setTotalProperties] = useState(0)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [loading, setLoading] = useState(true)
+  const [view, setView] = useState<"table" | "map">("table")
+  const [mapProperties, setMapProperties] = useState<Property[]>([]) // Every property matching the filters
+  const [mapStatus, setMapStatus] = useState<string | null>(null) // Loading or geocoding progress
+  const geocodedRef = useRef(false) // Pending addresses are geocoded once per visit
+  const [portfolioSummary, setPortfolioSummary] = useState<PortfolioSummary | null>(null)
+
+  // Load portfolio metrics for the current status filter
+  const loadPortfolioSummary = useCallback(async () => {
+    try {
+      const query = statusFilter !== "all" ? `?status=${statusFilter}` : ""
+      const response = await fetch(`/api/portfolio/summary${query}`)
+      if (response.ok) {
+        const data = await response.json()
+        setPortfolioSummary(data.summary)
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        console.error('Failed to load portfolio summary:', errorData)
+      }
+    } catch (error) {
+      console.error('Failed to load portfolio summary:', error)
+    }
+  }, [statusFilter])
+
+  useEffect(() => {
+    if (user) {
+      loadPortfolioSummary()
+    }
+  }, [user, loadPortfolioSummary])
+
+  const [occupancyRange, setOccupancyRange] = useState<"months" | "quarters">("months")
+  const [occupancy, setOccupancy] = useState<OccupancyReport | null>(null)
+
+  // Load vacancy and turnover for the last 12 months, or the last 4 quarters
+  const loadOccupancy = useCallback(async () => {
+    try {
+      const now = new Date()
+      const startMonth = occupancyRange === "quarters"
+        ? now.getUTCMonth() - (now.getUTCMonth() % 3) - 9
+        : now.getUTCMonth() - 11
+      const from = new Date(Date.UTC(now.getUTCFullYear(), startMonth, 1)).toISOString().split("T")[0]
+      const interval = occupancyRange === "quarters" ? "quarter" : "month"
+      const response = await fetch(`/api/portfolio/occupancy?from=${from}&interval=${interval}`)
+      if (response.ok) {
+        const data = await response.json()
+        setOccupancy(data.occupancy)
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        console.error('Failed to load occupancy:', errorData)
+      }
+    } catch (error) {
+      console.error('Failed to load occupancy:', error)
+    }
+  }, [occupancyRange])
+
+  useEffect(() => {
+    if (user) {
+      loadOccupancy()
+    }
+  }, [user, loadOccupancy])
+
+  // Load custom field definitions on mount
+  useEffect(() => {
+    if (!user) return
+
+    fetch('/api/custom-fields')
+      .then((response) => (response.ok ? response.json() : { fields: [] }))
+      .then((data) => setCustomFields(data.fields || []))
+      .catch((error) => console.error('Failed to load custom fields:', error))
+  }, [user])
 
-  // Load properties from database on mount
+  // Load saved import mapping profiles on mount
+  useEffect(() => {
+    if (!user) return
+
+    fetch('/api/import-profiles')
+      .then((response) => (response.ok ? response.json() : { profiles: [] }))
+      .then((data) => setImportProfiles(data.profiles || []))
+      .catch((error) => console.error('Failed to load import profiles:', error))
+  }, [user])
+
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300)
+    return () => clearTimeout(timeout)
+  }, [searchQuery])
+
+  // Filters, sort and page size for GET /api/properties
+  const propertiesQuery = useMemo(() => {
+    const params = new URLSearchParams()
+    if (statusFilter !== "all") params.set("status", statusFilter)
+    if (debouncedSearch) params.set("search", debouncedSearch)
+    if (valueRange.min) params.set("minValue", valueRange.min)
+    if (valueRange.max) params.set("maxValue", valueRange.max)
+    if (cashflowRange.min) params.set("minCashflow", cashflowRange.min)
+    if (cashflowRange.max) params.set("maxCashflow", cashflowRange.max)
+    if (sortField) {
+      params.set("sort", sortField)
+      params.set("direction", sortDirection)
+    }
+    params.set("limit", String(PROPERTIES_PAGE_SIZE))
+    return params.toString()
+  }, [statusFilter, debouncedSearch, valueRange, cashflowRange, sortField, sortDirection])
+
+  const fetchPropertiesPage = useCallback(async (cursor?: string | null) => {
+    const cursorParam = cursor ? `&cursor=${encodeURIComponent(cursor)}` : ""
+    const response = await fetch(`/api/properties?${propertiesQuery}${cursorParam}`)
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || 'Failed to load properties')
+    }
+
+    const data = await response.json()
+    return {
+      properties: (Array.isArray(data.properties) ? data.properties : []).map(mapPropertyRow) as Property[],
+      nextCursor: (data.nextCursor as string | null) || null,
+      total: Number(data.total) || 0,
+    }
+  }, [propertiesQuery])
+
+  // Replace the loaded rows with a fresh first page, keeping rows that haven't been saved yet
+  const applyFirstPage = useCallback((page: { properties: Property[]; nextCursor: string | null; total: number }) => {
+    setProperties((current) => [
+      ...page.properties.map((p) => (dirtyPropertyIds.has(p.id) ? current.find((c) => c.id === p.id) || p : p)),
+      ...current.filter((p) => !isSavedPropertyId(p.id)),
+    ])
+    setNextCursor(page.nextCursor)
+    setTotalProperties(page.total)
+  }, [dirtyPropertyIds])
+
+  // Load the first page from the database on mount and whenever the filters or sort change
   useEffect(() => {
     async function loadProperties() {
       if (!user) {
@@ -162,64 +360,12 @@ export default function PropertiesPage() {
       }
 
       try {
-        const response = await fetch('/api/properties')
-        if (response.ok) {
-          const data = await response.json()
-          console.log('Loaded properties from database:', data.properties?.length || 0)
-          
-          // Always set properties from database
-          if (data.properties && Array.isArray(data.properties)) {
-            const loadedProperties: Property[] = data.properties.map((p: any) => {
-              const property: any = {
-                id: p.id, // Use database ID (UUID)
-                address: p.address,
-                type: p.type,
-                status: p.status,
-                mortgageHolder: p.mortgage_holder,
-                totalMortgageAmount: parseFloat(p.total_mortgage_amount) || 0,
-                purchasePrice: parseFloat(p.purchase_price) || 0,
-                currentEstValue: parseFloat(p.current_est_value) || 0,
-                monthlyMortgagePayment: parseFloat(p.monthly_mortgage_payment) || 0,
-                monthlyInsurance: parseFloat(p.monthly_insurance) || 0,
-                monthlyPropertyTax: parseFloat(p.monthly_property_tax) || 0,
-                monthlyOtherCosts: parseFloat(p.monthly_other_costs) || 0,
-                monthlyGrossRent: parseFloat(p.monthly_gross_rent) || 0,
-                ownership: p.ownership,
-                linkedWebsites: p.linked_websites || [],
-                rentRoll: [], // TODO: Load from rent_roll_units table
-                workRequests: [], // TODO: Load from work_requests table
-              }
-              // Restore custom fields from JSONB column
-              if (p.custom_fields && typeof p.custom_fields === 'object') {
-                Object.keys(p.custom_fields).forEach(key => {
-                  property[key] = p.custom_fields[key]
-                })
-              }
-              return property
-            })
-            console.log('Loaded properties from database on mount:', loadedProperties.length)
-            setProperties(loadedProperties)
-          } else {
-            // No properties in database, set empty array
-            console.log('No properties in database, setting empty array')
-            setProperties([])
-          }
-        } else {
-          const errorData = await response.json().catch(() => ({}))
-          console.error('Failed to load properties:', errorData)
-          // Don't clear properties on error - might be a temporary issue
-          // Only set empty if we're sure there are no properties
-          if (properties.length === 0) {
-            setProperties([])
-          }
-        }
+        const page = await fetchPropertiesPage()
+        console.log('Loaded properties from database:', page.properties.length, 'of', page.total)
+        applyFirstPage(page)
       } catch (error) {
         console.error('Failed to load properties:', error)
         // Don't clear properties on error - might be a temporary issue
-        // Only set empty if we're sure there are no properties
-        if (properties.length === 0) {
-          setProperties([])
-        }
       } finally {
         setLoading(false)
       }
@@ -227,127 +373,111 @@ export default function PropertiesPage() {
 
     loadProperties()
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user])
+  }, [user, fetchPropertiesPage])
+
+  // The map shows every property matching the filters, not just the loaded pages.
+  // Addresses that haven't been geocoded yet are geocoded the first time the map opens.
+  useEffect(() => {
+    if (view !== "map" || !user) return
+    let cancelled = false
+
+    async function loadMapProperties() {
+      try {
+        if (!geocodedRef.current) {
+          geocodedRef.current = true
+          let remaining = 1
+          while (remaining > 0 && !cancelled) {
+            const response = await fetch('/api/properties/geocode', { method: 'POST' })
+            const data = await response.json().catch(() => ({}))
+            if (!response.ok) {
+              console.error('Failed to geocode properties:', data)
+              break
+            }
+            remaining = data.remaining || 0
+            if (remaining > 0) setMapStatus(`Locating properties... ${remaining} left`)
+          }
+        }
+
+        setMapStatus("Loading map...")
+        const params = new URLSearchParams(propertiesQuery)
+        params.delete("limit")
+        const response = await fetch(`/api/properties?${params.toString()}`)
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}))
+          throw new Error(errorData.error || 'Failed to load properties')
+        }
+        const data = await response.json()
+        if (!cancelled) {
+          setMapProperties((Array.isArray(data.properties) ? data.properties : []).map(mapPropertyRow))
+        }
+      } catch (error) {
+        console.error('Failed to load properties for the map:', error)
+      } finally {
+        if (!cancelled) setMapStatus(null)
+      }
+    }
+
+    loadMapProperties()
+    return () => {
+      cancelled = true
+    }
+  }, [view, user, propertiesQuery])
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return
+
+    setLoadingMore(true)
+    try {
+      const page = await fetchPropertiesPage(nextCursor)
+      setProperties((current) => {
+        const loadedIds = new Set(current.map((p) => p.id))
+        const saved = current.filter((p) => isSavedPropertyId(p.id))
+        const unsaved = current.filter((p) => !isSavedPropertyId(p.id))
+        return [...saved, ...page.properties.filter((p) => !loadedIds.has(p.id)), ...unsaved]
+      })
+      setNextCursor(page.nextCursor)
+      setTotalProperties(page.total)
+    } catch (error) {
+      console.error('Failed to load more properties:', error)
+      alert(`Failed to load more properties: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
   const [importDialogOpen, setImportDialogOpen] = useState(false)
+  const [importPreview, setImportPreview] = useState<PropertyImportPreviewRow[] | null>(null) // null until the mapping is previewed
+  const [importExistingProperties, setImportExistingProperties] = useState<Property[]>([]) // Properties the preview matched against
+  const [workbook, setWorkbook] = useState<{ file: File; sheetNames: string[]; sheet: string } | null>(null)
+  const [transactionImportOpen, setTransactionImportOpen] = useState(false)
   const [csvData, setCsvData] = useState<string[][]>([])
   const [csvHeaders, setCsvHeaders] = useState<string[]>([])
   const [fieldMapping, setFieldMapping] = useState<PropertyFieldMapping>({})
+  const [importProfiles, setImportProfiles] = useState<ImportMappingProfile[]>([])
+  const [selectedProfileId, setSelectedProfileId] = useState<string>("")
+  const [profileName, setProfileName] = useState("")
   const [importError, setImportError] = useState<string>("")
   const [importSuccess, setImportSuccess] = useState<string>("")
   const [editingCell, setEditingCell] = useState<{ propertyId: string; field: string } | null>(null)
   const [editValue, setEditValue] = useState<string>("")
-  const [customFields, setCustomFields] = useState<Array<{ id: string; name: string; type: 'text' | 'number' }>>([])
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([])
   const [addCustomFieldDialogOpen, setAddCustomFieldDialogOpen] = useState(false)
   const [newCustomFieldName, setNewCustomFieldName] = useState("")
-  const [newCustomFieldType, setNewCustomFieldType] = useState<'text' | 'number'>('text')
+  const [newCustomFieldType, setNewCustomFieldType] = useState<CustomFieldType>('text')
+  const [newCustomFieldOptions, setNewCustomFieldOptions] = useState("") // Comma-separated, for select fields
   const fileInputRef = useRef<HTMLInputElement>(null)
 
-  // Calculate monthly total costs
-  const calculateMonthlyCosts = useCallback((property: Property): number => {
-    return (
-      property.monthlyMortgagePayment +
-      property.monthlyInsurance +
-      property.monthlyPropertyTax +
-      property.monthlyOtherCosts
-    )
-  }, [])
-
-  // Calculate monthly cashflow
-  const calculateMonthlyCashflow = useCallback((property: Property): number => {
-    return property.monthlyGrossRent - calculateMonthlyCosts(property)
-  }, [calculateMonthlyCosts])
-
-  // Calculate Return on Equity (ROE)
-  const calculateROE = (property: Property): number => {
-    const equity = property.currentEstValue - (property.purchasePrice - (property.purchasePrice * 0.2)) // Assuming 20% down
-    const annualCashflow = calculateMonthlyCashflow(property) * 12
-    if (equity <= 0) return 0
-    return (annualCashflow / equity) * 100
-  }
-
-  // Filter properties
-  const filteredProperties = useMemo(() => {
-    let filtered = properties
-    if (statusFilter !== "all") {
-      filtered = filtered.filter((p) => p.status === statusFilter)
-    }
-    return filtered
-  }, [properties, statusFilter])
-
-  // Sort properties
-  const sortedProperties = useMemo(() => {
-    if (!sortField) return filteredProperties
-
-    const calcCashflow = (p: Property) => p.monthlyGrossRent - (p.monthlyMortgagePayment + p.monthlyInsurance + p.monthlyPropertyTax + p.monthlyOtherCosts)
-    const calcROE = (p: Property) => {
-      const equity = p.currentEstValue - (p.purchasePrice - (p.purchasePrice * 0.2))
-      const annualCashflow = calcCashflow(p) * 12
-      if (equity <= 0) return 0
-      return (annualCashflow / equity) * 100
-    }
-
-    return [...filteredProperties].sort((a, b) => {
-      let aValue: number | string
-      let bValue: number | string
-
-      switch (sortField) {
-        case "address":
-          aValue = a.address
-          bValue = b.address
-          break
-        case "status":
-          aValue = a.status
-          bValue = b.status
-          break
-        case "currentEstValue":
-          aValue = a.currentEstValue
-          bValue = b.currentEstValue
-          break
-        case "purchasePrice":
-          aValue = a.purchasePrice
-          bValue = b.purchasePrice
-          break
-        case "monthlyGrossRent":
-          aValue = a.monthlyGrossRent
-          bValue = b.monthlyGrossRent
-          break
-        case "monthlyCashflow":
-          aValue = calcCashflow(a)
-          bValue = calcCashflow(b)
-          break
-        case "roe":
-          aValue = calcROE(a)
-          bValue = calcROE(b)
-          break
-        default:
-          return 0
-      }
-
-      if (typeof aValue === "string" && typeof bValue === "string") {
-        return sortDirection === "asc"
-          ? aValue.localeCompare(bValue)
-          : bValue.localeCompare(aValue)
-      }
+  // Properties that exist in the database (transactions can only be imported into these)
+  const savedProperties = useMemo(
+    () => properties.filter((p) => isSavedPropertyId(p.id)),
+    [properties]
+  )
 
-      return sortDirection === "asc"
-        ? (aValue as number) - (bValue as number)
-        : (bValue as number) - (aValue as number)
-    })
-  }, [filteredProperties, sortField, sortDirection])
-
-  // Portfolio totals
-  const portfolioTotals = useMemo(() => {
-    const totalProperties = sortedProperties.length
-    const totalEstValue = sortedProperties.reduce(
-      (sum, p) => sum + p.currentEstValue,
-      0
-    )
-    const totalMonthlyCashflow = sortedProperties.reduce(
-      (sum, p) => sum + calculateMonthlyCashflow(p),
-      0
-    )
-    return { totalProperties, totalEstValue, totalMonthlyCashflow }
-  }, [sortedProperties, calculateMonthlyCashflow])
+  // Portfolio totals (gross and at our ownership share) come from the summary endpoint
+  const portfolioTotals = portfolioSummary?.totals ?? {
+    count: 0,
+    gross: EMPTY_PORTFOLIO_TOTALS,
+    share: EMPTY_PORTFOLIO_TOTALS,
+  }
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -401,6 +531,9 @@ export default function PropertiesPage() {
       if (response.ok) {
         // Remove from local state after successful deletion
         setProperties(properties.filter((p) => p.id !== propertyId))
+        if (isSavedPropertyId(propertyId)) setTotalProperties((total) => Math.max(0, total - 1))
+        loadPortfolioSummary()
+        loadOccupancy()
         console.log('Property deleted successfully')
       } else {
         const errorData = await response.json().catch(() => ({}))
@@ -456,7 +589,6 @@ export default function PropertiesPage() {
             "monthlyInsurance",
             "monthlyPropertyTax",
             "monthlyOtherCosts",
-            "monthlyGrossRent",
           ].includes(field)
         ) {
           const numValue = parseFloat(editValue.replace(/[$,\s]/g, ""))
@@ -464,30 +596,25 @@ export default function PropertiesPage() {
             ;(updated as any)[field] = numValue
           }
         } else if (field.startsWith("custom_")) {
-          // Handle custom fields
-          const customField = customFields.find(f => `custom_${f.id}` === field)
-          if (customField?.type === 'number') {
-            const numValue = parseFloat(editValue.replace(/[$,\s]/g, ""))
-            if (!isNaN(numValue)) {
-              ;(updated as any)[field] = numValue
+          // Handle custom fields, keeping the old value if the input doesn't fit the field's type
+          const customField = customFields.find(f => getCustomFieldTarget(f) === field)
+          if (customField) {
+            const parsed = parseCustomFieldValue(customField, editValue)
+            if (parsed.error) {
+              alert(`${customField.name}: ${parsed.error}`)
+            } else if (parsed.value === null) {
+              delete (updated as any)[field]
+            } else {
+              ;(updated as any)[field] = parsed.value
             }
-          } else {
-            ;(updated as any)[field] = editValue
           }
         } else if (field === "address" || field === "type" || field === "mortgageHolder") {
           ;(updated as any)[field] = editValue
-        } else if (field === "ownership") {
-          const validOwnership = [
-            "100% ownership",
-            "50% partner",
-            "25% partner",
-            "75% partner",
-            "33% partner",
-            "67% partner",
-          ].includes(editValue)
-            ? editValue
-            : "100% ownership"
-          ;(updated as any)[field] = validOwnership
+        } else if (field === "ownershipPercentage") {
+          const percentage = parseOwnershipPercentage(editValue)
+          if (percentage !== null) {
+            updated.ownershipPercentage = percentage
+          }
         }
         
         return updated
@@ -498,6 +625,12 @@ export default function PropertiesPage() {
     setProperties(updatedProperties)
     setEditingCell(null)
     setEditValue("")
+
+    // Saved properties autosave the edited field; new rows and rows changed by an import wait for Save
+    const value = (updatedProperties.find((p) => p.id === propertyId) as any)?.[field]
+    if (isSavedPropertyId(propertyId) && !dirtyPropertyIds.has(propertyId) && value !== (property as any)[field]) {
+      autosaveField(property, field, value ?? null)
+    }
   }
 
   const handleCellCancel = () => {
@@ -507,29 +640,15 @@ export default function PropertiesPage() {
 
   const handleSaveProperties = async () => {
     try {
-      // Send ALL properties - don't filter them out
-      // The API will validate and handle invalid ones
-      // This prevents accidentally deleting properties that are filtered out
-      console.log('Saving properties:', properties.length, 'total properties in state')
-      
-      // Log any properties that might be missing required fields (for debugging)
-      const invalidProperties = properties.filter((prop: Property) => {
-        return !prop.address || !prop.type || !prop.status
-      })
-      if (invalidProperties.length > 0) {
-        console.warn(`⚠️ ${invalidProperties.length} properties missing required fields and will be skipped:`, invalidProperties.map(p => ({
-          id: p.id,
-          address: p.address || '(empty)',
-          type: p.type || '(empty)',
-          status: p.status || '(empty)'
-        })))
+      // Inline edits to saved properties autosave, so only new rows and rows changed by an import are sent
+      const propertiesToSave = properties.filter(
+        (prop: Property) => !isSavedPropertyId(prop.id) || dirtyPropertyIds.has(prop.id)
+      )
+      console.log('Saving properties:', propertiesToSave.length, 'new or changed of', properties.length, 'total')
+
+      if (propertiesToSave.length === 0) {
+        return // Nothing to save
       }
-      
-      // Log valid properties
-      const validProperties = properties.filter((prop: Property) => {
-        return prop.address && prop.type && prop.status
-      })
-      console.log(`✅ ${validProperties.length} properties have all required fields and will be saved`)
 
       const response = await fetch('/api/properties', {
         method: 'POST',
@@ -537,7 +656,7 @@ export default function PropertiesPage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          properties: properties, // Send all properties, not just "valid" ones
+          properties: propertiesToSave,
           workspaceId: null,
         }),
       })
@@ -545,63 +664,37 @@ export default function PropertiesPage() {
       if (response.ok) {
         const data = await response.json()
         console.log('Properties saved successfully:', data)
+        const failed: Array<{ index: number; address: string; error: string }> = data.failed || []
+        // New rows that failed stay on the page so they can be fixed and saved again
+        const failedUnsaved = failed
+          .map((f) => propertiesToSave[f.index])
+          .filter((prop) => prop && !isSavedPropertyId(prop.id))
         
         // Reload properties from database to ensure state is in sync
         // Add a small delay to ensure database has processed the save
         await new Promise(resolve => setTimeout(resolve, 500))
         
         try {
-          const reloadResponse = await fetch('/api/properties')
-          if (reloadResponse.ok) {
-            const reloadData = await reloadResponse.json()
-            console.log('Reloaded properties after save:', reloadData.properties?.length || 0)
-            
-            if (reloadData.properties && Array.isArray(reloadData.properties)) {
-              const reloadedProperties: Property[] = reloadData.properties.map((p: any) => {
-                const property: any = {
-                  id: p.id, // Use database ID (UUID)
-                  address: p.address,
-                  type: p.type,
-                  status: p.status,
-                  mortgageHolder: p.mortgage_holder,
-                  totalMortgageAmount: parseFloat(p.total_mortgage_amount) || 0,
-                  purchasePrice: parseFloat(p.purchase_price) || 0,
-                  currentEstValue: parseFloat(p.current_est_value) || 0,
-                  monthlyMortgagePayment: parseFloat(p.monthly_mortgage_payment) || 0,
-                  monthlyInsurance: parseFloat(p.monthly_insurance) || 0,
-                  monthlyPropertyTax: parseFloat(p.monthly_property_tax) || 0,
-                  monthlyOtherCosts: parseFloat(p.monthly_other_costs) || 0,
-                  monthlyGrossRent: parseFloat(p.monthly_gross_rent) || 0,
-                  ownership: p.ownership,
-                  linkedWebsites: p.linked_websites || [],
-                  rentRoll: [],
-                  workRequests: [],
-                }
-                // Restore custom fields from JSONB column
-                if (p.custom_fields && typeof p.custom_fields === 'object') {
-                  Object.keys(p.custom_fields).forEach(key => {
-                    property[key] = p.custom_fields[key]
-                  })
-                }
-                return property
-              })
-              console.log('Setting reloaded properties:', reloadedProperties.length)
-              setProperties(reloadedProperties)
-            } else {
-              // If no properties returned, keep current state (don't clear)
-              console.warn('No properties returned after reload, keeping current state')
-              // Don't setProperties([]) - this would clear everything
-            }
-          } else {
-            const errorData = await reloadResponse.json().catch(() => ({}))
-            console.error('Failed to reload properties after save:', errorData)
-            // Don't clear properties if reload fails - keep current state
-          }
+          const page = await fetchPropertiesPage()
+          console.log('Reloaded properties after save:', page.properties.length, 'of', page.total)
+          setProperties([...page.properties, ...failedUnsaved])
+          setNextCursor(page.nextCursor)
+          setTotalProperties(page.total)
+          setDirtyPropertyIds(new Set())
+          loadPortfolioSummary()
+          loadOccupancy()
         } catch (reloadError) {
           console.error('Failed to reload properties after save:', reloadError)
           // Don't throw - save was successful, just reload failed
           // Keep current properties state - don't clear them
         }
+
+        if (failed.length > 0) {
+          throw new Error(
+            `${data.message}:\n` +
+            failed.map((f) => `- ${f.address || `Row ${f.index + 1}`}: ${f.error}`).join("\n")
+          )
+        }
         
         return // Success - SaveButton will show success state
       } else {
@@ -615,6 +708,74 @@ export default function PropertiesPage() {
     }
   }
 
+  // Inline edits autosave one at a time per property: each PATCH sends the version the one before it saved,
+  // so quick successive edits to a row don't conflict with each other
+  const autosaveQueues = useRef<Map<string, { pending: number; tail: Promise<void>; updatedAt?: string; conflicted?: boolean }>>(new Map())
+
+  const autosaveField = (previous: Property, field: string, value: unknown) => {
+    const queues = autosaveQueues.current
+    const queue = queues.get(previous.id) || { pending: 0, tail: Promise.resolve() }
+    queues.set(previous.id, queue)
+    queue.pending++
+    const done = () => {
+      queue.pending--
+      if (queue.pending === 0) queues.delete(previous.id)
+    }
+    queue.tail = queue.tail.then(() => saveField(previous, field, value, queue)).then(done, done)
+  }
+
+  // Save one edited field of a saved property, keeping the edit only if nobody else saved the property first
+  const saveField = async (
+    previous: Property,
+    field: string,
+    value: unknown,
+    queue: { pending: number; updatedAt?: string; conflicted?: boolean }
+  ) => {
+    // The row was already replaced with someone else's newer version; edits queued behind that are dropped
+    if (queue.conflicted) return
+
+    const replaceProperty = (row: any) => {
+      const latest = mapPropertyRow(row)
+      setProperties((current) => current.map((p) =>
+        p.id === latest.id ? { ...latest, rentRoll: p.rentRoll, workRequests: p.workRequests } : p
+      ))
+    }
+
+    try {
+      const response = await fetch(`/api/properties/${previous.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changes: { [field]: value }, updatedAt: queue.updatedAt ?? previous.updatedAt }),
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (response.status === 409 && data.property) {
+        queue.conflicted = true
+        replaceProperty(data.property)
+        alert(`${previous.address} was changed by someone else, so your edit wasn't saved. The latest values are shown now.`)
+        return
+      }
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to save change')
+      }
+
+      queue.updatedAt = data.property.updated_at
+      // Later edits to this row are still showing and waiting to save; the last save brings the row up to date
+      if (queue.pending === 1) {
+        replaceProperty(data.property)
+      }
+      loadPortfolioSummary()
+      loadOccupancy()
+    } catch (error) {
+      console.error('Error saving property change:', error)
+      setProperties((current) => current.map((p) =>
+        p.id === previous.id ? { ...p, [field]: (previous as any)[field] } : p
+      ))
+      alert(`Failed to save change: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
   // Render editable cell
   const renderEditableCell = (
     propertyId: string,
@@ -632,6 +793,49 @@ export default function PropertiesPage() {
     }
 
     if (isEditing) {
+      const customField = field.startsWith("custom_")
+        ? customFields.find(f => getCustomFieldTarget(f) === field)
+        : undefined
+
+      if (customField && (customField.type === "select" || customField.type === "boolean")) {
+        const options = customField.type === "boolean"
+          ? [{ value: "true", label: "Yes" }, { value: "false", label: "No" }]
+          : (customField.options || []).map((option) => ({ value: option, label: option }))
+        return (
+          <div className="flex items-center gap-1">
+            <Select
+              value={editValue || undefined}
+              onValueChange={setEditValue}
+              onOpenChange={(open) => {
+                if (!open) {
+                  // When select closes, save
+                  handleCellSave()
+                }
+              }}
+            >
+              <SelectTrigger className="h-8 w-40" id={`edit-${propertyId}-${field}`} name={`edit-${propertyId}-${field}`}>
+                <SelectValue placeholder="Select..." />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleCellCancel}
+              className="h-8 w-8 p-0"
+            >
+              <X className="h-4 w-4 text-red-600" />
+            </Button>
+          </div>
+        )
+      }
+
       if (field === "status") {
         return (
           <div className="flex items-center gap-1">
@@ -692,7 +896,11 @@ export default function PropertiesPage() {
             }}
             className={`h-8 ${field === "mortgageHolder" || field === "address" || field.startsWith("custom_") ? "w-48" : "w-32"}`}
             autoFocus
-            type={typeof rawValue === "number" || (field.startsWith("custom_") && customFields.find(f => `custom_${f.id}` === field)?.type === 'number') ? "number" : "text"}
+            type={
+              customField
+                ? (customField.type === "number" || customField.type === "currency" ? "number" : customField.type === "date" ? "date" : customField.type === "url" ? "url" : "text")
+                : (typeof rawValue === "number" ? "number" : "text")
+            }
             placeholder={field === "mortgageHolder" ? "Enter mortgage holder name" : (field.startsWith("custom_") ? "Enter value" : "")}
           />
           <Button
@@ -844,85 +1052,75 @@ export default function PropertiesPage() {
     setImportSuccess("")
 
     // Validate file type
-    if (!file.name.endsWith('.csv') && !file.name.endsWith('.txt')) {
-      setImportError("Please upload a CSV or TXT file")
+    if (!file.name.endsWith('.csv') && !file.name.endsWith('.txt') && !file.name.endsWith('.tsv') && !isSpreadsheetFile(file)) {
+      setImportError("Please upload a CSV, TSV, TXT or Excel (.xlsx) file")
       return
     }
 
-    const reader = new FileReader()
-    reader.onload = (e) => {
-      try {
-        const text = e.target?.result as string
-        if (!text || text.trim().length === 0) {
-          setImportError("File is empty")
-          return
-        }
-        parseCSV(text)
-      } catch (error) {
+    if (file.size === 0) {
+      setImportError("File is empty")
+      return
+    }
+
+    if (isSpreadsheetFile(file)) {
+      loadWorkbookSheet(file)
+      return
+    }
+
+    setWorkbook(null)
+
+    // Stream the file through the parser rather than reading it into one string
+    parseCsvFile(file)
+      .then(loadCsvRows)
+      .catch((error) => {
         setImportError(`Error reading file: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      })
+  }
+
+  // Read a workbook sheet (the first one unless given) into the same pipeline as CSV rows
+  const loadWorkbookSheet = async (file: File, sheet?: string) => {
+    try {
+      const sheetNames = await getWorkbookSheetNames(file)
+      if (sheetNames.length === 0) {
+        setImportError("Workbook has no sheets")
+        return
       }
+
+      const selectedSheet = sheet && sheetNames.includes(sheet) ? sheet : sheetNames[0]
+      setWorkbook({ file, sheetNames, sheet: selectedSheet })
+      setCsvHeaders([])
+      setCsvData([])
+      setFieldMapping({})
+      // Open the dialog even if this sheet is empty so another sheet can be picked
+      setImportDialogOpen(true)
+      loadCsvRows(await readWorkbookSheet(file, selectedSheet))
+    } catch (error) {
+      setImportError(`Error reading workbook: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
-    reader.onerror = () => {
-      setImportError("Error reading file. Please try again.")
-    }
-    reader.readAsText(file)
   }
 
-  const parseCSV = (text: string) => {
+  const loadCsvRows = (parsed: string[][]) => {
     try {
       setImportError("")
       setImportSuccess("")
 
-      // Handle different line endings (Windows \r\n, Mac \r, Unix \n)
-      const normalizedText = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n')
-      const lines = normalizedText.split("\n").filter((line) => line.trim().length > 0)
-      
-      if (lines.length === 0) {
-        setImportError("CSV file appears to be empty")
+      if (parsed.length === 0) {
+        setImportError("File appears to be empty")
         return
       }
 
-      if (lines.length < 2) {
-        setImportError("CSV file must have at least a header row and one data row")
+      if (parsed.length < 2) {
+        setImportError("File must have at least a header row and one data row")
         return
       }
 
-      // Parse CSV rows with proper quote handling
-      const parsed = lines.map((line) => {
-        const result: string[] = []
-        let current = ""
-        let inQuotes = false
-
-        for (let i = 0; i < line.length; i++) {
-          const char = line[i]
-          const nextChar = i < line.length - 1 ? line[i + 1] : null
-          
-          if (char === '"') {
-            // Handle escaped quotes ("")
-            if (nextChar === '"') {
-              current += '"'
-              i++ // Skip next quote
-            } else {
-              inQuotes = !inQuotes
-            }
-          } else if (char === "," && !inQuotes) {
-            result.push(current.trim())
-            current = ""
-          } else {
-            current += char
-          }
-        }
-        result.push(current.trim())
-        return result
-      })
-
       // Extract headers and clean them
       const headers = parsed[0]
         .map((h) => h.replace(/^["']|["']$/g, "").trim())
         .filter((h) => h.length > 0) // Filter out empty headers
 
       if (headers.length === 0) {
-        setImportError("No valid headers found in CSV file")
+        setImportError("No valid headers found in file")
         return
       }
 
@@ -939,7 +1137,7 @@ export default function PropertiesPage() {
         .filter((row) => row.some((cell) => cell && cell.trim().length > 0)) // Filter completely empty rows
 
       if (data.length === 0) {
-        setImportError("No data rows found in CSV file")
+        setImportError("No data rows found in file")
         return
       }
 
@@ -952,10 +1150,19 @@ export default function PropertiesPage() {
 
       setCsvHeaders(headers)
       setCsvData(data)
+      setImportPreview(null)
       
-      // Generate initial mapping using utility function
-      const initialMapping = generateInitialMapping(headers)
-      setFieldMapping(initialMapping)
+      // Use a saved profile when the headers match one, otherwise guess from the header names
+      const profile = findMatchingProfile(importProfiles, headers)
+      if (profile) {
+        setFieldMapping(applyMappingProfile(profile, headers, getCustomFieldTargets()))
+        setSelectedProfileId(profile.id)
+        setProfileName(profile.name)
+      } else {
+        setFieldMapping(generateInitialMapping(headers))
+        setSelectedProfileId("")
+        setProfileName("")
+      }
       
       setImportDialogOpen(true)
     } catch (error) {
@@ -964,7 +1171,159 @@ export default function PropertiesPage() {
     }
   }
 
-  const handleImport = () => {
+  const getCustomFieldTargets = (): CustomFieldTarget[] => customFields.map(getCustomFieldTarget)
+
+  // Create a custom field for the workspace; returns null (after alerting) if it couldn't be saved
+  const addCustomField = async (
+    name: string,
+    type: CustomFieldType,
+    options?: string[]
+  ): Promise<CustomFieldDefinition | null> => {
+    try {
+      const response = await fetch('/api/custom-fields', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, type, options }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to add custom field')
+      }
+
+      setCustomFields((fields) => [...fields, data.field])
+      return data.field
+    } catch (error) {
+      console.error('Error adding custom field:', error)
+      alert(`Failed to add custom field: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      return null
+    }
+  }
+
+  const handleDeleteCustomField = async (field: CustomFieldDefinition) => {
+    if (!confirm(`Delete the "${field.name}" column? Its values will be removed from every property.`)) return
+
+    try {
+      const response = await fetch(`/api/custom-fields/${field.id}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.details || data.error || 'Failed to delete custom field')
+      }
+
+      const fieldKey = getCustomFieldTarget(field)
+      setProperties((current) => current.map(p => {
+        const updated = { ...p }
+        delete (updated as any)[fieldKey]
+        return updated
+      }))
+      setCustomFields((fields) => fields.filter(f => f.id !== field.id))
+    } catch (error) {
+      console.error('Error deleting custom field:', error)
+      alert(`Failed to delete custom field: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // Swap a custom field column with its neighbour (direction -1 = left, 1 = right)
+  const handleMoveCustomField = async (fieldId: string, direction: -1 | 1) => {
+    const index = customFields.findIndex(f => f.id === fieldId)
+    const target = index + direction
+    if (index === -1 || target < 0 || target >= customFields.length) return
+
+    const previous = customFields
+    const reordered = [...customFields]
+    reordered[index] = customFields[target]
+    reordered[target] = customFields[index]
+    setCustomFields(reordered)
+
+    try {
+      const response = await fetch('/api/custom-fields/reorder', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fieldIds: reordered.map(f => f.id) }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.details || data.error || 'Failed to reorder custom fields')
+      }
+    } catch (error) {
+      console.error('Error reordering custom fields:', error)
+      setCustomFields(previous)
+      alert(`Failed to reorder custom fields: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // Point a CSV header at a target field, replacing whatever the header was mapped to before
+  const setHeaderMapping = (header: string, target: PropertyField | CustomFieldTarget | null) => {
+    const newMapping = { ...fieldMapping }
+    Object.keys(newMapping).forEach((key) => {
+      if (newMapping[key as PropertyField] === header) {
+        delete newMapping[key as PropertyField]
+      }
+    })
+    if (target) {
+      newMapping[target] = header
+    }
+    setFieldMapping(newMapping)
+  }
+
+  const handleSelectProfile = (profileId: string) => {
+    const profile = importProfiles.find((p) => p.id === profileId)
+    if (!profile) return
+    setSelectedProfileId(profile.id)
+    setProfileName(profile.name)
+    setFieldMapping(applyMappingProfile(profile, csvHeaders, getCustomFieldTargets()))
+  }
+
+  const handleSaveProfile = async () => {
+    const name = profileName.trim()
+    if (!name) return
+
+    try {
+      const response = await fetch('/api/import-profiles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, mapping: fieldMapping, headers: csvHeaders }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to save profile')
+      }
+
+      setImportProfiles((profiles) =>
+        [...profiles.filter((p) => p.id !== data.profile.id), data.profile].sort((a, b) => a.name.localeCompare(b.name))
+      )
+      setSelectedProfileId(data.profile.id)
+    } catch (error) {
+      console.error('Error saving import profile:', error)
+      alert(`Failed to save mapping profile: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleDeleteProfile = async () => {
+    const profile = importProfiles.find((p) => p.id === selectedProfileId)
+    if (!profile || !confirm(`Delete mapping profile "${profile.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/import-profiles/${profile.id}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.details || data.error || 'Failed to delete profile')
+      }
+
+      setImportProfiles((profiles) => profiles.filter((p) => p.id !== profile.id))
+      setSelectedProfileId("")
+      setProfileName("")
+    } catch (error) {
+      console.error('Error deleting import profile:', error)
+      alert(`Failed to delete mapping profile: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const handlePreviewImport = async () => {
     try {
       setImportError("")
       setImportSuccess("")
@@ -993,62 +1352,117 @@ export default function PropertiesPage() {
         return
       }
 
+      // Match against every saved property, not just the pages loaded so far
+      let existingProperties = properties
+      if (user && nextCursor) {
+        try {
+          const response = await fetch('/api/properties')
+          if (response.ok) {
+            const data = await response.json()
+            const allSaved: Property[] = (data.properties || []).map(mapPropertyRow)
+            const loadedIds = new Set(properties.map((p) => p.id))
+            existingProperties = [...properties, ...allSaved.filter((p) => !loadedIds.has(p.id))]
+          }
+        } catch (error) {
+          console.error('Failed to load all properties for import matching:', error)
+        }
+      }
+      setImportExistingProperties(existingProperties)
+
+      setImportPreview(buildImportPreview(csvData, csvHeaders, fieldMapping, existingProperties, customFields))
+    } catch (error) {
+      setImportError(`Preview error: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      console.error("Preview error:", error)
+    }
+  }
+
+  const setPreviewRowAction = (rowNumber: number, action: ImportRowAction) => {
+    setImportPreview((preview) =>
+      preview ? preview.map((row) => (row.rowNumber === rowNumber ? { ...row, action } : row)) : preview
+    )
+  }
+
+  const handleImport = () => {
+    try {
+      setImportError("")
+      setImportSuccess("")
+
+      if (!importPreview) return
+
       const importedProperties: Property[] = []
-      const errors: string[] = []
+      const updates = new Map<string, Partial<Property>>()
 
-      // Process each row safely
-      csvData.forEach((row, index) => {
-        try {
-          // Use utility function to safely map row to property
-          const propertyPartial = mapCsvRowToProperty(row, csvHeaders, fieldMapping)
+      importPreview.forEach((row) => {
+        const propertyPartial = row.property
 
-          // Validate required fields
-          if (!propertyPartial.address || propertyPartial.address.trim() === "") {
-            errors.push(`Row ${index + 2}: Missing required field 'address'`)
-            return
-          }
+        if (row.action === "update" && row.existingPropertyId) {
+          // Only overwrite the fields the file contains
+          updates.set(row.existingPropertyId, getMappedPropertyValues(propertyPartial, fieldMapping))
+          return
+        }
 
-          // Create complete property with ID
-          const property: Property = {
-            id: `imported-${Date.now()}-${index}`,
-            address: propertyPartial.address || "",
-            type: propertyPartial.type || "",
-            status: propertyPartial.status || "vacant",
-            mortgageHolder: propertyPartial.mortgageHolder,
-            purchasePrice: propertyPartial.purchasePrice || 0,
-            currentEstValue: propertyPartial.currentEstValue || 0,
-            monthlyMortgagePayment: propertyPartial.monthlyMortgagePayment || 0,
-            monthlyInsurance: propertyPartial.monthlyInsurance || 0,
-            monthlyPropertyTax: propertyPartial.monthlyPropertyTax || 0,
-            monthlyOtherCosts: propertyPartial.monthlyOtherCosts || 0,
-            monthlyGrossRent: propertyPartial.monthlyGrossRent || 0,
-            rentRoll: propertyPartial.rentRoll || [],
-            workRequests: propertyPartial.workRequests || [],
-            linkedWebsites: propertyPartial.linkedWebsites,
+        if (row.action !== "create") return
+
+        // Create complete property with ID
+        const property: Property = {
+          id: `imported-${Date.now()}-${row.rowNumber}`,
+          address: propertyPartial.address || "",
+          type: propertyPartial.type || "",
+          status: propertyPartial.status || "vacant",
+          mortgageHolder: propertyPartial.mortgageHolder,
+          totalMortgageAmount: propertyPartial.totalMortgageAmount || 0,
+          purchasePrice: propertyPartial.purchasePrice || 0,
+          currentEstValue: propertyPartial.currentEstValue || 0,
+          monthlyMortgagePayment: propertyPartial.monthlyMortgagePayment || 0,
+          monthlyInsurance: propertyPartial.monthlyInsurance || 0,
+          monthlyPropertyTax: propertyPartial.monthlyPropertyTax || 0,
+          monthlyOtherCosts: propertyPartial.monthlyOtherCosts || 0,
+          monthlyGrossRent: 0, // The sum of its rent roll units, which it doesn't have yet
+          rentRoll: propertyPartial.rentRoll || [],
+          workRequests: propertyPartial.workRequests || [],
+          linkedWebsites: propertyPartial.linkedWebsites,
+        }
+
+        // Carry over values for columns mapped to custom fields
+        const customValues = property as unknown as Record<string, unknown>
+        const importedValues = propertyPartial as Record<string, unknown>
+        customFields.forEach((field) => {
+          const target = getCustomFieldTarget(field)
+          if (importedValues[target] !== undefined) {
+            customValues[target] = importedValues[target]
           }
+        })
 
-          importedProperties.push(property)
-        } catch (rowError) {
-          errors.push(`Row ${index + 2}: ${rowError instanceof Error ? rowError.message : 'Unknown error'}`)
-        }
+        importedProperties.push(property)
       })
 
-      if (errors.length > 0 && importedProperties.length === 0) {
-        setImportError(`Import failed:\n${errors.slice(0, 5).join("\n")}${errors.length > 5 ? `\n... and ${errors.length - 5} more errors` : ""}`)
-        return
-      }
-
-      if (importedProperties.length === 0) {
-        setImportError("No valid properties found to import. Please check your CSV data and field mapping.")
+      if (importedProperties.length === 0 && updates.size === 0) {
+        setImportError("Every row is set to skip. Choose create or update for the rows you want to import.")
         return
       }
 
-      setProperties([...properties, ...importedProperties])
-      setImportSuccess(`Successfully imported ${importedProperties.length} properties!${errors.length > 0 ? ` (${errors.length} warnings)` : ""}`)
+      const skipped = importPreview.length - importedProperties.length - updates.size
+      // Updated properties that aren't loaded yet are added so the update can be saved
+      const loadedIds = new Set(properties.map((p) => p.id))
+      const updatedUnloaded = importExistingProperties.filter((p) => updates.has(p.id) && !loadedIds.has(p.id))
+      setProperties([
+        ...[...properties, ...updatedUnloaded].map((p) => (updates.has(p.id) ? { ...p, ...updates.get(p.id) } : p)),
+        ...importedProperties,
+      ])
+      setDirtyPropertyIds((ids) => {
+        const next = new Set(ids)
+        updates.forEach((_, id) => next.add(id))
+        return next
+      })
+      setImportSuccess(
+        `Imported ${importedProperties.length} new properties and updated ${updates.size}${skipped > 0 ? ` (${skipped} skipped)` : ""}. Click Save to keep the changes.`
+      )
       
       // Clear form after a delay
       setTimeout(() => {
         setImportDialogOpen(false)
+        setWorkbook(null)
+        setImportPreview(null)
         setCsvData([])
         setCsvHeaders([])
         setFieldMapping({})
@@ -1077,7 +1491,6 @@ export default function PropertiesPage() {
     { value: "monthlyInsurance", label: "Monthly Insurance" },
     { value: "monthlyPropertyTax", label: "Monthly Property Tax" },
     { value: "monthlyOtherCosts", label: "Monthly Other Costs" },
-    { value: "monthlyGrossRent", label: "Monthly Gross Rent" },
   ]
 
   if (loading) {
@@ -1113,14 +1526,24 @@ export default function PropertiesPage() {
             id="csvFileInput"
             name="csvFileInput"
             type="file"
-            accept=".csv,.txt"
+            accept=".csv,.tsv,.txt,.xlsx"
             onChange={handleFileUpload}
             className="hidden"
           />
+          <Button variant="outline" onClick={() => setTransactionImportOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import Transactions
+          </Button>
           <Button variant="outline" onClick={exportToCSV}>
             <Download className="mr-2 h-4 w-4" />
             Export CSV
           </Button>
+          <Button variant="outline" asChild>
+            <Link href="/properties/tenants">
+              <Users className="mr-2 h-4 w-4" />
+              Tenants
+            </Link>
+          </Button>
         <Button
           onClick={() => {
             // Add a new property with default values (all required fields filled)
@@ -1153,8 +1576,16 @@ export default function PropertiesPage() {
         </div>
       </div>
 
-      {/* Status Filter */}
-      <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2">
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row flex-wrap items-start sm:items-center gap-2">
+        <Input
+          id="propertySearch"
+          name="propertySearch"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Search addresses..."
+          className="w-full sm:w-64 min-h-[44px]"
+        />
         <span className="text-sm text-muted-foreground whitespace-nowrap">Filter by status:</span>
         <select
           id="statusFilter"
@@ -1169,9 +1600,84 @@ export default function PropertiesPage() {
           <option value="under_maintenance">Under Maintenance</option>
           <option value="sold">Sold</option>
         </select>
+        {[
+          { label: "Value", range: valueRange, setRange: setValueRange },
+          { label: "Cashflow", range: cashflowRange, setRange: setCashflowRange },
+        ].map(({ label, range, setRange }) => (
+          <div key={label} className="flex items-center gap-1">
+            <span className="text-sm text-muted-foreground whitespace-nowrap">{label}:</span>
+            <Input
+              type="number"
+              value={range.min}
+              onChange={(e) => setRange({ ...range, min: e.target.value })}
+              placeholder="Min"
+              className="w-24 min-h-[44px]"
+              aria-label={`Minimum ${label.toLowerCase()}`}
+            />
+            <span className="text-sm text-muted-foreground">-</span>
+            <Input
+              type="number"
+              value={range.max}
+              onChange={(e) => setRange({ ...range, max: e.target.value })}
+              placeholder="Max"
+              className="w-24 min-h-[44px]"
+              aria-label={`Maximum ${label.toLowerCase()}`}
+            />
+          </div>
+        ))}
+        <div className="flex items-center gap-1 sm:ml-auto">
+          <Button
+            variant={view === "table" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setView("table")}
+          >
+            <List className="mr-2 h-4 w-4" />
+            Table
+          </Button>
+          <Button
+            variant={view === "map" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setView("map")}
+          >
+            <MapIcon className="mr-2 h-4 w-4" />
+            Map
+          </Button>
+        </div>
       </div>
 
+      {/* Portfolio Summary - gross vs. our ownership share */}
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-5">
+        {[
+          { label: "Est. Value", gross: formatCurrency(portfolioTotals.gross.totalEstValue), share: formatCurrency(portfolioTotals.share.totalEstValue) },
+          { label: "Monthly Cashflow", gross: formatCurrency(portfolioTotals.gross.totalMonthlyCashflow), share: formatCurrency(portfolioTotals.share.totalMonthlyCashflow) },
+          { label: "Equity", gross: formatCurrency(portfolioTotals.gross.totalEquity), share: formatCurrency(portfolioTotals.share.totalEquity) },
+          { label: "ROE", gross: formatPercentage(portfolioTotals.gross.roe), share: formatPercentage(portfolioTotals.share.roe) },
+          {
+            label: "Appreciation / yr",
+            gross: portfolioTotals.gross.annualizedAppreciation === null ? "—" : formatPercentage(portfolioTotals.gross.annualizedAppreciation),
+            share: portfolioTotals.share.annualizedAppreciation === null ? "—" : formatPercentage(portfolioTotals.share.annualizedAppreciation),
+          },
+        ].map((stat) => (
+          <div key={stat.label} className="border rounded-lg p-4">
+            <div className="text-sm text-muted-foreground">{stat.label}</div>
+            <div className="text-xl font-bold">{stat.share}</div>
+            <div className="text-xs text-muted-foreground">
+              Our share &middot; {stat.gross} gross
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Map */}
+      {view === "map" && (
+        <div className="space-y-2">
+          {mapStatus && <div className="text-sm text-muted-foreground">{mapStatus}</div>}
+          <PropertyMap properties={mapProperties} formatCurrency={formatCurrency} />
+        </div>
+      )}
+
       {/* Table */}
+      {view === "table" && (
       <div className="border rounded-lg overflow-x-auto">
         <Table className="min-w-[800px]">
           <TableHeader>
@@ -1196,7 +1702,7 @@ export default function PropertiesPage() {
               </TableHead>
               <TableHead>Mortgage Holder</TableHead>
               <TableHead className="text-right">Total Mortgage</TableHead>
-              <TableHead>Partners</TableHead>
+              <TableHead>Ownership</TableHead>
               <TableHead
                 className="cursor-pointer hover:bg-muted/50 text-right"
                 onClick={() => handleSort("currentEstValue")}
@@ -1245,24 +1751,36 @@ export default function PropertiesPage() {
               </TableHead>
               <TableHead className="text-right">Actions</TableHead>
               <TableHead className="w-12"></TableHead>
-              {customFields.map((field) => (
+              {customFields.map((field, fieldIndex) => (
                 <TableHead key={field.id} className="text-right">
                   <div className="flex items-center justify-end gap-1">
+                    {fieldIndex > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleMoveCustomField(field.id, -1)}
+                        className="h-6 w-6 p-0"
+                        title="Move column left"
+                      >
+                        <ChevronLeft className="h-3 w-3" />
+                      </Button>
+                    )}
                     <span>{field.name}</span>
+                    {fieldIndex < customFields.length - 1 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleMoveCustomField(field.id, 1)}
+                        className="h-6 w-6 p-0"
+                        title="Move column right"
+                      >
+                        <ChevronRight className="h-3 w-3" />
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => {
-                        // Remove custom field from all properties
-                        const fieldKey = `custom_${field.id}`
-                        setProperties(properties.map(p => {
-                          const updated = { ...p }
-                          delete (updated as any)[fieldKey]
-                          return updated
-                        }))
-                        // Remove from customFields list
-                        setCustomFields(customFields.filter(f => f.id !== field.id))
-                      }}
+                      onClick={() => handleDeleteCustomField(field)}
                       className="h-6 w-6 p-0 text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
                       title="Delete custom field column"
                     >
@@ -1285,7 +1803,7 @@ export default function PropertiesPage() {
             </TableRow>
           </TableHeader>
           <TableBody>
-            {sortedProperties.map((property) => {
+            {properties.map((property) => {
               const monthlyCosts = calculateMonthlyCosts(property)
               const monthlyCashflow = calculateMonthlyCashflow(property)
               const roe = calculateROE(property)
@@ -1302,6 +1820,22 @@ export default function PropertiesPage() {
                 <TableRow key={property.id}>
                   <TableCell className="font-medium">
                     <div className="flex items-center gap-2">
+                      {property.coverPhotoId ? (
+                        <Link href={`/properties/${property.id}/details`} className="shrink-0">
+                          <Image
+                            src={`/api/properties/${property.id}/photos/${property.coverPhotoId}?size=thumbnail`}
+                            alt={`${property.address} cover photo`}
+                            width={40}
+                            height={40}
+                            unoptimized
+                            className="h-10 w-10 rounded object-cover"
+                          />
+                        </Link>
+                      ) : (
+                        <div className="h-10 w-10 shrink-0 rounded bg-muted flex items-center justify-center">
+                          <ImageIcon className="h-4 w-4 text-muted-foreground" />
+                        </div>
+                      )}
                       {needsAttention && (
                         <span title="Needs Attention">
                           <Star className="h-4 w-4 text-red-500 fill-red-500" />
@@ -1355,54 +1889,12 @@ export default function PropertiesPage() {
                     )}
                   </TableCell>
                   <TableCell>
-                    {editingCell?.propertyId === property.id && editingCell?.field === "ownership" ? (
-                      <div className="flex items-center gap-1">
-                        <Select
-                          value={editValue || "100% ownership"}
-                          onValueChange={setEditValue}
-                          onOpenChange={(open) => {
-                            if (!open) {
-                              handleCellSave()
-                            }
-                          }}
-                        >
-                          <SelectTrigger className="h-8 w-40" id={`edit-${property.id}-ownership`} name={`edit-${property.id}-ownership`}>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="100% ownership">100% ownership</SelectItem>
-                            <SelectItem value="50% partner">50% partner</SelectItem>
-                            <SelectItem value="25% partner">25% partner</SelectItem>
-                            <SelectItem value="75% partner">75% partner</SelectItem>
-                            <SelectItem value="33% partner">33% partner</SelectItem>
-                            <SelectItem value="67% partner">67% partner</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={handleCellSave}
-                          className="h-8 w-8 p-0"
-                        >
-                          <Check className="h-4 w-4 text-green-600" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={handleCellCancel}
-                          className="h-8 w-8 p-0"
-                        >
-                          <X className="h-4 w-4 text-red-600" />
-                        </Button>
-                      </div>
-                    ) : (
-                      <span
-                        className="cursor-pointer hover:bg-muted/50 rounded px-1 transition-colors"
-                        onClick={() => handleCellClick(property.id, "ownership", property.ownership || "100% ownership", property.ownership || "100% ownership")}
-                        title="Click to edit"
-                      >
-                        {property.ownership || "100% ownership"}
-                      </span>
+                    {renderEditableCell(
+                      property.id,
+                      "ownershipPercentage",
+                      formatOwnership(property),
+                      property.ownershipPercentage ?? 100,
+                      true
                     )}
                   </TableCell>
                   <TableCell className="text-right">
@@ -1429,7 +1921,7 @@ export default function PropertiesPage() {
                       "monthlyGrossRent",
                       formatCurrency(property.monthlyGrossRent),
                       property.monthlyGrossRent,
-                      true
+                      false // The sum of the rent roll units
                     )}
                   </TableCell>
                   <TableCell className="text-right">
@@ -1478,19 +1970,18 @@ export default function PropertiesPage() {
                     </Button>
                   </TableCell>
                   {customFields.map((field) => {
-                    const fieldKey = `custom_${field.id}`
-                    const fieldValue = (property as any)[fieldKey] || ""
+                    const fieldKey = getCustomFieldTarget(field)
+                    const fieldValue = (property as any)[fieldKey]
+                    const displayValue = formatCustomFieldValue(field, fieldValue)
                     return (
-                      <TableCell key={field.id} className={field.type === 'number' ? "text-right" : ""}>
+                      <TableCell key={field.id} className={field.type === 'number' || field.type === 'currency' ? "text-right" : ""}>
                         {renderEditableCell(
                           property.id,
                           fieldKey,
-                          field.type === 'number' 
-                            ? (fieldValue ? formatCurrency(parseFloat(String(fieldValue)) || 0) : "Click to add")
-                            : (fieldValue || "Click to add"),
-                          fieldValue || "",
+                          displayValue || "Click to add",
+                          fieldValue ?? "",
                           true,
-                          fieldValue ? "" : "text-muted-foreground italic"
+                          displayValue ? "" : "text-muted-foreground italic"
                         )}
                       </TableCell>
                     )
@@ -1501,26 +1992,56 @@ export default function PropertiesPage() {
           </TableBody>
           <TableFooter>
             <TableRow className="font-bold bg-muted/50">
-              <TableCell colSpan={5}>Portfolio Totals</TableCell>
+              <TableCell colSpan={5}>Portfolio Totals (Gross)</TableCell>
               <TableCell className="text-right">
-                {portfolioTotals.totalProperties} Properties
+                {portfolioTotals.count} Properties
               </TableCell>
               <TableCell className="text-right">
-                {formatCurrency(portfolioTotals.totalEstValue)}
+                {formatCurrency(portfolioTotals.gross.totalEstValue)}
               </TableCell>
               <TableCell></TableCell>
               <TableCell></TableCell>
+              <TableCell></TableCell>
               <TableCell
                 className={`text-right ${
-                  portfolioTotals.totalMonthlyCashflow >= 0
+                  portfolioTotals.gross.totalMonthlyCashflow >= 0
                     ? "text-green-600 dark:text-green-400"
                     : "text-red-600 dark:text-red-400"
                 }`}
               >
-                {formatCurrency(portfolioTotals.totalMonthlyCashflow)}
+                {formatCurrency(portfolioTotals.gross.totalMonthlyCashflow)}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatPercentage(portfolioTotals.gross.roe)}
               </TableCell>
               <TableCell></TableCell>
               <TableCell></TableCell>
+              {customFields.map((field) => (
+                <TableCell key={field.id}></TableCell>
+              ))}
+            </TableRow>
+            <TableRow className="font-bold bg-muted/50">
+              <TableCell colSpan={5}>Our Share</TableCell>
+              <TableCell></TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(portfolioTotals.share.totalEstValue)}
+              </TableCell>
+              <TableCell></TableCell>
+              <TableCell></TableCell>
+              <TableCell></TableCell>
+              <TableCell
+                className={`text-right ${
+                  portfolioTotals.share.totalMonthlyCashflow >= 0
+                    ? "text-green-600 dark:text-green-400"
+                    : "text-red-600 dark:text-red-400"
+                }`}
+              >
+                {formatCurrency(portfolioTotals.share.totalMonthlyCashflow)}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatPercentage(portfolioTotals.share.roe)}
+              </TableCell>
+              <TableCell></TableCell>
               <TableCell></TableCell>
               {customFields.map((field) => (
                 <TableCell key={field.id}></TableCell>
@@ -1529,14 +2050,106 @@ export default function PropertiesPage() {
           </TableFooter>
         </Table>
       </div>
+      )}
+
+      {/* Pagination */}
+      {view === "table" && totalProperties > 0 && (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm text-muted-foreground">
+            Showing {properties.filter((p) => isSavedPropertyId(p.id)).length} of {totalProperties} properties
+          </span>
+          {nextCursor && (
+            <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+              {loadingMore ? "Loading..." : "Load More"}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Occupancy & Vacancy */}
+      {occupancy && (
+        <div className="border rounded-lg p-4 space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <h2 className="text-lg font-semibold">Occupancy &amp; Vacancy</h2>
+              <p className="text-sm text-muted-foreground">
+                {occupancy.startDate} to {occupancy.endDate}, from lease dates and status changes
+              </p>
+            </div>
+            <Select value={occupancyRange} onValueChange={(value) => setOccupancyRange(value as "months" | "quarters")}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="months">Last 12 months</SelectItem>
+                <SelectItem value="quarters">Last 4 quarters</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+            {[
+              { label: "Physical Vacancy", value: formatPercentage(occupancy.totals.physicalVacancy), detail: `${occupancy.totals.vacantUnitDays} of ${occupancy.totals.unitDays} unit-days` },
+              { label: "Economic Vacancy", value: formatPercentage(occupancy.totals.economicVacancy), detail: `${formatCurrency(occupancy.totals.lostRent)} rent lost` },
+              { label: "Avg. Days Vacant / Unit", value: occupancy.totals.averageDaysVacant.toFixed(1), detail: `${occupancy.totals.unitCount} units` },
+              { label: "Turnover", value: formatPercentage(occupancy.totals.turnoverRate), detail: `${occupancy.totals.moveOuts} move-outs` },
+            ].map((stat) => (
+              <div key={stat.label} className="border rounded-lg p-4">
+                <div className="text-sm text-muted-foreground">{stat.label}</div>
+                <div className="text-xl font-bold">{stat.value}</div>
+                <div className="text-xs text-muted-foreground">{stat.detail}</div>
+              </div>
+            ))}
+          </div>
+
+          <OccupancyChart periods={occupancy.periods} />
+
+          {occupancy.properties.some((p) => p.unitDays > 0) && (
+            <div className="border rounded-lg overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Address</TableHead>
+                    <TableHead className="text-right">Units</TableHead>
+                    <TableHead className="text-right">Physical Vacancy</TableHead>
+                    <TableHead className="text-right">Economic Vacancy</TableHead>
+                    <TableHead className="text-right">Avg. Days Vacant</TableHead>
+                    <TableHead className="text-right">Move-outs</TableHead>
+                    <TableHead className="text-right">Turnover</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {occupancy.properties
+                    .filter((p) => p.unitDays > 0)
+                    .map((p) => (
+                      <TableRow key={p.propertyId}>
+                        <TableCell>
+                          <Link href={`/properties/${p.propertyId}/details`} className="hover:underline">
+                            {p.address}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-right">{p.unitCount}</TableCell>
+                        <TableCell className="text-right">{formatPercentage(p.physicalVacancy)}</TableCell>
+                        <TableCell className="text-right">{formatPercentage(p.economicVacancy)}</TableCell>
+                        <TableCell className="text-right">{p.averageDaysVacant.toFixed(1)}</TableCell>
+                        <TableCell className="text-right">{p.moveOuts}</TableCell>
+                        <TableCell className="text-right">{formatPercentage(p.turnoverRate)}</TableCell>
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      )}
 
       {/* Import Dialog */}
       <Dialog open={importDialogOpen} onOpenChange={setImportDialogOpen}>
         <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Import Properties from CSV</DialogTitle>
+            <DialogTitle>Import Properties</DialogTitle>
             <DialogDescription>
-              Map CSV columns to property fields. You can preview the first few rows below.
+              Map spreadsheet columns to property fields. You can preview the first few rows below.
               <Button
                 variant="link"
                 className="p-0 h-auto text-primary ml-2"
@@ -1547,6 +2160,28 @@ export default function PropertiesPage() {
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
+            {/* Sheet picker for workbooks with more than one sheet */}
+            {workbook && workbook.sheetNames.length > 1 && (
+              <div className="flex items-center gap-2">
+                <Label htmlFor="import-sheet">Sheet</Label>
+                <Select
+                  value={workbook.sheet}
+                  onValueChange={(value) => loadWorkbookSheet(workbook.file, value)}
+                >
+                  <SelectTrigger className="w-64" id="import-sheet">
+                    <SelectValue placeholder="Select sheet..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {workbook.sheetNames.map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {/* Error Message */}
             {importError && (
               <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
@@ -1560,6 +2195,39 @@ export default function PropertiesPage() {
                 <p className="text-sm text-green-800 dark:text-green-200">{importSuccess}</p>
               </div>
             )}
+            {importPreview === null ? (
+              <>
+            {/* Saved mapping profiles */}
+            <div className="flex flex-wrap items-center gap-2">
+              <Label htmlFor="import-profile">Mapping profile</Label>
+              <Select value={selectedProfileId || undefined} onValueChange={handleSelectProfile}>
+                <SelectTrigger className="w-56" id="import-profile">
+                  <SelectValue placeholder={importProfiles.length > 0 ? "Select profile..." : "No saved profiles"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {importProfiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedProfileId && (
+                <Button variant="ghost" size="sm" onClick={handleDeleteProfile} title="Delete profile">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+              <Input
+                className="w-48 h-9"
+                placeholder="Profile name"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+              />
+              <Button variant="outline" size="sm" onClick={handleSaveProfile} disabled={!profileName.trim()}>
+                Save Profile
+              </Button>
+            </div>
+
             {/* Field Mapping */}
             <div className="space-y-2">
                 <div className="flex items-center justify-between">
@@ -1571,16 +2239,16 @@ export default function PropertiesPage() {
               <div className="border rounded-lg p-4 space-y-2 max-h-96 overflow-y-auto">
                 {csvHeaders.length === 0 ? (
                   <p className="text-sm text-muted-foreground text-center py-4">
-                    No headers detected. Please check your CSV file format.
+                    No headers detected. Please check your file format.
                   </p>
                 ) : (
                   csvHeaders
                     .filter((h) => h && h.trim() !== "")
                     .map((header, index) => {
-                      // Find which PropertyField is mapped to this header
+                      // Find which PropertyField (or custom field) is mapped to this header
                       const currentMapping = Object.entries(fieldMapping).find(
                         ([_, mappedHeader]) => mappedHeader === header
-                      )?.[0] as PropertyField | undefined
+                      )?.[0] as PropertyField | CustomFieldTarget | undefined
 
                       return (
                         <div key={`${header}-${index}`} className="flex items-center gap-2">
@@ -1592,25 +2260,14 @@ export default function PropertiesPage() {
                             value={currentMapping || undefined}
                             onValueChange={(value) => {
                               if (value === "__unmapped") {
-                                // Remove mapping - find and remove the entry
-                                const newMapping = { ...fieldMapping }
-                                Object.keys(newMapping).forEach((key) => {
-                                  if (newMapping[key as PropertyField] === header) {
-                                    delete newMapping[key as PropertyField]
-                                  }
+                                setHeaderMapping(header, null)
+                              } else if (value === "__new_text" || value === "__new_number") {
+                                // Create a custom field named after the column so its values survive import
+                                addCustomField(header, value === "__new_number" ? 'number' : 'text').then((newField) => {
+                                  if (newField) setHeaderMapping(header, getCustomFieldTarget(newField))
                                 })
-                                setFieldMapping(newMapping)
                               } else {
-                                // Set mapping - remove old mapping first if exists
-                                const newMapping = { ...fieldMapping }
-                                Object.keys(newMapping).forEach((key) => {
-                                  if (newMapping[key as PropertyField] === header) {
-                                    delete newMapping[key as PropertyField]
-                                  }
-                                })
-                                // Add new mapping
-                                newMapping[value as PropertyField] = header
-                                setFieldMapping(newMapping)
+                                setHeaderMapping(header, value as PropertyField | CustomFieldTarget)
                               }
                             }}
                           >
@@ -1627,6 +2284,18 @@ export default function PropertiesPage() {
                                   {field.label}
                                 </SelectItem>
                               ))}
+                              <SelectSeparator />
+                              <SelectGroup>
+                                <SelectLabel>Custom fields</SelectLabel>
+                                {customFields.map((field) => (
+                                  <SelectItem key={field.id} value={getCustomFieldTarget(field)}>
+                                    {field.name}
+                                  </SelectItem>
+                                ))}
+                                <SelectItem value="__new_text">+ New text field</SelectItem>
+                                <SelectItem value="__new_number">+ New number field</SelectItem>
+                              </SelectGroup>
+                              <SelectSeparator />
                               <SelectItem value="__unmapped">Unmapped / Ignore</SelectItem>
                             </SelectContent>
                           </Select>
@@ -1692,21 +2361,135 @@ export default function PropertiesPage() {
                 </div>
               </div>
             )}
+              </>
+            ) : (
+              /* Import Preview - parsed values, issues and what happens to each row */
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Import Preview</Label>
+                  <span className="text-xs text-muted-foreground">
+                    {importPreview.filter((row) => row.action === "create").length} new,{" "}
+                    {importPreview.filter((row) => row.action === "update").length} updates,{" "}
+                    {importPreview.filter((row) => row.action === "skip").length} skipped
+                  </span>
+                </div>
+                {getGrossRentHeaders(csvHeaders).length > 0 && (
+                  <p className="text-xs text-amber-600 dark:text-amber-400">
+                    Not imported: {getGrossRentHeaders(csvHeaders).join(", ")}. Gross rent is the sum of a
+                    property&apos;s rent roll units, so new properties start at $0 until you add units on
+                    their Rent Roll tab.
+                  </p>
+                )}
+                <div className="border rounded-lg overflow-x-auto max-h-96 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-xs">Row</TableHead>
+                        <TableHead className="text-xs">Address</TableHead>
+                        <TableHead className="text-xs">Status</TableHead>
+                        <TableHead className="text-xs text-right">Purchase Price</TableHead>
+                        <TableHead className="text-xs text-right">Est. Value</TableHead>
+                        <TableHead className="text-xs">Issues</TableHead>
+                        <TableHead className="text-xs">Action</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {importPreview.map((row) => {
+                        const hasErrors = row.issues.some((issue) => issue.severity === "error")
+                        const existing = row.existingPropertyId
+                          ? properties.find((p) => p.id === row.existingPropertyId)
+                          : undefined
+
+                        return (
+                          <TableRow key={row.rowNumber} className={row.action === "skip" ? "opacity-60" : undefined}>
+                            <TableCell className="text-xs">{row.rowNumber}</TableCell>
+                            <TableCell className="text-xs">
+                              <div>{row.property.address || "—"}</div>
+                              {existing && (
+                                <div className="text-amber-600 dark:text-amber-400">
+                                  Matches existing: {existing.address}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-xs">{row.property.status}</TableCell>
+                            <TableCell className="text-xs text-right">{formatCurrency(row.property.purchasePrice || 0)}</TableCell>
+                            <TableCell className="text-xs text-right">{formatCurrency(row.property.currentEstValue || 0)}</TableCell>
+                            <TableCell className="text-xs">
+                              {row.issues.length === 0 ? (
+                                <span className="text-muted-foreground">—</span>
+                              ) : (
+                                row.issues.map((issue, index) => (
+                                  <div
+                                    key={index}
+                                    className={issue.severity === "error" ? "text-red-600 dark:text-red-400" : "text-amber-600 dark:text-amber-400"}
+                                  >
+                                    {issue.message}
+                                  </div>
+                                ))
+                              )}
+                            </TableCell>
+                            <TableCell className="text-xs">
+                              <Select
+                                value={row.action}
+                                onValueChange={(value) => setPreviewRowAction(row.rowNumber, value as ImportRowAction)}
+                                disabled={hasErrors}
+                              >
+                                <SelectTrigger className="h-8 w-28" id={`import-action-${row.rowNumber}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="create">Create</SelectItem>
+                                  {row.existingPropertyId && <SelectItem value="update">Update</SelectItem>}
+                                  <SelectItem value="skip">Skip</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                          </TableRow>
+                        )
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
       </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setImportDialogOpen(false)}>
-              Cancel
-            </Button>
-            <Button
-              onClick={handleImport}
-              disabled={csvData.length === 0 || !validateMapping(fieldMapping).valid}
-            >
-              Import {csvData.length} Properties
-            </Button>
+            {importPreview === null ? (
+              <>
+                <Button variant="outline" onClick={() => setImportDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handlePreviewImport}
+                  disabled={csvData.length === 0 || !validateMapping(fieldMapping).valid}
+                >
+                  Preview {csvData.length} Rows
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setImportPreview(null)}>
+                  Back to Mapping
+                </Button>
+                <Button
+                  onClick={handleImport}
+                  disabled={importPreview.every((row) => row.action === "skip")}
+                >
+                  Import {importPreview.filter((row) => row.action !== "skip").length} Properties
+                </Button>
+              </>
+            )}
           </DialogFooter>
         </DialogContent>
       </Dialog>
 
+      {/* Transaction Import Dialog */}
+      <TransactionImportDialog
+        open={transactionImportOpen}
+        onOpenChange={setTransactionImportOpen}
+        properties={savedProperties}
+      />
+
       {/* Add Custom Field Dialog */}
       <Dialog open={addCustomFieldDialogOpen} onOpenChange={setAddCustomFieldDialogOpen}>
         <DialogContent>
@@ -1730,46 +2513,57 @@ export default function PropertiesPage() {
               <Label htmlFor="customFieldType">Field Type</Label>
               <Select
                 value={newCustomFieldType}
-                onValueChange={(value: 'text' | 'number') => setNewCustomFieldType(value)}
+                onValueChange={(value: CustomFieldType) => setNewCustomFieldType(value)}
               >
                 <SelectTrigger id="customFieldType">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="text">Text</SelectItem>
-                  <SelectItem value="number">Number</SelectItem>
+                  {CUSTOM_FIELD_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {CUSTOM_FIELD_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
+            {newCustomFieldType === 'select' && (
+              <div className="space-y-2">
+                <Label htmlFor="customFieldOptions">Options</Label>
+                <Input
+                  id="customFieldOptions"
+                  value={newCustomFieldOptions}
+                  onChange={(e) => setNewCustomFieldOptions(e.target.value)}
+                  placeholder="e.g., Single Family, Duplex, Condo"
+                />
+                <p className="text-xs text-muted-foreground">Separate options with commas</p>
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => {
               setAddCustomFieldDialogOpen(false)
               setNewCustomFieldName("")
               setNewCustomFieldType('text')
+              setNewCustomFieldOptions("")
             }}>
               Cancel
             </Button>
             <Button
-              onClick={() => {
+              onClick={async () => {
                 if (newCustomFieldName.trim()) {
-                  const newField = {
-                    id: `field_${Date.now()}`,
-                    name: newCustomFieldName.trim(),
-                    type: newCustomFieldType,
-                  }
-                  setCustomFields([...customFields, newField])
-                  // Initialize custom field values for all existing properties
-                  setProperties(properties.map(p => ({
-                    ...p,
-                    [`custom_${newField.id}`]: newField.type === 'number' ? 0 : ""
-                  })))
+                  const options = newCustomFieldType === 'select'
+                    ? newCustomFieldOptions.split(",").map((o) => o.trim()).filter((o) => o.length > 0)
+                    : undefined
+                  const newField = await addCustomField(newCustomFieldName.trim(), newCustomFieldType, options)
+                  if (!newField) return
                   setAddCustomFieldDialogOpen(false)
                   setNewCustomFieldName("")
                   setNewCustomFieldType('text')
+                  setNewCustomFieldOptions("")
                 }
               }}
-              disabled={!newCustomFieldName.trim()}
+              disabled={!newCustomFieldName.trim() || (newCustomFieldType === 'select' && !newCustomFieldOptions.trim())}
             >
               Add Field
             </Button>
@@ -0,0 +1,509 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useParams, useRouter } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { ArrowLeft, Plus, Trash2 } from "lucide-react"
+import { SaveButton } from "@/components/ui/save-button"
+import { LeaseStatusBadge } from "@/components/properties/lease-dialog"
+import { getLeaseRentOn, toDateString } from "@/lib/leases"
+import { Lease, Tenant, TenantLedgerEntry } from "@/types"
+import { mapLeaseRow, mapTenantLedgerEntryRow, mapTenantRow } from "@/lib/property-mappers"
+import {
+  TENANT_LEDGER_ENTRY_TYPES,
+  combineLedgerSummaries,
+  summarizeTenantLedger,
+  withRunningBalance,
+} from "@/lib/tenant-ledger"
+
+type TenantLease = Lease & { address: string; unitName: string }
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  }).format(value)
+}
+
+export default function TenantDetailsPage() {
+  const params = useParams()
+  const router = useRouter()
+  const tenantId = params?.tenantId
+    ? (Array.isArray(params.tenantId) ? params.tenantId[0] : params.tenantId)
+    : undefined
+
+  const [tenant, setTenant] = useState<Tenant | null>(null)
+  const [leases, setLeases] = useState<TenantLease[]>([])
+  const [entries, setEntries] = useState<TenantLedgerEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  // The add-entry form of each lease, by lease id
+  const [newEntries, setNewEntries] = useState<Record<string, Partial<TenantLedgerEntry>>>({})
+
+  useEffect(() => {
+    async function loadTenant() {
+      if (!tenantId) {
+        setLoading(false)
+        return
+      }
+
+      try {
+        const response = await fetch(`/api/tenants/${tenantId}`)
+        if (response.ok) {
+          const data = await response.json()
+          setTenant(mapTenantRow(data.tenant))
+          setLeases(
+            (data.leases || []).map((row: any) => ({
+              ...mapLeaseRow(row),
+              address: row.properties?.address || "",
+              unitName: row.rent_roll_units?.unit_name || "",
+            }))
+          )
+          setEntries((data.entries || []).map(mapTenantLedgerEntryRow))
+        } else {
+          const errorData = await response.json().catch(() => ({}))
+          console.error('Failed to load tenant:', errorData)
+        }
+      } catch (error) {
+        console.error('Failed to load tenant:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadTenant()
+  }, [tenantId])
+
+  if (loading) {
+    return (
+      <div className="p-8 flex items-center justify-center min-h-[400px]">
+        <div className="text-center space-y-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          <div className="text-muted-foreground">Loading tenant...</div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!tenant) {
+    return (
+      <div className="p-8">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4">Tenant Not Found</h1>
+          <Button onClick={() => router.push("/properties/tenants")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Tenants
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const summary = combineLedgerSummaries(
+    leases.map((lease) => summarizeTenantLedger(entries.filter((entry) => entry.leaseId === lease.id)))
+  )
+
+  const handleTenantFieldChange = (field: keyof Tenant, value: string) => {
+    setTenant({ ...tenant, [field]: value })
+  }
+
+  const handleSaveTenant = async () => {
+    const response = await fetch(`/api/tenants/${tenant.id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        name: tenant.name,
+        email: tenant.email || "",
+        phone: tenant.phone || "",
+        emergencyContactName: tenant.emergencyContactName || "",
+        emergencyContactPhone: tenant.emergencyContactPhone || "",
+        notes: tenant.notes || "",
+      }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.details || errorData.error || 'Failed to save tenant')
+    }
+
+    const data = await response.json()
+    setTenant(mapTenantRow(data.tenant))
+  }
+
+  const handleDeleteTenant = async () => {
+    if (!confirm("Are you sure you want to delete this tenant? This action cannot be undone.")) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/tenants/${tenant.id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        router.push("/properties/tenants")
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || 'Failed to delete tenant')
+      }
+    } catch (error: any) {
+      console.error('Error deleting tenant:', error)
+      alert(`Failed to delete tenant: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  const handleAddEntry = async (lease: TenantLease) => {
+    const newEntry = newEntries[lease.id] || { type: "payment" }
+    if (!newEntry.date || !newEntry.type || newEntry.amount === undefined) {
+      alert("Please enter a date, type and amount")
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/properties/${lease.propertyId}/leases/${lease.id}/ledger`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(newEntry),
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setEntries([...entries, mapTenantLedgerEntryRow(data.entry)])
+        setNewEntries({ ...newEntries, [lease.id]: { type: newEntry.type } })
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || 'Failed to add ledger entry')
+      }
+    } catch (error: any) {
+      console.error('Error adding ledger entry:', error)
+      alert(`Failed to add ledger entry: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  const handleDeleteEntry = async (lease: TenantLease, entryId: string) => {
+    try {
+      const response = await fetch(
+        `/api/properties/${lease.propertyId}/leases/${lease.id}/ledger/${entryId}`,
+        { method: 'DELETE' }
+      )
+
+      if (response.ok) {
+        setEntries(entries.filter((entry) => entry.id !== entryId))
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || 'Failed to delete ledger entry')
+      }
+    } catch (error: any) {
+      console.error('Error deleting ledger entry:', error)
+      alert(`Failed to delete ledger entry: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  const contactFields: { field: keyof Tenant; label: string; type?: string }[] = [
+    { field: "name", label: "Name" },
+    { field: "email", label: "Email", type: "email" },
+    { field: "phone", label: "Phone", type: "tel" },
+    { field: "emergencyContactName", label: "Emergency Contact" },
+    { field: "emergencyContactPhone", label: "Emergency Contact Phone", type: "tel" },
+    { field: "notes", label: "Notes" },
+  ]
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 space-y-4 sm:space-y-6 lg:space-y-8">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => router.push("/properties/tenants")}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">{tenant.name}</h1>
+            <p className="text-sm sm:text-base text-muted-foreground">
+              {leases.length} lease{leases.length === 1 ? "" : "s"}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <SaveButton onSave={handleSaveTenant} />
+          <Button variant="outline" onClick={handleDeleteTenant}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Balance Owed</CardDescription>
+            <CardTitle
+              className={`text-2xl ${summary.balance > 0 ? "text-red-600 dark:text-red-400" : ""}`}
+            >
+              {formatCurrency(summary.balance)}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Days Past Due</CardDescription>
+            <CardTitle className="text-2xl">{summary.daysPastDue}</CardTitle>
+          </CardHeader>
+          {summary.oldestUnpaidDate && (
+            <CardContent className="text-xs text-muted-foreground">
+              Oldest unpaid charge: {summary.oldestUnpaidDate}
+            </CardContent>
+          )}
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Late Fees Charged</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(summary.lateFees)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Deposit Held</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(summary.depositHeld)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Contact Details</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-3">
+            {contactFields.map(({ field, label, type }) => (
+              <div key={field} className="space-y-2">
+                <Label htmlFor={field}>{label}</Label>
+                <Input
+                  id={field}
+                  name={field}
+                  type={type}
+                  value={(tenant[field] as string) || ""}
+                  onChange={(e) => handleTenantFieldChange(field, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {leases.map((lease) => {
+        const leaseEntries = entries.filter((entry) => entry.leaseId === lease.id)
+        const leaseSummary = summarizeTenantLedger(leaseEntries)
+        const newEntry = newEntries[lease.id] || { type: "payment" as TenantLedgerEntry["type"] }
+        const setNewEntry = (entry: Partial<TenantLedgerEntry>) =>
+          setNewEntries({ ...newEntries, [lease.id]: entry })
+        const coTenants = lease.tenants.filter((leaseTenant) => leaseTenant.tenantId !== tenant.id)
+
+        return (
+          <Card key={lease.id}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <span>
+                      <Link href={`/properties/${lease.propertyId}/details`} className="hover:underline">
+                        {lease.address}
+                      </Link>
+                      {lease.unitName && ` - ${lease.unitName}`}
+                    </span>
+                    <LeaseStatusBadge lease={lease} />
+                  </CardTitle>
+                  <CardDescription>
+                    {lease.startDate} to {lease.endDate} · {formatCurrency(getLeaseRentOn(lease, toDateString(new Date())))}/month
+                    {coTenants.length > 0 && (
+                      <>
+                        {" "}· With{" "}
+                        {coTenants.map((coTenant, index) => (
+                          <span key={coTenant.tenantId}>
+                            {index > 0 && ", "}
+                            <Link href={`/properties/tenants/${coTenant.tenantId}`} className="underline">
+                              {coTenant.name}
+                            </Link>
+                          </span>
+                        ))}
+                      </>
+                    )}
+                  </CardDescription>
+                </div>
+                <div className="text-right">
+                  <div className="text-sm text-muted-foreground">Balance</div>
+                  <div
+                    className={`text-xl font-bold ${
+                      leaseSummary.balance > 0 ? "text-red-600 dark:text-red-400" : ""
+                    }`}
+                  >
+                    {formatCurrency(leaseSummary.balance)}
+                  </div>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="border rounded-lg max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {withRunningBalance(leaseEntries).reverse().map((entry) => {
+                      const entryType = TENANT_LEDGER_ENTRY_TYPES.find((t) => t.value === entry.type)
+                      return (
+                        <TableRow key={entry.id}>
+                          <TableCell>{entry.date}</TableCell>
+                          <TableCell>
+                            <Badge
+                              variant={
+                                entryType?.kind === "charge"
+                                  ? "secondary"
+                                  : entryType?.kind === "payment"
+                                    ? "default"
+                                    : "outline"
+                              }
+                            >
+                              {entryType?.label || entry.type}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{entry.description}</TableCell>
+                          <TableCell className="text-right">
+                            {entryType?.kind === "payment" ? "-" : ""}
+                            {formatCurrency(entry.amount)}
+                          </TableCell>
+                          <TableCell className="text-right font-medium">
+                            {formatCurrency(entry.balance)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeleteEntry(lease, entry.id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                    {leaseEntries.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center text-muted-foreground">
+                          No ledger entries yet
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-4">
+                <div className="space-y-2">
+                  <Label htmlFor={`entryDate-${lease.id}`}>Date</Label>
+                  <Input
+                    id={`entryDate-${lease.id}`}
+                    name={`entryDate-${lease.id}`}
+                    type="date"
+                    value={newEntry.date || ""}
+                    onChange={(e) => setNewEntry({ ...newEntry, date: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`entryType-${lease.id}`}>Type</Label>
+                  <Select
+                    value={newEntry.type}
+                    onValueChange={(value) =>
+                      setNewEntry({ ...newEntry, type: value as TenantLedgerEntry["type"] })
+                    }
+                  >
+                    <SelectTrigger id={`entryType-${lease.id}`} name={`entryType-${lease.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TENANT_LEDGER_ENTRY_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <input type="hidden" name={`entryType-${lease.id}`} value={newEntry.type || ""} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`entryAmount-${lease.id}`}>Amount</Label>
+                  <Input
+                    id={`entryAmount-${lease.id}`}
+                    name={`entryAmount-${lease.id}`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={newEntry.amount ?? ""}
+                    onChange={(e) =>
+                      setNewEntry({
+                        ...newEntry,
+                        amount: e.target.value === "" ? undefined : parseFloat(e.target.value) || 0,
+                      })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`entryDescription-${lease.id}`}>Description</Label>
+                  <Input
+                    id={`entryDescription-${lease.id}`}
+                    name={`entryDescription-${lease.id}`}
+                    value={newEntry.description || ""}
+                    onChange={(e) => setNewEntry({ ...newEntry, description: e.target.value })}
+                    placeholder="e.g., March rent"
+                  />
+                </div>
+              </div>
+              <Button onClick={() => handleAddEntry(lease)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Entry
+              </Button>
+            </CardContent>
+          </Card>
+        )
+      })}
+
+      {leases.length === 0 && (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            Not on any lease yet. Add a lease from a property&apos;s Rent Roll tab.
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,307 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { ArrowLeft, Plus } from "lucide-react"
+import { Tenant } from "@/types"
+import { mapTenantRow } from "@/lib/property-mappers"
+import type { TenantLedgerSummary } from "@/lib/tenant-ledger"
+
+type TenantListItem = Tenant & {
+  summary: TenantLedgerSummary
+  units: { leaseId: string; address: string; unitName: string; endDate: string | null }[]
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value)
+}
+
+export default function TenantsPage() {
+  const [tenants, setTenants] = useState<TenantListItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [inArrearsOnly, setInArrearsOnly] = useState(false)
+  const [newTenant, setNewTenant] = useState<Partial<Tenant>>({})
+
+  const loadTenants = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tenants${inArrearsOnly ? "?inArrears=true" : ""}`)
+      if (response.ok) {
+        const data = await response.json()
+        if (Array.isArray(data.tenants)) {
+          setTenants(
+            data.tenants.map((row: any) => ({
+              ...mapTenantRow(row),
+              summary: row.summary,
+              units: row.units || [],
+            }))
+          )
+        }
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        console.error('Failed to load tenants:', errorData)
+      }
+    } catch (error) {
+      console.error('Failed to load tenants:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [inArrearsOnly])
+
+  useEffect(() => {
+    loadTenants()
+  }, [loadTenants])
+
+  const handleAddTenant = async () => {
+    if (!newTenant.name || !newTenant.name.trim()) {
+      alert("Please enter the tenant's name")
+      return
+    }
+
+    try {
+      const response = await fetch('/api/tenants', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(newTenant),
+      })
+
+      if (response.ok) {
+        setNewTenant({})
+        await loadTenants()
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || 'Failed to add tenant')
+      }
+    } catch (error: any) {
+      console.error('Error adding tenant:', error)
+      alert(`Failed to add tenant: ${error.message || 'Unknown error'}`)
+    }
+  }
+
+  const totalArrears = tenants.reduce((sum, tenant) => sum + Math.max(tenant.summary.balance, 0), 0)
+  const totalDepositsHeld = tenants.reduce((sum, tenant) => sum + tenant.summary.depositHeld, 0)
+  const tenantsInArrears = tenants.filter((tenant) => tenant.summary.balance > 0).length
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 space-y-4 sm:space-y-6 lg:space-y-8">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Tenants</h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Contacts, balances owed and deposits held
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/properties">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Properties
+          </Link>
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Total Arrears</CardDescription>
+            <CardTitle className="text-2xl text-red-600 dark:text-red-400">
+              {formatCurrency(totalArrears)}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Tenants in Arrears</CardDescription>
+            <CardTitle className="text-2xl">{tenantsInArrears}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Deposits Held</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(totalDepositsHeld)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>All Tenants</CardTitle>
+              <CardDescription>
+                Balances combine every lease the tenant is on
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="inArrearsOnly"
+                name="inArrearsOnly"
+                checked={inArrearsOnly}
+                onCheckedChange={setInArrearsOnly}
+              />
+              <Label htmlFor="inArrearsOnly">In arrears only</Label>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Units</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead className="text-right">Days Past Due</TableHead>
+                  <TableHead className="text-right">Deposit Held</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tenants.map((tenant) => (
+                  <TableRow key={tenant.id}>
+                    <TableCell className="font-medium">
+                      <Link href={`/properties/tenants/${tenant.id}`} className="hover:underline">
+                        {tenant.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>{tenant.email}</div>
+                      <div className="text-muted-foreground">{tenant.phone}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {tenant.units.map((unit) => (
+                        <div key={unit.leaseId}>
+                          {unit.address}
+                          {unit.unitName && ` - ${unit.unitName}`}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell
+                      className={`text-right font-medium ${
+                        tenant.summary.balance > 0 ? "text-red-600 dark:text-red-400" : ""
+                      }`}
+                    >
+                      {formatCurrency(tenant.summary.balance)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {tenant.summary.daysPastDue > 0 ? (
+                        <Badge variant={tenant.summary.daysPastDue > 30 ? "destructive" : "secondary"}>
+                          {tenant.summary.daysPastDue}
+                        </Badge>
+                      ) : (
+                        "—"
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(tenant.summary.depositHeld)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {!loading && tenants.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      {inArrearsOnly ? "No tenants in arrears" : "No tenants added yet"}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Tenant</CardTitle>
+          <CardDescription>
+            Put tenants on a unit from the Leases card on the property&apos;s Rent Roll tab
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="tenantName">Name</Label>
+              <Input
+                id="tenantName"
+                name="tenantName"
+                value={newTenant.name || ""}
+                onChange={(e) => setNewTenant({ ...newTenant, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tenantEmail">Email</Label>
+              <Input
+                id="tenantEmail"
+                name="tenantEmail"
+                type="email"
+                value={newTenant.email || ""}
+                onChange={(e) => setNewTenant({ ...newTenant, email: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tenantPhone">Phone</Label>
+              <Input
+                id="tenantPhone"
+                name="tenantPhone"
+                type="tel"
+                value={newTenant.phone || ""}
+                onChange={(e) => setNewTenant({ ...newTenant, phone: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tenantEmergencyContactName">Emergency Contact</Label>
+              <Input
+                id="tenantEmergencyContactName"
+                name="tenantEmergencyContactName"
+                value={newTenant.emergencyContactName || ""}
+                onChange={(e) => setNewTenant({ ...newTenant, emergencyContactName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tenantEmergencyContactPhone">Emergency Contact Phone</Label>
+              <Input
+                id="tenantEmergencyContactPhone"
+                name="tenantEmergencyContactPhone"
+                type="tel"
+                value={newTenant.emergencyContactPhone || ""}
+                onChange={(e) => setNewTenant({ ...newTenant, emergencyContactPhone: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tenantNotes">Notes</Label>
+              <Input
+                id="tenantNotes"
+                name="tenantNotes"
+                value={newTenant.notes || ""}
+                onChange={(e) => setNewTenant({ ...newTenant, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <Button onClick={handleAddTenant} className="mt-4">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Tenant
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
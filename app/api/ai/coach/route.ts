@@ -5,6 +5,10 @@ import { runSupabaseQuery } from "@/lib/database"
 import { getDatabaseSchema } from "@/lib/database-schema"
 import { AI_COACH_SYSTEM_PROMPT } from "@/lib/ai-coach/system-prompt"
 import { getCachedResponse, setCachedResponse } from "@/lib/ai-coach/cache"
+import { getPortfolioSummary, PortfolioSummary } from "@/lib/portfolio"
+
+// Largest properties (by estimated value) whose metrics go into the prompt; the totals cover the rest
+const COACH_PROPERTY_LIMIT = 10
 
 /**
  * POST /api/ai/coach
@@ -109,6 +113,15 @@ export async function POST(request: Request) {
     // Get database schema for context
     const dbSchema = getDatabaseSchema()
 
+    // Portfolio metrics come from the same source as /api/portfolio/summary,
+    // so the coach never recomputes cashflow or ROE differently
+    let portfolioSummary: PortfolioSummary | null = null
+    try {
+      portfolioSummary = await getPortfolioSummary(user.id)
+    } catch (summaryError) {
+      console.warn("Could not load portfolio summary for AI Coach:", summaryError)
+    }
+
     // Step 1: Generate SQL query from user question
     // Make the query more targeted based on question context
     const sqlGenerationPrompt = `You are a PostgreSQL/Supabase SQL expert. Generate a SQL query to answer the user's question.
@@ -127,6 +140,7 @@ Important Rules:
 6. Use proper PostgreSQL syntax (e.g., use TEXT instead of VARCHAR, use DECIMAL for money)
 7. Focus on the MOST RELEVANT data for the question - don't query everything
 8. If the question is about properties, prioritize the properties table and related tables (rent_roll_units, work_requests)
+   Do NOT compute cashflow, equity, ROE, cap rate or DSCR in SQL - those metrics are provided separately
 9. If the question is about subscriptions, focus on the subscriptions table
 10. If the question is about clients, focus on ghl_clients and ghl_weekly_metrics tables
 
@@ -254,10 +268,43 @@ ${dbSchema}
 
 **Note:** I can still provide general business coaching advice, but I don't have access to your specific data for this question.`
 
+    // Only the fields the coach talks about, so large portfolios don't crowd out the question
+    const topProperties = portfolioSummary
+      ? portfolioSummary.properties
+        .slice()
+        .sort((a, b) => b.currentEstValue - a.currentEstValue)
+        .slice(0, COACH_PROPERTY_LIMIT)
+        .map(p => ({
+          address: p.address,
+          status: p.status,
+          ownershipShare: p.ownershipShare,
+          currentEstValue: p.currentEstValue,
+          monthlyGrossRent: p.monthlyGrossRent,
+          monthlyCashflow: p.monthlyCashflow,
+          equity: p.equity,
+          roe: p.roe,
+          capRate: p.capRate,
+          dscr: p.dscr,
+        }))
+      : []
+
+    const portfolioContext = portfolioSummary
+      ? `**Portfolio Metrics (authoritative - use these for cashflow, equity, ROE, cap rate and DSCR):**
+${JSON.stringify({
+  totals: portfolioSummary.totals,
+  byStatus: portfolioSummary.byStatus,
+  largestProperties: topProperties,
+}, null, 2)}
+${portfolioSummary.properties.length > topProperties.length
+  ? `(The ${topProperties.length} most valuable of ${portfolioSummary.properties.length} properties are listed; the totals include all of them.)\n`
+  : ""}`
+      : ""
+
     const analysisPrompt = `${AI_COACH_SYSTEM_PROMPT}
 
 **User's Question:** "${message}"
 
+${portfolioContext}
 ${dataSummary}
 
 **Your Response Should:**
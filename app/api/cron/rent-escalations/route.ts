@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { applyDueRentEscalations } from '@/lib/tenant-helpers'
+
+/**
+ * GET /api/cron/rent-escalations - Apply the lease rent escalations that have come due and
+ * move rent roll units on to their next lease (e.g. a renewal) once it starts
+ *
+ * Run daily by Vercel Cron (see vercel.json). Not a user route: it's authorized with
+ * `Authorization: Bearer <CRON_SECRET>` instead of a Clerk session.
+ * Returns the number of rent roll units updated.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const updatedUnits = await applyDueRentEscalations()
+
+    return NextResponse.json({ success: true, updatedUnits })
+  } catch (error: any) {
+    console.error('Error in GET /api/cron/rent-escalations:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,209 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { userHasWorkspaceAccess } from '@/lib/workspace-helpers'
+import { mapCustomFieldDefinitionRow } from '@/lib/property-mappers'
+import { getCustomFieldKey, normalizeCustomFieldOptions, validateCustomFieldDefinition } from '@/lib/custom-fields'
+
+// Properties read per request when removing a deleted field's values
+const PROPERTY_PAGE_SIZE = 1000
+
+/**
+ * Fetch a custom field if the user has access to its workspace
+ */
+async function getAccessibleCustomField(userId: string, fieldId: string) {
+  if (!supabaseAdmin) return null
+
+  const { data: field } = await supabaseAdmin
+    .from('property_custom_fields')
+    .select('*')
+    .eq('id', fieldId)
+    .single()
+
+  if (!field || !(await userHasWorkspaceAccess(userId, field.workspace_id))) {
+    return null
+  }
+
+  return field
+}
+
+/**
+ * Remove a custom field's values from the properties of its workspace
+ */
+async function removeCustomFieldValues(workspaceId: string, key: string) {
+  if (!supabaseAdmin) return
+
+  for (let from = 0; ; from += PROPERTY_PAGE_SIZE) {
+    const { data: properties, error } = await supabaseAdmin
+      .from('properties')
+      .select('id, custom_fields')
+      .eq('workspace_id', workspaceId)
+      .not('custom_fields', 'is', null)
+      .order('id')
+      .range(from, from + PROPERTY_PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch properties: ${error.message}`)
+    }
+
+    for (const property of (properties || []).filter((p: any) => typeof p.custom_fields === 'object' && key in p.custom_fields)) {
+      const { [key]: removed, ...customFields } = property.custom_fields
+      const { error: updateError } = await supabaseAdmin
+        .from('properties')
+        .update({ custom_fields: customFields })
+        .eq('id', property.id)
+
+      if (updateError) {
+        throw new Error(`Failed to remove custom field values: ${updateError.message}`)
+      }
+    }
+
+    if (!properties || properties.length < PROPERTY_PAGE_SIZE) return
+  }
+}
+
+/**
+ * PATCH /api/custom-fields/[fieldId] - Rename a custom field or change its select options
+ * The type can't be changed, since existing values were validated against it
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { fieldId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const field = await getAccessibleCustomField(userId, params.fieldId)
+    if (!field) {
+      return NextResponse.json(
+        { error: 'Custom field not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (body.type !== undefined && body.type !== field.type) {
+      return NextResponse.json(
+        { error: 'Invalid request: a custom field\'s type can\'t be changed' },
+        { status: 400 }
+      )
+    }
+
+    const updated = {
+      name: body.name !== undefined ? String(body.name).trim() : field.name,
+      type: field.type,
+      options: body.options !== undefined ? normalizeCustomFieldOptions(body.options) : field.options,
+    }
+    const validationError = validateCustomFieldDefinition(updated)
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: `Invalid request: ${validationError}` },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('property_custom_fields')
+      .update({
+        name: updated.name,
+        options: field.type === 'select' ? updated.options : null,
+      })
+      .eq('id', field.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating custom field:', error)
+      return NextResponse.json(
+        { error: 'Failed to update custom field', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, field: mapCustomFieldDefinitionRow(data) })
+  } catch (error: any) {
+    console.error('Error in PATCH /api/custom-fields/[fieldId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/custom-fields/[fieldId] - Remove a custom field and its values on the workspace's properties
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { fieldId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const field = await getAccessibleCustomField(userId, params.fieldId)
+    if (!field) {
+      return NextResponse.json(
+        { error: 'Custom field not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error } = await supabaseAdmin
+      .from('property_custom_fields')
+      .delete()
+      .eq('id', field.id)
+
+    if (error) {
+      console.error('Error deleting custom field:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete custom field', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    // The field is gone, so leftover values are only logged; saves drop them too
+    try {
+      await removeCustomFieldValues(field.workspace_id, getCustomFieldKey(field))
+    } catch (cleanupError) {
+      console.error('Error removing custom field values:', cleanupError)
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Error in DELETE /api/custom-fields/[fieldId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
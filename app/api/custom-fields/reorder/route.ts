@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getOrCreateUserWorkspace, userHasWorkspaceAccess } from '@/lib/workspace-helpers'
+
+/**
+ * POST /api/custom-fields/reorder - Set the column order of a workspace's custom fields
+ *
+ * Body: { fieldIds: string[], workspaceId? } listing the workspace's fields in their new order
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const body = await request.json()
+    const { fieldIds } = body
+
+    if (!Array.isArray(fieldIds) || fieldIds.some((id: unknown) => typeof id !== 'string')) {
+      return NextResponse.json(
+        { error: 'Invalid request: fieldIds must be an array of field IDs' },
+        { status: 400 }
+      )
+    }
+
+    const workspace = await getOrCreateUserWorkspace(userId)
+    const targetWorkspaceId = body.workspaceId || workspace.id
+
+    if (targetWorkspaceId !== workspace.id && !(await userHasWorkspaceAccess(userId, targetWorkspaceId))) {
+      return NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('property_custom_fields')
+      .select('id')
+      .eq('workspace_id', targetWorkspaceId)
+
+    if (existingError) {
+      console.error('Error fetching custom fields:', existingError)
+      return NextResponse.json(
+        { error: 'Failed to fetch custom fields', details: existingError.message },
+        { status: 500 }
+      )
+    }
+
+    const existingIds = (existing || []).map((field: any) => field.id)
+    if (
+      fieldIds.length !== existingIds.length ||
+      existingIds.some((id: string) => !fieldIds.includes(id))
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid request: fieldIds must list every custom field in the workspace exactly once' },
+        { status: 400 }
+      )
+    }
+
+    for (let position = 0; position < fieldIds.length; position++) {
+      const { error } = await supabaseAdmin
+        .from('property_custom_fields')
+        .update({ position })
+        .eq('id', fieldIds[position])
+        .eq('workspace_id', targetWorkspaceId)
+
+      if (error) {
+        console.error('Error reordering custom fields:', error)
+        return NextResponse.json(
+          { error: 'Failed to reorder custom fields', details: error.message },
+          { status: 500 }
+        )
+      }
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Error in POST /api/custom-fields/reorder:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
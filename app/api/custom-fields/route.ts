@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getOrCreateUserWorkspace, userHasWorkspaceAccess } from '@/lib/workspace-helpers'
+import { mapCustomFieldDefinitionRow } from '@/lib/property-mappers'
+import { normalizeCustomFieldOptions, validateCustomFieldDefinition } from '@/lib/custom-fields'
+
+/**
+ * GET /api/custom-fields - Fetch the custom property field definitions of a workspace, in column order
+ * Defaults to the user's own workspace; pass ?workspaceId= for another workspace they belong to
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const workspace = await getOrCreateUserWorkspace(userId)
+    const workspaceId = request.nextUrl.searchParams.get('workspaceId') || workspace.id
+
+    if (workspaceId !== workspace.id && !(await userHasWorkspaceAccess(userId, workspaceId))) {
+      return NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('property_custom_fields')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching custom fields:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch custom fields', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ fields: (data || []).map(mapCustomFieldDefinitionRow) })
+  } catch (error: any) {
+    console.error('Error in GET /api/custom-fields:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/custom-fields - Add a custom property field as the last column
+ *
+ * Body: { name, type, options?, workspaceId? }
+ * `options` lists the allowed values and is required for select fields
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const body = await request.json()
+    const validationError = validateCustomFieldDefinition(body)
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: `Invalid request: ${validationError}` },
+        { status: 400 }
+      )
+    }
+
+    const workspace = await getOrCreateUserWorkspace(userId)
+    const targetWorkspaceId = body.workspaceId || workspace.id
+
+    if (targetWorkspaceId !== workspace.id && !(await userHasWorkspaceAccess(userId, targetWorkspaceId))) {
+      return NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      )
+    }
+
+    const name = String(body.name).trim()
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('property_custom_fields')
+      .select('name, position')
+      .eq('workspace_id', targetWorkspaceId)
+
+    if (existingError) {
+      console.error('Error fetching custom fields:', existingError)
+      return NextResponse.json(
+        { error: 'Failed to fetch custom fields', details: existingError.message },
+        { status: 500 }
+      )
+    }
+
+    if ((existing || []).some((field: any) => field.name.toLowerCase() === name.toLowerCase())) {
+      return NextResponse.json(
+        { error: `Invalid request: a field named "${name}" already exists` },
+        { status: 400 }
+      )
+    }
+
+    const position = (existing || []).reduce((max: number, field: any) => Math.max(max, field.position + 1), 0)
+
+    const { data, error } = await supabaseAdmin
+      .from('property_custom_fields')
+      .insert({
+        workspace_id: targetWorkspaceId,
+        created_by: userId,
+        name,
+        type: body.type,
+        options: body.type === 'select' ? normalizeCustomFieldOptions(body.options) : null,
+        position,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating custom field:', error)
+      return NextResponse.json(
+        { error: 'Failed to create custom field', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, field: mapCustomFieldDefinitionRow(data) })
+  } catch (error: any) {
+    console.error('Error in POST /api/custom-fields:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { userHasWorkspaceAccess } from '@/lib/workspace-helpers'
+
+/**
+ * DELETE /api/import-profiles/[profileId] - Remove a saved import mapping profile
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { profileId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const { data: profile } = await supabaseAdmin
+      .from('import_mapping_profiles')
+      .select('id, workspace_id')
+      .eq('id', params.profileId)
+      .single()
+
+    if (!profile || !(await userHasWorkspaceAccess(userId, profile.workspace_id))) {
+      return NextResponse.json(
+        { error: 'Import profile not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error } = await supabaseAdmin
+      .from('import_mapping_profiles')
+      .delete()
+      .eq('id', profile.id)
+
+    if (error) {
+      console.error('Error deleting import profile:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete import profile', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Error in DELETE /api/import-profiles/[profileId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getOrCreateUserWorkspace, getUserWorkspaces, userHasWorkspaceAccess } from '@/lib/workspace-helpers'
+import { mapImportMappingProfileRow } from '@/lib/property-mappers'
+import { getHeaderSignature } from '@/lib/csv-import'
+
+/**
+ * GET /api/import-profiles - Fetch saved import mapping profiles across the user's workspaces
+ * Pass ?workspaceId= to limit the result to one workspace
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const workspaces = await getUserWorkspaces(userId)
+    let workspaceIds = workspaces.map(w => w.id)
+
+    const workspaceId = request.nextUrl.searchParams.get('workspaceId')
+    if (workspaceId) {
+      workspaceIds = workspaceIds.filter(id => id === workspaceId)
+    }
+
+    if (workspaceIds.length === 0) {
+      return NextResponse.json({ profiles: [] })
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('import_mapping_profiles')
+      .select('*')
+      .in('workspace_id', workspaceIds)
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching import profiles:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch import profiles', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ profiles: (data || []).map(mapImportMappingProfileRow) })
+  } catch (error: any) {
+    console.error('Error in GET /api/import-profiles:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/import-profiles - Save a named import mapping profile
+ *
+ * Body: { name, mapping, headers, workspaceId? }
+ * `mapping` maps target fields (including custom_* fields) to CSV headers; `headers` are the
+ * file's headers, stored as a signature so the profile is picked automatically for the same export.
+ * Saving under an existing name replaces that profile.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const body = await request.json()
+    const name = body.name ? String(body.name).trim() : ''
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Invalid request: name is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!body.mapping || typeof body.mapping !== 'object' || Array.isArray(body.mapping)) {
+      return NextResponse.json(
+        { error: 'Invalid request: mapping must be an object' },
+        { status: 400 }
+      )
+    }
+
+    if (!Array.isArray(body.headers) || body.headers.length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid request: headers must be a non-empty array' },
+        { status: 400 }
+      )
+    }
+
+    // Keep only string header assignments
+    const mapping: Record<string, string> = {}
+    Object.keys(body.mapping).forEach((field) => {
+      const header = body.mapping[field]
+      if (typeof header === 'string' && header.trim()) {
+        mapping[field] = header
+      }
+    })
+
+    const workspace = await getOrCreateUserWorkspace(userId)
+    const targetWorkspaceId = body.workspaceId || workspace.id
+
+    if (targetWorkspaceId !== workspace.id && !(await userHasWorkspaceAccess(userId, targetWorkspaceId))) {
+      return NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('import_mapping_profiles')
+      .upsert(
+        {
+          workspace_id: targetWorkspaceId,
+          created_by: userId,
+          name,
+          mapping,
+          header_signature: getHeaderSignature(body.headers.map(String)),
+        },
+        { onConflict: 'workspace_id,name' }
+      )
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving import profile:', error)
+      return NextResponse.json(
+        { error: 'Failed to save import profile', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, profile: mapImportMappingProfileRow(data) })
+  } catch (error: any) {
+    console.error('Error in POST /api/import-profiles:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
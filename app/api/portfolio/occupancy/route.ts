@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getOccupancyReport } from '@/lib/portfolio'
+import { addDays, toDateString } from '@/lib/leases'
+
+const VALID_INTERVALS = ['month', 'quarter']
+const MAX_RANGE_DAYS = 3660 // About 10 years
+
+/**
+ * GET /api/portfolio/occupancy - Occupancy, vacancy and turnover per property and for the portfolio
+ *
+ * Returns physical vacancy (share of unit-days vacant), economic vacancy (share of potential
+ * rent lost), average days vacant per unit and turnover rate (move-outs per unit), per
+ * property, per month or quarter, and in total.
+ *
+ * Query params (all optional):
+ * - from: first day, YYYY-MM-DD (defaults to the start of the month 11 months ago)
+ * - to: last day, YYYY-MM-DD (defaults to today; later dates are capped at today)
+ * - interval: 'month' (default) or 'quarter'
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const interval = searchParams.get('interval') || 'month'
+    const today = toDateString(new Date())
+    const now = new Date()
+    const defaultFrom = toDateString(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 11, 1)))
+    const from = searchParams.get('from') || defaultFrom
+    const requestedTo = searchParams.get('to') || today
+    const to = requestedTo > today ? today : requestedTo
+
+    if (!VALID_INTERVALS.includes(interval)) {
+      return NextResponse.json(
+        { error: `Invalid interval: "${interval}". Must be one of: ${VALID_INTERVALS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))
+    if (!isDate(from) || !isDate(requestedTo)) {
+      return NextResponse.json(
+        { error: 'Invalid request: from and to must be YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    if (from > to) {
+      return NextResponse.json(
+        { error: 'Invalid request: from must be on or before to (and not in the future)' },
+        { status: 400 }
+      )
+    }
+
+    if (addDays(from, MAX_RANGE_DAYS) < to) {
+      return NextResponse.json(
+        { error: 'Invalid request: the range can be at most 10 years' },
+        { status: 400 }
+      )
+    }
+
+    const occupancy = await getOccupancyReport(userId, from, to, interval as 'month' | 'quarter')
+
+    return NextResponse.json({ occupancy })
+  } catch (error: any) {
+    console.error('Error in GET /api/portfolio/occupancy:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getPortfolioSummary } from '@/lib/portfolio'
+
+const VALID_STATUSES = ['rented', 'vacant', 'under_maintenance', 'sold']
+
+/**
+ * GET /api/portfolio/summary - Per-property and portfolio metrics
+ *
+ * Returns cashflow, equity, ROE, cap rate, cash-on-cash and DSCR per property,
+ * plus totals (gross and at our ownership share) broken down by status, type
+ * and mortgage holder.
+ *
+ * Query params (all optional):
+ * - status: only include properties with this status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+
+    if (status && !VALID_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status: "${status}". Must be one of: ${VALID_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const summary = await getPortfolioSummary(userId, { status: status || undefined })
+
+    return NextResponse.json({ summary })
+  } catch (error: any) {
+    console.error('Error in GET /api/portfolio/summary:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty } from '@/lib/property-helpers'
+
+/**
+ * PUT /api/properties/[id]/cover - Choose the property's cover photo
+ *
+ * Body: { photoId } - one of the property's photos, or null to remove the cover
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const photoId = body.photoId || null
+
+    if (photoId) {
+      const { data: photo, error: photoError } = await supabaseAdmin
+        .from('property_photos')
+        .select('id')
+        .eq('id', photoId)
+        .eq('property_id', property.id) // Ensure the photo belongs to this property
+        .maybeSingle()
+
+      if (photoError) {
+        console.error('Error fetching photo:', photoError)
+        return NextResponse.json(
+          { error: 'Failed to fetch photo', details: photoError.message },
+          { status: 500 }
+        )
+      }
+
+      if (!photo) {
+        return NextResponse.json(
+          { error: 'Photo not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('properties')
+      .update({ cover_photo_id: photoId })
+      .eq('id', property.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error setting cover photo:', error)
+      return NextResponse.json(
+        { error: 'Failed to set cover photo', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, property: data })
+  } catch (error: any) {
+    console.error('Error in PUT /api/properties/[id]/cover:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty } from '@/lib/property-helpers'
+import { getStorage } from '@/lib/storage'
+
+/**
+ * GET /api/properties/[id]/documents/[documentId] - Download a document
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; documentId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: document, error } = await supabaseAdmin
+      .from('property_documents')
+      .select('*')
+      .eq('id', params.documentId)
+      .eq('property_id', property.id) // Ensure the document belongs to this property
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching document:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch document', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      )
+    }
+
+    const contents = await getStorage().get(document.storage_key)
+
+    return new NextResponse(new Uint8Array(contents), {
+      headers: {
+        'Content-Type': document.content_type,
+        'Content-Length': String(contents.length),
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(document.file_name)}"`,
+      },
+    })
+  } catch (error: any) {
+    console.error('Error in GET /api/properties/[id]/documents/[documentId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/properties/[id]/documents/[documentId] - Delete a document and its file
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; documentId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: document, error } = await supabaseAdmin
+      .from('property_documents')
+      .delete()
+      .eq('id', params.documentId)
+      .eq('property_id', property.id) // Ensure the document belongs to this property
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error deleting document:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete document', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      )
+    }
+
+    try {
+      await getStorage().delete(document.storage_key)
+    } catch (storageError) {
+      // The metadata row is gone, so the document is deleted as far as users can tell
+      console.error('Error deleting document file from storage:', storageError)
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Error in DELETE /api/properties/[id]/documents/[documentId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty } from '@/lib/property-helpers'
+import { getStorage, buildStorageKey } from '@/lib/storage'
+
+const VALID_CATEGORIES = ['insurance', 'tax_bill', 'mortgage', 'lease', 'inspection']
+const MAX_FILE_SIZE = 25 * 1024 * 1024 // 25 MB
+
+/**
+ * GET /api/properties/[id]/documents - List documents for a property
+ *
+ * Query params (all optional):
+ * - category: only documents in this category
+ * - expiresBefore: only documents with an expiry date on or before this date (YYYY-MM-DD)
+ * - metadata.<key>=<value>: only documents whose metadata has this key/value
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const category = searchParams.get('category')
+    const expiresBefore = searchParams.get('expiresBefore')
+
+    let query = supabaseAdmin
+      .from('property_documents')
+      .select('*')
+      .eq('property_id', property.id)
+
+    if (category) {
+      query = query.eq('category', category)
+    }
+
+    if (expiresBefore) {
+      query = query.lte('expiry_date', expiresBefore)
+    }
+
+    const metadataFilter: Record<string, string> = {}
+    searchParams.forEach((value, key) => {
+      if (key.startsWith('metadata.')) {
+        metadataFilter[key.slice('metadata.'.length)] = value
+      }
+    })
+    if (Object.keys(metadataFilter).length > 0) {
+      query = query.contains('metadata', metadataFilter)
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching documents:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch documents', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ documents: data || [] })
+  } catch (error: any) {
+    console.error('Error in GET /api/properties/[id]/documents:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/properties/[id]/documents - Upload a document
+ *
+ * Body (multipart/form-data):
+ * - file: the document
+ * - category: insurance | tax_bill | mortgage | lease | inspection
+ * - expiryDate: optional expiry date (YYYY-MM-DD)
+ * - metadata: optional JSON object of string key/value pairs
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const category = String(formData.get('category') || '')
+    const expiryDate = formData.get('expiryDate') ? String(formData.get('expiryDate')) : null
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'Invalid request: file is required' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: `File is too large. Maximum size is ${MAX_FILE_SIZE / (1024 * 1024)} MB` },
+        { status: 400 }
+      )
+    }
+
+    if (!VALID_CATEGORIES.includes(category)) {
+      return NextResponse.json(
+        { error: `Invalid category: "${category}". Must be one of: ${VALID_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    let metadata: Record<string, string> = {}
+    const rawMetadata = formData.get('metadata')
+    if (rawMetadata) {
+      try {
+        const parsed = JSON.parse(String(rawMetadata))
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+          throw new Error('metadata must be an object')
+        }
+        Object.keys(parsed).forEach(key => {
+          metadata[key] = String(parsed[key])
+        })
+      } catch (parseError: any) {
+        return NextResponse.json(
+          { error: `Invalid metadata: ${parseError.message}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Upload the file first so we never store metadata for a missing file
+    const storage = getStorage()
+    const storageKey = buildStorageKey(`properties/${property.id}`, file.name)
+    const contentType = file.type || 'application/octet-stream'
+    await storage.put(storageKey, Buffer.from(await file.arrayBuffer()), contentType)
+
+    const { data, error } = await supabaseAdmin
+      .from('property_documents')
+      .insert({
+        property_id: property.id,
+        user_id: userId,
+        file_name: file.name,
+        content_type: contentType,
+        size_bytes: file.size,
+        storage_key: storageKey,
+        category,
+        expiry_date: expiryDate,
+        metadata,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error inserting document:', error)
+      // Clean up the uploaded file - it has no metadata row pointing at it
+      await storage.delete(storageKey).catch((deleteError) => {
+        console.error('Error cleaning up uploaded file:', deleteError)
+      })
+      return NextResponse.json(
+        { error: 'Failed to save document', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, document: data })
+  } catch (error: any) {
+    console.error('Error in POST /api/properties/[id]/documents:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty } from '@/lib/property-helpers'
+import { getPropertyLease } from '@/lib/tenant-helpers'
+
+/**
+ * DELETE /api/properties/[id]/leases/[leaseId]/ledger/[entryId] - Delete a ledger entry
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; leaseId: string; entryId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const lease = await getPropertyLease(property.id, params.leaseId)
+    if (!lease) {
+      return NextResponse.json(
+        { error: 'Lease not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('tenant_ledger_entries')
+      .delete()
+      .eq('id', params.entryId)
+      .eq('lease_id', lease.id) // Ensure the entry belongs to this lease
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error deleting ledger entry:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete ledger entry', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Ledger entry not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Error in DELETE /api/properties/[id]/leases/[leaseId]/ledger/[entryId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
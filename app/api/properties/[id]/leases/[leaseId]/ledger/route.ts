@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty } from '@/lib/property-helpers'
+import { getPropertyLease } from '@/lib/tenant-helpers'
+import { VALID_TENANT_LEDGER_ENTRY_TYPES } from '@/lib/tenant-ledger'
+
+/**
+ * GET /api/properties/[id]/leases/[leaseId]/ledger - Fetch a lease's ledger entries, oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; leaseId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const lease = await getPropertyLease(property.id, params.leaseId)
+    if (!lease) {
+      return NextResponse.json(
+        { error: 'Lease not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('tenant_ledger_entries')
+      .select('*')
+      .eq('lease_id', lease.id)
+      .order('date', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching ledger entries:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch ledger entries', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ entries: data || [] })
+  } catch (error: any) {
+    console.error('Error in GET /api/properties/[id]/leases/[leaseId]/ledger:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/properties/[id]/leases/[leaseId]/ledger - Record a charge, payment or deposit movement
+ *
+ * Body: { date, type, amount, description? }
+ * amount is always positive; the type decides whether it adds to or pays down the balance
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; leaseId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const lease = await getPropertyLease(property.id, params.leaseId)
+    if (!lease) {
+      return NextResponse.json(
+        { error: 'Lease not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const amount = Number(body.amount)
+
+    if (!body.date || !/^\d{4}-\d{2}-\d{2}$/.test(String(body.date))) {
+      return NextResponse.json(
+        { error: 'Invalid request: date is required (YYYY-MM-DD)' },
+        { status: 400 }
+      )
+    }
+
+    if (body.amount === undefined || body.amount === '' || isNaN(amount) || amount < 0) {
+      return NextResponse.json(
+        { error: 'Invalid request: amount must be a positive number' },
+        { status: 400 }
+      )
+    }
+
+    if (!VALID_TENANT_LEDGER_ENTRY_TYPES.includes(body.type)) {
+      return NextResponse.json(
+        { error: `Invalid type: "${body.type}". Must be one of: ${VALID_TENANT_LEDGER_ENTRY_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('tenant_ledger_entries')
+      .insert({
+        lease_id: lease.id,
+        user_id: userId,
+        date: body.date,
+        type: body.type,
+        amount,
+        description: body.description ? String(body.description).trim() || null : null,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error inserting ledger entry:', error)
+      return NextResponse.json(
+        { error: 'Failed to add ledger entry', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, entry: data })
+  } catch (error: any) {
+    console.error('Error in POST /api/properties/[id]/leases/[leaseId]/ledger:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
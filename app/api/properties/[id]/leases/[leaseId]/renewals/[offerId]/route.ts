@@ -0,0 +1,245 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty } from '@/lib/property-helpers'
+import { createRenewalLease, getPropertyLease, syncUnitFromLeases } from '@/lib/tenant-helpers'
+import { toDateString } from '@/lib/leases'
+
+const RESPONSE_STATUSES = ['accepted', 'declined', 'withdrawn']
+
+/**
+ * PUT /api/properties/[id]/leases/[leaseId]/renewals/[offerId] - Record the answer to a renewal offer
+ *
+ * Body: { status: 'accepted' | 'declined' | 'withdrawn' }
+ * Only pending offers can be answered, once: a concurrent answer gets a 409. Accepting one
+ * creates the renewal lease (returned as renewalLease) and the response includes the
+ * property's resulting monthlyGrossRent.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; leaseId: string; offerId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const lease = await getPropertyLease(property.id, params.leaseId)
+    if (!lease) {
+      return NextResponse.json(
+        { error: 'Lease not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    if (!RESPONSE_STATUSES.includes(body.status)) {
+      return NextResponse.json(
+        { error: `Invalid status: "${body.status}". Must be one of: ${RESPONSE_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { data: offer, error: offerError } = await supabaseAdmin
+      .from('lease_renewal_offers')
+      .select('*')
+      .eq('id', params.offerId)
+      .eq('lease_id', lease.id) // Ensure the offer belongs to this lease
+      .maybeSingle()
+
+    if (offerError) {
+      console.error('Error fetching renewal offer:', offerError)
+      return NextResponse.json(
+        { error: 'Failed to fetch renewal offer', details: offerError.message },
+        { status: 500 }
+      )
+    }
+
+    if (!offer) {
+      return NextResponse.json(
+        { error: 'Renewal offer not found' },
+        { status: 404 }
+      )
+    }
+
+    if (offer.status !== 'pending') {
+      return NextResponse.json(
+        { error: `This offer was already ${offer.status}` },
+        { status: 400 }
+      )
+    }
+
+    // Claim the offer: only one of two concurrent answers can move it out of pending
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('lease_renewal_offers')
+      .update({
+        status: body.status,
+        responded_on: toDateString(new Date()),
+      })
+      .eq('id', offer.id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle()
+
+    if (claimError) {
+      console.error('Error updating renewal offer:', claimError)
+      return NextResponse.json(
+        { error: 'Failed to update renewal offer', details: claimError.message },
+        { status: 500 }
+      )
+    }
+
+    if (!claimed) {
+      return NextResponse.json(
+        { error: 'This offer was answered by someone else in the meantime' },
+        { status: 409 }
+      )
+    }
+
+    if (body.status !== 'accepted') {
+      return NextResponse.json({ success: true, offer: claimed })
+    }
+
+    // Reopen the offer if its renewal lease can't be created, so it can be accepted again
+    const db = supabaseAdmin
+    const reopenOffer = () => db
+      .from('lease_renewal_offers')
+      .update({ status: 'pending', responded_on: null, renewal_lease_id: null })
+      .eq('id', offer.id)
+
+    let renewalLeaseId: string
+    try {
+      renewalLeaseId = await createRenewalLease(lease, offer)
+    } catch (renewalError) {
+      await reopenOffer()
+      throw renewalError
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('lease_renewal_offers')
+      .update({ renewal_lease_id: renewalLeaseId })
+      .eq('id', offer.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error linking renewal lease:', error)
+      // Don't leave a renewal behind for an offer that reads as pending again
+      await supabaseAdmin.from('leases').delete().eq('id', renewalLeaseId)
+      await reopenOffer()
+      return NextResponse.json(
+        { error: 'Failed to update renewal offer', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    const monthlyGrossRent = await syncUnitFromLeases(property.id, lease.unit_id)
+
+    return NextResponse.json({
+      success: true,
+      offer: data,
+      renewalLease: await getPropertyLease(property.id, renewalLeaseId),
+      monthlyGrossRent,
+    })
+  } catch (error: any) {
+    console.error('Error in PUT /api/properties/[id]/leases/[leaseId]/renewals/[offerId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/properties/[id]/leases/[leaseId]/renewals/[offerId] - Delete a renewal offer
+ * A renewal lease created from it is kept
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; leaseId: string; offerId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const lease = await getPropertyLease(property.id, params.leaseId)
+    if (!lease) {
+      return NextResponse.json(
+        { error: 'Lease not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('lease_renewal_offers')
+      .delete()
+      .eq('id', params.offerId)
+      .eq('lease_id', lease.id) // Ensure the offer belongs to this lease
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error deleting renewal offer:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete renewal offer', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Renewal offer not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Error in DELETE /api/properties/[id]/leases/[leaseId]/renewals/[offerId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
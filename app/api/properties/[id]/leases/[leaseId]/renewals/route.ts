@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty } from '@/lib/property-helpers'
+import { getPropertyLease } from '@/lib/tenant-helpers'
+import { mapLeaseRow } from '@/lib/property-mappers'
+import { addDays, getLeaseRentOn, toDateString } from '@/lib/leases'
+
+/**
+ * GET /api/properties/[id]/leases/[leaseId]/renewals - Fetch a lease's renewal offers, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; leaseId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const lease = await getPropertyLease(property.id, params.leaseId)
+    if (!lease) {
+      return NextResponse.json(
+        { error: 'Lease not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('lease_renewal_offers')
+      .select('*')
+      .eq('lease_id', lease.id)
+      .order('offered_on', { ascending: false })
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching renewal offers:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch renewal offers', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ offers: data || [] })
+  } catch (error: any) {
+    console.error('Error in GET /api/properties/[id]/leases/[leaseId]/renewals:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/properties/[id]/leases/[leaseId]/renewals - Offer the tenants a renewal
+ *
+ * Body: { endDate, startDate?, monthlyRent?, offeredOn?, notes? }
+ * The renewal starts the day after the lease ends and keeps its final (escalated) rent
+ * unless given; offeredOn defaults to today
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; leaseId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const lease = await getPropertyLease(property.id, params.leaseId)
+    if (!lease) {
+      return NextResponse.json(
+        { error: 'Lease not found' },
+        { status: 404 }
+      )
+    }
+
+    if (lease.status === 'draft') {
+      return NextResponse.json(
+        { error: 'Draft leases can\'t be renewed' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const isDate = (value: any) => /^\d{4}-\d{2}-\d{2}$/.test(String(value))
+    const startDate = body.startDate || addDays(lease.end_date, 1)
+    const offeredOn = body.offeredOn || toDateString(new Date())
+    const monthlyRent = body.monthlyRent === undefined || body.monthlyRent === ''
+      ? getLeaseRentOn(mapLeaseRow(lease), lease.end_date)
+      : Number(body.monthlyRent)
+
+    if (!body.endDate || !isDate(body.endDate) || !isDate(startDate) || !isDate(offeredOn)) {
+      return NextResponse.json(
+        { error: 'Invalid request: endDate is required; dates must be YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    if (body.endDate < startDate) {
+      return NextResponse.json(
+        { error: 'Invalid request: endDate must be on or after startDate' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(monthlyRent) || monthlyRent < 0) {
+      return NextResponse.json(
+        { error: 'Invalid request: monthlyRent must be a positive number' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('lease_renewal_offers')
+      .insert({
+        lease_id: lease.id,
+        user_id: userId,
+        offered_on: offeredOn,
+        start_date: startDate,
+        end_date: body.endDate,
+        monthly_rent: monthlyRent,
+        notes: body.notes ? String(body.notes).trim() || null : null,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error inserting renewal offer:', error)
+      return NextResponse.json(
+        { error: 'Failed to add renewal offer', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, offer: data })
+  } catch (error: any) {
+    console.error('Error in POST /api/properties/[id]/leases/[leaseId]/renewals:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
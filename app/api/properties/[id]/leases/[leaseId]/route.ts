@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty } from '@/lib/property-helpers'
+import {
+  findInaccessibleTenantIds,
+  getPropertyLease,
+  mapLeaseBodyToRow,
+  setLeaseTenants,
+  syncUnitFromLeases,
+} from '@/lib/tenant-helpers'
+
+/**
+ * PUT /api/properties/[id]/leases/[leaseId] - Update a lease
+ *
+ * Body: { tenantIds?, startDate?, endDate?, monthlyRent?, securityDeposit?, status?, terms?,
+ *   escalationType?, escalationValue?, moveInDate?, moveOutDate? }
+ * Only fields present in the body are updated, e.g. { status: 'ended', moveOutDate } ends a
+ * lease. tenantIds replaces the lease's tenants (the first one is the primary tenant).
+ * The response includes the property's resulting monthlyGrossRent.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; leaseId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const existing = await getPropertyLease(property.id, params.leaseId)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Lease not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const { row, tenantIds, error: validationError } = mapLeaseBodyToRow(body, existing)
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    if (Object.keys(row).length === 0 && !tenantIds) {
+      return NextResponse.json(
+        { error: 'Invalid request: nothing to update' },
+        { status: 400 }
+      )
+    }
+
+    if (tenantIds) {
+      const missingTenantIds = await findInaccessibleTenantIds(userId, tenantIds)
+      if (missingTenantIds.length > 0) {
+        return NextResponse.json(
+          { error: 'Tenant not found', details: missingTenantIds.join(', ') },
+          { status: 404 }
+        )
+      }
+    }
+
+    if (Object.keys(row).length > 0) {
+      const { error } = await supabaseAdmin
+        .from('leases')
+        .update(row)
+        .eq('id', existing.id)
+
+      if (error) {
+        console.error('Error updating lease:', error)
+        return NextResponse.json(
+          { error: 'Failed to update lease', details: error.message },
+          { status: 500 }
+        )
+      }
+    }
+
+    if (tenantIds) {
+      await setLeaseTenants(existing.id, tenantIds)
+    }
+
+    const monthlyGrossRent = await syncUnitFromLeases(property.id, existing.unit_id)
+
+    return NextResponse.json({
+      success: true,
+      lease: await getPropertyLease(property.id, existing.id),
+      monthlyGrossRent,
+    })
+  } catch (error: any) {
+    console.error('Error in PUT /api/properties/[id]/leases/[leaseId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/properties/[id]/leases/[leaseId] - Delete a lease and its ledger
+ * The unit's rent roll row falls back to its next current lease, if it has one
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; leaseId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: lease, error } = await supabaseAdmin
+      .from('leases')
+      .delete()
+      .eq('id', params.leaseId)
+      .eq('property_id', property.id) // Ensure the lease belongs to this property
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error deleting lease:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete lease', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!lease) {
+      return NextResponse.json(
+        { error: 'Lease not found' },
+        { status: 404 }
+      )
+    }
+
+    const monthlyGrossRent = await syncUnitFromLeases(property.id, lease.unit_id)
+
+    return NextResponse.json({ success: true, monthlyGrossRent })
+  } catch (error: any) {
+    console.error('Error in DELETE /api/properties/[id]/leases/[leaseId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,208 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty } from '@/lib/property-helpers'
+import {
+  LEASE_SELECT,
+  findInaccessibleTenantIds,
+  getPropertyLease,
+  mapLeaseBodyToRow,
+  setLeaseTenants,
+  syncUnitFromLeases,
+} from '@/lib/tenant-helpers'
+
+/**
+ * GET /api/properties/[id]/leases - Fetch a property's leases with their tenants, newest first
+ *
+ * Query params (optional):
+ * - unitId: only leases of this rent roll unit
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const unitId = request.nextUrl.searchParams.get('unitId')
+
+    let query = supabaseAdmin
+      .from('leases')
+      .select(LEASE_SELECT)
+      .eq('property_id', property.id)
+
+    if (unitId) {
+      query = query.eq('unit_id', unitId)
+    }
+
+    const { data, error } = await query.order('start_date', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching leases:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch leases', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ leases: data || [] })
+  } catch (error: any) {
+    console.error('Error in GET /api/properties/[id]/leases:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/properties/[id]/leases - Let a rent roll unit to one or more tenants
+ *
+ * Body: { unitId, tenantIds, startDate, endDate, monthlyRent?, securityDeposit?, status?,
+ *   terms?, escalationType?, escalationValue?, moveInDate?, moveOutDate? }
+ * The first tenant is the primary tenant, the rest are co-tenants. Rent and deposit default
+ * to the unit's; status defaults to active (draft leases don't touch the rent roll). The unit's
+ * rent roll row follows its current lease, so the response includes the property's resulting
+ * monthlyGrossRent.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!body.unitId || !body.startDate || !body.endDate || body.tenantIds === undefined) {
+      return NextResponse.json(
+        { error: 'Invalid request: unitId, tenantIds, startDate and endDate are required' },
+        { status: 400 }
+      )
+    }
+
+    const { row, tenantIds, error: validationError } = mapLeaseBodyToRow(body)
+    if (validationError || !tenantIds) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const { data: unit, error: unitError } = await supabaseAdmin
+      .from('rent_roll_units')
+      .select('*')
+      .eq('id', body.unitId)
+      .eq('property_id', property.id) // Ensure the unit belongs to this property
+      .maybeSingle()
+
+    if (unitError) {
+      console.error('Error fetching rent roll unit:', unitError)
+      return NextResponse.json(
+        { error: 'Failed to fetch rent roll unit', details: unitError.message },
+        { status: 500 }
+      )
+    }
+
+    if (!unit) {
+      return NextResponse.json(
+        { error: 'Unit not found' },
+        { status: 404 }
+      )
+    }
+
+    const missingTenantIds = await findInaccessibleTenantIds(userId, tenantIds)
+    if (missingTenantIds.length > 0) {
+      return NextResponse.json(
+        { error: 'Tenant not found', details: missingTenantIds.join(', ') },
+        { status: 404 }
+      )
+    }
+
+    const { data: lease, error } = await supabaseAdmin
+      .from('leases')
+      .insert({
+        monthly_rent: unit.monthly_rent,
+        security_deposit: unit.security_deposit,
+        ...row,
+        property_id: property.id,
+        unit_id: unit.id,
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      console.error('Error inserting lease:', error)
+      return NextResponse.json(
+        { error: 'Failed to add lease', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    try {
+      await setLeaseTenants(lease.id, tenantIds)
+    } catch (tenantsError: any) {
+      // A lease without tenants is no use - remove it so the request can simply be retried
+      await supabaseAdmin.from('leases').delete().eq('id', lease.id)
+      throw tenantsError
+    }
+
+    const monthlyGrossRent = await syncUnitFromLeases(property.id, unit.id)
+
+    return NextResponse.json({
+      success: true,
+      lease: await getPropertyLease(property.id, lease.id),
+      monthlyGrossRent,
+    })
+  } catch (error: any) {
+    console.error('Error in POST /api/properties/[id]/leases:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
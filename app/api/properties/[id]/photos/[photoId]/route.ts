@@ -0,0 +1,262 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty } from '@/lib/property-helpers'
+import { deletePhotoFiles } from '@/lib/property-photos'
+import { getStorage } from '@/lib/storage'
+
+/**
+ * GET /api/properties/[id]/photos/[photoId] - Serve a photo
+ *
+ * Query params (optional):
+ * - size: "thumbnail" for the generated thumbnail instead of the original
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; photoId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: photo, error } = await supabaseAdmin
+      .from('property_photos')
+      .select('*')
+      .eq('id', params.photoId)
+      .eq('property_id', property.id) // Ensure the photo belongs to this property
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching photo:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch photo', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!photo) {
+      return NextResponse.json(
+        { error: 'Photo not found' },
+        { status: 404 }
+      )
+    }
+
+    const thumbnail = request.nextUrl.searchParams.get('size') === 'thumbnail'
+    const contents = await getStorage().get(thumbnail ? photo.thumbnail_key : photo.storage_key)
+
+    return new NextResponse(new Uint8Array(contents), {
+      headers: {
+        'Content-Type': thumbnail ? 'image/jpeg' : photo.content_type,
+        'Content-Length': String(contents.length),
+        'Content-Disposition': `inline; filename="${encodeURIComponent(photo.file_name)}"`,
+        // Stored files never change (a new upload gets a new id), so browsers can keep them
+        'Cache-Control': 'private, max-age=86400',
+      },
+    })
+  } catch (error: any) {
+    console.error('Error in GET /api/properties/[id]/photos/[photoId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/properties/[id]/photos/[photoId] - Update a photo's caption or unit
+ *
+ * Body: { caption?, unitId? } - an empty caption clears it, a null unitId moves the photo
+ * back to the property as a whole
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; photoId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const updates: Record<string, any> = {}
+
+    if ('caption' in body) {
+      updates.caption = body.caption ? String(body.caption).trim() || null : null
+    }
+
+    if ('unitId' in body) {
+      if (body.unitId) {
+        const { data: unit, error: unitError } = await supabaseAdmin
+          .from('rent_roll_units')
+          .select('id')
+          .eq('id', body.unitId)
+          .eq('property_id', property.id) // Ensure the unit belongs to this property
+          .maybeSingle()
+
+        if (unitError) {
+          console.error('Error fetching rent roll unit:', unitError)
+          return NextResponse.json(
+            { error: 'Failed to fetch rent roll unit', details: unitError.message },
+            { status: 500 }
+          )
+        }
+
+        if (!unit) {
+          return NextResponse.json(
+            { error: 'Unit not found' },
+            { status: 404 }
+          )
+        }
+      }
+      updates.unit_id = body.unitId || null
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid request: nothing to update' },
+        { status: 400 }
+      )
+    }
+
+    const { data: photo, error } = await supabaseAdmin
+      .from('property_photos')
+      .update(updates)
+      .eq('id', params.photoId)
+      .eq('property_id', property.id) // Ensure the photo belongs to this property
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating photo:', error)
+      return NextResponse.json(
+        { error: 'Failed to update photo', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!photo) {
+      return NextResponse.json(
+        { error: 'Photo not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, photo })
+  } catch (error: any) {
+    console.error('Error in PATCH /api/properties/[id]/photos/[photoId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/properties/[id]/photos/[photoId] - Delete a photo and its files
+ * Deleting the cover photo leaves the property without a cover
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; photoId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: photo, error } = await supabaseAdmin
+      .from('property_photos')
+      .delete()
+      .eq('id', params.photoId)
+      .eq('property_id', property.id) // Ensure the photo belongs to this property
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error deleting photo:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete photo', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!photo) {
+      return NextResponse.json(
+        { error: 'Photo not found' },
+        { status: 404 }
+      )
+    }
+
+    // The metadata row is gone, so the photo is deleted as far as users can tell
+    await deletePhotoFiles([photo.storage_key, photo.thumbnail_key])
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Error in DELETE /api/properties/[id]/photos/[photoId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,237 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty } from '@/lib/property-helpers'
+import { MAX_PHOTO_SIZE, PHOTO_CONTENT_TYPES, createPhotoThumbnail } from '@/lib/property-photos'
+import { getStorage, buildStorageKey } from '@/lib/storage'
+
+/**
+ * GET /api/properties/[id]/photos - List photos for a property and its units
+ *
+ * Query params (optional):
+ * - unitId: only photos of this rent roll unit
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const unitId = request.nextUrl.searchParams.get('unitId')
+
+    let query = supabaseAdmin
+      .from('property_photos')
+      .select('*')
+      .eq('property_id', property.id)
+
+    if (unitId) {
+      query = query.eq('unit_id', unitId)
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching photos:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch photos', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ photos: data || [], coverPhotoId: property.cover_photo_id })
+  } catch (error: any) {
+    console.error('Error in GET /api/properties/[id]/photos:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/properties/[id]/photos - Upload a photo
+ *
+ * Body (multipart/form-data):
+ * - file: a JPEG, PNG, WebP or GIF image
+ * - unitId: optional rent roll unit the photo shows
+ * - caption: optional caption
+ *
+ * A thumbnail is generated and stored next to the original. The first photo of
+ * a property without a cover becomes its cover.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const unitId = formData.get('unitId') ? String(formData.get('unitId')) : null
+    const caption = formData.get('caption') ? String(formData.get('caption')).trim() : ''
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'Invalid request: file is required' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_PHOTO_SIZE) {
+      return NextResponse.json(
+        { error: `Photo is too large. Maximum size is ${MAX_PHOTO_SIZE / (1024 * 1024)} MB` },
+        { status: 400 }
+      )
+    }
+
+    if (!PHOTO_CONTENT_TYPES.includes(file.type)) {
+      return NextResponse.json(
+        { error: `Unsupported photo type "${file.type || 'unknown'}". Upload a JPEG, PNG, WebP or GIF image` },
+        { status: 400 }
+      )
+    }
+
+    if (unitId) {
+      const { data: unit, error: unitError } = await supabaseAdmin
+        .from('rent_roll_units')
+        .select('id')
+        .eq('id', unitId)
+        .eq('property_id', property.id) // Ensure the unit belongs to this property
+        .maybeSingle()
+
+      if (unitError) {
+        console.error('Error fetching rent roll unit:', unitError)
+        return NextResponse.json(
+          { error: 'Failed to fetch rent roll unit', details: unitError.message },
+          { status: 500 }
+        )
+      }
+
+      if (!unit) {
+        return NextResponse.json(
+          { error: 'Unit not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const data = Buffer.from(await file.arrayBuffer())
+    const image = await createPhotoThumbnail(data)
+    if (!image) {
+      return NextResponse.json(
+        { error: 'The file could not be read as an image' },
+        { status: 400 }
+      )
+    }
+
+    // Upload both files first so we never store metadata for a missing file
+    const storage = getStorage()
+    const storageKey = buildStorageKey(`properties/${property.id}/photos`, file.name)
+    const thumbnailKey = buildStorageKey(`properties/${property.id}/photos/thumbnails`, `${file.name}.jpg`)
+    await storage.put(storageKey, data, file.type)
+    await storage.put(thumbnailKey, image.thumbnail, 'image/jpeg')
+
+    const { data: photo, error } = await supabaseAdmin
+      .from('property_photos')
+      .insert({
+        property_id: property.id,
+        unit_id: unitId,
+        user_id: userId,
+        file_name: file.name,
+        content_type: file.type,
+        size_bytes: file.size,
+        width: image.width,
+        height: image.height,
+        storage_key: storageKey,
+        thumbnail_key: thumbnailKey,
+        caption: caption || null,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error inserting photo:', error)
+      // Clean up the uploaded files - they have no metadata row pointing at them
+      await Promise.all([storageKey, thumbnailKey].map((key) =>
+        storage.delete(key).catch((deleteError) => {
+          console.error('Error cleaning up uploaded file:', deleteError)
+        })
+      ))
+      return NextResponse.json(
+        { error: 'Failed to save photo', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    let coverPhotoId = property.cover_photo_id
+    if (!coverPhotoId) {
+      const { data: covered, error: coverError } = await supabaseAdmin
+        .from('properties')
+        .update({ cover_photo_id: photo.id })
+        .eq('id', property.id)
+        .is('cover_photo_id', null) // Don't replace a cover set by a concurrent upload
+        .select('id')
+
+      if (coverError) {
+        // The photo is saved - the cover can still be chosen by hand
+        console.error('Error setting cover photo:', coverError)
+      } else if (covered && covered.length > 0) {
+        coverPhotoId = photo.id
+      }
+    }
+
+    return NextResponse.json({ success: true, photo, coverPhotoId })
+  } catch (error: any) {
+    console.error('Error in POST /api/properties/[id]/photos:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -1,9 +1,109 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import { canDeleteProperty, deleteDocumentFiles, geocodeAddressColumns, getDocumentStorageKeys, getAccessibleProperty, getWorkspaceCustomFields, recordEstimateValuations, recordOccupancySnapshots } from '@/lib/property-helpers'
+import { normalizeAddress } from '@/lib/address'
+import { mapPropertyChangesToRow } from '@/lib/property-changes'
+import { deletePhotoFiles, getPhotoStorageKeys } from '@/lib/property-photos'
+import { mapLoanTermsToRow } from '@/lib/property-mappers'
+import { normalizePartners, parseOwnershipPercentage, validateOwnership } from '@/lib/ownership'
+
+/**
+ * Add a changed current_est_value to the property's valuation history
+ * The property is already saved, so a failure here is only logged
+ */
+async function recordEstimateChange(before: Record<string, any>, after: Record<string, any>, userId: string) {
+  const value = Number(after.current_est_value) || 0
+  if (value === (Number(before.current_est_value) || 0)) {
+    return
+  }
+
+  try {
+    await recordEstimateValuations([{ propertyId: after.id, value }], userId)
+  } catch (valuationError) {
+    console.error('Error recording valuation:', valuationError)
+  }
+}
+
+/**
+ * Start a new occupancy snapshot when the property's status changed
+ * The property is already saved, so a failure here is only logged
+ */
+async function recordStatusChange(before: Record<string, any>, after: Record<string, any>) {
+  if (after.status === before.status) {
+    return
+  }
+
+  try {
+    await recordOccupancySnapshots([after.id])
+  } catch (snapshotError) {
+    console.error('Error recording occupancy snapshot:', snapshotError)
+  }
+}
+
+/**
+ * GET /api/properties/[id] - Fetch a single property
+ * Includes its rent roll units, work requests (with status history) and custom_fields.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth()
+    
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const accessible = await getAccessibleProperty(userId, params.id)
+    if (!accessible) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('properties')
+      .select('*, rent_roll_units(*), work_requests(*, work_request_status_history(*))')
+      .eq('id', accessible.id)
+      .single()
+
+    if (error) {
+      console.error('Error fetching property:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch property', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ property: data })
+  } catch (error: any) {
+    console.error('Error in GET /api/properties/[id]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
 
 /**
  * PUT /api/properties/[id] - Update a single property
+ * Any member of the property's workspace can update it. A changed address is geocoded again,
+ * and a changed currentEstValue is recorded in the valuation history as today's estimate.
+ * monthlyGrossRent is ignored: it's the sum of the rent roll units, kept by the server.
+ * Loan terms, ownershipPercentage and partners left out of the body keep their stored values.
  */
 export async function PUT(
   request: NextRequest,
@@ -26,13 +126,44 @@ export async function PUT(
       )
     }
 
-    const propertyId = params.id
     const body = await request.json()
 
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const ownershipSent = body.ownershipPercentage !== undefined || body.partners !== undefined
+    const ownershipPercentage = body.ownershipPercentage !== undefined
+      ? parseOwnershipPercentage(body.ownershipPercentage)
+      : parseOwnershipPercentage(property.ownership_percentage) ?? 100
+    if (ownershipPercentage === null) {
+      return NextResponse.json(
+        { error: `Invalid ownershipPercentage: "${body.ownershipPercentage}". Must be greater than 0 and at most 100` },
+        { status: 400 }
+      )
+    }
+
+    const partners = normalizePartners(body.partners !== undefined ? body.partners : property.partners)
+    const ownershipError = validateOwnership(ownershipPercentage, partners)
+    if (ownershipError) {
+      return NextResponse.json(
+        { error: ownershipError },
+        { status: 400 }
+      )
+    }
+
+    const addressChanged = !!body.address && normalizeAddress(body.address) !== normalizeAddress(property.address)
+    const locationColumns = addressChanged ? await geocodeAddressColumns(body.address) : {}
+
     const { data, error } = await supabaseAdmin
       .from('properties')
       .update({
         address: body.address,
+        ...locationColumns,
         type: body.type,
         status: body.status,
         mortgage_holder: body.mortgageHolder || null,
@@ -43,12 +174,11 @@ export async function PUT(
         monthly_insurance: body.monthlyInsurance || 0,
         monthly_property_tax: body.monthlyPropertyTax || 0,
         monthly_other_costs: body.monthlyOtherCosts || 0,
-        monthly_gross_rent: body.monthlyGrossRent || 0,
-        ownership: body.ownership || null,
+        ...mapLoanTermsToRow(body),
+        ...(ownershipSent ? { ownership_percentage: ownershipPercentage, partners: partners } : {}),
         linked_websites: body.linkedWebsites || null,
       })
-      .eq('id', propertyId)
-      .eq('user_id', userId)
+      .eq('id', property.id)
       .select()
       .single()
 
@@ -60,6 +190,9 @@ export async function PUT(
       )
     }
 
+    await recordEstimateChange(property, data, userId)
+    await recordStatusChange(property, data)
+
     return NextResponse.json({ success: true, property: data })
   } catch (error: any) {
     console.error('Error in PUT /api/properties/[id]:', error)
@@ -71,7 +204,122 @@ export async function PUT(
 }
 
 /**
- * DELETE /api/properties/[id] - Delete a single property
+ * PATCH /api/properties/[id] - Update individual fields of a property
+ *
+ * Body: { changes: { [field]: value }, updatedAt }
+ * `changes` holds only the edited Property fields (custom_* included; null clears a custom value).
+ * `updatedAt` is the property's updated_at when the client loaded it: if someone else has saved
+ * the property since, nothing is written and a 409 returns the current property instead.
+ * A changed address is geocoded again, and a changed currentEstValue is recorded as today's estimate.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const body = await request.json()
+    const { changes, updatedAt } = body
+
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes) || Object.keys(changes).length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid request: changes must be a non-empty object' },
+        { status: 400 }
+      )
+    }
+
+    if (!updatedAt || typeof updatedAt !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid request: updatedAt is required' },
+        { status: 400 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    if (property.updated_at !== updatedAt) {
+      return NextResponse.json(
+        { error: 'Property was changed by someone else', property },
+        { status: 409 }
+      )
+    }
+
+    const customFields = property.workspace_id ? await getWorkspaceCustomFields(property.workspace_id) : []
+    const { row, errors } = mapPropertyChangesToRow(changes, property, customFields)
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid changes', details: errors.join('; ') },
+        { status: 400 }
+      )
+    }
+
+    if (row.address && normalizeAddress(row.address) !== normalizeAddress(property.address)) {
+      Object.assign(row, await geocodeAddressColumns(row.address))
+    }
+
+    // Only write if the row is still the version the client loaded
+    const { data, error } = await supabaseAdmin
+      .from('properties')
+      .update(row)
+      .eq('id', property.id)
+      .eq('updated_at', updatedAt)
+      .select()
+
+    if (error) {
+      console.error('Error updating property:', error)
+      return NextResponse.json(
+        { error: 'Failed to update property', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!data || data.length === 0) {
+      // Saved by someone else between the check above and the update
+      const latest = await getAccessibleProperty(userId, property.id)
+      return NextResponse.json(
+        { error: 'Property was changed by someone else', property: latest },
+        { status: 409 }
+      )
+    }
+
+    await recordEstimateChange(property, data[0], userId)
+    await recordStatusChange(property, data[0])
+
+    return NextResponse.json({ success: true, property: data[0] })
+  } catch (error: any) {
+    console.error('Error in PATCH /api/properties/[id]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/properties/[id] - Delete a single property, with its photo and document files
+ * Workspace properties can only be deleted by workspace owners and admins
  */
 export async function DELETE(
   request: NextRequest,
@@ -94,13 +342,29 @@ export async function DELETE(
       )
     }
 
-    const propertyId = params.id
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await canDeleteProperty(userId, property))) {
+      return NextResponse.json(
+        { error: 'Only workspace owners and admins can delete properties' },
+        { status: 403 }
+      )
+    }
+
+    // Photo and document rows are deleted with the property, so read their files first
+    const photoKeys = await getPhotoStorageKeys(property.id)
+    const documentKeys = await getDocumentStorageKeys(property.id)
 
     const { error } = await supabaseAdmin
       .from('properties')
       .delete()
-      .eq('id', propertyId)
-      .eq('user_id', userId) // Ensure user owns the property
+      .eq('id', property.id)
 
     if (error) {
       console.error('Error deleting property:', error)
@@ -110,6 +374,9 @@ export async function DELETE(
       )
     }
 
+    await deletePhotoFiles(photoKeys)
+    await deleteDocumentFiles(documentKeys)
+
     return NextResponse.json({ success: true, message: 'Property deleted successfully' })
   } catch (error: any) {
     console.error('Error in DELETE /api/properties/[id]:', error)
@@ -0,0 +1,202 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty } from '@/lib/property-helpers'
+import { VALID_TRANSACTION_CATEGORIES } from '@/lib/ledger'
+
+/**
+ * Fetch a transaction scoped to its property
+ */
+async function getTransaction(propertyId: string, transactionId: string) {
+  const { data, error } = await supabaseAdmin!
+    .from('property_transactions')
+    .select('*')
+    .eq('id', transactionId)
+    .eq('property_id', propertyId) // Ensure the transaction belongs to this property
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch transaction: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * PUT /api/properties/[id]/transactions/[transactionId] - Update a ledger transaction
+ * Only fields present in the body are updated
+ * Transactions posted from a work request are managed through the work request
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; transactionId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const existing = await getTransaction(property.id, params.transactionId)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Transaction not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existing.source === 'work_request') {
+      return NextResponse.json(
+        { error: 'This transaction was posted from a work request. Edit the work request instead.' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const updates: Record<string, any> = {}
+
+    if (body.date !== undefined) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(String(body.date))) {
+        return NextResponse.json(
+          { error: 'Invalid request: date must be YYYY-MM-DD' },
+          { status: 400 }
+        )
+      }
+      updates.date = body.date
+    }
+    if (body.amount !== undefined) {
+      const amount = Number(body.amount)
+      if (isNaN(amount) || amount < 0) {
+        return NextResponse.json(
+          { error: 'Invalid request: amount must be a positive number' },
+          { status: 400 }
+        )
+      }
+      updates.amount = amount
+    }
+    if (body.category !== undefined) {
+      if (!VALID_TRANSACTION_CATEGORIES.includes(body.category)) {
+        return NextResponse.json(
+          { error: `Invalid category: "${body.category}". Must be one of: ${VALID_TRANSACTION_CATEGORIES.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      updates.category = body.category
+    }
+    if (body.description !== undefined) {
+      updates.description = body.description ? String(body.description).trim() : null
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('property_transactions')
+      .update(updates)
+      .eq('id', existing.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating transaction:', error)
+      return NextResponse.json(
+        { error: 'Failed to update transaction', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, transaction: data })
+  } catch (error: any) {
+    console.error('Error in PUT /api/properties/[id]/transactions/[transactionId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/properties/[id]/transactions/[transactionId] - Delete a ledger transaction
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; transactionId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const existing = await getTransaction(property.id, params.transactionId)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Transaction not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existing.source === 'work_request') {
+      return NextResponse.json(
+        { error: 'This transaction was posted from a work request. Clear the work request cost or delete the work request instead.' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabaseAdmin
+      .from('property_transactions')
+      .delete()
+      .eq('id', existing.id)
+
+    if (error) {
+      console.error('Error deleting transaction:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete transaction', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Error in DELETE /api/properties/[id]/transactions/[transactionId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
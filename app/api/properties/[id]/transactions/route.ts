@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty } from '@/lib/property-helpers'
+import { VALID_TRANSACTION_CATEGORIES } from '@/lib/ledger'
+
+/**
+ * GET /api/properties/[id]/transactions - Fetch ledger transactions for a property
+ *
+ * Query params (all optional):
+ * - from: only transactions on or after this date (YYYY-MM-DD)
+ * - to: only transactions on or before this date (YYYY-MM-DD)
+ * - category: only transactions in this category
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+    const category = searchParams.get('category')
+
+    let query = supabaseAdmin
+      .from('property_transactions')
+      .select('*')
+      .eq('property_id', property.id)
+
+    if (from) {
+      query = query.gte('date', from)
+    }
+    if (to) {
+      query = query.lte('date', to)
+    }
+    if (category) {
+      query = query.eq('category', category)
+    }
+
+    const { data, error } = await query.order('date', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching transactions:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch transactions', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ transactions: data || [] })
+  } catch (error: any) {
+    console.error('Error in GET /api/properties/[id]/transactions:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/properties/[id]/transactions - Record a ledger transaction
+ * amount is always positive; the category decides whether it is income or an expense
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const amount = Number(body.amount)
+
+    if (!body.date || !/^\d{4}-\d{2}-\d{2}$/.test(String(body.date))) {
+      return NextResponse.json(
+        { error: 'Invalid request: date is required (YYYY-MM-DD)' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(amount) || amount < 0) {
+      return NextResponse.json(
+        { error: 'Invalid request: amount must be a positive number' },
+        { status: 400 }
+      )
+    }
+
+    if (!VALID_TRANSACTION_CATEGORIES.includes(body.category)) {
+      return NextResponse.json(
+        { error: `Invalid category: "${body.category}". Must be one of: ${VALID_TRANSACTION_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('property_transactions')
+      .insert({
+        property_id: property.id,
+        user_id: userId,
+        date: body.date,
+        amount,
+        category: body.category,
+        description: body.description ? String(body.description).trim() : null,
+        source: 'manual',
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error inserting transaction:', error)
+      return NextResponse.json(
+        { error: 'Failed to add transaction', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, transaction: data })
+  } catch (error: any) {
+    console.error('Error in POST /api/properties/[id]/transactions:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty, recalculateMonthlyGrossRent } from '@/lib/property-helpers'
+import { deletePhotoFiles, getPhotoStorageKeys } from '@/lib/property-photos'
+
+/**
+ * PUT /api/properties/[id]/units/[unitId] - Update a rent roll unit
+ * Only fields present in the body are updated. leaseStart and leaseEnd are YYYY-MM-DD dates,
+ * and the lease can't end before it starts
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; unitId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const updates: Record<string, any> = {}
+
+    if (body.unitName !== undefined) updates.unit_name = String(body.unitName).trim()
+    if (body.tenantName !== undefined) updates.tenant_name = String(body.tenantName).trim()
+    if (body.monthlyRent !== undefined) updates.monthly_rent = Number(body.monthlyRent) || 0
+    if (body.leaseStart !== undefined) updates.lease_start = body.leaseStart
+    if (body.leaseEnd !== undefined) updates.lease_end = body.leaseEnd
+    if (body.securityDeposit !== undefined) updates.security_deposit = Number(body.securityDeposit) || 0
+
+    if (updates.unit_name === '' || updates.tenant_name === '') {
+      return NextResponse.json(
+        { error: 'Invalid request: unitName and tenantName cannot be empty' },
+        { status: 400 }
+      )
+    }
+
+    const isDate = (value: any) => /^\d{4}-\d{2}-\d{2}$/.test(String(value)) && !isNaN(Date.parse(value))
+    if (
+      (updates.lease_start !== undefined && !isDate(updates.lease_start)) ||
+      (updates.lease_end !== undefined && !isDate(updates.lease_end))
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid request: leaseStart and leaseEnd must be YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    if (updates.lease_start !== undefined || updates.lease_end !== undefined) {
+      // Check the new dates against the one that isn't changing
+      const { data: existing, error: existingError } = await supabaseAdmin
+        .from('rent_roll_units')
+        .select('lease_start, lease_end')
+        .eq('id', params.unitId)
+        .eq('property_id', property.id)
+        .maybeSingle()
+
+      if (existingError) {
+        console.error('Error fetching rent roll unit:', existingError)
+        return NextResponse.json(
+          { error: 'Failed to fetch rent roll unit', details: existingError.message },
+          { status: 500 }
+        )
+      }
+
+      if (!existing) {
+        return NextResponse.json(
+          { error: 'Rent roll unit not found' },
+          { status: 404 }
+        )
+      }
+
+      const leaseStart = updates.lease_start ?? existing.lease_start
+      const leaseEnd = updates.lease_end ?? existing.lease_end
+      if (leaseEnd < leaseStart) {
+        return NextResponse.json(
+          { error: 'Invalid request: leaseEnd must be on or after leaseStart' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('rent_roll_units')
+      .update(updates)
+      .eq('id', params.unitId)
+      .eq('property_id', property.id) // Ensure the unit belongs to this property
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating rent roll unit:', error)
+      return NextResponse.json(
+        { error: 'Failed to update rent roll unit', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Rent roll unit not found' },
+        { status: 404 }
+      )
+    }
+
+    const monthlyGrossRent = await recalculateMonthlyGrossRent(property.id)
+
+    return NextResponse.json({ success: true, unit: data, monthlyGrossRent })
+  } catch (error: any) {
+    console.error('Error in PUT /api/properties/[id]/units/[unitId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/properties/[id]/units/[unitId] - Delete a rent roll unit
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; unitId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    // The unit's photo rows are deleted with it, so read their files first
+    const photoKeys = await getPhotoStorageKeys(property.id, params.unitId)
+
+    const { error } = await supabaseAdmin
+      .from('rent_roll_units')
+      .delete()
+      .eq('id', params.unitId)
+      .eq('property_id', property.id) // Ensure the unit belongs to this property
+
+    if (error) {
+      console.error('Error deleting rent roll unit:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete rent roll unit', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    await deletePhotoFiles(photoKeys)
+
+    const monthlyGrossRent = await recalculateMonthlyGrossRent(property.id)
+
+    return NextResponse.json({ success: true, monthlyGrossRent })
+  } catch (error: any) {
+    console.error('Error in DELETE /api/properties/[id]/units/[unitId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty, recalculateMonthlyGrossRent } from '@/lib/property-helpers'
+
+/**
+ * GET /api/properties/[id]/units - Fetch rent roll units for a property
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('rent_roll_units')
+      .select('*')
+      .eq('property_id', property.id)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching rent roll units:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch rent roll units', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ units: data || [] })
+  } catch (error: any) {
+    console.error('Error in GET /api/properties/[id]/units:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/properties/[id]/units - Add a rent roll unit to a property
+ * leaseStart and leaseEnd are YYYY-MM-DD dates, and the lease can't end before it starts
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const unitName = body.unitName ? String(body.unitName).trim() : ''
+    const tenantName = body.tenantName ? String(body.tenantName).trim() : ''
+
+    if (!unitName || !tenantName || !body.leaseStart || !body.leaseEnd) {
+      return NextResponse.json(
+        { error: 'Invalid request: unitName, tenantName, leaseStart and leaseEnd are required' },
+        { status: 400 }
+      )
+    }
+
+    const isDate = (value: any) => /^\d{4}-\d{2}-\d{2}$/.test(String(value)) && !isNaN(Date.parse(value))
+    if (!isDate(body.leaseStart) || !isDate(body.leaseEnd)) {
+      return NextResponse.json(
+        { error: 'Invalid request: leaseStart and leaseEnd must be YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    if (body.leaseEnd < body.leaseStart) {
+      return NextResponse.json(
+        { error: 'Invalid request: leaseEnd must be on or after leaseStart' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('rent_roll_units')
+      .insert({
+        property_id: property.id,
+        unit_name: unitName,
+        tenant_name: tenantName,
+        monthly_rent: Number(body.monthlyRent) || 0,
+        lease_start: body.leaseStart,
+        lease_end: body.leaseEnd,
+        security_deposit: Number(body.securityDeposit) || 0,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error inserting rent roll unit:', error)
+      return NextResponse.json(
+        { error: 'Failed to add rent roll unit', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    const monthlyGrossRent = await recalculateMonthlyGrossRent(property.id)
+
+    return NextResponse.json({ success: true, unit: data, monthlyGrossRent })
+  } catch (error: any) {
+    console.error('Error in POST /api/properties/[id]/units:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
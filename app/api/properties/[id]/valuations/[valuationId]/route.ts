@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty, syncCurrentEstValue } from '@/lib/property-helpers'
+import { VALID_VALUATION_SOURCES } from '@/lib/valuations'
+
+/**
+ * PUT /api/properties/[id]/valuations/[valuationId] - Update a valuation
+ * Only fields present in the body are updated; the response includes the resulting currentEstValue
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; valuationId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const updates: Record<string, any> = {}
+
+    if (body.date !== undefined) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(String(body.date))) {
+        return NextResponse.json(
+          { error: 'Invalid request: date must be YYYY-MM-DD' },
+          { status: 400 }
+        )
+      }
+      updates.date = body.date
+    }
+    if (body.value !== undefined) {
+      const value = Number(body.value)
+      if (body.value === '' || isNaN(value) || value < 0) {
+        return NextResponse.json(
+          { error: 'Invalid request: value must be a positive number' },
+          { status: 400 }
+        )
+      }
+      updates.value = value
+    }
+    if (body.source !== undefined) {
+      if (!VALID_VALUATION_SOURCES.includes(body.source)) {
+        return NextResponse.json(
+          { error: `Invalid source: "${body.source}". Must be one of: ${VALID_VALUATION_SOURCES.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      updates.source = body.source
+    }
+    if (body.notes !== undefined) {
+      updates.notes = body.notes ? String(body.notes).trim() || null : null
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid request: nothing to update' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('property_valuations')
+      .update(updates)
+      .eq('id', params.valuationId)
+      .eq('property_id', property.id) // Ensure the valuation belongs to this property
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating valuation:', error)
+      return NextResponse.json(
+        { error: 'Failed to update valuation', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Valuation not found' },
+        { status: 404 }
+      )
+    }
+
+    const currentEstValue = await syncCurrentEstValue(property.id)
+
+    return NextResponse.json({ success: true, valuation: data, currentEstValue })
+  } catch (error: any) {
+    console.error('Error in PUT /api/properties/[id]/valuations/[valuationId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/properties/[id]/valuations/[valuationId] - Delete a valuation
+ * The current estimated value falls back to the next most recent valuation; deleting the
+ * last one leaves it unchanged. The response includes the resulting currentEstValue.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; valuationId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('property_valuations')
+      .delete()
+      .eq('id', params.valuationId)
+      .eq('property_id', property.id) // Ensure the valuation belongs to this property
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error deleting valuation:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete valuation', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Valuation not found' },
+        { status: 404 }
+      )
+    }
+
+    const currentEstValue = (await syncCurrentEstValue(property.id)) ?? (Number(property.current_est_value) || 0)
+
+    return NextResponse.json({ success: true, currentEstValue })
+  } catch (error: any) {
+    console.error('Error in DELETE /api/properties/[id]/valuations/[valuationId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
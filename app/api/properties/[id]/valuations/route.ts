@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty, syncCurrentEstValue } from '@/lib/property-helpers'
+import { VALID_VALUATION_SOURCES } from '@/lib/valuations'
+
+/**
+ * GET /api/properties/[id]/valuations - Fetch a property's valuation history, oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('property_valuations')
+      .select('*')
+      .eq('property_id', property.id)
+      .order('date', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching valuations:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch valuations', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ valuations: data || [] })
+  } catch (error: any) {
+    console.error('Error in GET /api/properties/[id]/valuations:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/properties/[id]/valuations - Record a valuation
+ *
+ * Body: { date, value, source, notes? }
+ * The property's current estimated value follows its most recent valuation, so the
+ * response includes the resulting currentEstValue.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const value = Number(body.value)
+    const source = body.source || 'estimate'
+
+    if (!body.date || !/^\d{4}-\d{2}-\d{2}$/.test(String(body.date))) {
+      return NextResponse.json(
+        { error: 'Invalid request: date is required (YYYY-MM-DD)' },
+        { status: 400 }
+      )
+    }
+
+    if (body.value === undefined || body.value === '' || isNaN(value) || value < 0) {
+      return NextResponse.json(
+        { error: 'Invalid request: value must be a positive number' },
+        { status: 400 }
+      )
+    }
+
+    if (!VALID_VALUATION_SOURCES.includes(source)) {
+      return NextResponse.json(
+        { error: `Invalid source: "${source}". Must be one of: ${VALID_VALUATION_SOURCES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('property_valuations')
+      .insert({
+        property_id: property.id,
+        user_id: userId,
+        date: body.date,
+        value,
+        source,
+        notes: body.notes ? String(body.notes).trim() || null : null,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error inserting valuation:', error)
+      return NextResponse.json(
+        { error: 'Failed to add valuation', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    const currentEstValue = await syncCurrentEstValue(property.id)
+
+    return NextResponse.json({ success: true, valuation: data, currentEstValue })
+  } catch (error: any) {
+    console.error('Error in POST /api/properties/[id]/valuations:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty, recordWorkRequestStatusChange, syncWorkRequestTransaction } from '@/lib/property-helpers'
+
+const VALID_STATUSES = ['new', 'in_progress', 'completed']
+
+/**
+ * PUT /api/properties/[id]/work-requests/[requestId] - Update a work request
+ * Only fields present in the body are updated
+ * A status change is appended to the work request's status history
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; requestId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: existing, error: fetchError } = await supabaseAdmin
+      .from('work_requests')
+      .select('*')
+      .eq('id', params.requestId)
+      .eq('property_id', property.id) // Ensure the request belongs to this property
+      .maybeSingle()
+
+    if (fetchError) {
+      console.error('Error fetching work request:', fetchError)
+      return NextResponse.json(
+        { error: 'Failed to fetch work request', details: fetchError.message },
+        { status: 500 }
+      )
+    }
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Work request not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const updates: Record<string, any> = {}
+
+    if (body.description !== undefined) {
+      const description = String(body.description).trim()
+      if (!description) {
+        return NextResponse.json(
+          { error: 'Invalid request: description cannot be empty' },
+          { status: 400 }
+        )
+      }
+      updates.description = description
+    }
+    if (body.status !== undefined) {
+      if (!VALID_STATUSES.includes(body.status)) {
+        return NextResponse.json(
+          { error: `Invalid status: "${body.status}". Must be one of: ${VALID_STATUSES.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      updates.status = body.status
+    }
+    if (body.dateLogged !== undefined) updates.date_logged = body.dateLogged
+    if (body.cost !== undefined) updates.cost = Number(body.cost) || 0
+
+    const { data, error } = await supabaseAdmin
+      .from('work_requests')
+      .update(updates)
+      .eq('id', existing.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating work request:', error)
+      return NextResponse.json(
+        { error: 'Failed to update work request', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    // The work request is saved, so a failure recording its history or ledger entry is only logged
+    if (updates.status && updates.status !== existing.status) {
+      try {
+        await recordWorkRequestStatusChange(existing.id, existing.status, updates.status, userId)
+      } catch (historyError) {
+        console.error('Error recording work request status change:', historyError)
+      }
+    }
+
+    if (updates.cost !== undefined || updates.description !== undefined || updates.date_logged !== undefined) {
+      try {
+        await syncWorkRequestTransaction(data, userId)
+      } catch (transactionError) {
+        console.error('Error syncing work request transaction:', transactionError)
+      }
+    }
+
+    const { data: history } = await supabaseAdmin
+      .from('work_request_status_history')
+      .select('*')
+      .eq('work_request_id', existing.id)
+
+    return NextResponse.json({
+      success: true,
+      workRequest: { ...data, work_request_status_history: history || [] },
+    })
+  } catch (error: any) {
+    console.error('Error in PUT /api/properties/[id]/work-requests/[requestId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/properties/[id]/work-requests/[requestId] - Delete a work request
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; requestId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error } = await supabaseAdmin
+      .from('work_requests')
+      .delete()
+      .eq('id', params.requestId)
+      .eq('property_id', property.id) // Ensure the request belongs to this property
+
+    if (error) {
+      console.error('Error deleting work request:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete work request', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Error in DELETE /api/properties/[id]/work-requests/[requestId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
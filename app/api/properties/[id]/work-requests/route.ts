@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty, recordWorkRequestStatusChange, syncWorkRequestTransaction } from '@/lib/property-helpers'
+
+const VALID_STATUSES = ['new', 'in_progress', 'completed']
+
+/**
+ * GET /api/properties/[id]/work-requests - Fetch work requests (with status history) for a property
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('work_requests')
+      .select('*, work_request_status_history(*)')
+      .eq('property_id', property.id)
+      .order('date_logged', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching work requests:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch work requests', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ workRequests: data || [] })
+  } catch (error: any) {
+    console.error('Error in GET /api/properties/[id]/work-requests:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/properties/[id]/work-requests - Log a new work request
+ * The initial status is recorded as the first status history entry
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, params.id)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const description = body.description ? String(body.description).trim() : ''
+    const status = body.status || 'new'
+
+    if (!description) {
+      return NextResponse.json(
+        { error: 'Invalid request: description is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!VALID_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status: "${status}". Must be one of: ${VALID_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const workRequestToInsert: Record<string, any> = {
+      property_id: property.id,
+      description,
+      status,
+      cost: Number(body.cost) || 0,
+    }
+    if (body.dateLogged) {
+      workRequestToInsert.date_logged = body.dateLogged
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('work_requests')
+      .insert(workRequestToInsert)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error inserting work request:', error)
+      return NextResponse.json(
+        { error: 'Failed to add work request', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    // The work request is saved, so a failure recording its history or ledger entry is only logged
+    try {
+      await recordWorkRequestStatusChange(data.id, null, status, userId)
+    } catch (historyError) {
+      console.error('Error recording work request status change:', historyError)
+    }
+
+    try {
+      await syncWorkRequestTransaction(data, userId)
+    } catch (transactionError) {
+      console.error('Error syncing work request transaction:', transactionError)
+    }
+
+    const { data: history } = await supabaseAdmin
+      .from('work_request_status_history')
+      .select('*')
+      .eq('work_request_id', data.id)
+
+    return NextResponse.json({
+      success: true,
+      workRequest: { ...data, work_request_status_history: history || [] },
+    })
+  } catch (error: any) {
+    console.error('Error in POST /api/properties/[id]/work-requests:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
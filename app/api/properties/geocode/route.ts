@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { geocodeAddressColumns, getAccessiblePropertiesFilter } from '@/lib/property-helpers'
+
+const DEFAULT_BATCH_SIZE = 10
+const MAX_BATCH_SIZE = 50
+
+/**
+ * POST /api/properties/geocode - Geocode properties that haven't been geocoded yet
+ *
+ * Body (optional): { limit } - how many properties to geocode in this call (default 10, max 50).
+ * Properties are geocoded one at a time, so clients call this repeatedly until `remaining` is 0.
+ * Only the location columns are written, which leaves updated_at alone (see the properties
+ * trigger in add-property-geocoding.sql), so edits of already loaded rows don't conflict.
+ * Returns { geocoded, notFound, remaining }.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const limit = body.limit === undefined ? DEFAULT_BATCH_SIZE : Number(body.limit)
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `Invalid limit: must be a whole number from 1 to ${MAX_BATCH_SIZE}` },
+        { status: 400 }
+      )
+    }
+
+    const accessFilter = await getAccessiblePropertiesFilter(userId)
+
+    const { data: pending, error } = await supabaseAdmin
+      .from('properties')
+      .select('id, address')
+      .or(accessFilter)
+      .is('geocoded_at', null)
+      .order('created_at', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching properties to geocode:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch properties', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    let geocoded = 0
+    let notFound = 0
+    let failed = 0
+    for (let i = 0; i < (pending || []).length; i++) {
+      const property = pending![i]
+      const columns = await geocodeAddressColumns(property.address)
+
+      if (!columns.geocoded_at) {
+        // The geocoder itself failed - stop here and let the client retry later
+        failed++
+        break
+      }
+
+      const { error: updateError } = await supabaseAdmin
+        .from('properties')
+        .update(columns)
+        .eq('id', property.id)
+
+      if (updateError) {
+        console.error('Error saving geocoded location:', updateError)
+        return NextResponse.json(
+          { error: 'Failed to save geocoded locations', details: updateError.message },
+          { status: 500 }
+        )
+      }
+
+      if (columns.latitude !== null) {
+        geocoded++
+      } else {
+        notFound++
+      }
+    }
+
+    const { count, error: countError } = await supabaseAdmin
+      .from('properties')
+      .select('id', { count: 'exact', head: true })
+      .or(accessFilter)
+      .is('geocoded_at', null)
+
+    if (countError) {
+      console.error('Error counting properties to geocode:', countError)
+    }
+
+    if (failed > 0) {
+      return NextResponse.json(
+        { error: 'Geocoding is unavailable right now. Try again later.', geocoded, notFound, remaining: count ?? 0 },
+        { status: 503 }
+      )
+    }
+
+    return NextResponse.json({ geocoded, notFound, remaining: count ?? 0 })
+  } catch (error: any) {
+    console.error('Error in POST /api/properties/geocode:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
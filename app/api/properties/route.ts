@@ -1,10 +1,45 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
 import { supabaseAdmin } from '@/lib/supabase'
-import { getOrCreateUserWorkspace, getUserWorkspaces } from '@/lib/workspace-helpers'
+import { getOrCreateUserWorkspace, userHasWorkspaceAccess } from '@/lib/workspace-helpers'
+import { getCustomFieldKey, parseCustomFieldValue } from '@/lib/custom-fields'
+import { getAccessiblePropertiesFilter, getParsedAddressColumns, getWorkspaceCustomFields, recordEstimateValuations, recordOccupancySnapshots } from '@/lib/property-helpers'
+import { normalizeAddress } from '@/lib/address'
+import { PROPERTY_STATUSES } from '@/lib/property-changes'
+import { normalizePartners, parseOwnershipPercentage, validateOwnership } from '@/lib/ownership'
+import { mapLoanTermsToRow } from '@/lib/property-mappers'
+import { escapeLikePattern, getCursorFilter, getPropertyPage, parsePropertyQuery, PROPERTY_SORT_COLUMNS } from '@/lib/property-query'
+import type { PropertyListRow } from '@/types/database'
+
+// How many properties a bulk save writes at once
+const SAVE_CONCURRENCY = 10
+
+// A validated property from a bulk save: its position in the request, the property as sent,
+// the row to write and, for an update, the stored property
+interface SaveEntry {
+  index: number
+  prop: any
+  row: Record<string, any>
+  existing?: Record<string, any>
+}
 
 /**
  * GET /api/properties - Fetch workspace properties
+ * Includes the properties the user created and every property in their workspaces.
+ *
+ * Query params (all optional):
+ * - status: only include these statuses (comma-separated)
+ * - type: only include this property type (case-insensitive)
+ * - search: address contains this text (case-insensitive)
+ * - minValue / maxValue: current estimated value range
+ * - minCashflow / maxCashflow: monthly cashflow range
+ * - sort: createdAt (default), address, status, type, currentEstValue, purchasePrice,
+ *   monthlyGrossRent, monthlyCashflow or roe
+ * - direction: asc or desc (default desc for createdAt, asc otherwise)
+ * - limit: page size (1-500); without it every matching property is returned
+ * - cursor: nextCursor from the previous page
+ *
+ * Returns { properties, nextCursor, total } where total counts every matching property.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -24,35 +59,67 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Get user's workspaces (handle case where workspace tables don't exist yet)
-    let workspaceIds: string[] = []
-    try {
-      const workspaces = await getUserWorkspaces(userId)
-      workspaceIds = workspaces.map(w => w.id)
-    } catch (workspaceError: any) {
-      // If workspace tables don't exist, fall back to user_id filtering
-      console.warn('Could not fetch workspaces, falling back to user_id filter:', workspaceError.message)
-    }
-
-    // Build query - always filter by user_id to ensure we get all user's properties
-    // This ensures properties are found even if workspace system has issues
-    // We filter by user_id first, which will get all properties for this user
-    // regardless of workspace_id value (null, workspace_id, etc.)
-    const { data, error } = await supabaseAdmin
-      .from('properties')
-      .select('*')
-      .eq('user_id', userId) // Always filter by user_id - this is the primary filter
-      .order('created_at', { ascending: false })
-
-    if (error) {
-      console.error('Error fetching properties:', error)
+    const { query, error: queryError } = parsePropertyQuery(request.nextUrl.searchParams)
+    if (!query) {
       return NextResponse.json(
-        { error: 'Failed to fetch properties', details: error.message },
+        { error: queryError },
+        { status: 400 }
+      )
+    }
+
+    // Properties the user created (whatever their workspace_id) plus those in the user's workspaces
+    // Falls back to the user's own properties if the workspace tables don't exist yet
+    const accessFilter = await getAccessiblePropertiesFilter(userId)
+    const db = supabaseAdmin
+
+    // Every filter runs in the database; property_list adds the cashflow and ROE columns
+    const filteredQuery = (columns: string, options?: { count: 'exact'; head: true }) => {
+      let dbQuery = db
+        .from('property_list')
+        .select(columns, options)
+        .or(accessFilter)
+
+      if (query.statuses.length > 0) dbQuery = dbQuery.in('status', query.statuses)
+      if (query.type) dbQuery = dbQuery.ilike('type', escapeLikePattern(query.type))
+      if (query.search) dbQuery = dbQuery.ilike('address', `%${escapeLikePattern(query.search)}%`)
+      if (query.minValue !== undefined) dbQuery = dbQuery.gte('current_est_value', query.minValue)
+      if (query.maxValue !== undefined) dbQuery = dbQuery.lte('current_est_value', query.maxValue)
+      if (query.minCashflow !== undefined) dbQuery = dbQuery.gte('monthly_cashflow', query.minCashflow)
+      if (query.maxCashflow !== undefined) dbQuery = dbQuery.lte('monthly_cashflow', query.maxCashflow)
+      return dbQuery
+    }
+
+    // Keyset pagination: the rows after the cursor, plus one to tell whether there's another page
+    const ascending = query.direction === 'asc'
+    let pageQuery = filteredQuery('*')
+    const cursorFilter = getCursorFilter(query)
+    if (cursorFilter) pageQuery = pageQuery.or(cursorFilter)
+    pageQuery = pageQuery
+      .order(PROPERTY_SORT_COLUMNS[query.sort], { ascending })
+      .order('id', { ascending })
+    if (query.limit !== undefined) pageQuery = pageQuery.limit(query.limit + 1)
+
+    const [{ data, error }, { count, error: countError }] = await Promise.all([
+      pageQuery,
+      filteredQuery('id', { count: 'exact', head: true }),
+    ])
+
+    if (error || countError) {
+      const fetchError = error || countError
+      console.error('Error fetching properties:', fetchError)
+      return NextResponse.json(
+        { error: 'Failed to fetch properties', details: fetchError?.message },
         { status: 500 }
       )
     }
 
-    return NextResponse.json({ properties: data || [] })
+    const page = getPropertyPage((data || []) as unknown as PropertyListRow[], query)
+
+    return NextResponse.json({
+      properties: page.rows,
+      nextCursor: page.nextCursor,
+      total: count ?? page.rows.length,
+    })
   } catch (error: any) {
     console.error('Error in GET /api/properties:', error)
     return NextResponse.json(
@@ -63,7 +130,18 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * POST /api/properties - Save properties (replace all)
+ * POST /api/properties - Save new and changed properties in bulk
+ *
+ * Each property is validated and saved independently. New properties go into `workspaceId`
+ * (default: the user's workspace); existing ones can be updated by any member of their workspace
+ * and keep their creator and workspace. Properties sent with `updatedAt` are only overwritten if
+ * nobody else has saved them since that version (checked as part of each update). The response
+ * lists the saved rows plus `failed`: the index, id, address and reason for every property that
+ * wasn't saved, including database errors.
+ * monthlyGrossRent is ignored: it's the sum of the rent roll units, kept by the server.
+ * Loan terms, ownershipPercentage and partners left out of an existing property keep their
+ * stored values.
+ * Changed estimated values are recorded in the valuation history as today's estimates.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -107,13 +185,92 @@ export async function POST(request: NextRequest) {
     try {
       const workspace = await getOrCreateUserWorkspace(userId)
       targetWorkspaceId = workspaceId || workspace.id
+
+      if (targetWorkspaceId !== workspace.id && !(await userHasWorkspaceAccess(userId, targetWorkspaceId as string))) {
+        return NextResponse.json(
+          { error: 'Workspace not found' },
+          { status: 404 }
+        )
+      }
     } catch (workspaceError: any) {
       // If workspace tables don't exist, we'll use null and rely on user_id
       console.warn('Could not get/create workspace, using user_id only:', workspaceError.message)
       targetWorkspaceId = null
     }
 
-    // Use upsert to update/insert properties without deleting others
+    // Properties that couldn't be saved, with the reason
+    const failed: Array<{ index: number; id: string | null; address: string; error: string }> = []
+    const fail = (index: number, prop: any, error: string) => {
+      console.warn(`Skipping property at index ${index} - ${error}`)
+      failed.push({
+        index,
+        id: prop?.id ? String(prop.id) : null,
+        address: prop?.address ? String(prop.address).trim() : '',
+        error,
+      })
+      return null
+    }
+
+    // Saved properties being updated: their owner, workspace, current version, value and location,
+    // limited to the ones the user can access
+    const isUUID = (id: any) =>
+      typeof id === 'string' && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)
+    const savedIds = properties
+      .filter((prop: any) => isUUID(prop?.id))
+      .map((prop: any) => prop.id)
+    const existingById = new Map<string, Record<string, any>>()
+    const inaccessibleIds = new Set<string>()
+    if (savedIds.length > 0) {
+      const accessFilter = await getAccessiblePropertiesFilter(userId)
+      const [{ data: accessibleRows, error: accessibleError }, { data: allRows, error: allError }] = await Promise.all([
+        supabaseAdmin
+          .from('properties')
+          .select('id, user_id, workspace_id, updated_at, status, current_est_value, ownership_percentage, partners, address, street, city, state, zip, latitude, longitude, geocoded_at')
+          .in('id', savedIds)
+          .or(accessFilter),
+        supabaseAdmin
+          .from('properties')
+          .select('id')
+          .in('id', savedIds),
+      ])
+
+      const existingError = accessibleError || allError
+      if (existingError) {
+        console.error('Error fetching existing properties:', existingError)
+        return NextResponse.json(
+          { error: 'Failed to check for conflicting changes', details: existingError.message },
+          { status: 500 }
+        )
+      }
+
+      accessibleRows?.forEach((row: any) => existingById.set(row.id, row))
+      allRows?.forEach((row: any) => {
+        if (!existingById.has(row.id)) inaccessibleIds.add(row.id)
+      })
+    }
+
+    // Custom field definitions for each workspace being saved to, keyed by the custom_* key their values use
+    // Without a workspace there are no definitions, so custom values are stored as sent
+    const customFieldsByWorkspace = new Map<string, Map<string, any>>()
+    const workspaceIdsToSave = new Set<string>()
+    if (targetWorkspaceId) workspaceIdsToSave.add(targetWorkspaceId)
+    existingById.forEach((row) => {
+      if (row.workspace_id) workspaceIdsToSave.add(row.workspace_id)
+    })
+    await Promise.all(Array.from(workspaceIdsToSave).map(async (id) => {
+      try {
+        const customFields = await getWorkspaceCustomFields(id)
+        const fieldsByKey = new Map<string, any>()
+        customFields.forEach(field => {
+          fieldsByKey.set(getCustomFieldKey(field), field)
+        })
+        customFieldsByWorkspace.set(id, fieldsByKey)
+      } catch (fieldsError: any) {
+        console.warn('Could not fetch custom field definitions, storing custom values as sent:', fieldsError.message)
+      }
+    }))
+
+    // Update or insert the properties sent, without deleting others
     // This prevents data loss - properties not in the list won't be deleted
     // Only properties explicitly sent will be updated or inserted
     console.log(`Received ${properties.length} properties to save`)
@@ -125,24 +282,58 @@ export async function POST(request: NextRequest) {
         const type = prop.type ? String(prop.type).trim() : ''
         const status = prop.status ? String(prop.status).trim() : ''
         
-        // Validate required fields - skip invalid ones instead of throwing
+        // Validate required fields - report invalid ones instead of throwing
         if (!address || !type || !status) {
-          console.warn(`Skipping property at index ${index} - missing required fields: address="${address}", type="${type}", status="${status}"`)
-          return null
+          const missing = [!address && 'address', !type && 'type', !status && 'status'].filter(Boolean)
+          return fail(index, prop, `Missing required fields: ${missing.join(', ')}`)
         }
 
         // Validate status is one of the allowed values
-        const validStatuses = ['rented', 'vacant', 'under_maintenance', 'sold']
-        if (!validStatuses.includes(status)) {
-          console.warn(`Skipping property at index ${index} - invalid status: "${status}". Must be one of: ${validStatuses.join(', ')}`)
-          return null
+        if (!PROPERTY_STATUSES.includes(status)) {
+          return fail(index, prop, `Invalid status "${status}". Must be one of: ${PROPERTY_STATUSES.join(', ')}`)
+        }
+
+        // Only update properties the user can access
+        if (inaccessibleIds.has(prop.id)) {
+          return fail(index, prop, 'Property not found')
+        }
+
+        const existing = isUUID(prop.id) ? existingById.get(prop.id) : undefined
+
+        // Existing properties keep their creator and workspace
+        const rowWorkspaceId = existing ? existing.workspace_id : targetWorkspaceId
+
+        // Accept the legacy ownership labels ("50% partner") from older clients and CSVs
+        // Saved properties keep the share and partners the body leaves out; new ones are fully ours
+        const sentOwnership = prop.ownershipPercentage ?? prop.ownership
+        const ownershipSent = !existing || sentOwnership !== undefined || prop.partners !== undefined
+        const ownershipPercentage = sentOwnership !== undefined
+          ? parseOwnershipPercentage(sentOwnership) ?? 100
+          : parseOwnershipPercentage(existing?.ownership_percentage) ?? 100
+        const partners = normalizePartners(prop.partners !== undefined ? prop.partners : existing?.partners)
+        const ownershipError = validateOwnership(ownershipPercentage, partners)
+        if (ownershipError) {
+          return fail(index, prop, ownershipError)
         }
 
       // Build the property object, excluding fields that don't belong in the properties table
       const propertyToInsert: any = {
-        user_id: userId,
-        workspace_id: targetWorkspaceId || null, // Allow null if workspace system isn't set up
+        user_id: existing ? existing.user_id : userId,
+        workspace_id: rowWorkspaceId || null, // Allow null if workspace system isn't set up
         address: address,
+        // Keep the location while the address is unchanged; otherwise parse it now and leave the
+        // coordinates for the next geocoding pass (POST /api/properties/geocode)
+        ...(existing && normalizeAddress(existing.address) === normalizeAddress(address)
+          ? {
+              street: existing.street,
+              city: existing.city,
+              state: existing.state,
+              zip: existing.zip,
+              latitude: existing.latitude,
+              longitude: existing.longitude,
+              geocoded_at: existing.geocoded_at,
+            }
+          : getParsedAddressColumns(address)),
         type: type,
         status: status,
         mortgage_holder: prop.mortgageHolder ? String(prop.mortgageHolder).trim() : null,
@@ -153,28 +344,51 @@ export async function POST(request: NextRequest) {
         monthly_insurance: Number(prop.monthlyInsurance) || 0,
         monthly_property_tax: Number(prop.monthlyPropertyTax) || 0,
         monthly_other_costs: Number(prop.monthlyOtherCosts) || 0,
-        monthly_gross_rent: Number(prop.monthlyGrossRent) || 0,
-        ownership: prop.ownership ? String(prop.ownership).trim() : null,
+        ...mapLoanTermsToRow(prop, !existing),
+        ...(ownershipSent ? { ownership_percentage: ownershipPercentage, partners: partners } : {}),
         linked_websites: Array.isArray(prop.linkedWebsites) && prop.linkedWebsites.length > 0 ? prop.linkedWebsites : null,
       }
       
-      // Extract custom fields (fields starting with custom_)
+      // Extract custom fields (fields starting with custom_), validated against their definitions
+      // Once the workspace has definitions, values without one (e.g. of a deleted field) are
+      // dropped, like PATCH does
+      const customFieldsByKey = (rowWorkspaceId && customFieldsByWorkspace.get(rowWorkspaceId)) || new Map<string, any>()
+      const enforceCustomFields = customFieldsByKey.size > 0
       const customFieldsData: Record<string, any> = {}
+      const customFieldErrors: string[] = []
       Object.keys(prop).forEach(key => {
-        if (key.startsWith('custom_')) {
+        if (!key.startsWith('custom_')) return
+
+        if (!enforceCustomFields) {
           customFieldsData[key] = prop[key]
+          return
+        }
+
+        const field = customFieldsByKey.get(key)
+        if (!field) {
+          console.warn(`Ignoring value for unknown custom field "${key}" on property at index ${index}`)
+          return
+        }
+
+        const parsed = parseCustomFieldValue(field, prop[key])
+        if (parsed.error) {
+          customFieldErrors.push(`${field.name}: ${parsed.error}`)
+        } else if (parsed.value !== null) {
+          customFieldsData[key] = parsed.value
         }
       })
-      if (Object.keys(customFieldsData).length > 0) {
+      if (customFieldErrors.length > 0) {
+        return fail(index, prop, customFieldErrors.join('; '))
+      }
+      if (enforceCustomFields || Object.keys(customFieldsData).length > 0) {
         propertyToInsert.custom_fields = customFieldsData
       }
       
       // Preserve ID if it exists and is a valid UUID (from database)
-      // This allows upsert to update existing properties
+      // This allows existing properties to be updated
       // Don't include ID if it's not a UUID (e.g., temporary IDs like "1", "2", etc.)
       if (prop.id && typeof prop.id === 'string') {
-        const isUUID = prop.id.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)
-        if (isUUID) {
+        if (isUUID(prop.id)) {
           propertyToInsert.id = prop.id
         } else {
           // Temporary ID (like "1", "2", etc.) - don't include it, let database generate new UUID
@@ -187,51 +401,114 @@ export async function POST(request: NextRequest) {
       // - rentRoll (stored in rent_roll_units table)
       // - workRequests (stored in work_requests table)
 
-        return propertyToInsert
+        return { index, prop, row: propertyToInsert, existing }
       })
-      .filter((p: any) => p !== null) // Remove null entries (invalid properties)
+      .filter((entry: any) => entry !== null) as SaveEntry[] // Remove null entries (invalid properties)
 
     console.log(`After validation: ${propertiesToInsert.length} valid properties out of ${properties.length} total`)
     
     if (propertiesToInsert.length === 0) {
       console.error('All properties were filtered out during validation')
       return NextResponse.json(
-        { error: 'No valid properties to save. All properties were missing required fields (address, type, status) or had invalid status values.' },
+        { error: 'No valid properties to save', details: failed.map(f => `${f.address || `Row ${f.index + 1}`}: ${f.error}`).join('; '), failed },
         { status: 400 }
       )
     }
 
-    // Use upsert to update existing properties or insert new ones
-    // Only include id in conflict resolution if we have IDs
-    const hasIds = propertiesToInsert.some((p: any) => p.id)
-    const upsertOptions: any = {
-      ignoreDuplicates: false,
+    const saved: any[] = []
+    const db = supabaseAdmin
+
+    // Existing properties: each is updated on its own, and only if it's still at the version the
+    // client loaded, so a concurrent save in between is never overwritten
+    const updateEntry = async ({ index, prop, row }: SaveEntry) => {
+      let update = db
+        .from('properties')
+        .update(row)
+        .eq('id', row.id)
+      if (prop.updatedAt) update = update.eq('updated_at', prop.updatedAt)
+
+      const { data: updated, error: updateError } = await update.select().maybeSingle()
+      if (updateError) {
+        console.error(`Error updating property ${row.id}:`, updateError)
+        fail(index, prop, `Failed to save: ${updateError.message}`)
+      } else if (!updated) {
+        fail(index, prop, 'Changed by someone else since it was loaded')
+      } else {
+        saved.push(updated)
+      }
     }
-    
-    if (hasIds) {
-      upsertOptions.onConflict = 'id' // If id exists, update; otherwise insert
+
+    const insertEntry = async ({ index, prop, row }: SaveEntry) => {
+      const { data: inserted, error: insertError } = await db
+        .from('properties')
+        .insert(row)
+        .select()
+        .single()
+      if (insertError) {
+        console.error('Error inserting property:', insertError)
+        fail(index, prop, `Failed to save: ${insertError.message}`)
+      } else {
+        saved.push(inserted)
+      }
     }
-    
-    const { data, error: insertError } = await supabaseAdmin
-      .from('properties')
-      .upsert(propertiesToInsert, upsertOptions)
-      .select()
-
-    if (insertError) {
-      console.error('Error upserting properties:', insertError)
-      console.error('Properties attempted:', JSON.stringify(propertiesToInsert.slice(0, 2), null, 2)) // Log first 2 only
-      return NextResponse.json(
-        { error: 'Failed to save properties', details: insertError.message },
-        { status: 500 }
-      )
+
+    const updates = propertiesToInsert.filter(entry => entry.existing)
+    const inserts = propertiesToInsert.filter(entry => !entry.existing)
+
+    for (let i = 0; i < updates.length; i += SAVE_CONCURRENCY) {
+      await Promise.all(updates.slice(i, i + SAVE_CONCURRENCY).map(updateEntry))
     }
 
-    console.log(`Successfully saved ${data?.length || 0} properties`)
+    // New properties go in one batch; if the batch fails, row by row so only the bad rows fail
+    if (inserts.length > 0) {
+      const { data: inserted, error: insertError } = await db
+        .from('properties')
+        .insert(inserts.map(entry => entry.row))
+        .select()
+
+      if (insertError) {
+        console.warn('Batch insert failed, inserting properties one at a time:', insertError.message)
+        for (let i = 0; i < inserts.length; i += SAVE_CONCURRENCY) {
+          await Promise.all(inserts.slice(i, i + SAVE_CONCURRENCY).map(insertEntry))
+        }
+      } else {
+        saved.push(...(inserted || []))
+      }
+    }
+
+    failed.sort((a, b) => a.index - b.index)
+    console.log(`Successfully saved ${saved.length} properties`)
+
+    // New estimated values start or extend each property's valuation history
+    const estimates = saved
+      .filter((row: any) => {
+        const previous = existingById.get(row.id)
+        const value = Number(row.current_est_value) || 0
+        return previous ? value !== (Number(previous.current_est_value) || 0) : value > 0
+      })
+      .map((row: any) => ({ propertyId: row.id, value: Number(row.current_est_value) || 0 }))
+    try {
+      await recordEstimateValuations(estimates, userId)
+    } catch (valuationError) {
+      // The properties are saved; only their valuation history is missing these changes
+      console.error('Error recording valuations:', valuationError)
+    }
+
+    // New properties and status changes start a new occupancy snapshot
+    const statusChanges = saved
+      .filter((row: any) => existingById.get(row.id)?.status !== row.status)
+      .map((row: any) => row.id)
+    try {
+      await recordOccupancySnapshots(statusChanges)
+    } catch (snapshotError) {
+      console.error('Error recording occupancy snapshots:', snapshotError)
+    }
 
     return NextResponse.json({ 
       success: true, 
-      properties: data || [],
-      message: `Saved ${data?.length || 0} properties` 
+      properties: saved,
+      failed,
+      message: `Saved ${saved.length} properties${failed.length > 0 ? `, ${failed.length} failed` : ''}` 
     })
   } catch (error: any) {
     console.error('Error in POST /api/properties:', error)
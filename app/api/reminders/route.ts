@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getUpcomingReminders, REMINDER_WINDOWS } from '@/lib/reminders'
+
+/**
+ * GET /api/reminders - Fetch upcoming deadlines across the user's workspaces
+ *
+ * Query params (all optional):
+ * - days: 30 | 60 | 90 (default 90) - how far ahead to look
+ * - workspaceId: only reminders for this workspace
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const daysParam = searchParams.get('days')
+    const days = daysParam ? Number(daysParam) : 90
+
+    if (!REMINDER_WINDOWS.includes(days as any)) {
+      return NextResponse.json(
+        { error: `Invalid days: "${daysParam}". Must be one of: ${REMINDER_WINDOWS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const reminders = await getUpcomingReminders(userId, {
+      days,
+      workspaceId: searchParams.get('workspaceId') || undefined,
+    })
+
+    return NextResponse.json({ reminders })
+  } catch (error: any) {
+    console.error('Error in GET /api/reminders:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,261 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { LEASE_SELECT, getAccessibleTenant, mapTenantBodyToRow, syncUnitFromLeases } from '@/lib/tenant-helpers'
+
+/**
+ * GET /api/tenants/[tenantId] - Fetch a tenant with their leases and ledger entries
+ * Each lease includes its property address and unit name; entries are oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { tenantId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const tenant = await getAccessibleTenant(userId, params.tenantId)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: leaseTenants, error: leaseTenantsError } = await supabaseAdmin
+      .from('lease_tenants')
+      .select('lease_id')
+      .eq('tenant_id', tenant.id)
+
+    if (leaseTenantsError) {
+      console.error('Error fetching leases:', leaseTenantsError)
+      return NextResponse.json(
+        { error: 'Failed to fetch leases', details: leaseTenantsError.message },
+        { status: 500 }
+      )
+    }
+
+    const leaseIds = (leaseTenants || []).map(row => row.lease_id)
+    if (leaseIds.length === 0) {
+      return NextResponse.json({ tenant, leases: [], entries: [] })
+    }
+
+    const [{ data: leases, error: leasesError }, { data: entries, error: entriesError }] = await Promise.all([
+      supabaseAdmin
+        .from('leases')
+        .select(`${LEASE_SELECT}, properties(address), rent_roll_units(unit_name)`)
+        .in('id', leaseIds)
+        .order('start_date', { ascending: false }),
+      supabaseAdmin
+        .from('tenant_ledger_entries')
+        .select('*')
+        .in('lease_id', leaseIds)
+        .order('date', { ascending: true })
+        .order('created_at', { ascending: true }),
+    ])
+
+    const fetchError = leasesError || entriesError
+    if (fetchError) {
+      console.error('Error fetching tenant ledger:', fetchError)
+      return NextResponse.json(
+        { error: 'Failed to fetch tenant ledger', details: fetchError.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ tenant, leases: leases || [], entries: entries || [] })
+  } catch (error: any) {
+    console.error('Error in GET /api/tenants/[tenantId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/tenants/[tenantId] - Update a tenant's contact details
+ * Only fields present in the body are updated. A new name is copied onto the rent roll
+ * units the tenant leases.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { tenantId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const tenant = await getAccessibleTenant(userId, params.tenantId)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const { row, error: validationError } = mapTenantBodyToRow(body)
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    if (Object.keys(row).length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid request: nothing to update' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('tenants')
+      .update(row)
+      .eq('id', tenant.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating tenant:', error)
+      return NextResponse.json(
+        { error: 'Failed to update tenant', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (row.name && row.name !== tenant.name) {
+      const { data: leases, error: leasesError } = await supabaseAdmin
+        .from('lease_tenants')
+        .select('leases(property_id, unit_id)')
+        .eq('tenant_id', tenant.id)
+
+      if (leasesError) {
+        throw new Error(`Failed to fetch leases: ${leasesError.message}`)
+      }
+
+      const units = new Map<string, string>()
+      leases?.forEach((leaseTenant: any) => {
+        if (leaseTenant.leases) units.set(leaseTenant.leases.unit_id, leaseTenant.leases.property_id)
+      })
+      const unitIds = Array.from(units.keys())
+      for (let i = 0; i < unitIds.length; i++) {
+        await syncUnitFromLeases(units.get(unitIds[i])!, unitIds[i])
+      }
+    }
+
+    return NextResponse.json({ success: true, tenant: data })
+  } catch (error: any) {
+    console.error('Error in PUT /api/tenants/[tenantId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/tenants/[tenantId] - Delete a tenant
+ * Tenants on a lease can't be deleted: remove them from the lease (or delete it) first,
+ * so the lease ledger keeps the people it belongs to
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { tenantId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const tenant = await getAccessibleTenant(userId, params.tenantId)
+    if (!tenant) {
+      return NextResponse.json(
+        { error: 'Tenant not found' },
+        { status: 404 }
+      )
+    }
+
+    const { count, error: countError } = await supabaseAdmin
+      .from('lease_tenants')
+      .select('lease_id', { count: 'exact', head: true })
+      .eq('tenant_id', tenant.id)
+
+    if (countError) {
+      console.error('Error counting leases:', countError)
+      return NextResponse.json(
+        { error: 'Failed to check tenant leases', details: countError.message },
+        { status: 500 }
+      )
+    }
+
+    if (count && count > 0) {
+      return NextResponse.json(
+        { error: `This tenant is on ${count} lease${count === 1 ? '' : 's'}. Remove them from the lease${count === 1 ? '' : 's'} first.` },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabaseAdmin
+      .from('tenants')
+      .delete()
+      .eq('id', tenant.id)
+
+    if (error) {
+      console.error('Error deleting tenant:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete tenant', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Error in DELETE /api/tenants/[tenantId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
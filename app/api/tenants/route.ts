@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getOrCreateUserWorkspace, userHasWorkspaceAccess } from '@/lib/workspace-helpers'
+import { getAccessibleTenantsFilter, mapTenantBodyToRow } from '@/lib/tenant-helpers'
+import { mapTenantLedgerEntryRow, mapTenantRow } from '@/lib/property-mappers'
+import { combineLedgerSummaries, summarizeTenantLedger } from '@/lib/tenant-ledger'
+
+/**
+ * GET /api/tenants - List the tenants the user can access, with their balances
+ *
+ * Query params (optional):
+ * - inArrears: "true" for only tenants who owe money, most overdue first
+ *
+ * Each tenant comes with `summary` (balances across all their leases) and `units`:
+ * the property address and unit name of each of their leases.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const { data: tenantRows, error } = await supabaseAdmin
+      .from('tenants')
+      .select('*')
+      .or(await getAccessibleTenantsFilter(userId))
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching tenants:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch tenants', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    const tenantIds = (tenantRows || []).map(row => row.id)
+    let leaseTenants: any[] = []
+    let entries: any[] = []
+
+    if (tenantIds.length > 0) {
+      const { data: leaseTenantRows, error: leasesError } = await supabaseAdmin
+        .from('lease_tenants')
+        .select('tenant_id, lease_id, leases(id, end_date, properties(address), rent_roll_units(unit_name))')
+        .in('tenant_id', tenantIds)
+
+      if (leasesError) {
+        console.error('Error fetching leases:', leasesError)
+        return NextResponse.json(
+          { error: 'Failed to fetch leases', details: leasesError.message },
+          { status: 500 }
+        )
+      }
+      leaseTenants = leaseTenantRows || []
+
+      const leaseIds = Array.from(new Set(leaseTenants.map(row => row.lease_id)))
+      if (leaseIds.length > 0) {
+        const { data: entryRows, error: entriesError } = await supabaseAdmin
+          .from('tenant_ledger_entries')
+          .select('*')
+          .in('lease_id', leaseIds)
+
+        if (entriesError) {
+          console.error('Error fetching ledger entries:', entriesError)
+          return NextResponse.json(
+            { error: 'Failed to fetch ledger entries', details: entriesError.message },
+            { status: 500 }
+          )
+        }
+        entries = (entryRows || []).map(mapTenantLedgerEntryRow)
+      }
+    }
+
+    let tenants = (tenantRows || []).map(row => {
+      const leases = leaseTenants.filter(leaseTenant => leaseTenant.tenant_id === row.id)
+      const summary = combineLedgerSummaries(leases.map(leaseTenant =>
+        summarizeTenantLedger(entries.filter(entry => entry.leaseId === leaseTenant.lease_id))
+      ))
+
+      return {
+        ...mapTenantRow(row),
+        summary,
+        units: leases.map(leaseTenant => ({
+          leaseId: leaseTenant.lease_id,
+          address: leaseTenant.leases?.properties?.address || '',
+          unitName: leaseTenant.leases?.rent_roll_units?.unit_name || '',
+          endDate: leaseTenant.leases?.end_date || null,
+        })),
+      }
+    })
+
+    if (request.nextUrl.searchParams.get('inArrears') === 'true') {
+      tenants = tenants
+        .filter(tenant => tenant.summary.balance > 0)
+        .sort((a, b) => b.summary.daysPastDue - a.summary.daysPastDue || b.summary.balance - a.summary.balance)
+    }
+
+    return NextResponse.json({ tenants })
+  } catch (error: any) {
+    console.error('Error in GET /api/tenants:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/tenants - Add a tenant
+ *
+ * Body: { name, email?, phone?, emergencyContactName?, emergencyContactPhone?, notes?, workspaceId? }
+ * The tenant goes into `workspaceId` (default: the user's workspace)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const body = await request.json()
+    const { row, error: validationError } = mapTenantBodyToRow({ ...body, name: body.name ?? '' })
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    // Get or create workspace (handle case where workspace tables don't exist yet)
+    let workspaceId: string | null = body.workspaceId || null
+    try {
+      const workspace = await getOrCreateUserWorkspace(userId)
+      workspaceId = body.workspaceId || workspace.id
+
+      if (workspaceId !== workspace.id && !(await userHasWorkspaceAccess(userId, workspaceId as string))) {
+        return NextResponse.json(
+          { error: 'Workspace not found' },
+          { status: 404 }
+        )
+      }
+    } catch (workspaceError: any) {
+      // If workspace tables don't exist, the tenant is only visible to its creator
+      console.warn('Could not get/create workspace, using user_id only:', workspaceError.message)
+      workspaceId = null
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('tenants')
+      .insert({
+        ...row,
+        user_id: userId,
+        workspace_id: workspaceId,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error inserting tenant:', error)
+      return NextResponse.json(
+        { error: 'Failed to add tenant', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, tenant: data })
+  } catch (error: any) {
+    console.error('Error in POST /api/tenants:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { userHasWorkspaceAccess } from '@/lib/workspace-helpers'
+
+/**
+ * DELETE /api/transactions/import-rules/[ruleId] - Remove a memo rule
+ * Any member of the rule's workspace can remove it. Transactions already imported through the
+ * rule stay in the ledger
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { ruleId: string } }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const { data: rule } = await supabaseAdmin
+      .from('transaction_import_rules')
+      .select('id, workspace_id')
+      .eq('id', params.ruleId)
+      .single()
+
+    if (!rule || !(await userHasWorkspaceAccess(userId, rule.workspace_id))) {
+      return NextResponse.json(
+        { error: 'Import rule not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error } = await supabaseAdmin
+      .from('transaction_import_rules')
+      .delete()
+      .eq('id', rule.id)
+
+    if (error) {
+      console.error('Error deleting import rule:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete import rule', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Error in DELETE /api/transactions/import-rules/[ruleId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
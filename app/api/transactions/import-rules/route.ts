@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperty } from '@/lib/property-helpers'
+import { getOrCreateUserWorkspace, getUserWorkspaces } from '@/lib/workspace-helpers'
+
+/**
+ * GET /api/transactions/import-rules - Fetch the transaction import rules of the user's workspaces
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const workspaceIds = (await getUserWorkspaces(userId)).map(w => w.id)
+    if (workspaceIds.length === 0) {
+      return NextResponse.json({ rules: [] })
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('transaction_import_rules')
+      .select('*')
+      .in('workspace_id', workspaceIds)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching import rules:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch import rules', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ rules: data || [] })
+  } catch (error: any) {
+    console.error('Error in GET /api/transactions/import-rules:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/transactions/import-rules - Add a memo rule
+ * Imported transactions whose payee or memo contains `pattern` are assigned to `propertyId`.
+ * The rule is shared by the property's workspace (the user's own for properties outside one);
+ * saving a pattern the workspace already has moves it to the new property.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const body = await request.json()
+    const pattern = body.pattern ? String(body.pattern).trim() : ''
+
+    if (pattern.length < 3) {
+      return NextResponse.json(
+        { error: 'Invalid request: pattern must be at least 3 characters' },
+        { status: 400 }
+      )
+    }
+
+    if (!body.propertyId) {
+      return NextResponse.json(
+        { error: 'Invalid request: propertyId is required' },
+        { status: 400 }
+      )
+    }
+
+    const property = await getAccessibleProperty(userId, body.propertyId)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const workspaceId = property.workspace_id || (await getOrCreateUserWorkspace(userId)).id
+
+    const { data, error } = await supabaseAdmin
+      .from('transaction_import_rules')
+      .upsert(
+        {
+          workspace_id: workspaceId,
+          user_id: userId,
+          property_id: property.id,
+          pattern,
+        },
+        { onConflict: 'workspace_id,pattern' }
+      )
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving import rule:', error)
+      return NextResponse.json(
+        { error: 'Failed to save import rule', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, rule: data })
+  } catch (error: any) {
+    console.error('Error in POST /api/transactions/import-rules:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getAccessibleProperties } from '@/lib/property-helpers'
+import { getUserWorkspaces } from '@/lib/workspace-helpers'
+import { mapTransactionImportRuleRow } from '@/lib/property-mappers'
+import { VALID_TRANSACTION_CATEGORIES } from '@/lib/ledger'
+import {
+  ImportedTransaction,
+  buildImportHashes,
+  getImportedTransactionDescription,
+  matchTransactionToProperty,
+} from '@/lib/transaction-import'
+
+const MAX_IMPORT_ROWS = 5000
+
+// Import hashes looked up per request when checking for rows that are already in a ledger
+const HASH_LOOKUP_SIZE = 300
+
+/**
+ * POST /api/transactions/import - Import bank/QuickBooks transactions into property ledgers
+ *
+ * Body: { transactions: ImportedTransaction[] } as produced by mapCsvRowToTransaction
+ *
+ * Each row is matched to one of the user's properties by address or by the memo rules of the
+ * user's workspaces. Rows are fingerprinted, so re-importing the same file skips rows that are
+ * already in the ledger of any of those properties, even if they now match another one.
+ * Returns counts of imported and duplicate rows plus the rows that matched no property.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseAdmin) {
+      return NextResponse.json(
+        { error: 'Database not configured' },
+        { status: 500 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!Array.isArray(body.transactions) || body.transactions.length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid request: transactions must be a non-empty array' },
+        { status: 400 }
+      )
+    }
+
+    if (body.transactions.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `Invalid request: at most ${MAX_IMPORT_ROWS} transactions can be imported at once` },
+        { status: 400 }
+      )
+    }
+
+    const transactions: ImportedTransaction[] = []
+    for (let index = 0; index < body.transactions.length; index++) {
+      const t = body.transactions[index]
+      const amount = Number(t?.amount)
+      const row = Number(t?.row) || index + 1
+
+      if (!t?.date || !/^\d{4}-\d{2}-\d{2}$/.test(String(t.date))) {
+        return NextResponse.json(
+          { error: `Invalid transaction on row ${row}: date is required (YYYY-MM-DD)` },
+          { status: 400 }
+        )
+      }
+
+      if (isNaN(amount) || amount <= 0) {
+        return NextResponse.json(
+          { error: `Invalid transaction on row ${row}: amount must be a positive number` },
+          { status: 400 }
+        )
+      }
+
+      if (!VALID_TRANSACTION_CATEGORIES.includes(t.category)) {
+        return NextResponse.json(
+          { error: `Invalid transaction on row ${row}: category "${t.category}" must be one of: ${VALID_TRANSACTION_CATEGORIES.join(', ')}` },
+          { status: 400 }
+        )
+      }
+
+      transactions.push({
+        row,
+        date: String(t.date),
+        amount: Math.round(amount * 100) / 100,
+        category: t.category,
+        payee: t.payee ? String(t.payee).trim() : '',
+        memo: t.memo ? String(t.memo).trim() : '',
+        propertyHint: t.propertyHint ? String(t.propertyHint).trim() : '',
+      })
+    }
+
+    const properties = await getAccessibleProperties(userId)
+    const workspaceIds = (await getUserWorkspaces(userId)).map(w => w.id)
+
+    const { data: ruleRows, error: rulesError } = workspaceIds.length > 0
+      ? await supabaseAdmin
+        .from('transaction_import_rules')
+        .select('*')
+        .in('workspace_id', workspaceIds)
+      : { data: [], error: null }
+
+    if (rulesError) {
+      console.error('Error fetching import rules:', rulesError)
+      return NextResponse.json(
+        { error: 'Failed to fetch import rules', details: rulesError.message },
+        { status: 500 }
+      )
+    }
+
+    const rules = (ruleRows || []).map(mapTransactionImportRuleRow)
+    const hashes = buildImportHashes(transactions)
+
+    // Rows already imported into any of the properties, whichever one they went to
+    const propertyIds = new Set(properties.map(p => p.id))
+    const importedHashes = new Set<string>()
+    for (let i = 0; i < hashes.length; i += HASH_LOOKUP_SIZE) {
+      const { data: existingRows, error: existingError } = await supabaseAdmin
+        .from('property_transactions')
+        .select('property_id, import_hash')
+        .in('import_hash', hashes.slice(i, i + HASH_LOOKUP_SIZE))
+
+      if (existingError) {
+        console.error('Error checking for imported transactions:', existingError)
+        return NextResponse.json(
+          { error: 'Failed to check for imported transactions', details: existingError.message },
+          { status: 500 }
+        )
+      }
+
+      existingRows?.forEach((row: any) => {
+        if (propertyIds.has(row.property_id)) importedHashes.add(row.import_hash)
+      })
+    }
+
+    const rows: any[] = []
+    const unmatched: ImportedTransaction[] = []
+    let duplicates = 0
+
+    transactions.forEach((t, index) => {
+      if (importedHashes.has(hashes[index])) {
+        duplicates++
+        return
+      }
+
+      const match = matchTransactionToProperty(t, properties, rules)
+      if (!match) {
+        unmatched.push(t)
+        return
+      }
+
+      rows.push({
+        property_id: match.propertyId,
+        user_id: userId,
+        date: t.date,
+        amount: t.amount,
+        category: t.category,
+        description: getImportedTransactionDescription(t) || null,
+        source: 'import',
+        import_hash: hashes[index],
+      })
+    })
+
+    let imported = 0
+    if (rows.length > 0) {
+      const { data, error } = await supabaseAdmin
+        .from('property_transactions')
+        .upsert(rows, { onConflict: 'property_id,import_hash', ignoreDuplicates: true })
+        .select('id')
+
+      if (error) {
+        console.error('Error importing transactions:', error)
+        return NextResponse.json(
+          { error: 'Failed to import transactions', details: error.message },
+          { status: 500 }
+        )
+      }
+
+      imported = data?.length || 0
+    }
+
+    return NextResponse.json({
+      success: true,
+      imported,
+      duplicates: duplicates + rows.length - imported,
+      unmatched,
+    })
+  } catch (error: any) {
+    console.error('Error in POST /api/transactions/import:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
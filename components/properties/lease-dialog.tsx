@@ -0,0 +1,478 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Plus, Trash2 } from "lucide-react"
+import { Lease, LeaseRenewalOffer } from "@/types"
+import { mapLeaseRenewalOfferRow, mapLeaseRow } from "@/lib/property-mappers"
+import {
+  ESCALATION_TYPES,
+  LEASE_STATUSES,
+  LeaseStatus,
+  VALID_LEASE_STATUSES,
+  addDays,
+  addYears,
+  getEscalationSchedule,
+  getLeaseRentOn,
+  getLeaseStatus,
+  toDateString,
+} from "@/lib/leases"
+
+const statusBadgeVariants: Record<LeaseStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  draft: "outline",
+  active: "default",
+  expiring: "destructive",
+  ended: "secondary",
+}
+
+export function LeaseStatusBadge({ lease }: { lease: Lease }) {
+  const status = getLeaseStatus(lease)
+  return (
+    <Badge variant={statusBadgeVariants[status]}>
+      {LEASE_STATUSES.find((s) => s.value === status)?.label || status}
+    </Badge>
+  )
+}
+
+interface LeaseDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  propertyId: string
+  lease: Lease | null
+  unitName?: string
+  formatCurrency: (value: number) => string
+  // Called with the saved or newly created lease and the property's resulting gross rent
+  onLeaseSaved: (lease: Lease, monthlyGrossRent: number | null) => void
+}
+
+export function LeaseDialog({
+  open,
+  onOpenChange,
+  propertyId,
+  lease,
+  unitName,
+  formatCurrency,
+  onLeaseSaved,
+}: LeaseDialogProps) {
+  const [draft, setDraft] = useState<Partial<Lease>>({})
+  const [saving, setSaving] = useState(false)
+  const [offers, setOffers] = useState<LeaseRenewalOffer[]>([])
+  const [newOffer, setNewOffer] = useState<Partial<LeaseRenewalOffer>>({})
+
+  useEffect(() => {
+    if (!open || !lease) return
+
+    setDraft({
+      status: lease.status,
+      endDate: lease.endDate,
+      moveInDate: lease.moveInDate || "",
+      moveOutDate: lease.moveOutDate || "",
+      escalationType: lease.escalationType,
+      escalationValue: lease.escalationValue,
+      terms: lease.terms || "",
+    })
+    // Default to renewing for another year
+    setNewOffer({ endDate: addYears(lease.endDate, 1) })
+
+    const loadOffers = async () => {
+      try {
+        const response = await fetch(`/api/properties/${propertyId}/leases/${lease.id}/renewals`)
+        if (response.ok) {
+          const data = await response.json()
+          setOffers((data.offers || []).map(mapLeaseRenewalOfferRow))
+        } else {
+          const errorData = await response.json().catch(() => ({}))
+          console.error("Failed to load renewal offers:", errorData)
+        }
+      } catch (error) {
+        console.error("Failed to load renewal offers:", error)
+      }
+    }
+
+    loadOffers()
+  }, [open, lease, propertyId])
+
+  if (!lease) return null
+
+  const today = toDateString(new Date())
+  const schedule = getEscalationSchedule(lease)
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/properties/${propertyId}/leases/${lease.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(draft),
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        onLeaseSaved(mapLeaseRow(data.lease), data.monthlyGrossRent)
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || "Failed to save lease")
+      }
+    } catch (error: any) {
+      console.error("Error saving lease:", error)
+      alert(`Failed to save lease: ${error.message || "Unknown error"}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAddOffer = async () => {
+    if (!newOffer.endDate) {
+      alert("Please enter the renewal's end date")
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/properties/${propertyId}/leases/${lease.id}/renewals`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(newOffer),
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setOffers([mapLeaseRenewalOfferRow(data.offer), ...offers])
+        setNewOffer({})
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || "Failed to add renewal offer")
+      }
+    } catch (error: any) {
+      console.error("Error adding renewal offer:", error)
+      alert(`Failed to add renewal offer: ${error.message || "Unknown error"}`)
+    }
+  }
+
+  const handleAnswerOffer = async (offerId: string, status: LeaseRenewalOffer["status"]) => {
+    try {
+      const response = await fetch(`/api/properties/${propertyId}/leases/${lease.id}/renewals/${offerId}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ status }),
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        const offer = mapLeaseRenewalOfferRow(data.offer)
+        setOffers(offers.map((o) => (o.id === offer.id ? offer : o)))
+        if (data.renewalLease) {
+          onLeaseSaved(mapLeaseRow(data.renewalLease), data.monthlyGrossRent)
+        }
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || "Failed to update renewal offer")
+      }
+    } catch (error: any) {
+      console.error("Error updating renewal offer:", error)
+      alert(`Failed to update renewal offer: ${error.message || "Unknown error"}`)
+    }
+  }
+
+  const handleDeleteOffer = async (offerId: string) => {
+    try {
+      const response = await fetch(`/api/properties/${propertyId}/leases/${lease.id}/renewals/${offerId}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        setOffers(offers.filter((o) => o.id !== offerId))
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details || errorData.error || "Failed to delete renewal offer")
+      }
+    } catch (error: any) {
+      console.error("Error deleting renewal offer:", error)
+      alert(`Failed to delete renewal offer: ${error.message || "Unknown error"}`)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {unitName ? `${unitName} Lease` : "Lease"} <LeaseStatusBadge lease={lease} />
+          </DialogTitle>
+          <DialogDescription>
+            {lease.tenants.map((tenant) => tenant.name).join(", ")} · {lease.startDate} to {lease.endDate} ·{" "}
+            {formatCurrency(getLeaseRentOn(lease, today))}/month now
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Lifecycle and terms */}
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="leaseStatus">Status</Label>
+                <Select
+                  value={draft.status}
+                  onValueChange={(value) => setDraft({ ...draft, status: value as Lease["status"] })}
+                >
+                  <SelectTrigger id="leaseStatus" name="leaseStatus">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEASE_STATUSES.filter((s) => VALID_LEASE_STATUSES.includes(s.value as Lease["status"])).map((s) => (
+                      <SelectItem key={s.value} value={s.value}>
+                        {s.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <input type="hidden" name="leaseStatus" value={draft.status || ""} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leaseMoveInDate">Move-in Date</Label>
+                <Input
+                  id="leaseMoveInDate"
+                  name="leaseMoveInDate"
+                  type="date"
+                  value={draft.moveInDate || ""}
+                  onChange={(e) => setDraft({ ...draft, moveInDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leaseMoveOutDate">Move-out Date</Label>
+                <Input
+                  id="leaseMoveOutDate"
+                  name="leaseMoveOutDate"
+                  type="date"
+                  value={draft.moveOutDate || ""}
+                  onChange={(e) => setDraft({ ...draft, moveOutDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leaseEscalationType">Escalation</Label>
+                <Select
+                  value={draft.escalationType}
+                  onValueChange={(value) =>
+                    setDraft({ ...draft, escalationType: value as Lease["escalationType"] })
+                  }
+                >
+                  <SelectTrigger id="leaseEscalationType" name="leaseEscalationType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ESCALATION_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <input type="hidden" name="leaseEscalationType" value={draft.escalationType || ""} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leaseEscalationValue">
+                  {draft.escalationType === "percent" ? "Escalation (% per year)" : "Escalation ($ per year)"}
+                </Label>
+                <Input
+                  id="leaseEscalationValue"
+                  name="leaseEscalationValue"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  disabled={draft.escalationType === "none"}
+                  value={draft.escalationValue ?? ""}
+                  onChange={(e) => setDraft({ ...draft, escalationValue: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leaseEndDateEdit">End Date</Label>
+                <Input
+                  id="leaseEndDateEdit"
+                  name="leaseEndDateEdit"
+                  type="date"
+                  value={draft.endDate || ""}
+                  onChange={(e) => setDraft({ ...draft, endDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leaseTerms">Terms</Label>
+              <Input
+                id="leaseTerms"
+                name="leaseTerms"
+                value={draft.terms || ""}
+                onChange={(e) => setDraft({ ...draft, terms: e.target.value })}
+                placeholder="e.g., Rent due on the 1st, 5 day grace period, no pets"
+              />
+            </div>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save Lease"}
+            </Button>
+          </div>
+
+          {/* Escalation schedule */}
+          <div className="space-y-2">
+            <h3 className="font-semibold">Rent Schedule</h3>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>From</TableHead>
+                    <TableHead className="text-right">Monthly Rent</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedule.map((step, index) => {
+                    const next = schedule[index + 1]
+                    const isCurrent = step.date <= today && (!next || next.date > today)
+                    return (
+                      <TableRow key={step.date} className={isCurrent ? "bg-muted/50" : undefined}>
+                        <TableCell>
+                          {step.date}
+                          {isCurrent && " (current)"}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(step.monthlyRent)}</TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          {/* Renewal offers */}
+          <div className="space-y-2">
+            <h3 className="font-semibold">Renewal Offers</h3>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Offered</TableHead>
+                    <TableHead>Term</TableHead>
+                    <TableHead className="text-right">Monthly Rent</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {offers.map((offer) => (
+                    <TableRow key={offer.id}>
+                      <TableCell>{offer.offeredOn}</TableCell>
+                      <TableCell>
+                        {offer.startDate} to {offer.endDate}
+                        {offer.notes && <div className="text-xs text-muted-foreground">{offer.notes}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(offer.monthlyRent)}</TableCell>
+                      <TableCell>
+                        <Badge variant={offer.status === "accepted" ? "default" : "outline"}>
+                          {offer.status}
+                        </Badge>
+                        {offer.respondedOn && (
+                          <div className="text-xs text-muted-foreground">{offer.respondedOn}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          {offer.status === "pending" && (
+                            <>
+                              <Button size="sm" onClick={() => handleAnswerOffer(offer.id, "accepted")}>
+                                Accept
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => handleAnswerOffer(offer.id, "declined")}>
+                                Decline
+                              </Button>
+                              <Button size="sm" variant="ghost" onClick={() => handleAnswerOffer(offer.id, "withdrawn")}>
+                                Withdraw
+                              </Button>
+                            </>
+                          )}
+                          <Button variant="ghost" size="sm" onClick={() => handleDeleteOffer(offer.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {offers.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        No renewal offers yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+            {lease.status !== "draft" && (
+              <>
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="offerEndDate">Renew Until</Label>
+                    <Input
+                      id="offerEndDate"
+                      name="offerEndDate"
+                      type="date"
+                      value={newOffer.endDate || ""}
+                      onChange={(e) => setNewOffer({ ...newOffer, endDate: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="offerMonthlyRent">Monthly Rent</Label>
+                    <Input
+                      id="offerMonthlyRent"
+                      name="offerMonthlyRent"
+                      type="number"
+                      min="0"
+                      value={newOffer.monthlyRent ?? ""}
+                      onChange={(e) =>
+                        setNewOffer({
+                          ...newOffer,
+                          monthlyRent: e.target.value === "" ? undefined : parseFloat(e.target.value) || 0,
+                        })
+                      }
+                      placeholder={String(getLeaseRentOn(lease, lease.endDate))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="offerNotes">Notes</Label>
+                    <Input
+                      id="offerNotes"
+                      name="offerNotes"
+                      value={newOffer.notes || ""}
+                      onChange={(e) => setNewOffer({ ...newOffer, notes: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  The renewal starts on {addDays(lease.endDate, 1)}. Accepting an offer creates the renewal lease
+                  with the same tenants, deposit and escalation.
+                </p>
+                <Button variant="outline" onClick={handleAddOffer}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Offer Renewal
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,118 @@
+"use client"
+
+import { OccupancyPeriod } from "@/lib/occupancy"
+
+const WIDTH = 640
+const HEIGHT = 240
+const PADDING = { top: 16, right: 16, bottom: 28, left: 48 }
+
+const PHYSICAL_COLOR = "#2563eb"
+const ECONOMIC_COLOR = "#dc2626"
+
+interface OccupancyChartProps {
+  periods: OccupancyPeriod[]
+}
+
+/**
+ * Vacancy per period: physical vacancy as bars, economic vacancy as a line
+ * Periods with no units counted (e.g. before any property was added) are left blank
+ */
+export function OccupancyChart({ periods }: OccupancyChartProps) {
+  if (periods.every((p) => p.unitDays === 0)) {
+    return (
+      <div className="h-[240px] border rounded-lg flex items-center justify-center text-sm text-muted-foreground">
+        No occupancy recorded for this range yet
+      </div>
+    )
+  }
+
+  const maxPercent = Math.max(10, ...periods.map((p) => Math.max(p.physicalVacancy, p.economicVacancy)))
+  // Round the scale up to a multiple of 10%
+  const maxValue = Math.min(100, Math.ceil(maxPercent / 10) * 10)
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+  const slot = plotWidth / periods.length
+  const barWidth = Math.max(4, slot * 0.6)
+  const x = (index: number) => PADDING.left + slot * index + slot / 2
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight
+
+  const yTicks = [0, 0.25, 0.5, 0.75, 1].map((step) => maxValue * step)
+  // Label every period when they fit, else every few
+  const labelEvery = Math.ceil(periods.length / 12)
+  const counted = periods.map((p, i) => ({ period: p, index: i })).filter(({ period }) => period.unitDays > 0)
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Physical and economic vacancy over time">
+        {yTicks.map((tick) => (
+          <g key={tick}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(tick)}
+              y2={y(tick)}
+              stroke="currentColor"
+              strokeOpacity={0.1}
+            />
+            <text
+              x={PADDING.left - 8}
+              y={y(tick)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              className="fill-muted-foreground text-[10px]"
+            >
+              {`${tick.toFixed(0)}%`}
+            </text>
+          </g>
+        ))}
+
+        {periods.map((p, i) => (
+          <g key={p.label}>
+            {p.unitDays > 0 && (
+              <rect
+                x={x(i) - barWidth / 2}
+                y={y(p.physicalVacancy)}
+                width={barWidth}
+                height={y(0) - y(p.physicalVacancy)}
+                fill={PHYSICAL_COLOR}
+                fillOpacity={0.7}
+              >
+                <title>{`${p.label} · Physical vacancy: ${p.physicalVacancy.toFixed(1)}% (${p.vacantUnitDays} of ${p.unitDays} unit-days)`}</title>
+              </rect>
+            )}
+            {i % labelEvery === 0 && (
+              <text x={x(i)} y={HEIGHT - 8} textAnchor="middle" className="fill-muted-foreground text-[10px]">
+                {p.label}
+              </text>
+            )}
+          </g>
+        ))}
+
+        <polyline
+          fill="none"
+          stroke={ECONOMIC_COLOR}
+          strokeWidth={2}
+          points={counted.map(({ period, index }) => `${x(index)},${y(period.economicVacancy)}`).join(" ")}
+        />
+        {counted.map(({ period, index }) => (
+          <circle key={period.label} cx={x(index)} cy={y(period.economicVacancy)} r={3} fill={ECONOMIC_COLOR}>
+            <title>{`${period.label} · Economic vacancy: ${period.economicVacancy.toFixed(1)}%`}</title>
+          </circle>
+        ))}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex items-center gap-4 text-sm text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded-sm" style={{ backgroundColor: PHYSICAL_COLOR, opacity: 0.7 }} />
+          Physical vacancy
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: ECONOMIC_COLOR }} />
+          Economic vacancy
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+"use client"
+
+import { useEffect, useMemo } from "react"
+import Link from "next/link"
+import { MapContainer, TileLayer, CircleMarker, Popup, useMap } from "react-leaflet"
+import { latLngBounds } from "leaflet"
+import "leaflet/dist/leaflet.css"
+import { Property } from "@/types"
+
+export const PROPERTY_STATUS_COLORS: Record<Property["status"], string> = {
+  rented: "#16a34a",
+  vacant: "#f59e0b",
+  under_maintenance: "#dc2626",
+  sold: "#6b7280",
+}
+
+// Continental US, shown until there are pins to fit
+const DEFAULT_CENTER: [number, number] = [39.5, -98.35]
+const DEFAULT_ZOOM = 4
+
+type LocatedProperty = Property & { latitude: number; longitude: number }
+
+/**
+ * Whether a property has been geocoded
+ */
+export function hasLocation(property: Property): property is LocatedProperty {
+  return typeof property.latitude === "number" && typeof property.longitude === "number"
+}
+
+/**
+ * Zoom the map to fit every pin whenever the pins change
+ */
+function FitToProperties({ properties }: { properties: LocatedProperty[] }) {
+  const map = useMap()
+
+  useEffect(() => {
+    if (properties.length === 0) return
+    if (properties.length === 1) {
+      map.setView([properties[0].latitude, properties[0].longitude], 14)
+      return
+    }
+    map.fitBounds(
+      latLngBounds(properties.map((p) => [p.latitude, p.longitude] as [number, number])),
+      { padding: [32, 32], maxZoom: 15 }
+    )
+  }, [map, properties])
+
+  return null
+}
+
+interface PropertyMapProps {
+  properties: Property[]
+  formatCurrency: (value: number) => string
+}
+
+/**
+ * Portfolio map with a status-colored pin per geocoded property
+ * Properties without coordinates are left off the map
+ */
+export function PropertyMap({ properties, formatCurrency }: PropertyMapProps) {
+  const located = useMemo(() => properties.filter(hasLocation), [properties])
+
+  return (
+    <div className="space-y-2">
+      <div className="h-[500px] border rounded-lg overflow-hidden">
+        <MapContainer center={DEFAULT_CENTER} zoom={DEFAULT_ZOOM} className="h-full w-full">
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          <FitToProperties properties={located} />
+          {located.map((property) => (
+            <CircleMarker
+              key={property.id}
+              center={[property.latitude, property.longitude]}
+              radius={8}
+              pathOptions={{
+                color: "#ffffff",
+                weight: 2,
+                fillColor: PROPERTY_STATUS_COLORS[property.status],
+                fillOpacity: 0.9,
+              }}
+            >
+              <Popup>
+                <div className="space-y-1">
+                  <Link href={`/properties/${property.id}/details`} className="font-medium underline">
+                    {property.address}
+                  </Link>
+                  <div className="capitalize">{property.status.replace("_", " ")}</div>
+                  <div>Est. value: {formatCurrency(property.currentEstValue)}</div>
+                </div>
+              </Popup>
+            </CircleMarker>
+          ))}
+        </MapContainer>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+        {(Object.keys(PROPERTY_STATUS_COLORS) as Property["status"][]).map((status) => (
+          <span key={status} className="flex items-center gap-1 capitalize">
+            <span
+              className="inline-block h-3 w-3 rounded-full"
+              style={{ backgroundColor: PROPERTY_STATUS_COLORS[status] }}
+            />
+            {status.replace("_", " ")}
+          </span>
+        ))}
+        {located.length < properties.length && (
+          <span>{properties.length - located.length} without a location</span>
+        )}
+      </div>
+    </div>
+  )
+}
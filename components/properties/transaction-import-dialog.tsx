@@ -0,0 +1,444 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Trash2, Upload } from "lucide-react"
+import { Property, TransactionImportRule } from "@/types"
+import { parseCsvFile } from "@/lib/csv-import"
+import { TRANSACTION_CATEGORIES } from "@/lib/ledger"
+import { mapTransactionImportRuleRow } from "@/lib/property-mappers"
+import {
+  ImportedTransaction,
+  TransactionField,
+  TransactionFieldMapping,
+  findTransactionHeaderRow,
+  generateTransactionMapping,
+  getImportedTransactionDescription,
+  mapCsvRowToTransaction,
+  matchTransactionToProperty,
+  validateTransactionMapping,
+} from "@/lib/transaction-import"
+
+interface TransactionImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  properties: Pick<Property, "id" | "address">[] // Saved properties only
+}
+
+interface ImportResult {
+  imported: number
+  duplicates: number
+  unmatched: ImportedTransaction[]
+}
+
+const transactionFields: { value: TransactionField; label: string }[] = [
+  { value: "date", label: "Date" },
+  { value: "amount", label: "Amount (signed)" },
+  { value: "debit", label: "Debit / Money Out" },
+  { value: "credit", label: "Credit / Money In" },
+  { value: "payee", label: "Payee / Description" },
+  { value: "memo", label: "Memo" },
+  { value: "category", label: "Category / Account" },
+  { value: "property", label: "Property / Class" },
+]
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(value)
+
+export function TransactionImportDialog({ open, onOpenChange, properties }: TransactionImportDialogProps) {
+  const [headers, setHeaders] = useState<string[]>([])
+  const [rows, setRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<TransactionFieldMapping>({})
+  const [rules, setRules] = useState<TransactionImportRule[]>([])
+  const [newRulePattern, setNewRulePattern] = useState("")
+  const [newRulePropertyId, setNewRulePropertyId] = useState("")
+  const [importing, setImporting] = useState(false)
+  const [importError, setImportError] = useState("")
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+
+    const loadRules = async () => {
+      try {
+        const response = await fetch("/api/transactions/import-rules")
+        if (response.ok) {
+          const data = await response.json()
+          setRules((data.rules || []).map(mapTransactionImportRuleRow))
+        }
+      } catch (error) {
+        console.error("Failed to load import rules:", error)
+      }
+    }
+
+    loadRules()
+  }, [open])
+
+  const transactions = useMemo(() => {
+    if (!validateTransactionMapping(mapping).valid) return []
+    return rows
+      .map((row, index) => mapCsvRowToTransaction(row, headers, mapping, index + 1))
+      .filter((t): t is ImportedTransaction => t !== null)
+  }, [rows, headers, mapping])
+
+  const matchedCount = useMemo(
+    () => transactions.filter(t => matchTransactionToProperty(t, properties, rules)).length,
+    [transactions, properties, rules]
+  )
+
+  const getPropertyAddress = (propertyId: string) =>
+    properties.find(p => p.id === propertyId)?.address || "Unknown property"
+
+  const resetFile = () => {
+    setHeaders([])
+    setRows([])
+    setMapping({})
+    setResult(null)
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ""
+    }
+  }
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    setImportError("")
+    setResult(null)
+
+    if (!file.name.endsWith(".csv") && !file.name.endsWith(".txt") && !file.name.endsWith(".tsv")) {
+      setImportError("Please upload a CSV, TSV or TXT file")
+      return
+    }
+
+    parseCsvFile(file).then((parsed) => {
+      const headerIndex = findTransactionHeaderRow(parsed)
+      const fileHeaders = parsed[headerIndex] || []
+      const data = parsed.slice(headerIndex + 1)
+
+      if (fileHeaders.length === 0 || data.length === 0) {
+        setImportError("CSV file must have a header row and at least one transaction")
+        return
+      }
+
+      setHeaders(fileHeaders)
+      setRows(data)
+      setMapping(generateTransactionMapping(fileHeaders))
+    }).catch((error) => {
+      setImportError(`Error reading file: ${error instanceof Error ? error.message : "Unknown error"}`)
+    })
+  }
+
+  const handleAddRule = async () => {
+    if (!newRulePattern.trim() || !newRulePropertyId) return
+
+    try {
+      const response = await fetch("/api/transactions/import-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pattern: newRulePattern, propertyId: newRulePropertyId }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        alert(`Failed to add rule: ${errorData.error || "Unknown error"}`)
+        return
+      }
+
+      const data = await response.json()
+      const rule = mapTransactionImportRuleRow(data.rule)
+      setRules([...rules.filter(r => r.id !== rule.id), rule])
+      setNewRulePattern("")
+    } catch (error) {
+      console.error("Error adding import rule:", error)
+      alert("Failed to add rule")
+    }
+  }
+
+  const handleDeleteRule = async (ruleId: string) => {
+    try {
+      const response = await fetch(`/api/transactions/import-rules/${ruleId}`, { method: "DELETE" })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        alert(`Failed to delete rule: ${errorData.error || "Unknown error"}`)
+        return
+      }
+
+      setRules(rules.filter(r => r.id !== ruleId))
+    } catch (error) {
+      console.error("Error deleting import rule:", error)
+      alert("Failed to delete rule")
+    }
+  }
+
+  const handleImport = async () => {
+    setImporting(true)
+    setImportError("")
+
+    try {
+      const response = await fetch("/api/transactions/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ transactions }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        setImportError(data.details || data.error || "Failed to import transactions")
+        return
+      }
+
+      setResult({
+        imported: data.imported || 0,
+        duplicates: data.duplicates || 0,
+        unmatched: data.unmatched || [],
+      })
+    } catch (error) {
+      setImportError(`Import error: ${error instanceof Error ? error.message : "Unknown error"}`)
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Transactions</DialogTitle>
+          <DialogDescription>
+            Import a bank or QuickBooks CSV export into your property ledgers. Transactions are matched
+            to properties by address or by the memo rules below; rows that were already imported are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {importError && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+              <p className="text-sm text-red-800 dark:text-red-200 whitespace-pre-wrap">{importError}</p>
+            </div>
+          )}
+
+          {result && (
+            <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4 space-y-1">
+              <p className="text-sm text-green-800 dark:text-green-200">
+                Imported {result.imported} transactions
+                {result.duplicates > 0 && `, skipped ${result.duplicates} already imported`}
+                {result.unmatched.length > 0 && `, ${result.unmatched.length} matched no property`}.
+              </p>
+              {result.unmatched.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Add a memo rule for the unmatched rows below and import the file again.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* File */}
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" />
+              {headers.length > 0 ? "Choose another file" : "Choose CSV file"}
+            </Button>
+            <input
+              ref={fileInputRef}
+              id="transactionCsvFileInput"
+              name="transactionCsvFileInput"
+              type="file"
+              accept=".csv,.tsv,.txt"
+              onChange={handleFileUpload}
+              className="hidden"
+            />
+            {headers.length > 0 && (
+              <span className="text-xs text-muted-foreground">
+                {rows.length} rows, {transactions.length} transactions, {matchedCount} matched to a property
+              </span>
+            )}
+          </div>
+
+          {/* Field Mapping */}
+          {headers.length > 0 && (
+            <div className="space-y-2">
+              <Label>Field Mapping</Label>
+              <div className="border rounded-lg p-4 grid gap-2 sm:grid-cols-2">
+                {transactionFields.map((field) => (
+                  <div key={field.value} className="flex items-center gap-2">
+                    <div className="w-40 text-sm font-medium">{field.label}</div>
+                    <Select
+                      value={mapping[field.value] || "__unmapped"}
+                      onValueChange={(value) => {
+                        const newMapping = { ...mapping }
+                        if (value === "__unmapped") {
+                          delete newMapping[field.value]
+                        } else {
+                          newMapping[field.value] = value
+                        }
+                        setMapping(newMapping)
+                      }}
+                    >
+                      <SelectTrigger className="flex-1" id={`transaction-mapping-${field.value}`}>
+                        <SelectValue placeholder="Select column..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="__unmapped">Not in file</SelectItem>
+                        {headers
+                          .filter((h) => h && h.trim() !== "")
+                          .map((header) => (
+                            <SelectItem key={header} value={header}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {!validateTransactionMapping(mapping).valid && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">
+                  ⚠️ Please map a Date column and either an Amount column or Debit/Credit columns
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Preview */}
+          {transactions.length > 0 && (
+            <div className="space-y-2">
+              <Label>Preview (first 5 transactions)</Label>
+              <div className="border rounded-lg overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-xs">Date</TableHead>
+                      <TableHead className="text-xs">Description</TableHead>
+                      <TableHead className="text-xs">Category</TableHead>
+                      <TableHead className="text-xs text-right">Amount</TableHead>
+                      <TableHead className="text-xs">Property</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {transactions.slice(0, 5).map((t) => {
+                      const match = matchTransactionToProperty(t, properties, rules)
+                      return (
+                        <TableRow key={t.row}>
+                          <TableCell className="text-xs">{t.date}</TableCell>
+                          <TableCell className="text-xs">{getImportedTransactionDescription(t).substring(0, 40)}</TableCell>
+                          <TableCell className="text-xs">
+                            {TRANSACTION_CATEGORIES.find(c => c.value === t.category)?.label}
+                          </TableCell>
+                          <TableCell className="text-xs text-right">{formatCurrency(t.amount)}</TableCell>
+                          <TableCell className="text-xs">
+                            {match ? (
+                              getPropertyAddress(match.propertyId)
+                            ) : (
+                              <span className="text-amber-600 dark:text-amber-400">No match</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          {/* Unmatched rows from the last import */}
+          {result && result.unmatched.length > 0 && (
+            <div className="space-y-2">
+              <Label>Unmatched Transactions</Label>
+              <div className="border rounded-lg p-2 max-h-40 overflow-y-auto space-y-1">
+                {result.unmatched.map((t) => (
+                  <div key={t.row} className="text-xs flex justify-between gap-2">
+                    <span>Row {t.row}: {t.date} {getImportedTransactionDescription(t)}</span>
+                    <span>{formatCurrency(t.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Memo Rules */}
+          <div className="space-y-2">
+            <Label>Memo Rules</Label>
+            <p className="text-xs text-muted-foreground">
+              Transactions whose payee or memo contains the text are assigned to the property, even when they don&apos;t mention its address.
+            </p>
+            <div className="border rounded-lg p-2 space-y-1">
+              {rules.length === 0 ? (
+                <p className="text-xs text-muted-foreground text-center py-2">No memo rules yet</p>
+              ) : (
+                rules.map((rule) => (
+                  <div key={rule.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span>
+                      &ldquo;{rule.pattern}&rdquo; → {getPropertyAddress(rule.propertyId)}
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteRule(rule.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                id="newRulePattern"
+                name="newRulePattern"
+                placeholder="e.g. tenant name or loan number"
+                value={newRulePattern}
+                onChange={(e) => setNewRulePattern(e.target.value)}
+              />
+              <Select value={newRulePropertyId} onValueChange={setNewRulePropertyId}>
+                <SelectTrigger className="w-64" id="newRuleProperty">
+                  <SelectValue placeholder="Select property..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {properties.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.address}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                onClick={handleAddRule}
+                disabled={newRulePattern.trim().length < 3 || !newRulePropertyId}
+              >
+                Add Rule
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => {
+              resetFile()
+              onOpenChange(false)
+            }}
+          >
+            Close
+          </Button>
+          <Button onClick={handleImport} disabled={importing || transactions.length === 0}>
+            {importing ? "Importing..." : `Import ${transactions.length} Transactions`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
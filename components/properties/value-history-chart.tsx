@@ -0,0 +1,110 @@
+"use client"
+
+import { ValuePoint } from "@/lib/valuations"
+
+const WIDTH = 640
+const HEIGHT = 240
+const PADDING = { top: 16, right: 16, bottom: 28, left: 72 }
+
+const SERIES: { key: "value" | "equity"; label: string; color: string }[] = [
+  { key: "value", label: "Value", color: "#2563eb" },
+  { key: "equity", label: "Equity", color: "#16a34a" },
+]
+
+interface ValueHistoryChartProps {
+  points: ValuePoint[]
+  formatCurrency: (value: number) => string
+}
+
+/**
+ * Line chart of a property's value and equity at each valuation date
+ * Dates are spaced by time, so gaps between valuations show as longer segments
+ */
+export function ValueHistoryChart({ points, formatCurrency }: ValueHistoryChartProps) {
+  if (points.length === 0) {
+    return (
+      <div className="h-[240px] border rounded-lg flex items-center justify-center text-sm text-muted-foreground">
+        No valuations recorded yet
+      </div>
+    )
+  }
+
+  const times = points.map((p) => Date.parse(p.date))
+  const minTime = times[0]
+  const maxTime = times[times.length - 1]
+  const values = points.reduce<number[]>((all, p) => all.concat(p.value, p.equity), [])
+  const minValue = Math.min(0, ...values)
+  const maxValue = Math.max(...values) || 1
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+  const x = (time: number) =>
+    PADDING.left + (maxTime === minTime ? plotWidth / 2 : ((time - minTime) / (maxTime - minTime)) * plotWidth)
+  const y = (value: number) =>
+    PADDING.top + plotHeight - ((value - minValue) / (maxValue - minValue)) * plotHeight
+
+  const yTicks = [0, 0.25, 0.5, 0.75, 1].map((step) => minValue + (maxValue - minValue) * step)
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Value and equity over time">
+        {yTicks.map((tick) => (
+          <g key={tick}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(tick)}
+              y2={y(tick)}
+              stroke="currentColor"
+              strokeOpacity={0.1}
+            />
+            <text
+              x={PADDING.left - 8}
+              y={y(tick)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              className="fill-muted-foreground text-[10px]"
+            >
+              {formatCurrency(tick)}
+            </text>
+          </g>
+        ))}
+
+        <text x={x(minTime)} y={HEIGHT - 8} textAnchor={points.length > 1 ? "start" : "middle"} className="fill-muted-foreground text-[10px]">
+          {points[0].date}
+        </text>
+        {points.length > 1 && (
+          <text x={x(maxTime)} y={HEIGHT - 8} textAnchor="end" className="fill-muted-foreground text-[10px]">
+            {points[points.length - 1].date}
+          </text>
+        )}
+
+        {SERIES.map((series) => (
+          <g key={series.key}>
+            <polyline
+              fill="none"
+              stroke={series.color}
+              strokeWidth={2}
+              points={points.map((p, i) => `${x(times[i])},${y(p[series.key])}`).join(" ")}
+            />
+            {points.map((p, i) => (
+              <circle key={p.date} cx={x(times[i])} cy={y(p[series.key])} r={3} fill={series.color}>
+                <title>{`${p.date} · ${series.label}: ${formatCurrency(p[series.key])}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex items-center gap-4 text-sm text-muted-foreground">
+        {SERIES.map((series) => (
+          <span key={series.key} className="flex items-center gap-1">
+            <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: series.color }} />
+            {series.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
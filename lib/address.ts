@@ -0,0 +1,183 @@
+/**
+ * Address Matching
+ *
+ * Normalization shared by the importers to match free text and spreadsheet rows
+ * against property addresses
+ */
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: "st",
+  avenue: "ave",
+  av: "ave",
+  road: "rd",
+  drive: "dr",
+  boulevard: "blvd",
+  lane: "ln",
+  court: "ct",
+  place: "pl",
+  terrace: "ter",
+  circle: "cir",
+  highway: "hwy",
+  parkway: "pkwy",
+  north: "n",
+  south: "s",
+  east: "e",
+  west: "w",
+  apartment: "apt",
+  suite: "ste",
+}
+
+/**
+ * Normalize free text or an address for matching
+ * Lowercases, drops punctuation and abbreviates street suffixes and directions
+ */
+export function normalizeAddress(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => ADDRESS_ABBREVIATIONS[word] || word)
+    .join(" ")
+}
+
+/**
+ * Normalized street line of an address (the part before the first comma)
+ * "123 Main Street, Springfield, IL" and "123 Main St." both give "123 main st"
+ */
+export function getStreetKey(address: string): string {
+  return normalizeAddress(address.split(",")[0] || "")
+}
+
+/**
+ * Structured parts of a US address; parts that couldn't be found are null
+ */
+export interface AddressParts {
+  street: string | null
+  city: string | null
+  state: string | null // Two-letter code
+  zip: string | null // Five digits
+}
+
+const STATE_CODES: Record<string, string> = {
+  alabama: "AL", alaska: "AK", arizona: "AZ", arkansas: "AR", california: "CA",
+  colorado: "CO", connecticut: "CT", delaware: "DE", "district of columbia": "DC", florida: "FL",
+  georgia: "GA", hawaii: "HI", idaho: "ID", illinois: "IL", indiana: "IN",
+  iowa: "IA", kansas: "KS", kentucky: "KY", louisiana: "LA", maine: "ME",
+  maryland: "MD", massachusetts: "MA", michigan: "MI", minnesota: "MN", mississippi: "MS",
+  missouri: "MO", montana: "MT", nebraska: "NE", nevada: "NV", "new hampshire": "NH",
+  "new jersey": "NJ", "new mexico": "NM", "new york": "NY", "north carolina": "NC", "north dakota": "ND",
+  ohio: "OH", oklahoma: "OK", oregon: "OR", pennsylvania: "PA", "puerto rico": "PR",
+  "rhode island": "RI", "south carolina": "SC", "south dakota": "SD", tennessee: "TN", texas: "TX",
+  utah: "UT", vermont: "VT", virginia: "VA", washington: "WA", "west virginia": "WV",
+  wisconsin: "WI", wyoming: "WY",
+}
+
+const STATE_CODE_VALUES = Object.keys(STATE_CODES).map((name) => STATE_CODES[name])
+
+const DIRECTIONS = ["n", "s", "e", "w", "ne", "nw", "se", "sw"]
+
+/**
+ * Two-letter code for a state name or code ("Illinois", "il" and "IL" all give "IL")
+ * Returns null if the text isn't a US state
+ */
+export function normalizeStateCode(text: string): string | null {
+  const cleaned = text.trim().toLowerCase().replace(/\./g, "").replace(/\s+/g, " ")
+  if (STATE_CODES[cleaned]) return STATE_CODES[cleaned]
+  const code = cleaned.toUpperCase()
+  return STATE_CODE_VALUES.includes(code) ? code : null
+}
+
+/**
+ * Capitalize each word ("SPRINGFIELD" and "springfield" give "Springfield")
+ */
+function toTitleCase(text: string): string {
+  return text
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ")
+}
+
+/**
+ * Format a street line with abbreviated suffixes and directions
+ * "123 north main street" gives "123 N Main St"
+ */
+export function formatStreet(street: string): string {
+  return street
+    .replace(/[.,]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => {
+      const lower = word.toLowerCase()
+      const abbreviated = ADDRESS_ABBREVIATIONS[lower] || lower
+      if (DIRECTIONS.includes(abbreviated)) return abbreviated.toUpperCase()
+      if (/^\d/.test(abbreviated)) return abbreviated // House numbers and ordinals ("1st")
+      return abbreviated.charAt(0).toUpperCase() + abbreviated.slice(1)
+    })
+    .join(" ")
+}
+
+/**
+ * Split a one-line US address into street, city, state and ZIP
+ * Expects the usual "street, city, state zip" order; a trailing country is ignored.
+ * "123 Main Street, Springfield, Illinois 62704" gives
+ * { street: "123 Main St", city: "Springfield", state: "IL", zip: "62704" }
+ */
+export function parseAddress(address: string): AddressParts {
+  const parts = address
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+
+  if (parts.length > 1 && /^(usa?|united states( of america)?)$/i.test(parts[parts.length - 1].replace(/\./g, ""))) {
+    parts.pop()
+  }
+
+  let zip: string | null = null
+  let state: string | null = null
+  let city: string | null = null
+
+  if (parts.length > 1) {
+    let last = parts[parts.length - 1]
+
+    const zipMatch = last.match(/\s*\b(\d{5})(?:-\d{4})?$/)
+    if (zipMatch) {
+      zip = zipMatch[1]
+      last = last.slice(0, zipMatch.index).trim()
+    }
+
+    // "IL" or "Illinois" on its own, or at the end of "Springfield IL"
+    state = normalizeStateCode(last)
+    if (state) {
+      last = ""
+    } else {
+      const words = last.split(/\s+/)
+      for (let count = Math.min(3, words.length - 1); count >= 1 && !state; count--) {
+        const code = normalizeStateCode(words.slice(words.length - count).join(" "))
+        if (code) {
+          state = code
+          last = words.slice(0, words.length - count).join(" ")
+        }
+      }
+    }
+
+    if (last) {
+      parts[parts.length - 1] = last
+    } else {
+      parts.pop()
+    }
+
+    if (parts.length > 1) {
+      city = toTitleCase(parts.pop() as string)
+    }
+  }
+
+  return {
+    street: parts.length > 0 ? formatStreet(parts.join(" ")) : null,
+    city,
+    state,
+    zip,
+  }
+}
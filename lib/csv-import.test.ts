@@ -0,0 +1,224 @@
+import { describe, expect, it } from "vitest"
+import { ImportMappingProfile } from "@/types"
+import {
+  applyMappingProfile,
+  createCsvParser,
+  detectDelimiter,
+  findMatchingProfile,
+  getGrossRentHeaders,
+  getHeaderSignature,
+  parseCsvRows,
+} from "./csv-import"
+
+/**
+ * Parse text pushed in chunks of a fixed size, the way parseCsvFile feeds the parser
+ */
+function parseInChunks(text: string, chunkSize: number): string[][] {
+  const parser = createCsvParser()
+  const rows: string[][] = []
+  for (let i = 0; i < text.length; i += chunkSize) {
+    rows.push(...parser.push(text.slice(i, i + chunkSize)))
+  }
+  rows.push(...parser.flush())
+  return rows
+}
+
+describe("parseCsvRows", () => {
+  it("parses plain rows", () => {
+    expect(parseCsvRows("address,status\n1 Main St,rented\n2 Oak Ave,vacant\n")).toEqual([
+      ["address", "status"],
+      ["1 Main St", "rented"],
+      ["2 Oak Ave", "vacant"],
+    ])
+  })
+
+  it("keeps line breaks and delimiters inside quoted cells", () => {
+    expect(parseCsvRows('address,notes\n"1 Main St, Unit 2","first line\nsecond line"\n')).toEqual([
+      ["address", "notes"],
+      ["1 Main St, Unit 2", "first line\nsecond line"],
+    ])
+  })
+
+  it("unescapes doubled quotes", () => {
+    expect(parseCsvRows('name,notes\n"The ""Big"" House","say ""hi"""\n')).toEqual([
+      ["name", "notes"],
+      ['The "Big" House', 'say "hi"'],
+    ])
+  })
+
+  it("keeps an empty quoted cell and a row holding only one", () => {
+    expect(parseCsvRows('a,b\n"",x\n""\n')).toEqual([
+      ["a", "b"],
+      ["", "x"],
+      [""],
+    ])
+  })
+
+  it("ignores a leading byte order mark", () => {
+    expect(parseCsvRows("\uFEFFaddress,status\n1 Main St,rented")).toEqual([
+      ["address", "status"],
+      ["1 Main St", "rented"],
+    ])
+  })
+
+  it("accepts CRLF and CR line endings and drops blank lines", () => {
+    const expected = [
+      ["a", "b"],
+      ["1", "2"],
+      ["3", "4"],
+    ]
+    expect(parseCsvRows("a,b\r\n1,2\r\n\r\n3,4\r\n")).toEqual(expected)
+    expect(parseCsvRows("a,b\r1,2\r\r3,4\r")).toEqual(expected)
+  })
+
+  it("keeps CRLF inside quoted cells", () => {
+    expect(parseCsvRows('a,b\r\n"x\r\ny",z\r\n')).toEqual([
+      ["a", "b"],
+      ["x\r\ny", "z"],
+    ])
+  })
+
+  it("trims unquoted cells but not quoted ones", () => {
+    expect(parseCsvRows('a , b\n  1 ," 2 "\n')).toEqual([
+      ["a", "b"],
+      ["1", " 2 "],
+    ])
+  })
+
+  it("returns the last row without a trailing newline", () => {
+    expect(parseCsvRows("a,b\n1,")).toEqual([
+      ["a", "b"],
+      ["1", ""],
+    ])
+  })
+
+  it("uses the delimiter it is given", () => {
+    expect(parseCsvRows("a;b,c\n1;2,3\n", { delimiter: ";" })).toEqual([
+      ["a", "b,c"],
+      ["1", "2,3"],
+    ])
+  })
+})
+
+describe("detectDelimiter", () => {
+  it("detects commas, semicolons and tabs", () => {
+    expect(detectDelimiter("a,b,c\n1,2,3\n")).toBe(",")
+    expect(detectDelimiter("a;b;c\n1;2;3\n")).toBe(";")
+    expect(detectDelimiter("a\tb\tc\n1\t2\t3\n")).toBe("\t")
+  })
+
+  it("prefers the delimiter that appears the same number of times on every line", () => {
+    expect(detectDelimiter("price;notes\n1,5;a, b, c\n2,5;d\n")).toBe(";")
+  })
+
+  it("ignores delimiters inside quotes", () => {
+    expect(detectDelimiter('"a,b,c";d\n"1,2,3";4\n')).toBe(";")
+  })
+
+  it("defaults to a comma", () => {
+    expect(detectDelimiter("address\n1 Main St\n")).toBe(",")
+    expect(detectDelimiter("")).toBe(",")
+  })
+
+  it("is used by the parser when no delimiter is given", () => {
+    const parser = createCsvParser()
+    const rows = [...parser.push("a;b\n1;2\n"), ...parser.flush()]
+    expect(parser.delimiter).toBe(";")
+    expect(rows).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ])
+  })
+})
+
+describe("createCsvParser with chunked input", () => {
+  const csv = [
+    "\uFEFFaddress;notes;rent",
+    '"1 Main St; Unit 2";"line one\r\nline two";1200',
+    '2 Oak Ave;"the ""corner"" lot";950',
+    "",
+    '3 Elm Rd;"";',
+  ].join("\r\n") + "\r\n"
+  const expected = [
+    ["address", "notes", "rent"],
+    ["1 Main St; Unit 2", "line one\r\nline two", "1200"],
+    ["2 Oak Ave", 'the "corner" lot', "950"],
+    ["3 Elm Rd", "", ""],
+  ]
+
+  it("parses the whole text at once", () => {
+    expect(parseCsvRows(csv)).toEqual(expected)
+  })
+
+  it("gives the same rows for every chunk size", () => {
+    for (let chunkSize = 1; chunkSize <= csv.length; chunkSize++) {
+      expect(parseInChunks(csv, chunkSize)).toEqual(expected)
+    }
+  })
+
+  it("returns rows as soon as they are complete once the delimiter is known", () => {
+    const lines = Array.from({ length: 12 }, (_, i) => `${i};x`)
+    const parser = createCsvParser()
+    const rows = parser.push(lines.join("\n") + "\n")
+    expect(parser.delimiter).toBe(";")
+    expect(rows).toHaveLength(12)
+    expect(parser.push("12;")).toEqual([])
+    expect(parser.push("y\n")).toEqual([["12", "y"]])
+    expect(parser.flush()).toEqual([])
+  })
+
+  it("splits a CRLF across chunks without an extra row", () => {
+    const parser = createCsvParser({ delimiter: "," })
+    expect(parser.push("a,b\r")).toEqual([["a", "b"]])
+    expect(parser.push("\n1,2\r")).toEqual([["1", "2"]])
+    expect(parser.push("\n")).toEqual([])
+    expect(parser.flush()).toEqual([])
+  })
+
+  it("splits an escaped quote across chunks", () => {
+    const parser = createCsvParser({ delimiter: "," })
+    expect(parser.push('"say "')).toEqual([])
+    expect(parser.push('"hi"""\n')).toEqual([['say "hi"']])
+  })
+})
+
+describe("getGrossRentHeaders", () => {
+  it("finds rent and income columns, which aren't imported", () => {
+    expect(getGrossRentHeaders(["Address", "Monthly Rent", "Rental Income", "Revenue"])).toEqual([
+      "Monthly Rent",
+      "Rental Income",
+      "Revenue",
+    ])
+  })
+
+  it("leaves out headers that map to another field", () => {
+    expect(getGrossRentHeaders(["Current Value", "Current Est. Value", "Status"])).toEqual([])
+  })
+})
+
+describe("import mapping profiles", () => {
+  const profile = (name: string, createdAt: string, updatedAt: string): ImportMappingProfile => ({
+    id: name,
+    workspaceId: "workspace",
+    name,
+    mapping: { address: "Property Address", status: "Status" },
+    headerSignature: getHeaderSignature(["Property Address", "Status"]),
+    createdBy: "user",
+    createdAt,
+    updatedAt,
+  })
+
+  it("picks the most recently saved matching profile", () => {
+    const older = profile("older", "2024-01-01T00:00:00", "2024-06-01T00:00:00")
+    const newer = profile("newer", "2024-03-01T00:00:00", "2024-03-01T00:00:00")
+    expect(findMatchingProfile([newer, older], ["status", " property  address"])?.name).toBe("older")
+  })
+
+  it("maps headers that differ only in case and spacing to the file's own headers", () => {
+    const saved = profile("saved", "2024-01-01T00:00:00", "2024-01-01T00:00:00")
+    expect(applyMappingProfile(saved, ["property  address ", "STATUS"])).toEqual({
+      address: "property  address ",
+      status: "STATUS",
+    })
+  })
+})
@@ -1,4 +1,6 @@
-import { Property } from "@/types"
+import { CustomFieldDefinition, ImportMappingProfile, Property } from "@/types"
+import { getStreetKey } from "./address"
+import { parseCustomFieldValue } from "./custom-fields"
 
 /**
  * Property field types that can be imported from CSV
@@ -15,7 +17,24 @@ export type PropertyField =
   | "monthlyInsurance"
   | "monthlyPropertyTax"
   | "monthlyOtherCosts"
-  | "monthlyGrossRent"
+
+/**
+ * Every importable property field
+ * Gross rent isn't one: it's the sum of a property's rent roll units, kept by the server
+ */
+export const PROPERTY_FIELDS: PropertyField[] = [
+  "address",
+  "type",
+  "status",
+  "mortgageHolder",
+  "totalMortgageAmount",
+  "purchasePrice",
+  "currentEstValue",
+  "monthlyMortgagePayment",
+  "monthlyInsurance",
+  "monthlyPropertyTax",
+  "monthlyOtherCosts",
+]
 
 /**
  * Required fields for property import
@@ -23,9 +42,26 @@ export type PropertyField =
 export const REQUIRED_FIELDS: PropertyField[] = ["address"]
 
 /**
- * Field mapping: maps internal PropertyField -> CSV header name
+ * Import target for a custom field: `custom_${customFieldId}`, the key its values use on a property
+ */
+export type CustomFieldTarget = `custom_${string}`
+
+/**
+ * A custom field that CSV columns can be imported into
+ */
+export type ImportCustomField = Pick<CustomFieldDefinition, "id" | "name" | "type" | "options">
+
+/**
+ * The import target for a custom field
+ */
+export function getCustomFieldTarget(field: Pick<ImportCustomField, "id">): CustomFieldTarget {
+  return `custom_${field.id}`
+}
+
+/**
+ * Field mapping: maps internal PropertyField (or custom field target) -> CSV header name
  */
-export type PropertyFieldMapping = Partial<Record<PropertyField, string>>
+export type PropertyFieldMapping = Partial<Record<PropertyField | CustomFieldTarget, string>>
 
 /**
  * Infer which PropertyField a CSV header represents based on fuzzy matching
@@ -155,21 +191,21 @@ export function inferPropertyFieldFromHeader(header: string): PropertyField | nu
     return "monthlyOtherCosts"
   }
 
-  // Monthly Gross Rent variations
-  if (
-    h.includes("gross rent") ||
-    h.includes("monthly rent") ||
-    h.includes("rent") ||
-    h.includes("income") ||
-    h.includes("revenue") ||
-    h.includes("rental income")
-  ) {
-    return "monthlyGrossRent"
-  }
-
   return null
 }
 
+/**
+ * Headers that look like a property's rent or income (and aren't another importable field)
+ * These aren't imported, since gross rent comes from the rent roll; the preview warns about them
+ */
+export function getGrossRentHeaders(headers: string[]): string[] {
+  return headers.filter((header) => {
+    if (!header || inferPropertyFieldFromHeader(header)) return false
+    const h = header.toLowerCase().trim().replace(/[^a-z0-9\s]/g, "")
+    return h.includes("rent") || h.includes("income") || h.includes("revenue")
+  })
+}
+
 /**
  * Generate initial field mapping from CSV headers
  */
@@ -213,33 +249,42 @@ export function parseNumber(value: any): number {
   return 0
 }
 
+/**
+ * Status spellings accepted on import
+ */
+const STATUS_ALIASES: Record<string, Property["status"]> = {
+  rented: "rented",
+  rent: "rented",
+  occupied: "rented",
+  tenant: "rented",
+  vacant: "vacant",
+  vacancy: "vacant",
+  empty: "vacant",
+  available: "vacant",
+  "under_maintenance": "under_maintenance",
+  maintenance: "under_maintenance",
+  repair: "under_maintenance",
+  repairing: "under_maintenance",
+  sold: "sold",
+  sale: "sold",
+  closed: "sold",
+}
+
+/**
+ * Whether a CSV status value is one we recognize (empty values count as unknown)
+ */
+export function isKnownStatus(value: any): boolean {
+  if (!value || typeof value !== "string") return false
+  return Object.prototype.hasOwnProperty.call(STATUS_ALIASES, value.toLowerCase().trim())
+}
+
 /**
  * Safely parse status from CSV value
  */
 export function parseStatus(value: any): Property["status"] {
   if (!value || typeof value !== "string") return "vacant"
 
-  const statusValue = value.toLowerCase().trim()
-
-  const statusMap: Record<string, Property["status"]> = {
-    rented: "rented",
-    rent: "rented",
-    occupied: "rented",
-    tenant: "rented",
-    vacant: "vacant",
-    vacancy: "vacant",
-    empty: "vacant",
-    available: "vacant",
-    "under_maintenance": "under_maintenance",
-    maintenance: "under_maintenance",
-    repair: "under_maintenance",
-    repairing: "under_maintenance",
-    sold: "sold",
-    sale: "sold",
-    closed: "sold",
-  }
-
-  return statusMap[statusValue] || "vacant"
+  return STATUS_ALIASES[value.toLowerCase().trim()] || "vacant"
 }
 
 /**
@@ -252,13 +297,13 @@ export function parseString(value: any): string {
 }
 
 /**
- * Map a CSV row to a Property object using the field mapping
+ * Read the raw value of each mapped field from a CSV row
  */
-export function mapCsvRowToProperty(
+function getMappedValues(
   row: string[],
   headers: string[],
   mapping: PropertyFieldMapping
-): Partial<Property> {
+): (field: PropertyField | CustomFieldTarget) => string | undefined {
   // Create a lookup map: header -> value
   const rowData: Record<string, string> = {}
   headers.forEach((header, index) => {
@@ -271,12 +316,24 @@ export function mapCsvRowToProperty(
     }
   })
 
-  // Helper to get mapped value
-  const get = (field: PropertyField): string | undefined => {
+  return (field: PropertyField | CustomFieldTarget): string | undefined => {
     const header = mapping[field]
     if (!header) return undefined
     return rowData[header]
   }
+}
+
+/**
+ * Map a CSV row to a Property object using the field mapping
+ * Columns mapped to one of `customFields` are imported as that field's custom_* value
+ */
+export function mapCsvRowToProperty(
+  row: string[],
+  headers: string[],
+  mapping: PropertyFieldMapping,
+  customFields: ImportCustomField[] = []
+): Partial<Property> {
+  const get = getMappedValues(row, headers, mapping)
 
   // Build property with safe defaults
   const property: Partial<Property> = {
@@ -291,11 +348,18 @@ export function mapCsvRowToProperty(
     monthlyInsurance: parseNumber(get("monthlyInsurance")),
     monthlyPropertyTax: parseNumber(get("monthlyPropertyTax")),
     monthlyOtherCosts: parseNumber(get("monthlyOtherCosts")),
-    monthlyGrossRent: parseNumber(get("monthlyGrossRent")),
     rentRoll: [],
     workRequests: [],
   }
 
+  const customValues = property as Record<string, unknown>
+  customFields.forEach((field) => {
+    const target = getCustomFieldTarget(field)
+    if (!mapping[target]) return
+    const parsed = parseCustomFieldValue(field, get(target))
+    if (parsed.value !== null) customValues[target] = parsed.value
+  })
+
   return property
 }
 
@@ -314,3 +378,460 @@ export function validateMapping(
   }
 }
 
+/**
+ * A header as compared between files: trimmed, lowercased and with runs of whitespace collapsed
+ */
+function normalizeHeader(header: string): string {
+  return (header || "").trim().toLowerCase().replace(/\s+/g, " ")
+}
+
+/**
+ * Signature of a file's headers, used to recognize repeat imports of the same export
+ * Headers are normalized and sorted, so column order and case don't matter
+ */
+export function getHeaderSignature(headers: string[]): string {
+  return headers
+    .map(normalizeHeader)
+    .filter((h) => h.length > 0)
+    .sort()
+    .join("|")
+}
+
+/**
+ * The saved profile whose header signature matches the incoming headers, if any
+ * When several match, the most recently saved one wins
+ */
+export function findMatchingProfile(
+  profiles: ImportMappingProfile[],
+  headers: string[]
+): ImportMappingProfile | null {
+  const signature = getHeaderSignature(headers)
+  return (
+    profiles
+      .filter((profile) => profile.headerSignature === signature)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0] || null
+  )
+}
+
+/**
+ * Field mapping from a saved profile, keeping only headers present in the file and targets
+ * that still exist (built-in fields, plus the custom fields in `customFieldTargets`)
+ * Headers are matched the way getHeaderSignature compares them, and mapped to the file's own header
+ */
+export function applyMappingProfile(
+  profile: ImportMappingProfile,
+  headers: string[],
+  customFieldTargets: CustomFieldTarget[] = []
+): PropertyFieldMapping {
+  const mapping: PropertyFieldMapping = {}
+  const targets: Array<PropertyField | CustomFieldTarget> = [...PROPERTY_FIELDS, ...customFieldTargets]
+  targets.forEach((target) => {
+    const header = profile.mapping[target] ? normalizeHeader(profile.mapping[target]) : ""
+    const fileHeader = header && headers.find((h) => normalizeHeader(h) === header)
+    if (fileHeader) {
+      mapping[target] = fileHeader
+    }
+  })
+  return mapping
+}
+
+/**
+ * Property fields imported as numbers
+ */
+export const NUMERIC_PROPERTY_FIELDS: PropertyField[] = [
+  "totalMortgageAmount",
+  "purchasePrice",
+  "currentEstValue",
+  "monthlyMortgagePayment",
+  "monthlyInsurance",
+  "monthlyPropertyTax",
+  "monthlyOtherCosts",
+]
+
+/**
+ * A problem found in a CSV row before import
+ * Errors stop the row from being imported; warnings flag a value that will be coerced
+ */
+export interface ImportIssue {
+  field: PropertyField | CustomFieldTarget
+  severity: "error" | "warning"
+  message: string
+}
+
+export type ImportRowAction = "create" | "update" | "skip"
+
+/**
+ * One CSV row as it will be imported
+ */
+export interface PropertyImportPreviewRow {
+  rowNumber: number // Line in the file, counting the header as line 1
+  property: Partial<Property>
+  issues: ImportIssue[]
+  existingPropertyId?: string // Set when the address matches an existing property
+  duplicateOfRow?: number // Set when an earlier row in the file has the same address
+  action: ImportRowAction
+}
+
+/**
+ * Whether a CSV value reads as a number without coercion (currency symbols and commas allowed)
+ */
+export function isNumericValue(value: string): boolean {
+  const cleaned = value.replace(/[$,\s]/g, "")
+  return cleaned !== "" && isFinite(Number(cleaned))
+}
+
+/**
+ * Check a CSV row for values that would be coerced or rejected on import
+ * Flags a missing address, numbers that would import as 0, statuses that would import as vacant
+ * and custom field values that don't fit the field's type
+ */
+export function validateCsvRow(
+  row: string[],
+  headers: string[],
+  mapping: PropertyFieldMapping,
+  customFields: ImportCustomField[] = []
+): ImportIssue[] {
+  const get = getMappedValues(row, headers, mapping)
+  const issues: ImportIssue[] = []
+
+  if (!parseString(get("address"))) {
+    issues.push({ field: "address", severity: "error", message: "Missing address" })
+  }
+
+  NUMERIC_PROPERTY_FIELDS.forEach((field) => {
+    const value = parseString(get(field))
+    if (value && !isNumericValue(value)) {
+      issues.push({ field, severity: "warning", message: `"${value}" is not a number and will import as ${parseNumber(value)}` })
+    }
+  })
+
+  customFields.forEach((field) => {
+    const target = getCustomFieldTarget(field)
+    if (!mapping[target]) return
+    const { error } = parseCustomFieldValue(field, get(target))
+    if (error) {
+      issues.push({ field: target, severity: "warning", message: `${field.name}: ${error} and will import blank` })
+    }
+  })
+
+  const status = parseString(get("status"))
+  if (mapping.status && !isKnownStatus(status)) {
+    issues.push({
+      field: "status",
+      severity: "warning",
+      message: status ? `Unknown status "${status}" will import as vacant` : "Missing status will import as vacant",
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Build the import preview: each row's parsed values, its issues, and whether its address
+ * matches an existing property or an earlier row. Addresses match on their street line, so
+ * "123 Main Street" matches "123 Main St, Springfield".
+ * Rows with errors and rows matching an existing property default to skip; the rest to create.
+ */
+export function buildImportPreview(
+  rows: string[][],
+  headers: string[],
+  mapping: PropertyFieldMapping,
+  existingProperties: Pick<Property, "id" | "address">[],
+  customFields: ImportCustomField[] = []
+): PropertyImportPreviewRow[] {
+  const existingByStreet = new Map<string, string>()
+  existingProperties.forEach((p) => {
+    const key = getStreetKey(p.address || "")
+    if (key && !existingByStreet.has(key)) existingByStreet.set(key, p.id)
+  })
+  const rowByStreet = new Map<string, number>()
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2
+    const property = mapCsvRowToProperty(row, headers, mapping, customFields)
+    const issues = validateCsvRow(row, headers, mapping, customFields)
+    const key = getStreetKey(property.address || "")
+
+    const existingPropertyId = key ? existingByStreet.get(key) : undefined
+    const duplicateOfRow = key ? rowByStreet.get(key) : undefined
+    if (key && duplicateOfRow === undefined) rowByStreet.set(key, rowNumber)
+
+    if (duplicateOfRow !== undefined) {
+      issues.push({ field: "address", severity: "warning", message: `Same address as row ${duplicateOfRow}` })
+    }
+
+    const hasErrors = issues.some((issue) => issue.severity === "error")
+
+    return {
+      rowNumber,
+      property,
+      issues,
+      existingPropertyId,
+      duplicateOfRow,
+      action: hasErrors || existingPropertyId ? "skip" : "create",
+    }
+  })
+}
+
+/**
+ * The values of only the mapped fields, for updating an existing property
+ * without resetting the fields the file doesn't contain
+ */
+export function getMappedPropertyValues(
+  property: Partial<Property>,
+  mapping: PropertyFieldMapping
+): Partial<Property> {
+  const source = property as Record<string, unknown>
+  const values: Record<string, unknown> = {}
+  const fields = Object.keys(mapping) as Array<PropertyField | CustomFieldTarget>
+  fields.forEach((field) => {
+    if (mapping[field] && source[field] !== undefined) {
+      values[field] = source[field]
+    }
+  })
+  return values as Partial<Property>
+}
+
+/**
+ * Delimiters the CSV parser can detect
+ */
+export type CsvDelimiter = "," | ";" | "\t"
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [",", ";", "\t"]
+
+/**
+ * Detect the delimiter of a CSV sample (comma, semicolon or tab)
+ * Counts each candidate outside quotes on the first lines and prefers one that appears
+ * the same number of times on every line; defaults to comma
+ */
+export function detectDelimiter(sample: string, maxLines: number = 10): CsvDelimiter {
+  const counts: Record<CsvDelimiter, number>[] = []
+  let current: Record<CsvDelimiter, number> = { ",": 0, ";": 0, "\t": 0 }
+  let inQuotes = false
+
+  for (let i = 0; i < sample.length && counts.length < maxLines; i++) {
+    const char = sample[i]
+    if (char === '"') {
+      inQuotes = !inQuotes
+    } else if (!inQuotes && (char === "\n" || char === "\r")) {
+      if (char === "\r" && sample[i + 1] === "\n") i++
+      counts.push(current)
+      current = { ",": 0, ";": 0, "\t": 0 }
+    } else if (!inQuotes && (CSV_DELIMITERS as string[]).includes(char)) {
+      current[char as CsvDelimiter]++
+    }
+  }
+  if (counts.length < maxLines && Object.values(current).some((count) => count > 0)) {
+    counts.push(current)
+  }
+
+  let best: CsvDelimiter = ","
+  let bestScore = 0
+  CSV_DELIMITERS.forEach((delimiter) => {
+    const first = counts[0]?.[delimiter] || 0
+    if (first === 0) return
+    const consistentLines = counts.filter((c) => c[delimiter] === first).length
+    // Consistency matters most; the per-line count breaks ties
+    const score = consistentLines * 1000 + first
+    if (score > bestScore) {
+      best = delimiter
+      bestScore = score
+    }
+  })
+
+  return best
+}
+
+/**
+ * Incremental CSV parser: push text chunks in, get completed rows out
+ */
+export interface CsvParser {
+  /** Parse a chunk, returning the rows it completed */
+  push(chunk: string): string[][]
+  /** Finish parsing, returning the last row if the input didn't end with a newline */
+  flush(): string[][]
+  /** The delimiter in use (detected from the first lines unless one was given) */
+  readonly delimiter: CsvDelimiter | null
+}
+
+// Text buffered before detecting the delimiter
+const DELIMITER_SAMPLE_LINES = 10
+const DELIMITER_SAMPLE_SIZE = 64 * 1024
+
+/**
+ * Create an RFC 4180 CSV parser
+ *
+ * - Quoted cells may contain delimiters, escaped quotes ("") and line breaks
+ * - Rows may end with \r\n, \n or \r; blank lines are dropped
+ * - A leading byte order mark is ignored
+ * - Unquoted cells are trimmed; quoted cells are kept as written
+ * - Stray quotes are tolerated: a quote inside an unquoted cell is literal, and text after a
+ *   closing quote is appended to the cell
+ */
+export function createCsvParser(options: { delimiter?: CsvDelimiter } = {}): CsvParser {
+  let delimiter: CsvDelimiter | null = options.delimiter || null
+  let pending = "" // Text held back until the delimiter is known
+  let started = false
+
+  let row: string[] = []
+  let cell = ""
+  let cellQuoted = false
+  let rowHasQuotedCell = false // A row holding only "" is kept, not dropped as blank
+  let inQuotes = false
+  let quoteInQuotes = false // Saw a quote inside a quoted cell; the next char decides if it was escaped
+  let skipLineFeed = false // Saw \r; a following \n belongs to the same line break
+
+  const endCell = () => {
+    row.push(cellQuoted ? cell : cell.trim())
+    cell = ""
+    cellQuoted = false
+  }
+
+  const endRow = (rows: string[][]) => {
+    endCell()
+    if (row.length > 1 || row[0] !== "" || rowHasQuotedCell) {
+      rows.push(row)
+    }
+    row = []
+    rowHasQuotedCell = false
+  }
+
+  const parse = (text: string, rows: string[][]) => {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+
+      if (skipLineFeed) {
+        skipLineFeed = false
+        if (char === "\n") continue
+      }
+
+      if (inQuotes) {
+        if (quoteInQuotes) {
+          quoteInQuotes = false
+          if (char === '"') {
+            cell += '"'
+            continue
+          }
+          inQuotes = false
+          // Fall through: the quote closed the cell and this char is handled below
+        } else if (char === '"') {
+          quoteInQuotes = true
+          continue
+        } else {
+          cell += char
+          continue
+        }
+      }
+
+      if (char === '"' && !cellQuoted && cell.trim() === "") {
+        inQuotes = true
+        cellQuoted = true
+        rowHasQuotedCell = true
+        cell = ""
+      } else if (char === delimiter) {
+        endCell()
+      } else if (char === "\n" || char === "\r") {
+        skipLineFeed = char === "\r"
+        endRow(rows)
+      } else {
+        cell += char
+      }
+    }
+  }
+
+  const parser: CsvParser = {
+    push(chunk: string): string[][] {
+      if (!started) {
+        if (chunk.length === 0) return []
+        started = true
+        if (chunk.charCodeAt(0) === 0xfeff) chunk = chunk.slice(1)
+      }
+
+      const rows: string[][] = []
+      if (!delimiter) {
+        pending += chunk
+        const lineBreaks = pending.split("\n").length - 1
+        if (lineBreaks < DELIMITER_SAMPLE_LINES && pending.length < DELIMITER_SAMPLE_SIZE) {
+          return rows
+        }
+        delimiter = detectDelimiter(pending)
+        chunk = pending
+        pending = ""
+      }
+
+      parse(chunk, rows)
+      return rows
+    },
+
+    flush(): string[][] {
+      const rows: string[][] = []
+      if (!delimiter) {
+        delimiter = detectDelimiter(pending)
+        parse(pending, rows)
+        pending = ""
+      }
+
+      // A quote at the very end closes its cell
+      quoteInQuotes = false
+      inQuotes = false
+      if (row.length > 0 || cell !== "" || cellQuoted) {
+        endRow(rows)
+      }
+      return rows
+    },
+
+    get delimiter() {
+      return delimiter
+    },
+  }
+
+  return parser
+}
+
+/**
+ * Parse CSV text into rows of cells
+ * See createCsvParser for the quoting rules; the delimiter is detected unless given
+ */
+export function parseCsvRows(text: string, options: { delimiter?: CsvDelimiter } = {}): string[][] {
+  const parser = createCsvParser(options)
+  return [...parser.push(text), ...parser.flush()]
+}
+
+/**
+ * Stream a CSV file through the parser without reading it into one string
+ * Rows are returned once the whole file is parsed; pass onRows to handle each batch
+ * of rows as it is parsed instead (the returned array is then empty)
+ */
+export async function parseCsvFile(
+  file: Blob,
+  options: { delimiter?: CsvDelimiter; onRows?: (rows: string[][]) => void } = {}
+): Promise<string[][]> {
+  const parser = createCsvParser({ delimiter: options.delimiter })
+  const allRows: string[][] = []
+  const emit = (rows: string[][]) => {
+    if (rows.length === 0) return
+    if (options.onRows) {
+      options.onRows(rows)
+    } else {
+      allRows.push(...rows)
+    }
+  }
+
+  if (typeof file.stream !== "function") {
+    emit(parser.push(await file.text()))
+    emit(parser.flush())
+    return allRows
+  }
+
+  const reader = file.stream().getReader()
+  const decoder = new TextDecoder("utf-8")
+  let result = await reader.read()
+  while (!result.done) {
+    emit(parser.push(decoder.decode(result.value, { stream: true })))
+    result = await reader.read()
+  }
+  emit(parser.push(decoder.decode()))
+  emit(parser.flush())
+
+  return allRows
+}
@@ -0,0 +1,196 @@
+/**
+ * Custom Field Helper Functions
+ *
+ * Definition validation and value parsing for workspace custom property fields,
+ * shared by the properties page, the property import and the /api routes.
+ * Values are stored in properties.custom_fields keyed custom_<field id>.
+ */
+
+import type { CustomFieldDefinition, CustomFieldType } from '@/types'
+
+export type CustomFieldValue = string | number | boolean
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['text', 'number', 'currency', 'date', 'select', 'boolean', 'url']
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  currency: 'Currency',
+  date: 'Date',
+  select: 'Select',
+  boolean: 'Yes / No',
+  url: 'URL',
+}
+
+const MAX_FIELD_NAME_LENGTH = 100
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x']
+const FALSE_VALUES = ['false', 'no', 'n', '0']
+
+/**
+ * The key a custom field's values use on a property
+ */
+export function getCustomFieldKey(field: Pick<CustomFieldDefinition, 'id'>): string {
+  return `custom_${field.id}`
+}
+
+/**
+ * Normalize select options: trimmed, non-empty and unique
+ */
+export function normalizeCustomFieldOptions(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+
+  const options: string[] = []
+  value.forEach((option) => {
+    const text = option === null || option === undefined ? '' : String(option).trim()
+    if (text && !options.includes(text)) options.push(text)
+  })
+  return options
+}
+
+/**
+ * Validate a custom field definition
+ * Returns an error message, or null if valid
+ */
+export function validateCustomFieldDefinition(field: {
+  name?: unknown
+  type?: unknown
+  options?: unknown
+}): string | null {
+  const name = field.name ? String(field.name).trim() : ''
+  if (!name) {
+    return 'name is required'
+  }
+  if (name.length > MAX_FIELD_NAME_LENGTH) {
+    return `name must be at most ${MAX_FIELD_NAME_LENGTH} characters`
+  }
+
+  if (!CUSTOM_FIELD_TYPES.includes(field.type as CustomFieldType)) {
+    return `type must be one of: ${CUSTOM_FIELD_TYPES.join(', ')}`
+  }
+
+  if (field.type === 'select' && normalizeCustomFieldOptions(field.options).length === 0) {
+    return 'select fields need at least one option'
+  }
+
+  return null
+}
+
+/**
+ * Parse a date as YYYY-MM-DD, accepting ISO dates and US M/D/YYYY
+ */
+function parseDateValue(text: string): string | null {
+  let year: number
+  let month: number
+  let day: number
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:T.*)?$/)
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (iso) {
+    year = Number(iso[1])
+    month = Number(iso[2])
+    day = Number(iso[3])
+  } else if (us) {
+    year = Number(us[3])
+    month = Number(us[1])
+    day = Number(us[2])
+  } else {
+    return null
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null
+  }
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Parse a URL, adding https:// when the scheme is missing; only http(s) URLs are accepted
+ */
+function parseUrlValue(text: string): string | null {
+  const candidate = /^[a-z][a-z0-9+.-]*:/i.test(text) ? text : `https://${text}`
+  try {
+    const url = new URL(candidate)
+    if ((url.protocol !== 'http:' && url.protocol !== 'https:') || !url.hostname.includes('.')) {
+      return null
+    }
+    return url.toString()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parse a custom field value from user input, an import or a request body
+ * Empty input parses to null. Returns the stored value, or an error message if the
+ * input isn't valid for the field's type.
+ */
+export function parseCustomFieldValue(
+  field: Pick<CustomFieldDefinition, 'type' | 'options'>,
+  value: unknown
+): { value: CustomFieldValue | null; error?: string } {
+  if (value === null || value === undefined) return { value: null }
+  if (typeof value === 'boolean' && field.type === 'boolean') return { value }
+  if (typeof value === 'number' && (field.type === 'number' || field.type === 'currency')) {
+    return isFinite(value) ? { value } : { value: null, error: 'must be a number' }
+  }
+
+  const text = String(value).trim()
+  if (!text) return { value: null }
+
+  switch (field.type) {
+    case 'number':
+    case 'currency': {
+      const cleaned = text.replace(/[$,\s]/g, '')
+      const numeric = Number(cleaned)
+      if (cleaned === '' || !isFinite(numeric)) {
+        return { value: null, error: `"${text}" is not a number` }
+      }
+      return { value: field.type === 'currency' ? Math.round(numeric * 100) / 100 : numeric }
+    }
+    case 'date': {
+      const date = parseDateValue(text)
+      return date ? { value: date } : { value: null, error: `"${text}" is not a date (use YYYY-MM-DD)` }
+    }
+    case 'select': {
+      const option = (field.options || []).find((o) => o.toLowerCase() === text.toLowerCase())
+      return option !== undefined
+        ? { value: option }
+        : { value: null, error: `"${text}" is not one of: ${(field.options || []).join(', ')}` }
+    }
+    case 'boolean': {
+      const lower = text.toLowerCase()
+      if (TRUE_VALUES.includes(lower)) return { value: true }
+      if (FALSE_VALUES.includes(lower)) return { value: false }
+      return { value: null, error: `"${text}" is not yes or no` }
+    }
+    case 'url': {
+      const url = parseUrlValue(text)
+      return url ? { value: url } : { value: null, error: `"${text}" is not a valid URL` }
+    }
+    default:
+      return { value: text }
+  }
+}
+
+/**
+ * Format a stored custom field value for display
+ */
+export function formatCustomFieldValue(
+  field: Pick<CustomFieldDefinition, 'type'>,
+  value: unknown
+): string {
+  if (value === null || value === undefined || value === '') return ''
+
+  switch (field.type) {
+    case 'currency':
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(Number(value) || 0)
+    case 'number':
+      return (Number(value) || 0).toLocaleString('en-US')
+    case 'boolean':
+      return value === true || value === 'true' ? 'Yes' : 'No'
+    default:
+      return String(value)
+  }
+}
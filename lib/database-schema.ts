@@ -66,6 +66,13 @@ CREATE TABLE properties (
   user_id TEXT NOT NULL,
   workspace_id TEXT,
   address TEXT NOT NULL,
+  street TEXT, -- Structured address parts, filled in by the geocoder
+  city TEXT,
+  state TEXT, -- Two-letter code
+  zip TEXT,
+  latitude DECIMAL(9, 6),
+  longitude DECIMAL(9, 6),
+  geocoded_at TIMESTAMP, -- Last geocoding attempt; NULL = not tried yet
   type TEXT NOT NULL,
   status TEXT NOT NULL CHECK (status IN ('rented', 'vacant', 'under_maintenance', 'sold')),
   mortgage_holder TEXT,
@@ -77,9 +84,17 @@ CREATE TABLE properties (
   monthly_property_tax DECIMAL(10, 2) NOT NULL DEFAULT 0,
   monthly_other_costs DECIMAL(10, 2) NOT NULL DEFAULT 0,
   monthly_gross_rent DECIMAL(10, 2) NOT NULL DEFAULT 0,
-  ownership TEXT CHECK (ownership IN ('100% ownership', '50% partner', '25% partner', '75% partner', '33% partner', '67% partner')),
+  monthly_cashflow DECIMAL(12, 2), -- Generated: gross rent less all monthly costs
+  down_payment DECIMAL(12, 2),
+  interest_rate DECIMAL(6, 3), -- Annual rate, in percent
+  amortization_years INTEGER,
+  loan_origination_date DATE,
+  closing_costs DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  ownership_percentage DECIMAL(5, 2) NOT NULL DEFAULT 100, -- Our equity share (0-100]
+  partners JSONB NOT NULL DEFAULT '[]', -- Other owners: [{ "name", "percentage" }]
   linked_websites TEXT[],
   custom_fields JSONB,
+  cover_photo_id UUID REFERENCES property_photos(id) ON DELETE SET NULL,
   created_at TIMESTAMP,
   updated_at TIMESTAMP
 );
@@ -110,6 +125,208 @@ CREATE TABLE work_requests (
   updated_at TIMESTAMP
 );
 
+-- WORK REQUEST STATUS HISTORY TABLE (append-only log of status transitions)
+CREATE TABLE work_request_status_history (
+  id UUID PRIMARY KEY,
+  work_request_id UUID NOT NULL REFERENCES work_requests(id) ON DELETE CASCADE,
+  from_status TEXT CHECK (from_status IN ('new', 'in_progress', 'completed')),
+  to_status TEXT NOT NULL CHECK (to_status IN ('new', 'in_progress', 'completed')),
+  changed_by TEXT NOT NULL,
+  changed_at TIMESTAMP
+);
+
+-- PROPERTY DOCUMENTS TABLE (insurance policies, tax bills, leases, ...)
+CREATE TABLE property_documents (
+  id UUID PRIMARY KEY,
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL DEFAULT 0,
+  storage_key TEXT NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('insurance', 'tax_bill', 'mortgage', 'lease', 'inspection')),
+  expiry_date DATE,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP,
+  updated_at TIMESTAMP
+);
+
+-- PROPERTY TRANSACTIONS TABLE (ledger of actual income and expenses)
+-- amount is always positive; rent and other_income are income, every other category is an expense
+CREATE TABLE property_transactions (
+  id UUID PRIMARY KEY,
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  date DATE NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('rent', 'other_income', 'repairs', 'property_tax', 'insurance', 'mortgage', 'utilities', 'management', 'other_expense')),
+  description TEXT,
+  source TEXT NOT NULL CHECK (source IN ('manual', 'work_request', 'import')),
+  work_request_id UUID REFERENCES work_requests(id) ON DELETE CASCADE,
+  import_hash TEXT, -- Set for rows imported from bank/QuickBooks CSVs
+  created_at TIMESTAMP,
+  updated_at TIMESTAMP
+);
+
+-- TRANSACTION IMPORT RULES TABLE (imported transactions whose payee or memo contains pattern go to property_id)
+CREATE TABLE transaction_import_rules (
+  id UUID PRIMARY KEY,
+  workspace_id TEXT NOT NULL, -- Shared by the workspace of the property the rule assigns to
+  user_id TEXT NOT NULL,
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  pattern TEXT NOT NULL,
+  created_at TIMESTAMP,
+  updated_at TIMESTAMP
+);
+
+-- IMPORT MAPPING PROFILES TABLE (saved property import column mappings per workspace)
+CREATE TABLE import_mapping_profiles (
+  id UUID PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  created_by TEXT NOT NULL,
+  name TEXT NOT NULL,
+  mapping JSONB NOT NULL,
+  header_signature TEXT NOT NULL,
+  created_at TIMESTAMP,
+  updated_at TIMESTAMP
+);
+
+-- PROPERTY CUSTOM FIELDS TABLE (custom property column definitions per workspace; values live in properties.custom_fields keyed custom_<id>)
+CREATE TABLE property_custom_fields (
+  id UUID PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  created_by TEXT NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL, -- 'text', 'number', 'currency', 'date', 'select', 'boolean', 'url'
+  options JSONB,
+  position INTEGER NOT NULL,
+  created_at TIMESTAMP,
+  updated_at TIMESTAMP
+);
+
+-- PROPERTY PHOTOS TABLE (photos of a property, or of one of its units when unit_id is set)
+CREATE TABLE property_photos (
+  id UUID PRIMARY KEY,
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  unit_id UUID REFERENCES rent_roll_units(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  storage_key TEXT NOT NULL,
+  thumbnail_key TEXT NOT NULL,
+  caption TEXT,
+  created_at TIMESTAMP,
+  updated_at TIMESTAMP
+);
+
+-- PROPERTY VALUATIONS TABLE (dated value history per property)
+-- The most recent valuation is mirrored into properties.current_est_value
+CREATE TABLE property_valuations (
+  id UUID PRIMARY KEY,
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  date DATE NOT NULL,
+  value DECIMAL(12, 2) NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('purchase', 'appraisal', 'estimate', 'comps')),
+  notes TEXT,
+  created_at TIMESTAMP,
+  updated_at TIMESTAMP
+);
+
+-- TENANTS TABLE (tenant contact records; linked to units through leases)
+CREATE TABLE tenants (
+  id UUID PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  workspace_id TEXT,
+  name TEXT NOT NULL,
+  email TEXT,
+  phone TEXT,
+  emergency_contact_name TEXT,
+  emergency_contact_phone TEXT,
+  notes TEXT,
+  created_at TIMESTAMP,
+  updated_at TIMESTAMP
+);
+
+-- LEASES TABLE (a rent roll unit let to one or more tenants, see lease_tenants)
+CREATE TABLE leases (
+  id UUID PRIMARY KEY,
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  unit_id UUID NOT NULL REFERENCES rent_roll_units(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  monthly_rent DECIMAL(10, 2) NOT NULL, -- First-year rent; escalations apply on each anniversary of start_date
+  security_deposit DECIMAL(10, 2) NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('draft', 'active', 'ended')), -- Active leases within 60 days of end_date are expiring
+  terms TEXT,
+  escalation_type TEXT NOT NULL CHECK (escalation_type IN ('none', 'percent', 'amount')),
+  escalation_value DECIMAL(10, 2) NOT NULL,
+  move_in_date DATE,
+  move_out_date DATE,
+  renewed_from_lease_id UUID REFERENCES leases(id), -- The lease this one renews
+  created_at TIMESTAMP,
+  updated_at TIMESTAMP
+);
+
+-- LEASE TENANTS TABLE (tenants on a lease; co-tenants have is_primary = false)
+CREATE TABLE lease_tenants (
+  lease_id UUID NOT NULL REFERENCES leases(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  is_primary BOOLEAN NOT NULL,
+  created_at TIMESTAMP,
+  PRIMARY KEY (lease_id, tenant_id)
+);
+
+-- TENANT LEDGER ENTRIES TABLE (per lease; amount is always positive)
+-- rent, late_fee and other_charge are owed; payment and deposit_applied pay them down
+-- deposit_received adds to the deposit held; deposit_returned and deposit_applied draw it down
+CREATE TABLE tenant_ledger_entries (
+  id UUID PRIMARY KEY,
+  lease_id UUID NOT NULL REFERENCES leases(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  date DATE NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('rent', 'late_fee', 'other_charge', 'payment', 'deposit_received', 'deposit_returned', 'deposit_applied')),
+  amount DECIMAL(10, 2) NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP,
+  updated_at TIMESTAMP
+);
+
+-- LEASE RENEWAL OFFERS TABLE (accepting an offer creates the renewal lease, see renewal_lease_id)
+CREATE TABLE lease_renewal_offers (
+  id UUID PRIMARY KEY,
+  lease_id UUID NOT NULL REFERENCES leases(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  offered_on DATE NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  monthly_rent DECIMAL(10, 2) NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'accepted', 'declined', 'withdrawn')),
+  responded_on DATE,
+  renewal_lease_id UUID REFERENCES leases(id),
+  notes TEXT,
+  created_at TIMESTAMP,
+  updated_at TIMESTAMP
+);
+
+-- PROPERTY OCCUPANCY SNAPSHOTS TABLE (one row per property per day its status or rent roll changed;
+-- each row holds until the next one)
+CREATE TABLE property_occupancy_snapshots (
+  id UUID PRIMARY KEY,
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('rented', 'vacant', 'under_maintenance', 'sold')),
+  total_units INTEGER NOT NULL,
+  occupied_units INTEGER NOT NULL,
+  monthly_gross_rent DECIMAL(12, 2) NOT NULL,
+  created_at TIMESTAMP,
+  updated_at TIMESTAMP,
+  UNIQUE(property_id, date)
+);
+
 -- AGENCY CLIENTS TABLE
 CREATE TABLE agency_clients (
   id UUID PRIMARY KEY,
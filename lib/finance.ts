@@ -0,0 +1,216 @@
+/**
+ * Property Finance
+ *
+ * Loan amortization and return metrics (equity, cash-on-cash, cap rate, DSCR)
+ * computed from a property's loan terms. Shared by the properties pages so
+ * every view reports the same numbers.
+ */
+
+import type { Property } from '@/types'
+
+export interface AmortizationPayment {
+  period: number // 1-based payment number
+  date: string // YYYY-MM-DD
+  payment: number
+  principal: number
+  interest: number
+  balance: number // Remaining balance after this payment
+}
+
+type LoanFields = Pick<
+  Property,
+  | 'purchasePrice'
+  | 'totalMortgageAmount'
+  | 'downPayment'
+  | 'interestRate'
+  | 'amortizationYears'
+  | 'loanOriginationDate'
+>
+
+/**
+ * Down payment for a property
+ * Falls back to purchase price minus the total mortgage when no down payment was entered
+ * (an all-cash purchase if neither is known)
+ */
+export function getDownPayment(property: LoanFields): number {
+  if (property.downPayment !== undefined && property.downPayment !== null) {
+    return property.downPayment
+  }
+  if (property.totalMortgageAmount) {
+    return Math.max(0, property.purchasePrice - property.totalMortgageAmount)
+  }
+  return property.purchasePrice
+}
+
+/**
+ * Original loan amount (purchase price less down payment)
+ */
+export function getLoanAmount(property: LoanFields): number {
+  return Math.max(0, property.purchasePrice - getDownPayment(property))
+}
+
+/**
+ * Fixed monthly principal + interest payment for a fully amortizing loan
+ */
+export function calculateMonthlyPayment(
+  principal: number,
+  annualInterestRate: number,
+  amortizationYears: number
+): number {
+  const payments = Math.round(amortizationYears * 12)
+  if (principal <= 0 || payments <= 0) return 0
+
+  const monthlyRate = annualInterestRate / 100 / 12
+  if (monthlyRate === 0) return principal / payments
+
+  return (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -payments))
+}
+
+/**
+ * Add months to a YYYY-MM-DD date, clamping to the end of shorter months
+ */
+function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  const target = new Date(Date.UTC(year, month - 1 + months, 1))
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate()
+  target.setUTCDate(Math.min(day, lastDay))
+  return target.toISOString().split('T')[0]
+}
+
+/**
+ * Full amortization schedule, one entry per monthly payment
+ * Returns an empty schedule when the loan terms are incomplete
+ */
+export function buildAmortizationSchedule(property: LoanFields): AmortizationPayment[] {
+  const principal = getLoanAmount(property)
+  const rate = property.interestRate ?? 0
+  const years = property.amortizationYears ?? 0
+  const payment = calculateMonthlyPayment(principal, rate, years)
+  if (payment === 0) return []
+
+  const monthlyRate = rate / 100 / 12
+  const startDate = property.loanOriginationDate || new Date().toISOString().split('T')[0]
+  const schedule: AmortizationPayment[] = []
+  let balance = principal
+
+  for (let period = 1; period <= Math.round(years * 12); period++) {
+    const interest = balance * monthlyRate
+    const principalPaid = Math.min(balance, payment - interest)
+    balance = Math.max(0, balance - principalPaid)
+    schedule.push({
+      period,
+      date: addMonths(startDate, period),
+      payment: principalPaid + interest,
+      principal: principalPaid,
+      interest,
+      balance,
+    })
+  }
+
+  return schedule
+}
+
+/**
+ * Remaining principal balance as of a date
+ * Without an amortization schedule the original loan amount is assumed to be outstanding
+ */
+export function calculateCurrentBalance(property: LoanFields, asOf: Date = new Date()): number {
+  const schedule = buildAmortizationSchedule(property)
+  if (schedule.length === 0 || !property.loanOriginationDate) {
+    return getLoanAmount(property)
+  }
+
+  const asOfDate = asOf.toISOString().split('T')[0]
+  const paid = schedule.filter((payment) => payment.date <= asOfDate)
+  return paid.length > 0 ? paid[paid.length - 1].balance : getLoanAmount(property)
+}
+
+/**
+ * Monthly operating costs, excluding debt service
+ */
+export function calculateMonthlyOperatingCosts(property: Property): number {
+  return property.monthlyInsurance + property.monthlyPropertyTax + property.monthlyOtherCosts
+}
+
+/**
+ * Monthly total costs, including the mortgage payment
+ */
+export function calculateMonthlyCosts(property: Property): number {
+  return property.monthlyMortgagePayment + calculateMonthlyOperatingCosts(property)
+}
+
+/**
+ * Monthly cashflow after all costs
+ */
+export function calculateMonthlyCashflow(property: Property): number {
+  return property.monthlyGrossRent - calculateMonthlyCosts(property)
+}
+
+/**
+ * Annual net operating income (rent less operating costs, before debt service)
+ */
+export function calculateNetOperatingIncome(property: Property): number {
+  return (property.monthlyGrossRent - calculateMonthlyOperatingCosts(property)) * 12
+}
+
+/**
+ * Monthly debt service - the entered mortgage payment, or the payment implied by the loan terms
+ */
+export function calculateMonthlyDebtService(property: Property): number {
+  if (property.monthlyMortgagePayment > 0) return property.monthlyMortgagePayment
+  return calculateMonthlyPayment(
+    getLoanAmount(property),
+    property.interestRate ?? 0,
+    property.amortizationYears ?? 0
+  )
+}
+
+/**
+ * Equity - current estimated value less the remaining loan balance
+ */
+export function calculateEquity(property: Property, asOf: Date = new Date()): number {
+  return property.currentEstValue - calculateCurrentBalance(property, asOf)
+}
+
+/**
+ * Cash invested at purchase - down payment plus closing costs
+ */
+export function calculateCashInvested(property: Property): number {
+  return getDownPayment(property) + (property.closingCosts ?? 0)
+}
+
+/**
+ * Cash-on-cash return (%) - annual cashflow over cash invested
+ */
+export function calculateCashOnCashReturn(property: Property): number {
+  const cashInvested = calculateCashInvested(property)
+  if (cashInvested <= 0) return 0
+  return ((calculateMonthlyCashflow(property) * 12) / cashInvested) * 100
+}
+
+/**
+ * Return on equity (%) - annual cashflow over current equity
+ */
+export function calculateROE(property: Property, asOf: Date = new Date()): number {
+  const equity = calculateEquity(property, asOf)
+  if (equity <= 0) return 0
+  return ((calculateMonthlyCashflow(property) * 12) / equity) * 100
+}
+
+/**
+ * Cap rate (%) - net operating income over current estimated value
+ */
+export function calculateCapRate(property: Property): number {
+  if (property.currentEstValue <= 0) return 0
+  return (calculateNetOperatingIncome(property) / property.currentEstValue) * 100
+}
+
+/**
+ * Debt service coverage ratio - net operating income over annual debt service
+ * Returns null for properties without debt
+ */
+export function calculateDSCR(property: Property): number | null {
+  const annualDebtService = calculateMonthlyDebtService(property) * 12
+  if (annualDebtService <= 0) return null
+  return calculateNetOperatingIncome(property) / annualDebtService
+}
@@ -0,0 +1,52 @@
+/**
+ * Geocoding
+ *
+ * Pluggable address lookup for property addresses
+ * - `stub` works offline: addresses are parsed locally and get stable made-up
+ *   coordinates inside the continental US, for development and tests
+ * - `nominatim` uses the OpenStreetMap Nominatim API, for production
+ *
+ * The geocoder is chosen with GEOCODER. When unset, production uses Nominatim
+ * and everything else uses the stub.
+ */
+
+import type { AddressParts } from '../address'
+import { createNominatimGeocoder } from './nominatim'
+import { createStubGeocoder } from './stub'
+
+export interface GeocodeResult extends AddressParts {
+  latitude: number
+  longitude: number
+}
+
+export interface Geocoder {
+  // Resolves to null when the address can't be found
+  geocode(address: string): Promise<GeocodeResult | null>
+}
+
+let geocoder: Geocoder | null = null
+
+/**
+ * Get the configured geocoder
+ */
+export function getGeocoder(): Geocoder {
+  if (geocoder) {
+    return geocoder
+  }
+
+  const backend = process.env.GEOCODER?.trim()
+    || (process.env.NODE_ENV === 'production' ? 'nominatim' : 'stub')
+
+  if (backend === 'nominatim') {
+    geocoder = createNominatimGeocoder(
+      process.env.NOMINATIM_URL?.trim() || 'https://nominatim.openstreetmap.org',
+      process.env.NOMINATIM_USER_AGENT?.trim() || 'unified-workspace property geocoder'
+    )
+  } else if (backend === 'stub') {
+    geocoder = createStubGeocoder()
+  } else {
+    throw new Error(`Invalid GEOCODER: "${backend}". Must be "nominatim" or "stub".`)
+  }
+
+  return geocoder
+}
@@ -0,0 +1,72 @@
+import { formatStreet, normalizeStateCode, parseAddress } from '../address'
+import type { Geocoder } from './index'
+
+// Nominatim's usage policy allows at most one request per second
+const MIN_REQUEST_INTERVAL_MS = 1000
+
+/**
+ * OpenStreetMap Nominatim geocoder for production
+ * Requests are spaced out to respect the public API's rate limit; point NOMINATIM_URL
+ * at a self-hosted instance for heavier use. Parts Nominatim doesn't return are
+ * filled in from the address as typed.
+ */
+export function createNominatimGeocoder(baseUrl: string, userAgent: string): Geocoder {
+  let nextRequestAt = 0
+
+  const waitForTurn = async () => {
+    const now = Date.now()
+    const wait = Math.max(0, nextRequestAt - now)
+    nextRequestAt = Math.max(now, nextRequestAt) + MIN_REQUEST_INTERVAL_MS
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait))
+    }
+  }
+
+  return {
+    async geocode(address) {
+      await waitForTurn()
+
+      const url = new URL('/search', baseUrl)
+      url.searchParams.set('q', address)
+      url.searchParams.set('format', 'jsonv2')
+      url.searchParams.set('addressdetails', '1')
+      url.searchParams.set('countrycodes', 'us')
+      url.searchParams.set('limit', '1')
+
+      const response = await fetch(url.toString(), {
+        headers: { 'User-Agent': userAgent, Accept: 'application/json' },
+      })
+
+      if (!response.ok) {
+        throw new Error(`Geocoding request failed: ${response.status} ${response.statusText}`)
+      }
+
+      const results = await response.json()
+      const match = Array.isArray(results) ? results[0] : null
+      if (!match) {
+        return null
+      }
+
+      const latitude = parseFloat(match.lat)
+      const longitude = parseFloat(match.lon)
+      if (!isFinite(latitude) || !isFinite(longitude)) {
+        return null
+      }
+
+      const details = match.address || {}
+      const typed = parseAddress(address)
+      const road = details.road ? [details.house_number, details.road].filter(Boolean).join(' ') : ''
+      const city = details.city || details.town || details.village || details.hamlet || null
+      const zip = typeof details.postcode === 'string' ? details.postcode.match(/^\d{5}/)?.[0] : null
+
+      return {
+        street: road ? formatStreet(road) : typed.street,
+        city: city || typed.city,
+        state: (details.state && normalizeStateCode(details.state)) || typed.state,
+        zip: zip || typed.zip,
+        latitude,
+        longitude,
+      }
+    },
+  }
+}
@@ -0,0 +1,45 @@
+import { parseAddress } from '../address'
+import type { Geocoder } from './index'
+
+// Continental US bounding box
+const MIN_LATITUDE = 25
+const MAX_LATITUDE = 49
+const MIN_LONGITUDE = -124
+const MAX_LONGITUDE = -67
+
+/**
+ * Hash a string to a number in [0, 1)
+ */
+function hashToUnit(text: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return (hash >>> 0) / 4294967296
+}
+
+/**
+ * Offline geocoder for development and tests
+ * Parses the address locally and derives coordinates from it, so the same address
+ * always lands on the same spot. Addresses without a street are not found.
+ */
+export function createStubGeocoder(): Geocoder {
+  return {
+    async geocode(address) {
+      const parts = parseAddress(address)
+      if (!parts.street) {
+        return null
+      }
+
+      const key = [parts.street, parts.city, parts.state, parts.zip].join('|').toLowerCase()
+      const round = (value: number) => Math.round(value * 1e6) / 1e6
+
+      return {
+        ...parts,
+        latitude: round(MIN_LATITUDE + hashToUnit(`lat:${key}`) * (MAX_LATITUDE - MIN_LATITUDE)),
+        longitude: round(MIN_LONGITUDE + hashToUnit(`lng:${key}`) * (MAX_LONGITUDE - MIN_LONGITUDE)),
+      }
+    },
+  }
+}
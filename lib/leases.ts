@@ -0,0 +1,143 @@
+/**
+ * Lease Lifecycle
+ *
+ * Lease statuses, the rent escalation schedule and picking the lease that drives a
+ * unit's rent roll row
+ */
+
+import type { Lease } from '@/types'
+
+export type LeaseStatus = Lease['status'] | 'expiring'
+
+export const LEASE_STATUSES: { value: LeaseStatus; label: string }[] = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'active', label: 'Active' },
+  { value: 'expiring', label: 'Expiring' },
+  { value: 'ended', label: 'Ended' },
+]
+
+// Statuses that are stored; expiring is derived from the end date
+export const VALID_LEASE_STATUSES: Lease['status'][] = ['draft', 'active', 'ended']
+
+export const ESCALATION_TYPES: { value: Lease['escalationType']; label: string }[] = [
+  { value: 'none', label: 'No Escalation' },
+  { value: 'percent', label: 'Percent per Year' },
+  { value: 'amount', label: 'Amount per Year' },
+]
+
+export const VALID_ESCALATION_TYPES = ESCALATION_TYPES.map(t => t.value)
+
+// Active leases ending within this many days are expiring
+export const EXPIRING_WITHIN_DAYS = 60
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+export function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Add whole years to a YYYY-MM-DD date; Feb 29 becomes Feb 28 in other years
+ */
+export function addYears(date: string, years: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  const daysInMonth = new Date(Date.UTC(year + years, month, 0)).getUTCDate()
+  return toDateString(new Date(Date.UTC(year + years, month - 1, Math.min(day, daysInMonth))))
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  return toDateString(new Date(Date.parse(date) + days * MS_PER_DAY))
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another (negative if `to` comes first)
+ */
+export function getDaysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY)
+}
+
+/**
+ * The rent steps of a lease: its starting rent, then the escalated rent from each
+ * anniversary of the start date that falls within the lease
+ */
+export function getEscalationSchedule(lease: Lease): { date: string; monthlyRent: number }[] {
+  const schedule = [{ date: lease.startDate, monthlyRent: lease.monthlyRent }]
+  if (lease.escalationType === 'none' || lease.escalationValue <= 0) {
+    return schedule
+  }
+
+  let rent = lease.monthlyRent
+  for (let year = 1; ; year++) {
+    const date = addYears(lease.startDate, year)
+    if (date > lease.endDate) break
+
+    rent = lease.escalationType === 'percent'
+      ? rent * (1 + lease.escalationValue / 100)
+      : rent + lease.escalationValue
+    schedule.push({ date, monthlyRent: Math.round(rent * 100) / 100 })
+  }
+  return schedule
+}
+
+/**
+ * The lease's monthly rent on a date (its starting rent before the lease begins)
+ */
+export function getLeaseRentOn(lease: Lease, date: string): number {
+  const schedule = getEscalationSchedule(lease)
+  let rent = schedule[0].monthlyRent
+  schedule.forEach(step => {
+    if (step.date <= date) rent = step.monthlyRent
+  })
+  return rent
+}
+
+/**
+ * The next rent step after a date, or null if the rent doesn't change again
+ */
+export function getNextEscalation(
+  lease: Lease,
+  date: string
+): { date: string; monthlyRent: number } | null {
+  return getEscalationSchedule(lease).find(step => step.date > date) || null
+}
+
+/**
+ * The last day a lease's tenants were in: the move-out date if recorded, else the end date
+ * A lease ended before its end date always has a move-out date (see mapLeaseBodyToRow)
+ */
+export function getLeaseOccupiedUntil(lease: Lease): string {
+  return lease.moveOutDate || lease.endDate
+}
+
+/**
+ * Where a lease is in its lifecycle on a date
+ * A lease has ended once the last day its tenants were in has passed, the same rule
+ * occupancy uses; active leases close to their end date are expiring
+ */
+export function getLeaseStatus(lease: Lease, today: string = toDateString(new Date())): LeaseStatus {
+  if (lease.status === 'draft') return 'draft'
+  if (getLeaseOccupiedUntil(lease) < today) {
+    return 'ended'
+  }
+  if (Date.parse(lease.endDate) - Date.parse(today) <= EXPIRING_WITHIN_DAYS * MS_PER_DAY) {
+    return 'expiring'
+  }
+  return 'active'
+}
+
+/**
+ * The lease that drives a unit's rent roll row: the one running on `today`, or else the
+ * next signed lease to start. Drafts and ended leases never count, so a vacated unit keeps
+ * whatever was entered on it. Returns null if there's none.
+ */
+export function pickCurrentLease(leases: Lease[], today: string = toDateString(new Date())): Lease | null {
+  const upcoming = leases
+    .filter(lease => lease.status !== 'draft' && getLeaseStatus(lease, today) !== 'ended')
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+
+  const running = upcoming.filter(lease => lease.startDate <= today)
+  return running[running.length - 1] || upcoming[0] || null
+}
@@ -0,0 +1,95 @@
+/**
+ * Property Ledger
+ *
+ * Transaction categories and the actual-vs-projected monthly comparison
+ * shown on the property Financial tab
+ */
+
+import type { Property, PropertyTransaction } from '@/types'
+import { calculateMonthlyCosts } from './finance'
+
+export const TRANSACTION_CATEGORIES: {
+  value: PropertyTransaction['category']
+  label: string
+  kind: 'income' | 'expense'
+}[] = [
+  { value: 'rent', label: 'Rent Received', kind: 'income' },
+  { value: 'other_income', label: 'Other Income', kind: 'income' },
+  { value: 'repairs', label: 'Repairs & Maintenance', kind: 'expense' },
+  { value: 'property_tax', label: 'Property Tax', kind: 'expense' },
+  { value: 'insurance', label: 'Insurance Premium', kind: 'expense' },
+  { value: 'mortgage', label: 'Mortgage Payment', kind: 'expense' },
+  { value: 'utilities', label: 'Utilities', kind: 'expense' },
+  { value: 'management', label: 'Management Fees', kind: 'expense' },
+  { value: 'other_expense', label: 'Other Expense', kind: 'expense' },
+]
+
+export const VALID_TRANSACTION_CATEGORIES = TRANSACTION_CATEGORIES.map(c => c.value)
+
+/**
+ * Whether a category counts as income (everything else is an expense)
+ */
+export function isIncomeCategory(category: PropertyTransaction['category']): boolean {
+  return TRANSACTION_CATEGORIES.find(c => c.value === category)?.kind === 'income'
+}
+
+export interface MonthlyLedgerSummary {
+  month: string // YYYY-MM
+  actualIncome: number
+  actualExpenses: number
+  actualNet: number
+  projectedIncome: number
+  projectedExpenses: number
+  projectedNet: number
+}
+
+/**
+ * The last `months` calendar months (oldest first) as YYYY-MM
+ */
+function recentMonths(months: number, today: Date): string[] {
+  const result: string[] = []
+  for (let i = months - 1; i >= 0; i--) {
+    const date = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - i, 1))
+    result.push(date.toISOString().slice(0, 7))
+  }
+  return result
+}
+
+/**
+ * Compare actual ledger totals against the property's projected monthly figures
+ * Covers the last `months` calendar months including the current one, oldest first
+ */
+export function summarizeLedgerByMonth(
+  property: Property,
+  transactions: PropertyTransaction[],
+  months: number = 12,
+  today: Date = new Date()
+): MonthlyLedgerSummary[] {
+  const projectedIncome = property.monthlyGrossRent
+  const projectedExpenses = calculateMonthlyCosts(property)
+
+  return recentMonths(months, today).map(month => {
+    let actualIncome = 0
+    let actualExpenses = 0
+
+    transactions
+      .filter(t => t.date.startsWith(month))
+      .forEach(t => {
+        if (isIncomeCategory(t.category)) {
+          actualIncome += t.amount
+        } else {
+          actualExpenses += t.amount
+        }
+      })
+
+    return {
+      month,
+      actualIncome,
+      actualExpenses,
+      actualNet: actualIncome - actualExpenses,
+      projectedIncome,
+      projectedExpenses,
+      projectedNet: projectedIncome - projectedExpenses,
+    }
+  })
+}
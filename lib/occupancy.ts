@@ -0,0 +1,290 @@
+/**
+ * Occupancy Analytics
+ *
+ * Physical and economic vacancy, days vacant and turnover, counted in unit-days.
+ * Units with leases are occupied while a lease runs (until its move-out date, if any);
+ * units without leases, and properties without units, follow the property's status from
+ * its occupancy snapshots. Days before a property's first snapshot, or while it's sold,
+ * aren't counted.
+ */
+
+import type { Lease, OccupancySnapshot, Property, RentRollUnit } from '@/types'
+import { addDays, getDaysBetween, getEscalationSchedule, getLeaseOccupiedUntil, getLeaseRentOn } from './leases'
+
+export type OccupancyInterval = 'month' | 'quarter'
+
+export interface OccupancyMetrics {
+  unitCount: number // Units counted on at least one day
+  unitDays: number
+  vacantUnitDays: number
+  physicalVacancy: number // Percent of unit-days vacant
+  potentialRent: number // Rent if every unit had been let every day
+  lostRent: number // Potential rent of the vacant unit-days
+  economicVacancy: number // Percent of potential rent lost to vacancy
+  averageDaysVacant: number // Vacant days per unit
+  moveOuts: number
+  turnoverRate: number // Move-outs per unit, in percent
+}
+
+export interface PropertyOccupancy extends OccupancyMetrics {
+  propertyId: string
+  address: string
+}
+
+export interface OccupancyPeriod extends OccupancyMetrics {
+  label: string
+  startDate: string
+  endDate: string
+}
+
+export interface OccupancyReport {
+  startDate: string
+  endDate: string
+  interval: OccupancyInterval
+  totals: OccupancyMetrics
+  properties: PropertyOccupancy[]
+  periods: OccupancyPeriod[]
+}
+
+export interface PropertyOccupancyInput {
+  property: Property
+  units: RentRollUnit[]
+  leases: Lease[]
+  snapshots: OccupancySnapshot[]
+}
+
+interface Tally {
+  units: Set<string>
+  unitDays: number
+  vacantUnitDays: number
+  potentialRent: number
+  lostRent: number
+  moveOuts: number
+}
+
+const newTally = (): Tally => ({
+  units: new Set<string>(),
+  unitDays: 0,
+  vacantUnitDays: 0,
+  potentialRent: 0,
+  lostRent: 0,
+  moveOuts: 0,
+})
+
+const percent = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : 0)
+
+function toMetrics(tally: Tally): OccupancyMetrics {
+  const unitCount = tally.units.size
+  return {
+    unitCount,
+    unitDays: tally.unitDays,
+    vacantUnitDays: tally.vacantUnitDays,
+    physicalVacancy: percent(tally.vacantUnitDays, tally.unitDays),
+    potentialRent: Math.round(tally.potentialRent * 100) / 100,
+    lostRent: Math.round(tally.lostRent * 100) / 100,
+    economicVacancy: percent(tally.lostRent, tally.potentialRent),
+    averageDaysVacant: unitCount > 0 ? tally.vacantUnitDays / unitCount : 0,
+    moveOuts: tally.moveOuts,
+    turnoverRate: percent(tally.moveOuts, unitCount),
+  }
+}
+
+/**
+ * Whether a unit is occupied on a date
+ * Units with signed leases are occupied while one runs; units without any follow the
+ * property's status
+ */
+export function isUnitOccupied(unitLeases: Lease[], propertyStatus: Property['status'], date: string): boolean {
+  const signed = unitLeases.filter(lease => lease.status !== 'draft')
+  if (signed.length === 0) {
+    return propertyStatus === 'rented'
+  }
+  return signed.some(lease => lease.startDate <= date && date <= getLeaseOccupiedUntil(lease))
+}
+
+/**
+ * How many of a property's units are occupied on a date
+ */
+export function countOccupiedUnits(
+  units: RentRollUnit[],
+  leases: Lease[],
+  propertyStatus: Property['status'],
+  date: string
+): number {
+  return units.filter(unit =>
+    isUnitOccupied(leases.filter(lease => lease.unitId === unit.id), propertyStatus, date)
+  ).length
+}
+
+/**
+ * Split a date range into calendar months or quarters, clipped to the range
+ */
+export function getOccupancyPeriods(
+  startDate: string,
+  endDate: string,
+  interval: OccupancyInterval
+): { label: string; startDate: string; endDate: string }[] {
+  const months = interval === 'quarter' ? 3 : 1
+  const periods: { label: string; startDate: string; endDate: string }[] = []
+  const [startYear, startMonth] = startDate.split('-').map(Number)
+  // First day of the month (or quarter) containing startDate, as a month index
+  let monthIndex = startYear * 12 + (startMonth - 1)
+  monthIndex -= monthIndex % months
+
+  for (;;) {
+    const year = Math.floor(monthIndex / 12)
+    const month = monthIndex % 12
+    const periodStart = new Date(Date.UTC(year, month, 1)).toISOString().split('T')[0]
+    if (periodStart > endDate) break
+
+    const periodEnd = new Date(Date.UTC(year, month + months, 0)).toISOString().split('T')[0]
+    periods.push({
+      label: interval === 'quarter'
+        ? `${year} Q${Math.floor(month / 3) + 1}`
+        : periodStart.slice(0, 7),
+      startDate: periodStart < startDate ? startDate : periodStart,
+      endDate: periodEnd > endDate ? endDate : periodEnd,
+    })
+    monthIndex += months
+  }
+  return periods
+}
+
+/**
+ * Build the occupancy report for a date range (inclusive), per property, per period and
+ * across the portfolio
+ * A lease's tenants move out on its last occupied day, unless it was renewed; units without
+ * leases (and properties without units) turn over when the property goes from rented to
+ * vacant or under maintenance.
+ * The range is split at every date where a unit's occupancy or rent can change (snapshots,
+ * lease starts, move-outs, rent steps and period starts), and each stretch between two of
+ * them is counted at once, so the work grows with the number of changes rather than days.
+ */
+export function buildOccupancyReport(
+  inputs: PropertyOccupancyInput[],
+  startDate: string,
+  endDate: string,
+  interval: OccupancyInterval = 'month'
+): OccupancyReport {
+  const periodRanges = getOccupancyPeriods(startDate, endDate, interval)
+  const periodTallies = periodRanges.map(() => newTally())
+  const totals = newTally()
+  const findPeriod = (date: string) =>
+    periodRanges.findIndex(period => period.startDate <= date && date <= period.endDate)
+
+  const properties = inputs.map(({ property, units, leases, snapshots }) => {
+    const tally = newTally()
+    const sortedSnapshots = [...snapshots].sort((a, b) => a.date.localeCompare(b.date))
+    const signedLeases = leases
+      .filter(lease => lease.status !== 'draft')
+      .sort((a, b) => a.startDate.localeCompare(b.startDate))
+
+    // A property without units is counted as a single unit let at its gross rent
+    const trackedUnits = units.length > 0
+      ? units.map(unit => ({
+          key: `${property.id}:${unit.id}`,
+          monthlyRent: unit.monthlyRent as number | null,
+          leases: signedLeases.filter(lease => lease.unitId === unit.id),
+        }))
+      : [{ key: property.id, monthlyRent: null, leases: [] as Lease[] }]
+    const leaselessUnits = trackedUnits.filter(unit => unit.leases.length === 0).length
+
+    const count = (date: string, apply: (t: Tally) => void) => {
+      apply(tally)
+      apply(totals)
+      const periodIndex = findPeriod(date)
+      if (periodIndex >= 0) apply(periodTallies[periodIndex])
+    }
+
+    const dayAfterRange = addDays(endDate, 1)
+    const boundaries = [startDate, dayAfterRange]
+    periodRanges.forEach(period => boundaries.push(period.startDate))
+    sortedSnapshots.forEach(snapshot => boundaries.push(snapshot.date))
+    signedLeases.forEach(lease => {
+      boundaries.push(addDays(getLeaseOccupiedUntil(lease), 1))
+      getEscalationSchedule(lease).forEach(step => boundaries.push(step.date)) // Starts with the lease start
+    })
+    const stretchStarts = boundaries
+      .filter(date => date >= startDate && date <= dayAfterRange)
+      .sort()
+      .filter((date, index, dates) => date !== dates[index - 1])
+
+    let snapshotIndex = -1
+    for (let i = 0; i < stretchStarts.length - 1; i++) {
+      const date = stretchStarts[i]
+      const days = getDaysBetween(date, stretchStarts[i + 1])
+      while (snapshotIndex + 1 < sortedSnapshots.length && sortedSnapshots[snapshotIndex + 1].date <= date) {
+        snapshotIndex++
+      }
+      const snapshot = sortedSnapshots[snapshotIndex]
+      if (!snapshot || snapshot.status === 'sold') continue
+
+      trackedUnits.forEach(unit => {
+        let occupied: boolean
+        let monthlyRent: number
+
+        if (unit.leases.length > 0) {
+          const running = unit.leases.find(lease => lease.startDate <= date && date <= getLeaseOccupiedUntil(lease))
+          // A vacant unit could have been let at its latest lease's final rent
+          const latest = running || unit.leases.filter(lease => lease.startDate <= date).pop() || unit.leases[0]
+          occupied = !!running
+          monthlyRent = running
+            ? getLeaseRentOn(running, date)
+            : getLeaseRentOn(latest, getLeaseOccupiedUntil(latest))
+        } else {
+          occupied = snapshot.status === 'rented'
+          monthlyRent = unit.monthlyRent ?? (snapshot.monthlyGrossRent || property.monthlyGrossRent)
+        }
+
+        const rent = ((monthlyRent * 12) / 365) * days
+        count(date, t => {
+          t.units.add(unit.key)
+          t.unitDays += days
+          t.potentialRent += rent
+          if (!occupied) {
+            t.vacantUnitDays += days
+            t.lostRent += rent
+          }
+        })
+      })
+    }
+
+    signedLeases.forEach(lease => {
+      const movedOut = getLeaseOccupiedUntil(lease)
+      const renewed = signedLeases.some(other => other.renewedFromLeaseId === lease.id)
+      if (!renewed && movedOut >= startDate && movedOut <= endDate) {
+        count(movedOut, t => { t.moveOuts++ })
+      }
+    })
+
+    if (leaselessUnits > 0) {
+      sortedSnapshots.forEach((snapshot, index) => {
+        const previous = sortedSnapshots[index - 1]
+        if (
+          previous &&
+          previous.status === 'rented' &&
+          (snapshot.status === 'vacant' || snapshot.status === 'under_maintenance') &&
+          snapshot.date >= startDate &&
+          snapshot.date <= endDate
+        ) {
+          count(snapshot.date, t => { t.moveOuts += leaselessUnits })
+        }
+      })
+    }
+
+    return {
+      propertyId: property.id,
+      address: property.address,
+      ...toMetrics(tally),
+    }
+  })
+
+  return {
+    startDate,
+    endDate,
+    interval,
+    totals: toMetrics(totals),
+    properties,
+    periods: periodRanges.map((period, index) => ({ ...period, ...toMetrics(periodTallies[index]) })),
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Ownership Helper Functions
+ *
+ * Equity share parsing, validation and owner-share math shared by the
+ * properties pages and the /api/properties routes
+ */
+
+import type { Property, PropertyPartner } from '@/types'
+
+/**
+ * Parse an ownership percentage from user input or legacy labels
+ * Accepts 50, "50", "50%" and "50% partner"; returns null unless 0 < value <= 100
+ */
+export function parseOwnershipPercentage(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null
+
+  const numeric = typeof value === 'number'
+    ? value
+    : parseFloat(String(value).replace(/[%\s]/g, ''))
+
+  if (isNaN(numeric) || numeric <= 0 || numeric > 100) return null
+  return Math.round(numeric * 100) / 100
+}
+
+/**
+ * Normalize a partners list, dropping entries without a name or a valid percentage
+ */
+export function normalizePartners(value: unknown): PropertyPartner[] {
+  if (!Array.isArray(value)) return []
+
+  return value
+    .map((partner: any) => ({
+      name: partner?.name ? String(partner.name).trim() : '',
+      percentage: parseOwnershipPercentage(partner?.percentage),
+    }))
+    .filter((partner): partner is PropertyPartner => !!partner.name && partner.percentage !== null)
+}
+
+/**
+ * Validate our share plus the partners' shares
+ * Returns an error message, or null if valid
+ */
+export function validateOwnership(
+  ownershipPercentage: number,
+  partners: PropertyPartner[]
+): string | null {
+  const total = partners.reduce((sum, p) => sum + p.percentage, ownershipPercentage)
+  if (total > 100.001) {
+    return `Ownership shares add up to ${Math.round(total * 100) / 100}%, which is more than 100%`
+  }
+  return null
+}
+
+/**
+ * Our ownership share as a fraction (0-1); properties without one are fully owned
+ */
+export function getOwnershipShare(property: Pick<Property, 'ownershipPercentage'>): number {
+  return (parseOwnershipPercentage(property.ownershipPercentage) ?? 100) / 100
+}
+
+/**
+ * Label for an ownership share (e.g. "100%", "50% with Jane Doe, John Roe")
+ */
+export function formatOwnership(property: Pick<Property, 'ownershipPercentage' | 'partners'>): string {
+  const percentage = `${Math.round(getOwnershipShare(property) * 10000) / 100}%`
+  if (!property.partners || property.partners.length === 0) return percentage
+  return `${percentage} with ${property.partners.map(p => p.name).join(', ')}`
+}
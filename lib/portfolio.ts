@@ -0,0 +1,292 @@
+/**
+ * Portfolio Analytics
+ *
+ * The canonical per-property and portfolio metrics served by /api/portfolio/summary.
+ * Totals are reported both gross and at our ownership share.
+ * Appreciation comes from each property's valuation history.
+ * Occupancy (served by /api/portfolio/occupancy) comes from lease dates and occupancy snapshots.
+ */
+
+import { supabaseAdmin } from './supabase'
+import {
+  mapLeaseRow,
+  mapOccupancySnapshotRow,
+  mapPropertyRow,
+  mapPropertyValuationRow,
+  mapRentRollUnitRow,
+} from './property-mappers'
+import { getOwnershipShare } from './ownership'
+import { getAccessiblePropertiesFilter } from './property-helpers'
+import {
+  calculateCapRate,
+  calculateCashOnCashReturn,
+  calculateCurrentBalance,
+  calculateDSCR,
+  calculateMonthlyCashflow,
+  calculateMonthlyCosts,
+  calculateNetOperatingIncome,
+} from './finance'
+import { Appreciation, calculateAppreciation, calculatePortfolioAppreciation } from './valuations'
+import { buildOccupancyReport, OccupancyInterval, OccupancyReport } from './occupancy'
+import type { Property, PropertyValuation } from '@/types'
+
+export interface PropertyMetrics {
+  propertyId: string
+  address: string
+  type: string
+  status: Property['status']
+  mortgageHolder: string | null
+  ownershipShare: number // 0-1
+  currentEstValue: number
+  monthlyGrossRent: number
+  monthlyCosts: number
+  monthlyCashflow: number
+  netOperatingIncome: number // Annual
+  loanBalance: number
+  equity: number
+  roe: number // %
+  capRate: number // %
+  cashOnCashReturn: number // %
+  dscr: number | null // null for properties without debt
+  appreciation: Appreciation | null // null without enough valuation history
+}
+
+export interface PortfolioTotals {
+  totalEstValue: number
+  totalMonthlyGrossRent: number
+  totalMonthlyCosts: number
+  totalMonthlyCashflow: number
+  totalLoanBalance: number
+  totalEquity: number
+  roe: number // %, annual cashflow over total equity
+  annualizedAppreciation: number | null // %, weighted by each property's starting value
+}
+
+export interface PortfolioGroup {
+  count: number
+  gross: PortfolioTotals
+  share: PortfolioTotals // At our ownership share
+}
+
+export interface PortfolioSummary {
+  asOf: string
+  properties: PropertyMetrics[]
+  totals: PortfolioGroup
+  byStatus: Record<string, PortfolioGroup>
+  byType: Record<string, PortfolioGroup>
+  byMortgageHolder: Record<string, PortfolioGroup>
+}
+
+/**
+ * Compute the metrics for a single property
+ */
+export function calculatePropertyMetrics(
+  property: Property,
+  asOf: Date = new Date(),
+  valuations: PropertyValuation[] = []
+): PropertyMetrics {
+  const monthlyCashflow = calculateMonthlyCashflow(property)
+  const loanBalance = calculateCurrentBalance(property, asOf)
+  const equity = property.currentEstValue - loanBalance
+
+  return {
+    propertyId: property.id,
+    address: property.address,
+    type: property.type,
+    status: property.status,
+    mortgageHolder: property.mortgageHolder || null,
+    ownershipShare: getOwnershipShare(property),
+    currentEstValue: property.currentEstValue,
+    monthlyGrossRent: property.monthlyGrossRent,
+    monthlyCosts: calculateMonthlyCosts(property),
+    monthlyCashflow,
+    netOperatingIncome: calculateNetOperatingIncome(property),
+    loanBalance,
+    equity,
+    roe: equity > 0 ? ((monthlyCashflow * 12) / equity) * 100 : 0,
+    capRate: calculateCapRate(property),
+    cashOnCashReturn: calculateCashOnCashReturn(property),
+    dscr: calculateDSCR(property),
+    appreciation: calculateAppreciation(valuations, asOf),
+  }
+}
+
+function sumTotals(metrics: PropertyMetrics[], useShare: boolean): PortfolioTotals {
+  const sum = (pick: (m: PropertyMetrics) => number) =>
+    metrics.reduce((total, m) => total + pick(m) * (useShare ? m.ownershipShare : 1), 0)
+
+  const totalMonthlyCashflow = sum(m => m.monthlyCashflow)
+  const totalEquity = sum(m => m.equity)
+
+  return {
+    totalEstValue: sum(m => m.currentEstValue),
+    totalMonthlyGrossRent: sum(m => m.monthlyGrossRent),
+    totalMonthlyCosts: sum(m => m.monthlyCosts),
+    totalMonthlyCashflow,
+    totalLoanBalance: sum(m => m.loanBalance),
+    totalEquity,
+    roe: totalEquity > 0 ? ((totalMonthlyCashflow * 12) / totalEquity) * 100 : 0,
+    annualizedAppreciation: calculatePortfolioAppreciation(
+      metrics.map(m => ({ appreciation: m.appreciation, weight: useShare ? m.ownershipShare : 1 }))
+    ),
+  }
+}
+
+function buildGroup(metrics: PropertyMetrics[]): PortfolioGroup {
+  return {
+    count: metrics.length,
+    gross: sumTotals(metrics, false),
+    share: sumTotals(metrics, true),
+  }
+}
+
+function groupBy(
+  metrics: PropertyMetrics[],
+  getKey: (m: PropertyMetrics) => string
+): Record<string, PortfolioGroup> {
+  const groups: Record<string, PropertyMetrics[]> = {}
+  metrics.forEach(m => {
+    const key = getKey(m)
+    groups[key] = groups[key] || []
+    groups[key].push(m)
+  })
+
+  const result: Record<string, PortfolioGroup> = {}
+  Object.keys(groups).forEach(key => {
+    result[key] = buildGroup(groups[key])
+  })
+  return result
+}
+
+/**
+ * Build the portfolio summary for a list of properties
+ * valuations holds each property's valuation history, keyed by property id
+ */
+export function buildPortfolioSummary(
+  properties: Property[],
+  asOf: Date = new Date(),
+  valuations: Record<string, PropertyValuation[]> = {}
+): PortfolioSummary {
+  const metrics = properties.map(p => calculatePropertyMetrics(p, asOf, valuations[p.id]))
+
+  return {
+    asOf: asOf.toISOString(),
+    properties: metrics,
+    totals: buildGroup(metrics),
+    byStatus: groupBy(metrics, m => m.status),
+    byType: groupBy(metrics, m => m.type || 'Unspecified'),
+    byMortgageHolder: groupBy(metrics, m => m.mortgageHolder || 'None'),
+  }
+}
+
+/**
+ * Load the properties the user can access and build their portfolio summary
+ */
+export async function getPortfolioSummary(
+  userId: string,
+  options: { status?: string } = {}
+): Promise<PortfolioSummary> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  let query = supabaseAdmin
+    .from('properties')
+    .select('*')
+    .or(await getAccessiblePropertiesFilter(userId))
+
+  if (options.status) {
+    query = query.eq('status', options.status)
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch properties: ${error.message}`)
+  }
+
+  const properties = (data || []).map(mapPropertyRow)
+  const valuations: Record<string, PropertyValuation[]> = {}
+
+  if (properties.length > 0) {
+    const { data: valuationRows, error: valuationsError } = await supabaseAdmin
+      .from('property_valuations')
+      .select('*')
+      .in('property_id', properties.map(p => p.id))
+
+    if (valuationsError) {
+      // Appreciation is optional - the rest of the summary doesn't depend on it
+      console.warn('Could not fetch valuations, omitting appreciation:', valuationsError.message)
+    }
+
+    valuationRows?.forEach(row => {
+      valuations[row.property_id] = valuations[row.property_id] || []
+      valuations[row.property_id].push(mapPropertyValuationRow(row))
+    })
+  }
+
+  return buildPortfolioSummary(properties, new Date(), valuations)
+}
+
+/**
+ * Load the properties the user can access, with their units, leases and occupancy snapshots,
+ * and build their occupancy report for a date range
+ */
+export async function getOccupancyReport(
+  userId: string,
+  startDate: string,
+  endDate: string,
+  interval: OccupancyInterval = 'month'
+): Promise<OccupancyReport> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('properties')
+    .select('*')
+    .or(await getAccessiblePropertiesFilter(userId))
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch properties: ${error.message}`)
+  }
+
+  const properties = (data || []).map(mapPropertyRow)
+  if (properties.length === 0) {
+    return buildOccupancyReport([], startDate, endDate, interval)
+  }
+
+  const propertyIds = properties.map(p => p.id)
+  const [unitsResult, leasesResult, snapshotsResult] = await Promise.all([
+    supabaseAdmin
+      .from('rent_roll_units')
+      .select('*')
+      .in('property_id', propertyIds),
+    supabaseAdmin
+      .from('leases')
+      .select('*')
+      .in('property_id', propertyIds)
+      .neq('status', 'draft'),
+    supabaseAdmin
+      .from('property_occupancy_snapshots')
+      .select('*')
+      .in('property_id', propertyIds)
+      .lte('date', endDate)
+      .order('date', { ascending: true }),
+  ])
+
+  const fetchError = unitsResult.error || leasesResult.error || snapshotsResult.error
+  if (fetchError) {
+    throw new Error(`Failed to fetch occupancy: ${fetchError.message}`)
+  }
+
+  const inputs = properties.map(property => ({
+    property,
+    units: (unitsResult.data || []).filter(row => row.property_id === property.id).map(mapRentRollUnitRow),
+    leases: (leasesResult.data || []).filter(row => row.property_id === property.id).map(mapLeaseRow),
+    snapshots: (snapshotsResult.data || []).filter(row => row.property_id === property.id).map(mapOccupancySnapshotRow),
+  }))
+
+  return buildOccupancyReport(inputs, startDate, endDate, interval)
+}
@@ -0,0 +1,157 @@
+/**
+ * Property Change Helper Functions
+ *
+ * Validation for field-level property updates (PATCH /api/properties/[id]),
+ * turning a set of changed Property fields into a properties row update
+ */
+
+import { getCustomFieldKey, parseCustomFieldValue } from './custom-fields'
+import { mapLoanTermsToRow } from './property-mappers'
+import { normalizePartners, parseOwnershipPercentage, validateOwnership } from './ownership'
+import type { CustomFieldDefinition } from '@/types'
+import type { PropertyRow } from '@/types/database'
+
+export const PROPERTY_STATUSES = ['rented', 'vacant', 'under_maintenance', 'sold']
+
+/**
+ * Money fields and the columns they are stored in
+ */
+const NUMERIC_COLUMNS: Record<string, string> = {
+  totalMortgageAmount: 'total_mortgage_amount',
+  purchasePrice: 'purchase_price',
+  currentEstValue: 'current_est_value',
+  monthlyMortgagePayment: 'monthly_mortgage_payment',
+  monthlyInsurance: 'monthly_insurance',
+  monthlyPropertyTax: 'monthly_property_tax',
+  monthlyOtherCosts: 'monthly_other_costs',
+}
+
+/**
+ * Loan term fields and the columns mapLoanTermsToRow writes them to
+ */
+const LOAN_TERM_COLUMNS: Record<string, string> = {
+  downPayment: 'down_payment',
+  interestRate: 'interest_rate',
+  amortizationYears: 'amortization_years',
+  loanOriginationDate: 'loan_origination_date',
+  closingCosts: 'closing_costs',
+}
+
+/**
+ * A property's stored custom values, without those whose field was deleted
+ */
+function getDefinedCustomValues(
+  stored: Record<string, any> | null,
+  customFields: CustomFieldDefinition[]
+): Record<string, any> {
+  const values: Record<string, any> = { ...(stored || {}) }
+  if (customFields.length > 0) {
+    const keys = customFields.map(getCustomFieldKey)
+    Object.keys(values).forEach(key => {
+      if (!keys.includes(key)) delete values[key]
+    })
+  }
+  return values
+}
+
+/**
+ * Turn changed Property fields into a properties row update
+ *
+ * Only the fields present in `changes` are written. Custom field values are merged into the
+ * property's existing custom_fields (null clears a value) and validated against `customFields`,
+ * dropping stored values that no longer have a definition; when the workspace has no
+ * definitions they are stored as sent.
+ * Returns the row update plus one error message per invalid field.
+ */
+export function mapPropertyChangesToRow(
+  changes: Record<string, any>,
+  current: PropertyRow,
+  customFields: CustomFieldDefinition[]
+): { row: Record<string, any>; errors: string[] } {
+  const row: Record<string, any> = {}
+  const errors: string[] = []
+  const loanTerms = mapLoanTermsToRow(changes)
+  let customValues: Record<string, any> | null = null
+
+  Object.keys(changes).forEach((field) => {
+    const value = changes[field]
+
+    if (field === 'address' || field === 'type') {
+      const text = value ? String(value).trim() : ''
+      if (!text) {
+        errors.push(`${field} is required`)
+      } else {
+        row[field] = text
+      }
+    } else if (field === 'status') {
+      if (!PROPERTY_STATUSES.includes(value)) {
+        errors.push(`status must be one of: ${PROPERTY_STATUSES.join(', ')}`)
+      } else {
+        row.status = value
+      }
+    } else if (field === 'monthlyGrossRent') {
+      errors.push('monthlyGrossRent is calculated from the rent roll units')
+    } else if (field === 'mortgageHolder') {
+      row.mortgage_holder = value ? String(value).trim() : null
+    } else if (NUMERIC_COLUMNS[field]) {
+      const numeric = value === null || value === '' ? 0 : Number(value)
+      if (!isFinite(numeric)) {
+        errors.push(`${field} must be a number`)
+      } else {
+        row[NUMERIC_COLUMNS[field]] = numeric
+      }
+    } else if (LOAN_TERM_COLUMNS[field]) {
+      row[LOAN_TERM_COLUMNS[field]] = loanTerms[LOAN_TERM_COLUMNS[field]]
+    } else if (field === 'ownershipPercentage' || field === 'partners') {
+      // Validated together below, since the shares must add up
+    } else if (field === 'linkedWebsites') {
+      row.linked_websites = Array.isArray(value) && value.length > 0 ? value.map(String) : null
+    } else if (field.startsWith('custom_')) {
+      customValues = customValues || getDefinedCustomValues(current.custom_fields, customFields)
+      const definition = customFields.find(f => getCustomFieldKey(f) === field)
+
+      if (customFields.length > 0 && !definition) {
+        errors.push(`Unknown custom field "${field}"`)
+        return
+      }
+
+      const parsed: { value: unknown; error?: string } = definition
+        ? parseCustomFieldValue(definition, value)
+        : { value }
+      if (parsed.error) {
+        errors.push(`${definition?.name}: ${parsed.error}`)
+      } else if (parsed.value === null || parsed.value === undefined || parsed.value === '') {
+        delete customValues[field]
+      } else {
+        customValues[field] = parsed.value
+      }
+    } else {
+      errors.push(`Unknown field "${field}"`)
+    }
+  })
+
+  if ('ownershipPercentage' in changes || 'partners' in changes) {
+    const ownershipPercentage = 'ownershipPercentage' in changes
+      ? parseOwnershipPercentage(changes.ownershipPercentage)
+      : parseOwnershipPercentage(current.ownership_percentage) ?? 100
+    const partners = normalizePartners('partners' in changes ? changes.partners : current.partners)
+
+    if (ownershipPercentage === null) {
+      errors.push('ownershipPercentage must be greater than 0 and at most 100')
+    } else {
+      const ownershipError = validateOwnership(ownershipPercentage, partners)
+      if (ownershipError) {
+        errors.push(ownershipError)
+      } else {
+        row.ownership_percentage = ownershipPercentage
+        row.partners = partners
+      }
+    }
+  }
+
+  if (customValues) {
+    row.custom_fields = customValues
+  }
+
+  return { row, errors }
+}
@@ -0,0 +1,503 @@
+/**
+ * Property Helper Functions
+ *
+ * Server-side utilities shared by the /api/properties/[id]/* routes
+ */
+
+import { supabaseAdmin } from './supabase'
+import { getUserWorkspaceRole, getUserWorkspaces, userHasWorkspaceAccess } from './workspace-helpers'
+import { mapCustomFieldDefinitionRow, mapLeaseRow, mapRentRollUnitRow } from './property-mappers'
+import { countOccupiedUnits } from './occupancy'
+import { parseAddress } from './address'
+import { getGeocoder } from './geocoding'
+import { getStorage } from './storage'
+import type { PropertyRow, WorkRequestRow } from '@/types/database'
+import type { CustomFieldDefinition } from '@/types'
+
+/**
+ * Fetch a property if the user can access it
+ * A user can access a property they created, or one that belongs to a workspace they are a member of
+ * Returns null if the property doesn't exist or the user has no access
+ */
+export async function getAccessibleProperty(
+  userId: string,
+  propertyId: string
+): Promise<PropertyRow | null> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  const { data: property, error } = await supabaseAdmin
+    .from('properties')
+    .select('*')
+    .eq('id', propertyId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch property: ${error.message}`)
+  }
+
+  if (!property) {
+    return null
+  }
+
+  if (property.user_id === userId) {
+    return property as PropertyRow
+  }
+
+  if (property.workspace_id) {
+    try {
+      const hasAccess = await userHasWorkspaceAccess(userId, property.workspace_id)
+      if (hasAccess) {
+        return property as PropertyRow
+      }
+    } catch (workspaceError: any) {
+      // If workspace tables don't exist, only the creator has access
+      console.warn('Could not check workspace access:', workspaceError.message)
+    }
+  }
+
+  return null
+}
+
+/**
+ * Build the properties filter (for `.or()`) matching every property the user can access:
+ * the ones they created plus those in workspaces they are a member of
+ */
+export async function getAccessiblePropertiesFilter(userId: string): Promise<string> {
+  let workspaceIds: string[] = []
+  try {
+    const workspaces = await getUserWorkspaces(userId)
+    workspaceIds = workspaces.map(w => w.id)
+  } catch (workspaceError: any) {
+    // If workspace tables don't exist, only the user's own properties are accessible
+    console.warn('Could not fetch workspaces:', workspaceError.message)
+  }
+
+  return workspaceIds.length > 0
+    ? `user_id.eq.${userId},workspace_id.in.(${workspaceIds.join(',')})`
+    : `user_id.eq.${userId}`
+}
+
+/**
+ * Fetch every property the user can access
+ * (the ones they created plus those in workspaces they are a member of)
+ */
+export async function getAccessibleProperties(userId: string): Promise<PropertyRow[]> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('properties')
+    .select('*')
+    .or(await getAccessiblePropertiesFilter(userId))
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch properties: ${error.message}`)
+  }
+
+  return (data || []) as PropertyRow[]
+}
+
+/**
+ * Check whether the user can delete a property they can access
+ * Workspace properties can only be deleted by the workspace's owner or admins;
+ * properties outside a workspace only by the user who created them
+ */
+export async function canDeleteProperty(
+  userId: string,
+  property: Pick<PropertyRow, 'user_id' | 'workspace_id'>
+): Promise<boolean> {
+  if (!property.workspace_id) {
+    return property.user_id === userId
+  }
+
+  try {
+    const role = await getUserWorkspaceRole(userId, property.workspace_id)
+    return role === 'owner' || role === 'admin'
+  } catch (workspaceError: any) {
+    // If workspace tables don't exist, only the creator can delete
+    console.warn('Could not check workspace role:', workspaceError.message)
+    return property.user_id === userId
+  }
+}
+
+/**
+ * Storage keys of a property's document files
+ * Read these before deleting the property, since its document rows go with it.
+ * Returns [] if they can't be read.
+ */
+export async function getDocumentStorageKeys(propertyId: string): Promise<string[]> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('property_documents')
+    .select('storage_key')
+    .eq('property_id', propertyId)
+
+  if (error) {
+    // Deleting the property shouldn't fail over cleanup (e.g. before the documents migration)
+    console.warn('Could not fetch document files to clean up:', error.message)
+    return []
+  }
+
+  return (data || []).map((document) => document.storage_key)
+}
+
+/**
+ * Delete document files from storage, logging rather than throwing on errors
+ * (the rows pointing at them are already gone)
+ */
+export async function deleteDocumentFiles(keys: string[]): Promise<void> {
+  const storage = getStorage()
+  await Promise.all(
+    keys.map((key) =>
+      storage.delete(key).catch((storageError) => {
+        console.error('Error deleting document file from storage:', storageError)
+      })
+    )
+  )
+}
+
+/**
+ * Fetch a workspace's custom property field definitions, in column order
+ */
+export async function getWorkspaceCustomFields(workspaceId: string): Promise<CustomFieldDefinition[]> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('property_custom_fields')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .order('position', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch custom fields: ${error.message}`)
+  }
+
+  return (data || []).map(mapCustomFieldDefinitionRow)
+}
+
+/**
+ * Structured address columns parsed locally from an address, without coordinates
+ * geocoded_at stays NULL so the property is picked up by the next geocoding pass
+ */
+export function getParsedAddressColumns(address: string): Record<string, any> {
+  return {
+    ...parseAddress(address),
+    latitude: null,
+    longitude: null,
+    geocoded_at: null,
+  }
+}
+
+/**
+ * Geocode an address into structured address columns with coordinates
+ * Otherwise the locally parsed parts are returned without coordinates: with geocoded_at set
+ * when the address wasn't found, or NULL when the geocoder failed so it's retried later.
+ */
+export async function geocodeAddressColumns(address: string): Promise<Record<string, any>> {
+  try {
+    const result = await getGeocoder().geocode(address)
+    return {
+      ...(result || getParsedAddressColumns(address)),
+      geocoded_at: new Date().toISOString(),
+    }
+  } catch (geocodeError: any) {
+    console.warn(`Could not geocode "${address}":`, geocodeError.message)
+    return getParsedAddressColumns(address)
+  }
+}
+
+/**
+ * Recalculate a property's monthly gross rent from its rent roll units
+ * Also records the property's occupancy snapshot for today
+ * Returns the new monthly gross rent
+ */
+export async function recalculateMonthlyGrossRent(propertyId: string): Promise<number> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  const { data: units, error: unitsError } = await supabaseAdmin
+    .from('rent_roll_units')
+    .select('monthly_rent')
+    .eq('property_id', propertyId)
+
+  if (unitsError) {
+    throw new Error(`Failed to fetch rent roll units: ${unitsError.message}`)
+  }
+
+  const monthlyGrossRent = (units || []).reduce(
+    (sum, unit) => sum + (parseFloat(unit.monthly_rent) || 0),
+    0
+  )
+
+  const { error: updateError } = await supabaseAdmin
+    .from('properties')
+    .update({ monthly_gross_rent: monthlyGrossRent })
+    .eq('id', propertyId)
+
+  if (updateError) {
+    throw new Error(`Failed to update monthly gross rent: ${updateError.message}`)
+  }
+
+  try {
+    await recordOccupancySnapshots([propertyId])
+  } catch (snapshotError) {
+    // The rent roll is saved; a missed snapshot only blurs the vacancy history
+    console.error('Error recording occupancy snapshot:', snapshotError)
+  }
+
+  return monthlyGrossRent
+}
+
+/**
+ * Record today's occupancy snapshot (status, units occupied and gross rent) for properties
+ * Call after a property's status, units or leases change; a property changed more than once
+ * on the same day keeps its latest snapshot for that day
+ */
+export async function recordOccupancySnapshots(propertyIds: string[]): Promise<void> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  if (propertyIds.length === 0) {
+    return
+  }
+
+  const [propertiesResult, unitsResult, leasesResult] = await Promise.all([
+    supabaseAdmin
+      .from('properties')
+      .select('id, status, monthly_gross_rent')
+      .in('id', propertyIds),
+    supabaseAdmin
+      .from('rent_roll_units')
+      .select('*')
+      .in('property_id', propertyIds),
+    supabaseAdmin
+      .from('leases')
+      .select('*')
+      .in('property_id', propertyIds)
+      .neq('status', 'draft'),
+  ])
+
+  const fetchError = propertiesResult.error || unitsResult.error || leasesResult.error
+  if (fetchError) {
+    throw new Error(`Failed to fetch occupancy: ${fetchError.message}`)
+  }
+
+  const today = new Date().toISOString().split('T')[0]
+  const snapshots = (propertiesResult.data || []).map(property => {
+    const unitRows = (unitsResult.data || []).filter(unit => unit.property_id === property.id)
+    const leases = (leasesResult.data || [])
+      .filter(lease => lease.property_id === property.id)
+      .map(mapLeaseRow)
+
+    return {
+      property_id: property.id,
+      date: today,
+      status: property.status,
+      total_units: unitRows.length,
+      occupied_units: countOccupiedUnits(unitRows.map(mapRentRollUnitRow), leases, property.status, today),
+      monthly_gross_rent: parseFloat(property.monthly_gross_rent) || 0,
+    }
+  })
+
+  if (snapshots.length === 0) {
+    return
+  }
+
+  const { error } = await supabaseAdmin
+    .from('property_occupancy_snapshots')
+    .upsert(snapshots, { onConflict: 'property_id,date' })
+
+  if (error) {
+    throw new Error(`Failed to record occupancy snapshots: ${error.message}`)
+  }
+}
+
+/**
+ * Append a status transition to a work request's history
+ * fromStatus is null when the request is first created
+ */
+export async function recordWorkRequestStatusChange(
+  workRequestId: string,
+  fromStatus: WorkRequestRow['status'] | null,
+  toStatus: WorkRequestRow['status'],
+  userId: string
+): Promise<void> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  const { error } = await supabaseAdmin
+    .from('work_request_status_history')
+    .insert({
+      work_request_id: workRequestId,
+      from_status: fromStatus,
+      to_status: toStatus,
+      changed_by: userId,
+    })
+
+  if (error) {
+    throw new Error(`Failed to record work request status change: ${error.message}`)
+  }
+}
+
+/**
+ * Post a work request's cost to the property ledger
+ * Keeps exactly one 'repairs' transaction per work request in sync with its cost,
+ * and removes it when the cost is cleared
+ */
+export async function syncWorkRequestTransaction(
+  workRequest: Pick<WorkRequestRow, 'id' | 'property_id' | 'description' | 'cost' | 'date_logged'>,
+  userId: string
+): Promise<void> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  const cost = parseFloat(String(workRequest.cost)) || 0
+
+  if (cost <= 0) {
+    const { error } = await supabaseAdmin
+      .from('property_transactions')
+      .delete()
+      .eq('work_request_id', workRequest.id)
+
+    if (error) {
+      throw new Error(`Failed to remove work request transaction: ${error.message}`)
+    }
+    return
+  }
+
+  const { error } = await supabaseAdmin
+    .from('property_transactions')
+    .upsert(
+      {
+        property_id: workRequest.property_id,
+        user_id: userId,
+        date: workRequest.date_logged,
+        amount: cost,
+        category: 'repairs',
+        description: workRequest.description,
+        source: 'work_request',
+        work_request_id: workRequest.id,
+      },
+      { onConflict: 'work_request_id' }
+    )
+
+  if (error) {
+    throw new Error(`Failed to post work request cost to the ledger: ${error.message}`)
+  }
+}
+
+/**
+ * Mirror a property's most recent valuation into current_est_value
+ * Leaves current_est_value alone when the property has no valuations
+ * Returns the new estimated value, or null when there are no valuations
+ */
+export async function syncCurrentEstValue(propertyId: string): Promise<number | null> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  const { data: latest, error } = await supabaseAdmin
+    .from('property_valuations')
+    .select('value')
+    .eq('property_id', propertyId)
+    .order('date', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch latest valuation: ${error.message}`)
+  }
+
+  if (!latest) {
+    return null
+  }
+
+  const currentEstValue = parseFloat(latest.value) || 0
+  const { error: updateError } = await supabaseAdmin
+    .from('properties')
+    .update({ current_est_value: currentEstValue })
+    .eq('id', propertyId)
+
+  if (updateError) {
+    throw new Error(`Failed to update current estimated value: ${updateError.message}`)
+  }
+
+  return currentEstValue
+}
+
+/**
+ * Record edits of current_est_value in the valuation history as today's estimates
+ * A property edited more than once on the same day keeps a single estimate for that day
+ */
+export async function recordEstimateValuations(
+  estimates: { propertyId: string; value: number }[],
+  userId: string
+): Promise<void> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  if (estimates.length === 0) {
+    return
+  }
+
+  const today = new Date().toISOString().split('T')[0]
+
+  const { data: existing, error } = await supabaseAdmin
+    .from('property_valuations')
+    .select('id, property_id')
+    .in('property_id', estimates.map(e => e.propertyId))
+    .eq('date', today)
+    .eq('source', 'estimate')
+
+  if (error) {
+    throw new Error(`Failed to fetch today's estimates: ${error.message}`)
+  }
+
+  const existingIds = new Map<string, string>()
+  existing?.forEach(row => existingIds.set(row.property_id, row.id))
+
+  const updates = estimates.filter(e => existingIds.has(e.propertyId))
+  const inserts = estimates.filter(e => !existingIds.has(e.propertyId))
+
+  for (let i = 0; i < updates.length; i++) {
+    const { error: updateError } = await supabaseAdmin
+      .from('property_valuations')
+      .update({ value: updates[i].value, user_id: userId })
+      .eq('id', existingIds.get(updates[i].propertyId)!)
+
+    if (updateError) {
+      throw new Error(`Failed to update estimate: ${updateError.message}`)
+    }
+  }
+
+  if (inserts.length > 0) {
+    const { error: insertError } = await supabaseAdmin
+      .from('property_valuations')
+      .insert(inserts.map(e => ({
+        property_id: e.propertyId,
+        user_id: userId,
+        date: today,
+        value: e.value,
+        source: 'estimate',
+      })))
+
+    if (insertError) {
+      throw new Error(`Failed to record estimates: ${insertError.message}`)
+    }
+  }
+}
@@ -0,0 +1,337 @@
+/**
+ * Property Mappers
+ *
+ * Convert snake_case database rows into the camelCase types used by the UI
+ * Numeric columns come back from Postgres as strings, so they are parsed here
+ */
+
+import { CustomFieldDefinition, ImportMappingProfile, Lease, LeaseRenewalOffer, OccupancySnapshot, Property, PropertyDocument, PropertyPhoto, PropertyTransaction, PropertyValuation, RentRollUnit, Tenant, TenantLedgerEntry, TransactionImportRule, WorkRequest, WorkRequestStatusChange } from "@/types"
+import { normalizePartners, parseOwnershipPercentage } from "@/lib/ownership"
+
+/**
+ * Map a rent_roll_units row to a RentRollUnit
+ */
+export function mapRentRollUnitRow(row: any): RentRollUnit {
+  return {
+    id: row.id,
+    unitName: row.unit_name,
+    tenantName: row.tenant_name,
+    monthlyRent: parseFloat(row.monthly_rent) || 0,
+    leaseStart: row.lease_start,
+    leaseEnd: row.lease_end,
+    securityDeposit: parseFloat(row.security_deposit) || 0,
+  }
+}
+
+/**
+ * Map a work_request_status_history row to a WorkRequestStatusChange
+ */
+export function mapWorkRequestStatusChangeRow(row: any): WorkRequestStatusChange {
+  return {
+    id: row.id,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    changedBy: row.changed_by,
+    changedAt: row.changed_at,
+  }
+}
+
+/**
+ * Map a work_requests row to a WorkRequest
+ * Includes the status history when it was selected alongside the request
+ */
+export function mapWorkRequestRow(row: any): WorkRequest {
+  const history: any[] = Array.isArray(row.work_request_status_history)
+    ? row.work_request_status_history
+    : []
+
+  return {
+    id: row.id,
+    dateLogged: row.date_logged,
+    description: row.description,
+    status: row.status,
+    cost: parseFloat(row.cost) || 0,
+    statusHistory: history
+      .map(mapWorkRequestStatusChangeRow)
+      .sort((a, b) => a.changedAt.localeCompare(b.changedAt)),
+  }
+}
+
+/**
+ * Map a property_documents row to a PropertyDocument
+ */
+export function mapPropertyDocumentRow(row: any): PropertyDocument {
+  return {
+    id: row.id,
+    fileName: row.file_name,
+    contentType: row.content_type,
+    sizeBytes: Number(row.size_bytes) || 0,
+    category: row.category,
+    expiryDate: row.expiry_date || undefined,
+    metadata: row.metadata || {},
+    uploadedBy: row.user_id,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Map a property_photos row to a PropertyPhoto
+ */
+export function mapPropertyPhotoRow(row: any): PropertyPhoto {
+  return {
+    id: row.id,
+    unitId: row.unit_id || undefined,
+    fileName: row.file_name,
+    contentType: row.content_type,
+    sizeBytes: Number(row.size_bytes) || 0,
+    width: row.width ?? undefined,
+    height: row.height ?? undefined,
+    caption: row.caption || undefined,
+    uploadedBy: row.user_id,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Map a property_transactions row to a PropertyTransaction
+ */
+export function mapPropertyTransactionRow(row: any): PropertyTransaction {
+  return {
+    id: row.id,
+    date: row.date,
+    amount: parseFloat(row.amount) || 0,
+    category: row.category,
+    description: row.description || undefined,
+    source: row.source,
+    workRequestId: row.work_request_id || undefined,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Map a property_valuations row to a PropertyValuation
+ */
+export function mapPropertyValuationRow(row: any): PropertyValuation {
+  return {
+    id: row.id,
+    date: row.date,
+    value: parseFloat(row.value) || 0,
+    source: row.source,
+    notes: row.notes || undefined,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Map a property_occupancy_snapshots row to an OccupancySnapshot
+ */
+export function mapOccupancySnapshotRow(row: any): OccupancySnapshot {
+  return {
+    date: row.date,
+    status: row.status,
+    totalUnits: Number(row.total_units) || 0,
+    occupiedUnits: Number(row.occupied_units) || 0,
+    monthlyGrossRent: parseFloat(row.monthly_gross_rent) || 0,
+  }
+}
+
+/**
+ * Map a tenants row to a Tenant
+ */
+export function mapTenantRow(row: any): Tenant {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id || undefined,
+    name: row.name,
+    email: row.email || undefined,
+    phone: row.phone || undefined,
+    emergencyContactName: row.emergency_contact_name || undefined,
+    emergencyContactPhone: row.emergency_contact_phone || undefined,
+    notes: row.notes || undefined,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Map a leases row to a Lease
+ * Tenants come from a nested `lease_tenants(tenant_id, is_primary, tenants(name))` select
+ */
+export function mapLeaseRow(row: any): Lease {
+  const tenants = (row.lease_tenants || []).map((leaseTenant: any) => ({
+    tenantId: leaseTenant.tenant_id,
+    name: leaseTenant.tenants?.name || "",
+    isPrimary: !!leaseTenant.is_primary,
+  }))
+
+  return {
+    id: row.id,
+    propertyId: row.property_id,
+    unitId: row.unit_id,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    monthlyRent: parseFloat(row.monthly_rent) || 0,
+    securityDeposit: parseFloat(row.security_deposit) || 0,
+    status: row.status || "active",
+    terms: row.terms || undefined,
+    escalationType: row.escalation_type || "none",
+    escalationValue: parseFloat(row.escalation_value) || 0,
+    moveInDate: row.move_in_date || undefined,
+    moveOutDate: row.move_out_date || undefined,
+    renewedFromLeaseId: row.renewed_from_lease_id || undefined,
+    tenants: tenants.sort((a: any, b: any) => Number(b.isPrimary) - Number(a.isPrimary)),
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Map a lease_renewal_offers row to a LeaseRenewalOffer
+ */
+export function mapLeaseRenewalOfferRow(row: any): LeaseRenewalOffer {
+  return {
+    id: row.id,
+    leaseId: row.lease_id,
+    offeredOn: row.offered_on,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    monthlyRent: parseFloat(row.monthly_rent) || 0,
+    status: row.status,
+    respondedOn: row.responded_on || undefined,
+    renewalLeaseId: row.renewal_lease_id || undefined,
+    notes: row.notes || undefined,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Map a tenant_ledger_entries row to a TenantLedgerEntry
+ */
+export function mapTenantLedgerEntryRow(row: any): TenantLedgerEntry {
+  return {
+    id: row.id,
+    leaseId: row.lease_id,
+    date: row.date,
+    type: row.type,
+    amount: parseFloat(row.amount) || 0,
+    description: row.description || undefined,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Map a transaction_import_rules row to a TransactionImportRule
+ */
+export function mapTransactionImportRuleRow(row: any): TransactionImportRule {
+  return {
+    id: row.id,
+    pattern: row.pattern,
+    propertyId: row.property_id,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Map a property_custom_fields row to a CustomFieldDefinition
+ */
+export function mapCustomFieldDefinitionRow(row: any): CustomFieldDefinition {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    name: row.name,
+    type: row.type,
+    options: Array.isArray(row.options) ? row.options : undefined,
+    position: row.position ?? 0,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Map an import_mapping_profiles row to an ImportMappingProfile
+ */
+export function mapImportMappingProfileRow(row: any): ImportMappingProfile {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    name: row.name,
+    mapping: row.mapping || {},
+    headerSignature: row.header_signature,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at || row.created_at,
+  }
+}
+
+/**
+ * Map a properties row to a Property
+ * Custom fields are restored from the custom_fields JSONB column as top-level custom_* keys
+ * Rent roll units and work requests are included when they were selected alongside the property
+ */
+export function mapPropertyRow(row: any): Property {
+  const property: any = {
+    id: row.id,
+    address: row.address,
+    street: row.street || undefined,
+    city: row.city || undefined,
+    state: row.state || undefined,
+    zip: row.zip || undefined,
+    latitude: row.latitude != null ? parseFloat(row.latitude) : undefined,
+    longitude: row.longitude != null ? parseFloat(row.longitude) : undefined,
+    type: row.type,
+    status: row.status,
+    mortgageHolder: row.mortgage_holder,
+    totalMortgageAmount: parseFloat(row.total_mortgage_amount) || 0,
+    purchasePrice: parseFloat(row.purchase_price) || 0,
+    currentEstValue: parseFloat(row.current_est_value) || 0,
+    monthlyMortgagePayment: parseFloat(row.monthly_mortgage_payment) || 0,
+    monthlyInsurance: parseFloat(row.monthly_insurance) || 0,
+    monthlyPropertyTax: parseFloat(row.monthly_property_tax) || 0,
+    monthlyOtherCosts: parseFloat(row.monthly_other_costs) || 0,
+    monthlyGrossRent: parseFloat(row.monthly_gross_rent) || 0,
+    downPayment: row.down_payment != null ? parseFloat(row.down_payment) : undefined,
+    interestRate: row.interest_rate != null ? parseFloat(row.interest_rate) : undefined,
+    amortizationYears: row.amortization_years ?? undefined,
+    loanOriginationDate: row.loan_origination_date ?? undefined,
+    closingCosts: parseFloat(row.closing_costs) || 0,
+    ownershipPercentage: parseOwnershipPercentage(row.ownership_percentage) ?? 100,
+    partners: normalizePartners(row.partners),
+    linkedWebsites: row.linked_websites || [],
+    coverPhotoId: row.cover_photo_id || undefined,
+    updatedAt: row.updated_at,
+    rentRoll: Array.isArray(row.rent_roll_units)
+      ? row.rent_roll_units.map(mapRentRollUnitRow)
+      : [],
+    workRequests: Array.isArray(row.work_requests)
+      ? row.work_requests.map(mapWorkRequestRow)
+      : [],
+  }
+
+  if (row.custom_fields && typeof row.custom_fields === 'object') {
+    Object.keys(row.custom_fields).forEach(key => {
+      property[key] = row.custom_fields[key]
+    })
+  }
+
+  return property as Property
+}
+
+/**
+ * Map the loan term fields of a Property-shaped request body to properties columns
+ * Empty values are stored as NULL ("unknown") rather than 0. Only fields present in the
+ * body are mapped, so an update keeps the stored terms it leaves out; `fillMissing` maps
+ * the absent ones too, for new rows.
+ */
+export function mapLoanTermsToRow(body: any, fillMissing = false): Record<string, any> {
+  const toNumberOrNull = (value: any) => {
+    if (value === undefined || value === null || value === '') return null
+    const numeric = Number(value)
+    return isNaN(numeric) ? null : numeric
+  }
+
+  const row: Record<string, any> = {}
+  const include = (field: string) => fillMissing || body[field] !== undefined
+  if (include('downPayment')) row.down_payment = toNumberOrNull(body.downPayment)
+  if (include('interestRate')) row.interest_rate = toNumberOrNull(body.interestRate)
+  if (include('amortizationYears')) row.amortization_years = toNumberOrNull(body.amortizationYears)
+  if (include('loanOriginationDate')) row.loan_origination_date = body.loanOriginationDate || null
+  if (include('closingCosts')) row.closing_costs = Number(body.closingCosts) || 0
+  return row
+}
@@ -0,0 +1,90 @@
+/**
+ * Property Photo Helper Functions
+ *
+ * Upload validation, thumbnail generation and file cleanup for
+ * the /api/properties/[id]/photos routes
+ */
+
+import sharp from 'sharp'
+import { supabaseAdmin } from './supabase'
+import { getStorage } from './storage'
+
+export const PHOTO_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+export const MAX_PHOTO_SIZE = 20 * 1024 * 1024 // 20 MB
+
+const THUMBNAIL_SIZE = 400 // Longest edge, in pixels
+
+/**
+ * Read an uploaded image and generate its thumbnail
+ * Thumbnails are JPEGs no larger than THUMBNAIL_SIZE on either edge, rotated upright
+ * using the photo's EXIF orientation. Returns null if the data isn't a readable image.
+ */
+export async function createPhotoThumbnail(
+  data: Buffer
+): Promise<{ thumbnail: Buffer; width: number | null; height: number | null } | null> {
+  try {
+    const metadata = await sharp(data).metadata()
+    // EXIF orientations 5-8 are rotated a quarter turn, so the displayed edges are swapped
+    const rotated = (metadata.orientation || 1) >= 5
+
+    const thumbnail = await sharp(data)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: 80 })
+      .toBuffer()
+
+    return {
+      thumbnail,
+      width: (rotated ? metadata.height : metadata.width) ?? null,
+      height: (rotated ? metadata.width : metadata.height) ?? null,
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Storage keys of the originals and thumbnails of a property's photos
+ * Pass a unit id to only include that unit's photos. Read these before deleting the
+ * property or unit, since its photo rows go with it. Returns [] if they can't be read.
+ */
+export async function getPhotoStorageKeys(propertyId: string, unitId?: string): Promise<string[]> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  let query = supabaseAdmin
+    .from('property_photos')
+    .select('storage_key, thumbnail_key')
+    .eq('property_id', propertyId)
+
+  if (unitId) {
+    query = query.eq('unit_id', unitId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    // Deleting the property or unit shouldn't fail over cleanup (e.g. before the photos migration)
+    console.warn('Could not fetch photo files to clean up:', error.message)
+    return []
+  }
+
+  return (data || []).flatMap((photo) => [photo.storage_key, photo.thumbnail_key])
+}
+
+/**
+ * Delete files from storage, logging rather than throwing on errors
+ * (the rows pointing at them are already gone)
+ */
+export async function deletePhotoFiles(keys: string[]): Promise<void> {
+  const storage = getStorage()
+  await Promise.all(
+    keys.map((key) =>
+      storage.delete(key).catch((storageError) => {
+        console.error('Error deleting photo file from storage:', storageError)
+      })
+    )
+  )
+}
@@ -0,0 +1,225 @@
+/**
+ * Property List Queries
+ *
+ * Filtering, sorting and keyset pagination for GET /api/properties.
+ * Everything runs in the database against the property_list view, which adds the
+ * monthly cashflow and ROE to each property so they can be sorted and filtered too.
+ */
+
+import { PROPERTY_STATUSES } from './property-changes'
+
+export const PROPERTY_SORT_FIELDS = [
+  'createdAt',
+  'address',
+  'status',
+  'type',
+  'currentEstValue',
+  'purchasePrice',
+  'monthlyGrossRent',
+  'monthlyCashflow',
+  'roe',
+] as const
+
+export type PropertySortField = typeof PROPERTY_SORT_FIELDS[number]
+
+const MAX_LIMIT = 500
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Sort fields whose cursor value is a number
+const NUMERIC_SORT_FIELDS: PropertySortField[] = ['currentEstValue', 'purchasePrice', 'monthlyGrossRent', 'monthlyCashflow', 'roe']
+
+export interface PropertyQuery {
+  statuses: string[]
+  type?: string
+  search?: string // Case-insensitive substring of the address
+  minValue?: number // Current estimated value
+  maxValue?: number
+  minCashflow?: number // Monthly cashflow
+  maxCashflow?: number
+  sort: PropertySortField
+  direction: 'asc' | 'desc'
+  limit?: number // Omitted: every matching property
+  cursor?: PropertyCursor
+}
+
+/**
+ * Position in a sorted list: the sort value and id of the last row of the previous page
+ */
+interface PropertyCursor {
+  value: string | number
+  id: string
+}
+
+/**
+ * Parse GET /api/properties query parameters
+ * Returns the query, or an error message for the first invalid parameter
+ */
+export function parsePropertyQuery(params: URLSearchParams): { query?: PropertyQuery; error?: string } {
+  const statuses = (params.get('status') || '')
+    .split(',')
+    .map(s => s.trim())
+    .filter(s => s.length > 0)
+  const invalidStatus = statuses.find(s => !PROPERTY_STATUSES.includes(s))
+  if (invalidStatus) {
+    return { error: `Invalid status: "${invalidStatus}". Must be one of: ${PROPERTY_STATUSES.join(', ')}` }
+  }
+
+  const query: PropertyQuery = {
+    statuses,
+    type: params.get('type')?.trim() || undefined,
+    search: params.get('search')?.trim() || undefined,
+    sort: 'createdAt',
+    direction: 'desc',
+  }
+
+  const ranges: Array<[string, 'minValue' | 'maxValue' | 'minCashflow' | 'maxCashflow']> = [
+    ['minValue', 'minValue'],
+    ['maxValue', 'maxValue'],
+    ['minCashflow', 'minCashflow'],
+    ['maxCashflow', 'maxCashflow'],
+  ]
+  for (let i = 0; i < ranges.length; i++) {
+    const [param, key] = ranges[i]
+    const raw = params.get(param)
+    if (raw === null || raw.trim() === '') continue
+    const value = Number(raw)
+    if (!isFinite(value)) {
+      return { error: `Invalid ${param}: "${raw}" is not a number` }
+    }
+    query[key] = value
+  }
+
+  const sort = params.get('sort')
+  if (sort) {
+    if (!PROPERTY_SORT_FIELDS.includes(sort as PropertySortField)) {
+      return { error: `Invalid sort: "${sort}". Must be one of: ${PROPERTY_SORT_FIELDS.join(', ')}` }
+    }
+    query.sort = sort as PropertySortField
+    // Newest first by default; everything else ascending
+    query.direction = sort === 'createdAt' ? 'desc' : 'asc'
+  }
+
+  const direction = params.get('direction')
+  if (direction) {
+    if (direction !== 'asc' && direction !== 'desc') {
+      return { error: 'Invalid direction: must be asc or desc' }
+    }
+    query.direction = direction
+  }
+
+  const limit = params.get('limit')
+  if (limit) {
+    const parsed = Number(limit)
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_LIMIT) {
+      return { error: `Invalid limit: must be a whole number from 1 to ${MAX_LIMIT}` }
+    }
+    query.limit = parsed
+  }
+
+  const cursor = params.get('cursor')
+  if (cursor) {
+    const decoded = decodeCursor(cursor, query.sort)
+    if (!decoded) {
+      return { error: 'Invalid cursor' }
+    }
+    query.cursor = decoded
+  }
+
+  return { query }
+}
+
+function encodeCursor(cursor: PropertyCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+/**
+ * Read a cursor, or null if it's malformed or doesn't fit the sort field
+ * (it ends up in a database filter, so the id must be a UUID and the value of the column's type)
+ */
+function decodeCursor(cursor: string, sort: PropertySortField): PropertyCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (!parsed || typeof parsed.id !== 'string' || !UUID_PATTERN.test(parsed.id)) {
+      return null
+    }
+    const validValue = NUMERIC_SORT_FIELDS.includes(sort)
+      ? typeof parsed.value === 'number' && isFinite(parsed.value)
+      : typeof parsed.value === 'string' && (sort !== 'createdAt' || !isNaN(Date.parse(parsed.value)))
+    if (!validValue) {
+      return null
+    }
+    return { value: parsed.value, id: parsed.id }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Escape a search term for use inside an ILIKE pattern
+ */
+export function escapeLikePattern(term: string): string {
+  return term.replace(/[\\%_]/g, match => `\\${match}`)
+}
+
+/**
+ * The property_list column each sort field orders by
+ */
+export const PROPERTY_SORT_COLUMNS: Record<PropertySortField, string> = {
+  createdAt: 'created_at',
+  address: 'address',
+  status: 'status',
+  type: 'type',
+  currentEstValue: 'current_est_value',
+  purchasePrice: 'purchase_price',
+  monthlyGrossRent: 'monthly_gross_rent',
+  monthlyCashflow: 'monthly_cashflow',
+  roe: 'roe',
+}
+
+/**
+ * Quote a value for a PostgREST logic filter (commas, parentheses and dots are otherwise syntax)
+ */
+function quoteFilterValue(value: string | number): string {
+  if (typeof value === 'number') return String(value)
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+/**
+ * PostgREST `or` filter selecting the rows after the cursor in the query's sort order
+ * Rows with equal sort values are ordered by id, so pages never skip or repeat a row.
+ * Returns null without a cursor.
+ */
+export function getCursorFilter(query: PropertyQuery): string | null {
+  if (!query.cursor) return null
+
+  const column = PROPERTY_SORT_COLUMNS[query.sort]
+  const op = query.direction === 'asc' ? 'gt' : 'lt'
+  const value = quoteFilterValue(query.cursor.value)
+  return `${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${query.cursor.id})`
+}
+
+/**
+ * Split the rows fetched for a page (up to limit + 1, in sort order) into the page and the
+ * cursor for the next page (null on the last page)
+ */
+export function getPropertyPage<T extends { id: string }>(
+  rows: T[],
+  query: PropertyQuery
+): { rows: T[]; nextCursor: string | null } {
+  if (query.limit === undefined || rows.length <= query.limit) {
+    return { rows, nextCursor: null }
+  }
+
+  const page = rows.slice(0, query.limit)
+  const last: Record<string, any> = page[page.length - 1]
+  const value = last[PROPERTY_SORT_COLUMNS[query.sort]]
+  return {
+    rows: page,
+    nextCursor: encodeCursor({
+      // Numeric columns come back as numbers; keep strings (text, timestamps) as sent
+      value: typeof value === 'number' || typeof value === 'string' ? value : String(value ?? ''),
+      id: last.id,
+    }),
+  }
+}
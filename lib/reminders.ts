@@ -0,0 +1,191 @@
+/**
+ * Reminders Engine
+ *
+ * Builds upcoming-deadline reminders from lease ends, document expiry dates
+ * and subscription renewals
+ */
+
+import { supabaseAdmin } from './supabase'
+import { getUserWorkspaces } from './workspace-helpers'
+import { getAccessiblePropertiesFilter } from './property-helpers'
+import type { Reminder } from '@/types'
+
+export const REMINDER_WINDOWS: Reminder['window'][] = [30, 60, 90]
+
+const DOCUMENT_CATEGORY_LABELS: Record<string, string> = {
+  insurance: 'Insurance',
+  tax_bill: 'Tax bill',
+  mortgage: 'Mortgage',
+  lease: 'Lease',
+  inspection: 'Inspection',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Format a date as YYYY-MM-DD (UTC), matching DATE columns
+ */
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Whole days from `today` until a YYYY-MM-DD date
+ */
+export function daysUntil(dueDate: string, today: Date = new Date()): number {
+  const due = Date.parse(`${dueDate}T00:00:00Z`)
+  const start = Date.parse(`${toDateString(today)}T00:00:00Z`)
+  return Math.round((due - start) / DAY_MS)
+}
+
+/**
+ * The smallest reminder window (30/60/90 days) a deadline falls into
+ * Returns null for past deadlines and deadlines beyond the largest window
+ */
+export function getReminderWindow(days: number): Reminder['window'] | null {
+  if (days < 0) return null
+  return REMINDER_WINDOWS.find(window => days <= window) ?? null
+}
+
+/**
+ * Fetch upcoming reminders for every workspace the user can access
+ * Only deadlines within `days` (default 90) from today are returned, soonest first
+ */
+export async function getUpcomingReminders(
+  userId: string,
+  options: { days?: number; workspaceId?: string; today?: Date } = {}
+): Promise<Reminder[]> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  const today = options.today || new Date()
+  const horizon = Math.min(options.days || 90, REMINDER_WINDOWS[REMINDER_WINDOWS.length - 1])
+  const from = toDateString(today)
+  const to = toDateString(new Date(today.getTime() + horizon * DAY_MS))
+
+  let workspaceIds: string[] = []
+  try {
+    const workspaces = await getUserWorkspaces(userId)
+    workspaceIds = workspaces.map(w => w.id)
+  } catch (workspaceError: any) {
+    // If workspace tables don't exist, there are no subscriptions to scan
+    console.warn('Could not fetch workspaces for reminders:', workspaceError.message)
+  }
+
+  if (options.workspaceId) {
+    if (!workspaceIds.includes(options.workspaceId)) {
+      return []
+    }
+    workspaceIds = [options.workspaceId]
+  }
+
+  // Properties the user can access, limited to the requested workspace if there is one
+  let propertiesQuery = supabaseAdmin
+    .from('properties')
+    .select('id, address, workspace_id')
+    .or(await getAccessiblePropertiesFilter(userId))
+
+  if (options.workspaceId) {
+    propertiesQuery = propertiesQuery.eq('workspace_id', options.workspaceId)
+  }
+
+  const { data: properties, error: propertiesError } = await propertiesQuery
+
+  if (propertiesError) {
+    throw new Error(`Failed to fetch properties: ${propertiesError.message}`)
+  }
+
+  const propertiesById = new Map<string, { id: string; address: string; workspace_id: string | null }>(
+    (properties || []).map((p: any) => [p.id, p])
+  )
+  const propertyIds = Array.from(propertiesById.keys())
+  const reminders: Reminder[] = []
+
+  const addReminder = (reminder: Omit<Reminder, 'daysUntil' | 'window'>) => {
+    const days = daysUntil(reminder.dueDate, today)
+    const window = getReminderWindow(days)
+    if (window !== null && days <= horizon) {
+      reminders.push({ ...reminder, daysUntil: days, window })
+    }
+  }
+
+  if (propertyIds.length > 0) {
+    const { data: units, error: unitsError } = await supabaseAdmin
+      .from('rent_roll_units')
+      .select('id, property_id, unit_name, tenant_name, lease_end')
+      .in('property_id', propertyIds)
+      .gte('lease_end', from)
+      .lte('lease_end', to)
+
+    if (unitsError) {
+      throw new Error(`Failed to fetch rent roll units: ${unitsError.message}`)
+    }
+
+    units?.forEach((unit: any) => {
+      const property = propertiesById.get(unit.property_id)
+      if (!property) return
+      addReminder({
+        id: `lease_end:${unit.id}`,
+        type: 'lease_end',
+        title: `Lease ends for ${unit.tenant_name} (${unit.unit_name}) at ${property.address}`,
+        dueDate: unit.lease_end,
+        workspaceId: property.workspace_id,
+        propertyId: property.id,
+        link: `/properties/${property.id}/details`,
+      })
+    })
+
+    const { data: documents, error: documentsError } = await supabaseAdmin
+      .from('property_documents')
+      .select('id, property_id, file_name, category, expiry_date')
+      .in('property_id', propertyIds)
+      .gte('expiry_date', from)
+      .lte('expiry_date', to)
+
+    if (documentsError) {
+      throw new Error(`Failed to fetch documents: ${documentsError.message}`)
+    }
+
+    documents?.forEach((doc: any) => {
+      const property = propertiesById.get(doc.property_id)
+      if (!property) return
+      const label = DOCUMENT_CATEGORY_LABELS[doc.category] || 'Document'
+      addReminder({
+        id: `document_expiry:${doc.id}`,
+        type: 'document_expiry',
+        title: `${label} document "${doc.file_name}" expires at ${property.address}`,
+        dueDate: doc.expiry_date,
+        workspaceId: property.workspace_id,
+        propertyId: property.id,
+        link: `/properties/${property.id}/details`,
+      })
+    })
+  }
+
+  if (workspaceIds.length > 0) {
+    const { data: subscriptions, error: subscriptionsError } = await supabaseAdmin
+      .from('subscriptions')
+      .select('id, name, renewal_date, workspace_id')
+      .in('workspace_id', workspaceIds)
+      .gte('renewal_date', from)
+      .lte('renewal_date', to)
+
+    if (subscriptionsError) {
+      throw new Error(`Failed to fetch subscriptions: ${subscriptionsError.message}`)
+    }
+
+    subscriptions?.forEach((subscription: any) => {
+      addReminder({
+        id: `subscription_renewal:${subscription.id}`,
+        type: 'subscription_renewal',
+        title: `${subscription.name} subscription renews`,
+        dueDate: subscription.renewal_date,
+        workspaceId: subscription.workspace_id,
+        link: '/subscriptions',
+      })
+    })
+  }
+
+  return reminders.sort((a, b) => a.daysUntil - b.daysUntil)
+}
@@ -0,0 +1,47 @@
+/**
+ * Spreadsheet Import
+ *
+ * Reads Excel workbooks (including Google Sheets "Download as .xlsx" exports) into the
+ * same string rows the CSV parser produces, so both formats share one import pipeline
+ */
+
+/**
+ * Whether a file is an Excel workbook rather than delimited text
+ */
+export function isSpreadsheetFile(file: { name: string }): boolean {
+  return file.name.toLowerCase().endsWith(".xlsx")
+}
+
+/**
+ * Names of the sheets in a workbook, in workbook order
+ */
+export async function getWorkbookSheetNames(file: Blob): Promise<string[]> {
+  const { readSheetNames } = await import("read-excel-file")
+  return readSheetNames(file)
+}
+
+/**
+ * Convert a cell to the text a CSV export would contain
+ * Dates become YYYY-MM-DD and empty cells become ""
+ */
+function cellToString(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? "" : value.toISOString().split("T")[0]
+  }
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE"
+  return String(value).trim()
+}
+
+/**
+ * Read one sheet of a workbook as rows of cells, dropping blank rows
+ * `sheet` is a sheet name or a 1-based index (default: the first sheet)
+ */
+export async function readWorkbookSheet(file: Blob, sheet: string | number = 1): Promise<string[][]> {
+  const { default: readXlsxFile } = await import("read-excel-file")
+  const rows = await readXlsxFile(file, { sheet })
+
+  return rows
+    .map((row) => row.map(cellToString))
+    .filter((row) => row.some((cell) => cell !== ""))
+}
@@ -0,0 +1,52 @@
+/**
+ * File Storage
+ *
+ * Pluggable storage for uploaded files (property documents, photos and their thumbnails)
+ * - `local` writes to the filesystem, for development
+ * - `supabase` uses Supabase Storage, for production
+ *
+ * The backend is chosen with STORAGE_BACKEND. When unset, production uses
+ * Supabase Storage and everything else uses the local filesystem.
+ */
+
+import { createLocalStorage } from './local'
+import { createSupabaseStorage } from './supabase'
+
+export interface StorageBackend {
+  put(key: string, data: Buffer, contentType: string): Promise<void>
+  get(key: string): Promise<Buffer>
+  delete(key: string): Promise<void>
+}
+
+let storage: StorageBackend | null = null
+
+/**
+ * Get the configured storage backend
+ */
+export function getStorage(): StorageBackend {
+  if (storage) {
+    return storage
+  }
+
+  const backend = process.env.STORAGE_BACKEND?.trim()
+    || (process.env.NODE_ENV === 'production' ? 'supabase' : 'local')
+
+  if (backend === 'supabase') {
+    storage = createSupabaseStorage(process.env.SUPABASE_STORAGE_BUCKET?.trim() || 'property-documents')
+  } else if (backend === 'local') {
+    storage = createLocalStorage(process.env.LOCAL_STORAGE_DIR?.trim() || '.uploads')
+  } else {
+    throw new Error(`Invalid STORAGE_BACKEND: "${backend}". Must be "local" or "supabase".`)
+  }
+
+  return storage
+}
+
+/**
+ * Build a storage key that is unique and safe to use as a path
+ */
+export function buildStorageKey(prefix: string, fileName: string): string {
+  const safeName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_')
+  const random = Math.random().toString(36).slice(2, 10)
+  return `${prefix}/${Date.now()}-${random}-${safeName}`
+}
@@ -0,0 +1,43 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { StorageBackend } from './index'
+
+/**
+ * Local filesystem storage for development
+ * Files are written under `rootDir` (relative to the project root)
+ */
+export function createLocalStorage(rootDir: string): StorageBackend {
+  const root = path.resolve(process.cwd(), rootDir)
+
+  // Resolve a key inside root, rejecting keys that escape it
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key)
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: "${key}"`)
+    }
+    return filePath
+  }
+
+  return {
+    async put(key, data) {
+      const filePath = resolveKey(key)
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, data)
+    },
+
+    async get(key) {
+      return fs.readFile(resolveKey(key))
+    },
+
+    async delete(key) {
+      try {
+        await fs.unlink(resolveKey(key))
+      } catch (error: any) {
+        // Already gone - nothing to delete
+        if (error.code !== 'ENOENT') {
+          throw error
+        }
+      }
+    },
+  }
+}
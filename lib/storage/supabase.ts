@@ -0,0 +1,39 @@
+import { supabaseAdmin } from '../supabase'
+import type { StorageBackend } from './index'
+
+/**
+ * Supabase Storage backend for production
+ * The bucket must exist and should be private - files are served through the API
+ */
+export function createSupabaseStorage(bucket: string): StorageBackend {
+  const getBucket = () => {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase not configured')
+    }
+    return supabaseAdmin.storage.from(bucket)
+  }
+
+  return {
+    async put(key, data, contentType) {
+      const { error } = await getBucket().upload(key, data, { contentType, upsert: false })
+      if (error) {
+        throw new Error(`Failed to upload file: ${error.message}`)
+      }
+    },
+
+    async get(key) {
+      const { data, error } = await getBucket().download(key)
+      if (error || !data) {
+        throw new Error(`Failed to download file: ${error?.message || 'Unknown error'}`)
+      }
+      return Buffer.from(await data.arrayBuffer())
+    },
+
+    async delete(key) {
+      const { error } = await getBucket().remove([key])
+      if (error) {
+        throw new Error(`Failed to delete file: ${error.message}`)
+      }
+    },
+  }
+}
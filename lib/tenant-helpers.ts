@@ -0,0 +1,434 @@
+/**
+ * Tenant Helper Functions
+ *
+ * Server-side utilities shared by the /api/tenants/* and /api/properties/[id]/leases/* routes
+ */
+
+import { supabaseAdmin } from './supabase'
+import { userHasWorkspaceAccess } from './workspace-helpers'
+import { getAccessiblePropertiesFilter, recalculateMonthlyGrossRent } from './property-helpers'
+import { mapLeaseRow } from './property-mappers'
+import { VALID_ESCALATION_TYPES, VALID_LEASE_STATUSES, getLeaseRentOn, pickCurrentLease, toDateString } from './leases'
+import type { TenantRow } from '@/types/database'
+import type { Lease } from '@/types'
+
+// Nested select that returns a lease with its tenants, for mapLeaseRow
+export const LEASE_SELECT = '*, lease_tenants(tenant_id, is_primary, tenants(name))'
+
+// Leases fetched per request by the daily lease sync
+const LEASE_SYNC_PAGE_SIZE = 1000
+
+/**
+ * Read the tenant contact fields from a request body
+ * Returns an error message instead when the name is missing
+ */
+export function mapTenantBodyToRow(body: any): { row: Record<string, any>; error?: string } {
+  const text = (value: any) => (value ? String(value).trim() || null : null)
+  const row: Record<string, any> = {}
+
+  if (body.name !== undefined) {
+    row.name = text(body.name)
+    if (!row.name) {
+      return { row, error: 'Invalid request: name is required' }
+    }
+  }
+  if (body.email !== undefined) row.email = text(body.email)
+  if (body.phone !== undefined) row.phone = text(body.phone)
+  if (body.emergencyContactName !== undefined) row.emergency_contact_name = text(body.emergencyContactName)
+  if (body.emergencyContactPhone !== undefined) row.emergency_contact_phone = text(body.emergencyContactPhone)
+  if (body.notes !== undefined) row.notes = text(body.notes)
+
+  return { row }
+}
+
+/**
+ * Read the lease fields from a request body
+ * Only fields present in the body are returned; `existing` (the lease being updated)
+ * fills in the others when checking that the lease doesn't end before it starts and that
+ * a lease ended before its end date has a move-out date. Empty move-in/move-out dates
+ * clear them. tenantIds is returned separately, de-duplicated, when present.
+ */
+export function mapLeaseBodyToRow(
+  body: any,
+  existing?: { start_date: string; end_date: string; status: string; move_out_date: string | null }
+): { row: Record<string, any>; tenantIds?: string[]; error?: string } {
+  const row: Record<string, any> = {}
+  const isDate = (value: any) => /^\d{4}-\d{2}-\d{2}$/.test(String(value))
+
+  if (body.startDate !== undefined) {
+    if (!isDate(body.startDate)) {
+      return { row, error: 'Invalid request: startDate must be YYYY-MM-DD' }
+    }
+    row.start_date = body.startDate
+  }
+  if (body.endDate !== undefined) {
+    if (!isDate(body.endDate)) {
+      return { row, error: 'Invalid request: endDate must be YYYY-MM-DD' }
+    }
+    row.end_date = body.endDate
+  }
+
+  const startDate = row.start_date ?? existing?.start_date
+  const endDate = row.end_date ?? existing?.end_date
+  if (startDate && endDate && endDate < startDate) {
+    return { row, error: 'Invalid request: endDate must be on or after startDate' }
+  }
+
+  for (const [field, column] of [['moveInDate', 'move_in_date'], ['moveOutDate', 'move_out_date']]) {
+    if (body[field] !== undefined) {
+      if (body[field] && !isDate(body[field])) {
+        return { row, error: `Invalid request: ${field} must be YYYY-MM-DD` }
+      }
+      row[column] = body[field] || null
+    }
+  }
+
+  for (const [field, column] of [
+    ['monthlyRent', 'monthly_rent'],
+    ['securityDeposit', 'security_deposit'],
+    ['escalationValue', 'escalation_value'],
+  ]) {
+    if (body[field] !== undefined) {
+      const amount = Number(body[field])
+      if (body[field] === '' || isNaN(amount) || amount < 0) {
+        return { row, error: `Invalid request: ${field} must be a positive number` }
+      }
+      row[column] = amount
+    }
+  }
+
+  if (body.status !== undefined) {
+    if (!VALID_LEASE_STATUSES.includes(body.status)) {
+      return { row, error: `Invalid status: "${body.status}". Must be one of: ${VALID_LEASE_STATUSES.join(', ')}` }
+    }
+    row.status = body.status
+  }
+
+  // Occupancy runs a lease until its move-out date or else its end date, so a lease
+  // ended early needs the day its tenants left
+  const status = row.status ?? existing?.status
+  const moveOutDate = row.move_out_date !== undefined ? row.move_out_date : existing?.move_out_date
+  const changesEnd = body.status !== undefined || body.endDate !== undefined || body.moveOutDate !== undefined
+  if (changesEnd && status === 'ended' && !moveOutDate && endDate && endDate >= toDateString(new Date())) {
+    return { row, error: 'Invalid request: moveOutDate is required to end a lease before its end date' }
+  }
+
+  if (body.escalationType !== undefined) {
+    if (!VALID_ESCALATION_TYPES.includes(body.escalationType)) {
+      return { row, error: `Invalid escalationType: "${body.escalationType}". Must be one of: ${VALID_ESCALATION_TYPES.join(', ')}` }
+    }
+    row.escalation_type = body.escalationType
+  }
+
+  if (body.terms !== undefined) {
+    row.terms = body.terms ? String(body.terms).trim() || null : null
+  }
+
+  if (body.tenantIds === undefined) {
+    return { row }
+  }
+
+  if (!Array.isArray(body.tenantIds) || body.tenantIds.length === 0 || body.tenantIds.some((id: any) => typeof id !== 'string')) {
+    return { row, error: 'Invalid request: tenantIds must list at least one tenant' }
+  }
+
+  return { row, tenantIds: Array.from(new Set<string>(body.tenantIds)) }
+}
+
+/**
+ * Fetch a tenant if the user can access it
+ * Tenants are shared like properties: with their creator and the members of their workspace
+ * Returns null if the tenant doesn't exist or the user has no access
+ */
+export async function getAccessibleTenant(
+  userId: string,
+  tenantId: string
+): Promise<TenantRow | null> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  const { data: tenant, error } = await supabaseAdmin
+    .from('tenants')
+    .select('*')
+    .eq('id', tenantId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch tenant: ${error.message}`)
+  }
+
+  if (!tenant) {
+    return null
+  }
+
+  if (tenant.user_id === userId) {
+    return tenant as TenantRow
+  }
+
+  if (tenant.workspace_id) {
+    try {
+      const hasAccess = await userHasWorkspaceAccess(userId, tenant.workspace_id)
+      if (hasAccess) {
+        return tenant as TenantRow
+      }
+    } catch (workspaceError: any) {
+      // If workspace tables don't exist, only the creator has access
+      console.warn('Could not check workspace access:', workspaceError.message)
+    }
+  }
+
+  return null
+}
+
+/**
+ * Build the tenants filter (for `.or()`) matching every tenant the user can access
+ * Tenants carry the same user_id / workspace_id columns as properties
+ */
+export async function getAccessibleTenantsFilter(userId: string): Promise<string> {
+  return getAccessiblePropertiesFilter(userId)
+}
+
+/**
+ * Check that every tenant id is one the user can access
+ * Returns the ids that aren't
+ */
+export async function findInaccessibleTenantIds(userId: string, tenantIds: string[]): Promise<string[]> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  if (tenantIds.length === 0) {
+    return []
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('tenants')
+    .select('id')
+    .in('id', tenantIds)
+    .or(await getAccessibleTenantsFilter(userId))
+
+  if (error) {
+    throw new Error(`Failed to fetch tenants: ${error.message}`)
+  }
+
+  const accessible = new Set((data || []).map(row => row.id))
+  return tenantIds.filter(id => !accessible.has(id))
+}
+
+/**
+ * Fetch a lease scoped to its property, with its tenants
+ */
+export async function getPropertyLease(propertyId: string, leaseId: string) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('leases')
+    .select(LEASE_SELECT)
+    .eq('id', leaseId)
+    .eq('property_id', propertyId) // Ensure the lease belongs to this property
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch lease: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Replace the tenants on a lease; the first tenant is the primary one
+ */
+export async function setLeaseTenants(leaseId: string, tenantIds: string[]): Promise<void> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('lease_tenants')
+    .delete()
+    .eq('lease_id', leaseId)
+
+  if (deleteError) {
+    throw new Error(`Failed to update lease tenants: ${deleteError.message}`)
+  }
+
+  const { error } = await supabaseAdmin
+    .from('lease_tenants')
+    .insert(tenantIds.map((tenantId, index) => ({
+      lease_id: leaseId,
+      tenant_id: tenantId,
+      is_primary: index === 0,
+    })))
+
+  if (error) {
+    throw new Error(`Failed to update lease tenants: ${error.message}`)
+  }
+}
+
+/**
+ * Copy a unit's current lease onto its rent roll row: tenant names, dates, today's
+ * (escalated) rent and deposit
+ * The current lease is picked by pickCurrentLease. Units without a running or upcoming lease
+ * are left as they are. Returns the property's new monthly gross rent, or null if the unit
+ * wasn't changed.
+ */
+export async function syncUnitFromLeases(propertyId: string, unitId: string): Promise<number | null> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  const { data: leases, error } = await supabaseAdmin
+    .from('leases')
+    .select(LEASE_SELECT)
+    .eq('unit_id', unitId)
+    .order('start_date', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch leases: ${error.message}`)
+  }
+
+  const today = toDateString(new Date())
+  const current = pickCurrentLease((leases || []).map(mapLeaseRow), today)
+  if (!current) {
+    return null
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('rent_roll_units')
+    .update(getUnitColumnsFromLease(current, today))
+    .eq('id', unitId)
+
+  if (updateError) {
+    throw new Error(`Failed to update rent roll unit: ${updateError.message}`)
+  }
+
+  return recalculateMonthlyGrossRent(propertyId)
+}
+
+/**
+ * The rent roll unit columns a lease sets while it's the unit's current lease
+ */
+function getUnitColumnsFromLease(lease: Lease, today: string) {
+  const tenantNames = lease.tenants.map(tenant => tenant.name).filter(Boolean)
+  return {
+    tenant_name: tenantNames.join(' & ') || 'Unknown',
+    lease_start: lease.startDate,
+    lease_end: lease.endDate,
+    monthly_rent: getLeaseRentOn(lease, today),
+    security_deposit: lease.securityDeposit,
+  }
+}
+
+/**
+ * Bring rent roll units up to date with the leases that drive them
+ * Run daily by the rent escalation job (GET /api/cron/rent-escalations), across every property.
+ * Picks up rent escalations that have come due and units moving on to their next lease (e.g.
+ * a renewal starting the day after the old lease ends): units whose tenant, dates, rent or
+ * deposit no longer match their current lease are re-synced from it.
+ * Returns the number of units updated.
+ */
+export async function applyDueRentEscalations(): Promise<number> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  // Fetched a page at a time, since Supabase returns at most 1000 rows per request
+  const rows: any[] = []
+  for (let from = 0; ; from += LEASE_SYNC_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('leases')
+      .select(`${LEASE_SELECT}, rent_roll_units(tenant_name, lease_start, lease_end, monthly_rent, security_deposit)`)
+      .neq('status', 'draft')
+      .order('id', { ascending: true })
+      .range(from, from + LEASE_SYNC_PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch leases: ${error.message}`)
+    }
+
+    rows.push(...(data || []))
+    if (!data || data.length < LEASE_SYNC_PAGE_SIZE) break
+  }
+
+  const leasesByUnit: Record<string, any[]> = {}
+  rows.forEach(row => {
+    leasesByUnit[row.unit_id] = leasesByUnit[row.unit_id] || []
+    leasesByUnit[row.unit_id].push(row)
+  })
+
+  const today = toDateString(new Date())
+  const changedUnits: { propertyId: string; unitId: string }[] = []
+  Object.keys(leasesByUnit).forEach(unitId => {
+    const unitRows = leasesByUnit[unitId]
+    const unit = unitRows[0].rent_roll_units
+    const current = pickCurrentLease(unitRows.map(mapLeaseRow), today)
+    if (!current || !unit) return
+
+    const expected = getUnitColumnsFromLease(current, today)
+    const outdated =
+      unit.tenant_name !== expected.tenant_name ||
+      unit.lease_start !== expected.lease_start ||
+      unit.lease_end !== expected.lease_end ||
+      Number(unit.monthly_rent) !== expected.monthly_rent ||
+      Number(unit.security_deposit) !== expected.security_deposit
+    if (outdated) {
+      changedUnits.push({ propertyId: current.propertyId, unitId })
+    }
+  })
+
+  let updated = 0
+  for (const { propertyId, unitId } of changedUnits) {
+    try {
+      if (await syncUnitFromLeases(propertyId, unitId) !== null) updated++
+    } catch (syncError) {
+      // One unit failing shouldn't hold up the rest; it's retried on the next run
+      console.error(`Error applying rent escalation to unit ${unitId}:`, syncError)
+    }
+  }
+  return updated
+}
+
+/**
+ * Create the lease an accepted renewal offer leads to
+ * It continues the renewed lease on the offer's dates and rent, with the same tenants,
+ * deposit, terms and escalation. Returns the new lease's id.
+ */
+export async function createRenewalLease(lease: any, offer: any): Promise<string> {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase not configured')
+  }
+
+  const { data: renewal, error } = await supabaseAdmin
+    .from('leases')
+    .insert({
+      property_id: lease.property_id,
+      unit_id: lease.unit_id,
+      start_date: offer.start_date,
+      end_date: offer.end_date,
+      monthly_rent: offer.monthly_rent,
+      security_deposit: lease.security_deposit,
+      status: 'active',
+      terms: lease.terms,
+      escalation_type: lease.escalation_type,
+      escalation_value: lease.escalation_value,
+      renewed_from_lease_id: lease.id,
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create renewal lease: ${error.message}`)
+  }
+
+  try {
+    await setLeaseTenants(renewal.id, mapLeaseRow(lease).tenants.map(tenant => tenant.tenantId))
+  } catch (tenantsError) {
+    await supabaseAdmin.from('leases').delete().eq('id', renewal.id)
+    throw tenantsError
+  }
+
+  return renewal.id
+}
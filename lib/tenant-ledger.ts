@@ -0,0 +1,159 @@
+/**
+ * Tenant Ledger
+ *
+ * Ledger entry types and the balances derived from a lease's charges, payments
+ * and deposit movements, used to chase arrears
+ */
+
+import type { TenantLedgerEntry } from '@/types'
+
+export const TENANT_LEDGER_ENTRY_TYPES: {
+  value: TenantLedgerEntry['type']
+  label: string
+  kind: 'charge' | 'payment' | 'deposit'
+}[] = [
+  { value: 'rent', label: 'Rent Charge', kind: 'charge' },
+  { value: 'late_fee', label: 'Late Fee', kind: 'charge' },
+  { value: 'other_charge', label: 'Other Charge', kind: 'charge' },
+  { value: 'payment', label: 'Payment', kind: 'payment' },
+  { value: 'deposit_applied', label: 'Deposit Applied to Balance', kind: 'payment' },
+  { value: 'deposit_received', label: 'Deposit Received', kind: 'deposit' },
+  { value: 'deposit_returned', label: 'Deposit Returned', kind: 'deposit' },
+]
+
+export const VALID_TENANT_LEDGER_ENTRY_TYPES = TENANT_LEDGER_ENTRY_TYPES.map(t => t.value)
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * How an entry changes the balance owed: charges add to it, payments (including
+ * deposit applied to the balance) reduce it, other deposit movements don't touch it
+ */
+export function getBalanceChange(entry: TenantLedgerEntry): number {
+  const kind = TENANT_LEDGER_ENTRY_TYPES.find(t => t.value === entry.type)?.kind
+  if (kind === 'charge') return entry.amount
+  if (kind === 'payment') return -entry.amount
+  return 0
+}
+
+/**
+ * How an entry changes the security deposit held
+ */
+export function getDepositChange(entry: TenantLedgerEntry): number {
+  if (entry.type === 'deposit_received') return entry.amount
+  if (entry.type === 'deposit_returned' || entry.type === 'deposit_applied') return -entry.amount
+  return 0
+}
+
+export interface TenantLedgerSummary {
+  totalCharged: number
+  totalPaid: number
+  balance: number // Owed; negative when the tenant is in credit
+  lateFees: number
+  depositHeld: number
+  oldestUnpaidDate: string | null // Date of the oldest charge payments haven't covered yet
+  daysPastDue: number // Days since oldestUnpaidDate, 0 when nothing is overdue
+}
+
+/**
+ * Entries sorted oldest first; same-day entries keep the order they were recorded in
+ */
+function sortEntries(entries: TenantLedgerEntry[]): TenantLedgerEntry[] {
+  return [...entries].sort((a, b) =>
+    a.date === b.date ? a.createdAt.localeCompare(b.createdAt) : a.date.localeCompare(b.date)
+  )
+}
+
+/**
+ * Ledger entries oldest first, each with the balance owed after it
+ */
+export function withRunningBalance(
+  entries: TenantLedgerEntry[]
+): (TenantLedgerEntry & { balance: number })[] {
+  let balance = 0
+  return sortEntries(entries).map(entry => {
+    balance += getBalanceChange(entry)
+    return { ...entry, balance }
+  })
+}
+
+/**
+ * Summarize a ledger's balances
+ * Payments settle the oldest charges first, so the oldest charge that is still
+ * (partly) unpaid tells how far behind the tenant is
+ */
+export function summarizeTenantLedger(
+  entries: TenantLedgerEntry[],
+  today: Date = new Date()
+): TenantLedgerSummary {
+  const sorted = sortEntries(entries)
+  let totalCharged = 0
+  let totalPaid = 0
+  let lateFees = 0
+  let depositHeld = 0
+
+  sorted.forEach(entry => {
+    const change = getBalanceChange(entry)
+    if (change > 0) totalCharged += change
+    if (change < 0) totalPaid -= change
+    if (entry.type === 'late_fee') lateFees += entry.amount
+    depositHeld += getDepositChange(entry)
+  })
+
+  let unapplied = totalPaid
+  let oldestUnpaidDate: string | null = null
+  for (let i = 0; i < sorted.length; i++) {
+    const charge = getBalanceChange(sorted[i])
+    if (charge <= 0) continue
+    if (unapplied >= charge) {
+      unapplied -= charge
+      continue
+    }
+    oldestUnpaidDate = sorted[i].date
+    break
+  }
+
+  const todayDate = today.toISOString().split('T')[0]
+  const daysPastDue = oldestUnpaidDate && oldestUnpaidDate < todayDate
+    ? Math.floor((Date.parse(todayDate) - Date.parse(oldestUnpaidDate)) / MS_PER_DAY)
+    : 0
+
+  return {
+    totalCharged,
+    totalPaid,
+    balance: totalCharged - totalPaid,
+    lateFees,
+    depositHeld,
+    oldestUnpaidDate,
+    daysPastDue,
+  }
+}
+
+/**
+ * Combine the summaries of several leases, e.g. everything a tenant has been on
+ */
+export function combineLedgerSummaries(summaries: TenantLedgerSummary[]): TenantLedgerSummary {
+  return summaries.reduce<TenantLedgerSummary>(
+    (total, summary) => ({
+      totalCharged: total.totalCharged + summary.totalCharged,
+      totalPaid: total.totalPaid + summary.totalPaid,
+      balance: total.balance + summary.balance,
+      lateFees: total.lateFees + summary.lateFees,
+      depositHeld: total.depositHeld + summary.depositHeld,
+      oldestUnpaidDate:
+        !total.oldestUnpaidDate || (summary.oldestUnpaidDate && summary.oldestUnpaidDate < total.oldestUnpaidDate)
+          ? summary.oldestUnpaidDate
+          : total.oldestUnpaidDate,
+      daysPastDue: Math.max(total.daysPastDue, summary.daysPastDue),
+    }),
+    {
+      totalCharged: 0,
+      totalPaid: 0,
+      balance: 0,
+      lateFees: 0,
+      depositHeld: 0,
+      oldestUnpaidDate: null,
+      daysPastDue: 0,
+    }
+  )
+}
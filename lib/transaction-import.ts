@@ -0,0 +1,467 @@
+import { PropertyTransaction, TransactionImportRule } from "@/types"
+import { parseString } from "./csv-import"
+import { isIncomeCategory } from "./ledger"
+import { getStreetKey, normalizeAddress } from "./address"
+
+/**
+ * Transaction fields that can be imported from bank and QuickBooks CSV exports
+ * Banks export either a signed Amount column or separate Debit/Credit columns
+ */
+export type TransactionField =
+  | "date"
+  | "amount"
+  | "debit"
+  | "credit"
+  | "payee"
+  | "memo"
+  | "category"
+  | "property"
+
+/**
+ * Field mapping: maps internal TransactionField -> CSV header name
+ */
+export type TransactionFieldMapping = Partial<Record<TransactionField, string>>
+
+/**
+ * A CSV row mapped onto the ledger, before it is matched to a property
+ */
+export interface ImportedTransaction {
+  row: number // 1-based data row in the file, for error messages
+  date: string // YYYY-MM-DD
+  amount: number // Always positive; the category decides income vs expense
+  category: PropertyTransaction["category"]
+  payee: string
+  memo: string
+  propertyHint: string // Value of the mapped property/class column, if any
+}
+
+export interface PropertyMatch {
+  propertyId: string
+  matchedBy: "rule" | "address"
+}
+
+/**
+ * Infer which TransactionField a CSV header represents based on fuzzy matching
+ * Covers common bank layouts (Posting Date, Description, Debit, Credit) and
+ * QuickBooks transaction reports (Date, Name, Memo/Description, Class, Split, Amount)
+ */
+export function inferTransactionFieldFromHeader(header: string): TransactionField | null {
+  if (!header || typeof header !== "string") return null
+
+  const h = header.toLowerCase().trim().replace(/[^a-z0-9\s]/g, " ").replace(/\s+/g, " ").trim()
+
+  // Debit variations (money out)
+  if (
+    h.includes("debit") ||
+    h.includes("withdrawal") ||
+    h.includes("money out") ||
+    h.includes("paid out") ||
+    h === "payment" ||
+    h === "spent"
+  ) {
+    return "debit"
+  }
+
+  // Credit variations (money in)
+  if (
+    (h.includes("credit") && !h.includes("credit card")) ||
+    h.includes("deposit") ||
+    h.includes("money in") ||
+    h.includes("paid in") ||
+    h === "received"
+  ) {
+    return "credit"
+  }
+
+  // Date variations
+  if (
+    h.includes("date") ||
+    h === "posted" ||
+    h === "posting" ||
+    h === "day"
+  ) {
+    return "date"
+  }
+
+  // Amount variations
+  if (
+    h.includes("amount") ||
+    h === "total" ||
+    h === "value" ||
+    h === "net"
+  ) {
+    return "amount"
+  }
+
+  // Property variations (QuickBooks classes and locations are usually one per property)
+  if (
+    h.includes("property") ||
+    h.includes("address") ||
+    h.includes("customer job") ||
+    h === "class" ||
+    h === "location" ||
+    h === "unit"
+  ) {
+    return "property"
+  }
+
+  // Memo variations (checked before payee so QuickBooks "Memo/Description" lands here)
+  if (
+    h.includes("memo") ||
+    h.includes("note") ||
+    h.includes("reference") ||
+    h === "ref"
+  ) {
+    return "memo"
+  }
+
+  // Payee variations
+  if (
+    h.includes("payee") ||
+    h.includes("vendor") ||
+    h.includes("merchant") ||
+    h.includes("description") ||
+    h.includes("counterparty") ||
+    h === "name" ||
+    h === "customer"
+  ) {
+    return "payee"
+  }
+
+  // Category variations
+  if (
+    h.includes("category") ||
+    h.includes("gl account") ||
+    h === "split"
+  ) {
+    return "category"
+  }
+
+  return null
+}
+
+/**
+ * Generate initial transaction field mapping from CSV headers
+ */
+export function generateTransactionMapping(headers: string[]): TransactionFieldMapping {
+  const mapping: TransactionFieldMapping = {}
+
+  // Process headers in order, only assign if field hasn't been used
+  headers.forEach((header) => {
+    if (!header || header.trim() === "") return
+
+    const inferred = inferTransactionFieldFromHeader(header)
+    if (inferred && !mapping[inferred]) {
+      mapping[inferred] = header
+    }
+  })
+
+  return mapping
+}
+
+/**
+ * Validate that a date and an amount (or debit/credit) column are mapped
+ */
+export function validateTransactionMapping(
+  mapping: TransactionFieldMapping
+): { valid: boolean; missingFields: TransactionField[] } {
+  const missingFields: TransactionField[] = []
+  if (!mapping.date) missingFields.push("date")
+  if (!mapping.amount && !mapping.debit && !mapping.credit) missingFields.push("amount")
+
+  return {
+    valid: missingFields.length === 0,
+    missingFields,
+  }
+}
+
+/**
+ * Find the header row of a transaction export
+ * QuickBooks reports start with title and date-range lines, so the header is the
+ * first of the leading rows that maps a date and an amount; defaults to the first row
+ */
+export function findTransactionHeaderRow(rows: string[][], maxRows: number = 10): number {
+  const index = rows
+    .slice(0, maxRows)
+    .findIndex((row) => validateTransactionMapping(generateTransactionMapping(row)).valid)
+  return index === -1 ? 0 : index
+}
+
+function toDateString(year: number, month: number, day: number): string | null {
+  if (year < 100) year += year < 70 ? 2000 : 1900
+  if (month < 1 || month > 12 || day < 1) return null
+
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  if (day > lastDay) return null
+
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`
+}
+
+const MONTH_NAMES = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+]
+
+/**
+ * 1-12 for a month name or abbreviation ("jan", "sept", "january"), 0 if not a month
+ */
+function getMonthNumber(name: string): number {
+  if (name.length < 3) return 0
+  return MONTH_NAMES.findIndex((month) => month.startsWith(name)) + 1
+}
+
+/**
+ * Parse a transaction date into YYYY-MM-DD
+ * Accepts ISO (2024-01-31), US (01/31/2024, 1/31/24), European (31.01.2024) and
+ * written dates (Jan 31, 2024); slashed dates are read as month first unless that is impossible
+ * Returns null if the value is not a date (e.g. a QuickBooks "Total" row)
+ */
+export function parseTransactionDate(value: any): string | null {
+  const s = parseString(value)
+  if (!s) return null
+
+  // Drop a trailing time ("2024-01-31 00:00:00", "01/31/2024 12:00 AM")
+  const datePart = s.split(/[\sT]/)[0]
+
+  let match = datePart.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/)
+  if (match) {
+    return toDateString(Number(match[1]), Number(match[2]), Number(match[3]))
+  }
+
+  match = datePart.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/)
+  if (match) {
+    const first = Number(match[1])
+    const second = Number(match[2])
+    return first > 12
+      ? toDateString(Number(match[3]), second, first)
+      : toDateString(Number(match[3]), first, second)
+  }
+
+  match = datePart.match(/^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/)
+  if (match) {
+    return toDateString(Number(match[3]), Number(match[2]), Number(match[1]))
+  }
+
+  // Written dates: "Jan 31, 2024", "January 31 2024", "31 Jan 2024", "31-Jan-24"
+  const written = s.toLowerCase().replace(/,/g, " ").replace(/[-\s]+/g, " ").trim()
+  match = written.match(/^([a-z]{3,9}) (\d{1,2}) (\d{2}|\d{4})$/)
+  if (match && getMonthNumber(match[1])) {
+    return toDateString(Number(match[3]), getMonthNumber(match[1]), Number(match[2]))
+  }
+  match = written.match(/^(\d{1,2}) ([a-z]{3,9}) (\d{2}|\d{4})$/)
+  if (match && getMonthNumber(match[2])) {
+    return toDateString(Number(match[3]), getMonthNumber(match[2]), Number(match[1]))
+  }
+
+  return null
+}
+
+/**
+ * Parse a signed amount from a bank export
+ * Handles currency symbols, thousands separators, "(1,234.56)" and trailing "-" or "DR" for
+ * money out, and European decimal commas (1.234,56); returns null if the cell is empty or not a number
+ */
+export function parseSignedAmount(value: any): number | null {
+  let s = parseString(value)
+  if (!s) return null
+
+  let negative = false
+  if (/^\(.*\)$/.test(s)) {
+    negative = true
+    s = s.slice(1, -1)
+  }
+  if (/\bDR\b/i.test(s)) negative = true
+  s = s.replace(/\b(DR|CR)\b/gi, "")
+  if (s.includes("-")) negative = true
+
+  s = s.replace(/[^0-9.,]/g, "")
+  if (/^\d{1,3}(\.\d{3})*,\d{1,2}$/.test(s) || /^\d+,\d{1,2}$/.test(s)) {
+    s = s.replace(/\./g, "").replace(",", ".")
+  } else {
+    s = s.replace(/,/g, "")
+  }
+
+  const parsed = parseFloat(s)
+  if (isNaN(parsed) || !isFinite(parsed)) return null
+  return negative ? -parsed : parsed
+}
+
+const EXPENSE_CATEGORY_KEYWORDS: { category: PropertyTransaction["category"]; keywords: string[] }[] = [
+  { category: "mortgage", keywords: ["mortgage", "loan payment", "escrow", "principal", "interest"] },
+  { category: "property_tax", keywords: ["property tax", "real estate tax", "tax collector", "county treasurer", "taxes"] },
+  { category: "insurance", keywords: ["insur", "state farm", "allstate"] },
+  { category: "utilities", keywords: ["utilit", "electric", "water", "sewer", "gas", "trash", "waste", "internet"] },
+  { category: "management", keywords: ["management", "property manager", "mgmt"] },
+  { category: "repairs", keywords: ["repair", "maintenance", "plumb", "hvac", "handyman", "home depot", "lowes", "contractor"] },
+]
+
+function containsKeyword(text: string, keyword: string): boolean {
+  return new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`).test(text)
+}
+
+/**
+ * Infer a ledger category from the category column, payee and memo
+ * Income is rent when it mentions rent, otherwise other income; expenses fall back to other expense
+ */
+export function inferTransactionCategory(
+  texts: string[],
+  isIncome: boolean
+): PropertyTransaction["category"] {
+  const text = texts.join(" ").toLowerCase()
+
+  if (isIncome) {
+    return containsKeyword(text, "rent") ? "rent" : "other_income"
+  }
+
+  // Check each text in order so an explicit category column wins over the payee
+  for (const candidate of texts.map((t) => t.toLowerCase())) {
+    const match = EXPENSE_CATEGORY_KEYWORDS.find(({ keywords }) =>
+      keywords.some((keyword) => containsKeyword(candidate, keyword))
+    )
+    if (match) return match.category
+  }
+
+  return "other_expense"
+}
+
+/**
+ * Map a CSV row to an imported transaction using the field mapping
+ * Positive amounts (or credits) are income and negative amounts (or debits) are expenses
+ * Returns null for rows without a valid date or a non-zero amount (totals, balances, blank lines)
+ */
+export function mapCsvRowToTransaction(
+  row: string[],
+  headers: string[],
+  mapping: TransactionFieldMapping,
+  rowNumber: number
+): ImportedTransaction | null {
+  const get = (field: TransactionField): string => {
+    const header = mapping[field]
+    if (!header) return ""
+    const index = headers.indexOf(header)
+    return index === -1 ? "" : parseString(row[index])
+  }
+
+  const date = parseTransactionDate(get("date"))
+  if (!date) return null
+
+  let signedAmount = mapping.amount ? parseSignedAmount(get("amount")) : null
+  if (signedAmount === null) {
+    const credit = parseSignedAmount(get("credit"))
+    const debit = parseSignedAmount(get("debit"))
+    if (credit === null && debit === null) return null
+    signedAmount = Math.abs(credit ?? 0) - Math.abs(debit ?? 0)
+  }
+  if (signedAmount === 0) return null
+
+  const payee = get("payee")
+  const memo = get("memo")
+
+  return {
+    row: rowNumber,
+    date,
+    amount: Math.round(Math.abs(signedAmount) * 100) / 100,
+    category: inferTransactionCategory([get("category"), payee, memo], signedAmount > 0),
+    payee,
+    memo,
+    propertyHint: get("property"),
+  }
+}
+
+/**
+ * Ledger description for an imported transaction ("Payee - Memo")
+ */
+export function getImportedTransactionDescription(
+  transaction: Pick<ImportedTransaction, "payee" | "memo">
+): string {
+  return [transaction.payee, transaction.memo].filter(Boolean).join(" - ")
+}
+
+/**
+ * Match an imported transaction to a property
+ * Memo rules are checked first (the longest matching pattern wins), then the street line of
+ * each property's address is looked for in the property column, payee and memo. Bank memos are
+ * often truncated, so "123 Main" also matches "123 Main St" when no other property shares it.
+ */
+export function matchTransactionToProperty(
+  transaction: Pick<ImportedTransaction, "payee" | "memo" | "propertyHint">,
+  properties: { id: string; address: string }[],
+  rules: Pick<TransactionImportRule, "pattern" | "propertyId">[]
+): PropertyMatch | null {
+  const propertyIds = new Set(properties.map((p) => p.id))
+  const rawText = `${transaction.propertyHint} ${transaction.payee} ${transaction.memo}`.toLowerCase()
+
+  const rule = rules
+    .filter((r) => propertyIds.has(r.propertyId))
+    .map((r) => ({ ...r, pattern: r.pattern.trim().toLowerCase() }))
+    .filter((r) => r.pattern && rawText.includes(r.pattern))
+    .sort((a, b) => b.pattern.length - a.pattern.length)[0]
+
+  if (rule) {
+    return { propertyId: rule.propertyId, matchedBy: "rule" }
+  }
+
+  const text = ` ${normalizeAddress(rawText)} `
+  const streets = properties
+    .map((p) => ({ id: p.id, street: getStreetKey(p.address) }))
+    .filter((p) => /^\d/.test(p.street))
+
+  const fullMatch = streets
+    .filter((p) => text.includes(` ${p.street} `))
+    .sort((a, b) => b.street.length - a.street.length)[0]
+
+  if (fullMatch) {
+    return { propertyId: fullMatch.id, matchedBy: "address" }
+  }
+
+  const shortMatches = streets.filter((p) => {
+    const shortStreet = p.street.split(" ").slice(0, 2).join(" ")
+    return shortStreet.includes(" ") && text.includes(` ${shortStreet} `)
+  })
+
+  if (shortMatches.length === 1) {
+    return { propertyId: shortMatches[0].id, matchedBy: "address" }
+  }
+
+  return null
+}
+
+/**
+ * 53-bit string hash (cyrb53) rendered as hex
+ */
+function hashString(value: string): string {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (h2 >>> 0).toString(16).padStart(8, "0") + (h1 >>> 0).toString(16).padStart(8, "0")
+}
+
+/**
+ * Fingerprint each imported transaction so re-importing the same file doesn't create duplicates
+ * The fingerprint covers date, direction, amount, payee and memo. Identical rows within one file
+ * (two $25 fees on the same day) are told apart by their occurrence number, so overlapping
+ * exports still line up as long as each contains the same identical rows.
+ */
+export function buildImportHashes(
+  transactions: Pick<ImportedTransaction, "date" | "amount" | "category" | "payee" | "memo">[]
+): string[] {
+  const occurrences: Record<string, number> = {}
+
+  return transactions.map((t) => {
+    const key = [
+      t.date,
+      isIncomeCategory(t.category) ? "in" : "out",
+      t.amount.toFixed(2),
+      normalizeAddress(t.payee),
+      normalizeAddress(t.memo),
+    ].join("|")
+    occurrences[key] = (occurrences[key] || 0) + 1
+    return hashString(`${key}|${occurrences[key]}`)
+  })
+}
@@ -0,0 +1,129 @@
+/**
+ * Property Valuations
+ *
+ * Valuation sources, the value/equity history charted on the property Financial tab
+ * and annualized appreciation per property and across the portfolio
+ */
+
+import type { Property, PropertyValuation } from '@/types'
+import { calculateCurrentBalance } from './finance'
+
+export const VALUATION_SOURCES: { value: PropertyValuation['source']; label: string }[] = [
+  { value: 'purchase', label: 'Purchase Price' },
+  { value: 'appraisal', label: 'Appraisal' },
+  { value: 'estimate', label: 'Manual Estimate' },
+  { value: 'comps', label: 'Comparable Sales' },
+]
+
+export const VALID_VALUATION_SOURCES = VALUATION_SOURCES.map(s => s.value)
+
+// Shorter spans annualize small changes into wild rates, so appreciation isn't reported for them
+const MIN_APPRECIATION_YEARS = 0.25
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000
+
+export interface ValuePoint {
+  date: string // YYYY-MM-DD
+  value: number
+  loanBalance: number
+  equity: number
+}
+
+export interface Appreciation {
+  startDate: string
+  startValue: number
+  endDate: string
+  endValue: number
+  years: number
+  totalChange: number // %
+  annualizedRate: number // %, compound annual growth rate
+}
+
+/**
+ * Valuations sorted oldest first; same-day valuations keep the order they were recorded in
+ */
+function sortValuations(valuations: PropertyValuation[]): PropertyValuation[] {
+  return [...valuations].sort((a, b) =>
+    a.date === b.date ? a.createdAt.localeCompare(b.createdAt) : a.date.localeCompare(b.date)
+  )
+}
+
+/**
+ * Value and equity at each valuation date, oldest first
+ * When several valuations share a date, the last one recorded wins
+ */
+export function buildValueHistory(property: Property, valuations: PropertyValuation[]): ValuePoint[] {
+  const points: ValuePoint[] = []
+
+  sortValuations(valuations).forEach(valuation => {
+    const loanBalance = calculateCurrentBalance(property, new Date(`${valuation.date}T00:00:00Z`))
+    const point = {
+      date: valuation.date,
+      value: valuation.value,
+      loanBalance,
+      equity: valuation.value - loanBalance,
+    }
+
+    if (points.length > 0 && points[points.length - 1].date === valuation.date) {
+      points[points.length - 1] = point
+    } else {
+      points.push(point)
+    }
+  })
+
+  return points
+}
+
+/**
+ * Annualized appreciation from the first valuation to the last one on or before asOf
+ * Returns null without two valuations at least a quarter apart, or without a starting value
+ */
+export function calculateAppreciation(
+  valuations: PropertyValuation[],
+  asOf: Date = new Date()
+): Appreciation | null {
+  const asOfDate = asOf.toISOString().split('T')[0]
+  const sorted = sortValuations(valuations.filter(v => v.date <= asOfDate))
+  if (sorted.length < 2) {
+    return null
+  }
+
+  const start = sorted[0]
+  const end = sorted[sorted.length - 1]
+  const years = (Date.parse(end.date) - Date.parse(start.date)) / MS_PER_YEAR
+
+  if (start.value <= 0 || years < MIN_APPRECIATION_YEARS) {
+    return null
+  }
+
+  return {
+    startDate: start.date,
+    startValue: start.value,
+    endDate: end.date,
+    endValue: end.value,
+    years,
+    totalChange: ((end.value - start.value) / start.value) * 100,
+    annualizedRate: (Math.pow(end.value / start.value, 1 / years) - 1) * 100,
+  }
+}
+
+/**
+ * Portfolio appreciation: each property's annualized rate weighted by its starting value
+ * (times `weight`, e.g. our ownership share). Properties without appreciation are skipped;
+ * returns null when none have any.
+ */
+export function calculatePortfolioAppreciation(
+  items: { appreciation: Appreciation | null; weight?: number }[]
+): number | null {
+  let weightedRate = 0
+  let totalWeight = 0
+
+  items.forEach(({ appreciation, weight = 1 }) => {
+    if (!appreciation) return
+    const itemWeight = appreciation.startValue * weight
+    weightedRate += appreciation.annualizedRate * itemWeight
+    totalWeight += itemWeight
+  })
+
+  return totalWeight > 0 ? weightedRate / totalWeight : null
+}
@@ -0,0 +1,51 @@
+import { WorkRequest, WorkRequestStatusChange } from "@/types"
+
+/**
+ * Parse a database timestamp
+ * TIMESTAMP columns have no timezone and are written in UTC by NOW()
+ */
+function parseTimestamp(value: string): number {
+  const hasTimezone = /(Z|[+-]\d{2}:?\d{2})$/.test(value)
+  return new Date(hasTimezone ? value : `${value}Z`).getTime()
+}
+
+/**
+ * Calculate how long a work request spent in each status, in milliseconds
+ * The current status keeps accruing time until `now`, except once completed
+ */
+export function calculateTimeInStatus(
+  history: WorkRequestStatusChange[],
+  now: Date = new Date()
+): Partial<Record<WorkRequest["status"], number>> {
+  const durations: Partial<Record<WorkRequest["status"], number>> = {}
+  const sorted = [...history].sort(
+    (a, b) => parseTimestamp(a.changedAt) - parseTimestamp(b.changedAt)
+  )
+
+  sorted.forEach((change, index) => {
+    const next = sorted[index + 1]
+    if (!next && change.toStatus === "completed") return
+
+    const start = parseTimestamp(change.changedAt)
+    const end = next ? parseTimestamp(next.changedAt) : now.getTime()
+    durations[change.toStatus] = (durations[change.toStatus] || 0) + Math.max(0, end - start)
+  })
+
+  return durations
+}
+
+/**
+ * Format a duration in milliseconds as a short label (e.g. "3d 4h", "5h", "12m")
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000)
+  const hours = Math.floor(minutes / 60)
+  const days = Math.floor(hours / 24)
+
+  if (days > 0) {
+    const remainingHours = hours % 24
+    return remainingHours > 0 ? `${days}d ${remainingHours}h` : `${days}d`
+  }
+  if (hours > 0) return `${hours}h`
+  return `${minutes}m`
+}
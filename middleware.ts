@@ -5,6 +5,7 @@ const isPublicRoute = createRouteMatcher([
   "/",
   "/sign-in(.*)",
   "/sign-up(.*)",
+  "/api/cron(.*)", // Scheduled jobs authorize themselves with CRON_SECRET
 ]);
 
 export default clerkMiddleware(async (auth, request) => {
@@ -0,0 +1,38 @@
+-- Migration to add saved import mapping profiles
+-- Run this in your Supabase SQL editor
+--
+-- A profile remembers how a property import file's columns map onto property
+-- fields. The import dialog picks a profile automatically when an incoming
+-- file's headers match its header_signature.
+
+CREATE TABLE IF NOT EXISTS import_mapping_profiles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  workspace_id TEXT NOT NULL,
+  created_by TEXT NOT NULL, -- Clerk user ID
+  name TEXT NOT NULL,
+  mapping JSONB NOT NULL DEFAULT '{}', -- Target field (built-in or custom_*) -> CSV header
+  header_signature TEXT NOT NULL, -- Normalized, sorted headers of the file the profile was saved from
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(workspace_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_mapping_profiles_workspace_id ON import_mapping_profiles(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_import_mapping_profiles_header_signature ON import_mapping_profiles(header_signature);
+
+ALTER TABLE import_mapping_profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view import mapping profiles" ON import_mapping_profiles;
+DROP POLICY IF EXISTS "Users can manage import mapping profiles" ON import_mapping_profiles;
+
+CREATE POLICY "Users can view import mapping profiles"
+  ON import_mapping_profiles FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can manage import mapping profiles"
+  ON import_mapping_profiles FOR ALL
+  USING (true);
+
+DROP TRIGGER IF EXISTS update_import_mapping_profiles_updated_at ON import_mapping_profiles;
+CREATE TRIGGER update_import_mapping_profiles_updated_at BEFORE UPDATE ON import_mapping_profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
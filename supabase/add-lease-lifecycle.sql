@@ -0,0 +1,80 @@
+-- Migration to add the lease lifecycle: status, terms, rent escalations, move-in/move-out
+-- dates and renewal offers
+-- Run this in your Supabase SQL editor (after add-tenants-and-leases.sql)
+--
+-- monthly_rent stays the first-year rent; escalations are applied on each anniversary of
+-- start_date. Accepting a renewal offer creates a new lease with renewed_from_lease_id set.
+
+ALTER TABLE leases ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active';
+ALTER TABLE leases ADD COLUMN IF NOT EXISTS terms TEXT;
+ALTER TABLE leases ADD COLUMN IF NOT EXISTS escalation_type TEXT NOT NULL DEFAULT 'none';
+ALTER TABLE leases ADD COLUMN IF NOT EXISTS escalation_value DECIMAL(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE leases ADD COLUMN IF NOT EXISTS move_in_date DATE;
+ALTER TABLE leases ADD COLUMN IF NOT EXISTS move_out_date DATE;
+ALTER TABLE leases ADD COLUMN IF NOT EXISTS renewed_from_lease_id UUID REFERENCES leases(id) ON DELETE SET NULL;
+
+ALTER TABLE leases DROP CONSTRAINT IF EXISTS leases_status_check;
+ALTER TABLE leases ADD CONSTRAINT leases_status_check
+  CHECK (status IN ('draft', 'active', 'ended'));
+
+ALTER TABLE leases DROP CONSTRAINT IF EXISTS leases_escalation_type_check;
+ALTER TABLE leases ADD CONSTRAINT leases_escalation_type_check
+  CHECK (escalation_type IN ('none', 'percent', 'amount'));
+
+ALTER TABLE leases DROP CONSTRAINT IF EXISTS leases_escalation_value_check;
+ALTER TABLE leases ADD CONSTRAINT leases_escalation_value_check
+  CHECK (escalation_value >= 0);
+
+-- Existing leases moved in when they started; the ones already over are ended
+UPDATE leases SET move_in_date = start_date WHERE move_in_date IS NULL;
+UPDATE leases SET status = 'ended' WHERE status = 'active' AND end_date < CURRENT_DATE;
+
+-- A lease ended before its end date runs until its move-out date; ones ended without
+-- recording it moved out when they were ended
+UPDATE leases SET move_out_date = updated_at::date
+WHERE status = 'ended' AND move_out_date IS NULL AND end_date >= CURRENT_DATE;
+
+CREATE TABLE IF NOT EXISTS lease_renewal_offers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  lease_id UUID NOT NULL REFERENCES leases(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL, -- Clerk user ID of whoever made the offer
+  offered_on DATE NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL CHECK (end_date >= start_date),
+  monthly_rent DECIMAL(10, 2) NOT NULL CHECK (monthly_rent >= 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'withdrawn')),
+  responded_on DATE,
+  renewal_lease_id UUID REFERENCES leases(id) ON DELETE SET NULL, -- The lease created when the offer was accepted
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lease_renewal_offers_lease_id ON lease_renewal_offers(lease_id);
+
+ALTER TABLE lease_renewal_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view lease renewal offers for their leases" ON lease_renewal_offers;
+DROP POLICY IF EXISTS "Users can manage lease renewal offers for their leases" ON lease_renewal_offers;
+
+CREATE POLICY "Users can view lease renewal offers for their leases"
+  ON lease_renewal_offers FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM leases
+      WHERE leases.id = lease_renewal_offers.lease_id
+    )
+  );
+
+CREATE POLICY "Users can manage lease renewal offers for their leases"
+  ON lease_renewal_offers FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM leases
+      WHERE leases.id = lease_renewal_offers.lease_id
+    )
+  );
+
+DROP TRIGGER IF EXISTS update_lease_renewal_offers_updated_at ON lease_renewal_offers;
+CREATE TRIGGER update_lease_renewal_offers_updated_at BEFORE UPDATE ON lease_renewal_offers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,19 @@
+-- Migration to add per-property loan terms
+-- Run this in your Supabase SQL editor
+--
+-- Used by lib/finance.ts for the amortization schedule, loan balance,
+-- equity, cash-on-cash return and DSCR.
+
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS down_payment DECIMAL(12, 2); -- NULL = unknown
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS interest_rate DECIMAL(6, 3); -- Annual rate, in percent
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS amortization_years INTEGER;
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS loan_origination_date DATE;
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS closing_costs DECIMAL(12, 2) NOT NULL DEFAULT 0;
+
+-- Bring the properties list view (add-property-list-view.sql) up to date with the new columns
+DO $$
+BEGIN
+  IF to_regprocedure('refresh_property_list_view()') IS NOT NULL THEN
+    PERFORM refresh_property_list_view();
+  END IF;
+END $$;
@@ -0,0 +1,67 @@
+-- Migration to add the property_occupancy_snapshots table (occupancy history)
+-- Run this in your Supabase SQL editor (after add-lease-lifecycle.sql)
+--
+-- A snapshot of a property's status, units occupied and gross rent is taken whenever one
+-- of them changes, and holds until the next one. Unit-level vacancy comes from lease dates;
+-- the snapshots cover the property status and units that have no leases.
+
+CREATE TABLE IF NOT EXISTS property_occupancy_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('rented', 'vacant', 'under_maintenance', 'sold')),
+  total_units INTEGER NOT NULL DEFAULT 0,
+  occupied_units INTEGER NOT NULL DEFAULT 0,
+  monthly_gross_rent DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(property_id, date) -- The last change of the day wins
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_occupancy_snapshots_property_id ON property_occupancy_snapshots(property_id);
+CREATE INDEX IF NOT EXISTS idx_property_occupancy_snapshots_date ON property_occupancy_snapshots(date);
+
+ALTER TABLE property_occupancy_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view occupancy snapshots for their properties" ON property_occupancy_snapshots;
+DROP POLICY IF EXISTS "Users can manage occupancy snapshots for their properties" ON property_occupancy_snapshots;
+
+CREATE POLICY "Users can view occupancy snapshots for their properties"
+  ON property_occupancy_snapshots FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_occupancy_snapshots.property_id
+    )
+  );
+
+CREATE POLICY "Users can manage occupancy snapshots for their properties"
+  ON property_occupancy_snapshots FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_occupancy_snapshots.property_id
+    )
+  );
+
+DROP TRIGGER IF EXISTS update_property_occupancy_snapshots_updated_at ON property_occupancy_snapshots;
+CREATE TRIGGER update_property_occupancy_snapshots_updated_at BEFORE UPDATE ON property_occupancy_snapshots
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Start each property's history when it was added, with its current status and rent roll
+-- (the earliest lease start counts as when it was added, for properties older than this app)
+INSERT INTO property_occupancy_snapshots (property_id, date, status, total_units, occupied_units, monthly_gross_rent)
+SELECT
+  p.id,
+  LEAST(
+    COALESCE(p.created_at, NOW())::date,
+    COALESCE((SELECT MIN(l.start_date) FROM leases l WHERE l.property_id = p.id), CURRENT_DATE)
+  ),
+  p.status,
+  (SELECT COUNT(*) FROM rent_roll_units u WHERE u.property_id = p.id),
+  (SELECT COUNT(*) FROM rent_roll_units u WHERE u.property_id = p.id AND p.status = 'rented'),
+  COALESCE(p.monthly_gross_rent, 0)
+FROM properties p
+WHERE NOT EXISTS (
+  SELECT 1 FROM property_occupancy_snapshots s WHERE s.property_id = p.id
+);
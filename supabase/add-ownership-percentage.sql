@@ -0,0 +1,46 @@
+-- Migration to replace the fixed ownership labels with a numeric equity share
+-- Run this in your Supabase SQL editor
+--
+-- ownership_percentage is our share of the property (0-100].
+-- partners holds the other owners as [{ "name": "...", "percentage": 25 }].
+
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS ownership_percentage DECIMAL(5, 2) NOT NULL DEFAULT 100;
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS partners JSONB NOT NULL DEFAULT '[]';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'properties'
+    AND constraint_name = 'properties_ownership_percentage_check'
+  ) THEN
+    ALTER TABLE properties
+    ADD CONSTRAINT properties_ownership_percentage_check
+    CHECK (ownership_percentage > 0 AND ownership_percentage <= 100);
+  END IF;
+END $$;
+
+-- Carry over the old labels ('50% partner' -> 50), then drop the old column
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'properties' AND column_name = 'ownership'
+  ) THEN
+    UPDATE properties
+    SET ownership_percentage = substring(ownership FROM '^(\d+)%')::DECIMAL
+    WHERE ownership ~ '^\d+%';
+
+    ALTER TABLE properties DROP CONSTRAINT IF EXISTS properties_ownership_check;
+    DROP VIEW IF EXISTS property_list; -- Depends on every column; rebuilt below
+    ALTER TABLE properties DROP COLUMN ownership;
+  END IF;
+END $$;
+
+-- Bring the properties list view (add-property-list-view.sql) up to date with the new columns
+DO $$
+BEGIN
+  IF to_regprocedure('refresh_property_list_view()') IS NOT NULL THEN
+    PERFORM refresh_property_list_view();
+  END IF;
+END $$;
@@ -0,0 +1,85 @@
+-- Migration to add persisted custom property field definitions
+-- Run this in your Supabase SQL editor
+--
+-- Custom field values stay in properties.custom_fields, keyed custom_<field id>.
+-- This table stores the column definitions (name, type, select options, order)
+-- for each workspace so the values keep their headers across reloads.
+
+CREATE TABLE IF NOT EXISTS property_custom_fields (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  workspace_id TEXT NOT NULL,
+  created_by TEXT NOT NULL, -- Clerk user ID
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('text', 'number', 'currency', 'date', 'select', 'boolean', 'url')),
+  options JSONB, -- Allowed values for select fields
+  position INTEGER NOT NULL DEFAULT 0, -- Column order, ascending
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(workspace_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_custom_fields_workspace_id ON property_custom_fields(workspace_id);
+
+ALTER TABLE property_custom_fields ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view property custom fields" ON property_custom_fields;
+DROP POLICY IF EXISTS "Users can manage property custom fields" ON property_custom_fields;
+
+CREATE POLICY "Users can view property custom fields"
+  ON property_custom_fields FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can manage property custom fields"
+  ON property_custom_fields FOR ALL
+  USING (true);
+
+DROP TRIGGER IF EXISTS update_property_custom_fields_updated_at ON property_custom_fields;
+CREATE TRIGGER update_property_custom_fields_updated_at BEFORE UPDATE ON property_custom_fields
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Define the custom values saved before definitions were stored, so they're kept and shown again.
+-- Their names were never saved: each gets a placeholder name (rename it in the app) and is a
+-- number field if every value is a number, else a text field. The values are moved to the
+-- custom_<id> key of their new definition.
+DO $$
+DECLARE
+  legacy RECORD;
+  new_field_id UUID;
+BEGIN
+  FOR legacy IN
+    SELECT
+      p.workspace_id,
+      entry.key,
+      MIN(p.user_id) AS created_by,
+      BOOL_AND(jsonb_typeof(entry.value) = 'number') AS is_number
+    FROM properties p
+    CROSS JOIN LATERAL jsonb_each(p.custom_fields) AS entry
+    WHERE p.workspace_id IS NOT NULL
+      AND jsonb_typeof(p.custom_fields) = 'object'
+      AND entry.key LIKE 'custom\_%'
+      AND NOT EXISTS (
+        SELECT 1 FROM property_custom_fields f
+        WHERE f.workspace_id = p.workspace_id AND 'custom_' || f.id::TEXT = entry.key
+      )
+    GROUP BY p.workspace_id, entry.key
+    ORDER BY p.workspace_id, entry.key
+  LOOP
+    INSERT INTO property_custom_fields (workspace_id, created_by, name, type, position)
+    VALUES (
+      legacy.workspace_id,
+      legacy.created_by,
+      'Unnamed (' || legacy.key || ')',
+      CASE WHEN legacy.is_number THEN 'number' ELSE 'text' END,
+      COALESCE((SELECT MAX(position) + 1 FROM property_custom_fields WHERE workspace_id = legacy.workspace_id), 0)
+    )
+    ON CONFLICT (workspace_id, name) DO NOTHING
+    RETURNING id INTO new_field_id;
+
+    IF new_field_id IS NOT NULL THEN
+      UPDATE properties
+      SET custom_fields = (custom_fields - legacy.key) || jsonb_build_object('custom_' || new_field_id::TEXT, custom_fields -> legacy.key)
+      WHERE workspace_id = legacy.workspace_id
+        AND custom_fields ? legacy.key;
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,52 @@
+-- Migration to add the property_documents table
+-- Run this in your Supabase SQL editor
+--
+-- File contents live in the configured storage backend (see lib/storage),
+-- this table only holds the metadata. For production, also create a private
+-- Supabase Storage bucket named "property-documents" (or set SUPABASE_STORAGE_BUCKET).
+
+CREATE TABLE IF NOT EXISTS property_documents (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL, -- Clerk user ID of the uploader
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL DEFAULT 0,
+  storage_key TEXT NOT NULL UNIQUE, -- Path of the file in the storage backend
+  category TEXT NOT NULL CHECK (category IN ('insurance', 'tax_bill', 'mortgage', 'lease', 'inspection')),
+  expiry_date DATE, -- Optional, e.g. insurance policy or lease end
+  metadata JSONB NOT NULL DEFAULT '{}', -- Free-form key/value pairs (policy number, provider, ...)
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_documents_property_id ON property_documents(property_id);
+CREATE INDEX IF NOT EXISTS idx_property_documents_category ON property_documents(category);
+CREATE INDEX IF NOT EXISTS idx_property_documents_expiry_date ON property_documents(expiry_date);
+
+ALTER TABLE property_documents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view documents for their properties" ON property_documents;
+DROP POLICY IF EXISTS "Users can manage documents for their properties" ON property_documents;
+
+CREATE POLICY "Users can view documents for their properties"
+  ON property_documents FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_documents.property_id
+    )
+  );
+
+CREATE POLICY "Users can manage documents for their properties"
+  ON property_documents FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_documents.property_id
+    )
+  );
+
+DROP TRIGGER IF EXISTS update_property_documents_updated_at ON property_documents;
+CREATE TRIGGER update_property_documents_updated_at BEFORE UPDATE ON property_documents
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
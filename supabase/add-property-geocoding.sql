@@ -0,0 +1,41 @@
+-- Migration to add structured addresses and coordinates to properties
+-- Run this in your Supabase SQL editor
+--
+-- Filled in by the geocoder (see lib/geocoding) when a property is saved or
+-- when the properties map geocodes the ones that are missing.
+
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS street TEXT;
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS city TEXT;
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS state TEXT; -- Two-letter code
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS zip TEXT;
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS latitude DECIMAL(9, 6);
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS longitude DECIMAL(9, 6);
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS geocoded_at TIMESTAMP; -- Last geocoding attempt; NULL = not tried yet
+
+-- Bring the properties list view (add-property-list-view.sql) up to date with the new columns
+DO $$
+BEGIN
+  IF to_regprocedure('refresh_property_list_view()') IS NOT NULL THEN
+    PERFORM refresh_property_list_view();
+  END IF;
+END $$;
+
+-- updated_at is the concurrency token for edits (see PATCH /api/properties/[id]), so writes
+-- that only fill in the geocoded location don't bump it and don't conflict with edits of rows
+-- loaded before the geocoder ran
+CREATE OR REPLACE FUNCTION update_properties_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF to_jsonb(NEW) - ARRAY['street', 'city', 'state', 'zip', 'latitude', 'longitude', 'geocoded_at', 'monthly_cashflow', 'updated_at']
+    = to_jsonb(OLD) - ARRAY['street', 'city', 'state', 'zip', 'latitude', 'longitude', 'geocoded_at', 'monthly_cashflow', 'updated_at'] THEN
+    NEW.updated_at = OLD.updated_at;
+  ELSE
+    NEW.updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_properties_updated_at ON properties;
+CREATE TRIGGER update_properties_updated_at BEFORE UPDATE ON properties
+  FOR EACH ROW EXECUTE FUNCTION update_properties_updated_at_column();
@@ -0,0 +1,99 @@
+-- Migration to sort, filter and page the properties list in the database
+-- Run this in your Supabase SQL editor
+--
+-- GET /api/properties reads the property_list view: properties plus a stored monthly_cashflow
+-- and a computed roe, so every sort and filter runs in SQL with keyset pagination.
+-- The view is (re)built by refresh_property_list_view(), which the migrations that change the
+-- properties columns call when the view exists. Needs the loan terms (add-loan-terms.sql).
+
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS monthly_cashflow DECIMAL(12, 2) GENERATED ALWAYS AS (
+  monthly_gross_rent - monthly_mortgage_payment - monthly_insurance - monthly_property_tax - monthly_other_costs
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_properties_created_at ON properties(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_properties_current_est_value ON properties(current_est_value, id);
+CREATE INDEX IF NOT EXISTS idx_properties_monthly_cashflow ON properties(monthly_cashflow, id);
+
+-- Remaining loan balance as of a date, matching lib/finance.ts calculateCurrentBalance:
+-- payments fall on the origination day of each following month; without complete loan
+-- terms the original loan amount is assumed to be outstanding
+CREATE OR REPLACE FUNCTION property_loan_balance(
+  p_purchase_price NUMERIC,
+  p_total_mortgage_amount NUMERIC,
+  p_down_payment NUMERIC,
+  p_interest_rate NUMERIC,
+  p_amortization_years INTEGER,
+  p_loan_origination_date DATE,
+  p_as_of DATE
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  loan NUMERIC;
+  payments INTEGER;
+  paid INTEGER;
+  monthly_rate DOUBLE PRECISION;
+  payment DOUBLE PRECISION;
+  growth DOUBLE PRECISION;
+BEGIN
+  loan := GREATEST(0, p_purchase_price - COALESCE(
+    p_down_payment,
+    CASE WHEN p_total_mortgage_amount <> 0 THEN GREATEST(0, p_purchase_price - p_total_mortgage_amount) ELSE p_purchase_price END
+  ));
+  payments := ROUND(COALESCE(p_amortization_years, 0) * 12);
+  IF loan <= 0 OR payments <= 0 OR p_loan_origination_date IS NULL THEN
+    RETURN loan;
+  END IF;
+
+  paid := (EXTRACT(YEAR FROM p_as_of) - EXTRACT(YEAR FROM p_loan_origination_date)) * 12
+    + EXTRACT(MONTH FROM p_as_of) - EXTRACT(MONTH FROM p_loan_origination_date);
+  IF p_loan_origination_date + make_interval(months => paid) > p_as_of THEN
+    paid := paid - 1;
+  END IF;
+  paid := LEAST(GREATEST(paid, 0), payments);
+  IF paid = 0 THEN
+    RETURN loan;
+  END IF;
+
+  monthly_rate := COALESCE(p_interest_rate, 0) / 100 / 12;
+  IF monthly_rate = 0 THEN
+    RETURN GREATEST(0, loan - loan / payments * paid);
+  END IF;
+
+  growth := POWER(1 + monthly_rate, paid);
+  payment := loan * monthly_rate / (1 - POWER(1 + monthly_rate, -payments));
+  RETURN GREATEST(0, ROUND((loan * growth - payment * (growth - 1) / monthly_rate)::NUMERIC, 2));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Properties with their return on equity, for sorting and filtering the properties list
+-- (GET /api/properties). ROE depends on today's loan balance, so it can't be a stored column.
+-- Rounded so the value survives a round trip through a pagination cursor.
+-- p.* is expanded when the view is created, so the migrations that add or drop properties
+-- columns call refresh_property_list_view() afterwards to bring the view up to date.
+CREATE OR REPLACE FUNCTION refresh_property_list_view()
+RETURNS VOID AS $$
+BEGIN
+  DROP VIEW IF EXISTS property_list;
+  CREATE VIEW property_list WITH (security_invoker = true) AS
+  SELECT
+    p.*,
+    CASE
+      WHEN equity.value > 0 THEN ROUND(p.monthly_cashflow * 12 / equity.value * 100, 4)
+      ELSE 0
+    END AS roe
+  FROM properties p
+  CROSS JOIN LATERAL (
+    SELECT p.current_est_value - property_loan_balance(
+      p.purchase_price,
+      p.total_mortgage_amount,
+      p.down_payment,
+      p.interest_rate,
+      p.amortization_years,
+      p.loan_origination_date,
+      CURRENT_DATE
+    ) AS value
+  ) equity;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT refresh_property_list_view();
@@ -0,0 +1,67 @@
+-- Migration to add the property_photos table and properties.cover_photo_id
+-- Run this in your Supabase SQL editor
+--
+-- Originals and thumbnails live in the configured storage backend (see lib/storage),
+-- alongside property documents; this table only holds the metadata.
+
+CREATE TABLE IF NOT EXISTS property_photos (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  unit_id UUID REFERENCES rent_roll_units(id) ON DELETE CASCADE, -- Set for photos of a single unit
+  user_id TEXT NOT NULL, -- Clerk user ID of the uploader
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL DEFAULT 0,
+  width INTEGER,
+  height INTEGER,
+  storage_key TEXT NOT NULL UNIQUE, -- Path of the original in the storage backend
+  thumbnail_key TEXT NOT NULL UNIQUE, -- Path of the generated JPEG thumbnail
+  caption TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_photos_property_id ON property_photos(property_id);
+CREATE INDEX IF NOT EXISTS idx_property_photos_unit_id ON property_photos(unit_id);
+
+-- The cover photo shown in the properties list and details header
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS cover_photo_id UUID;
+ALTER TABLE properties DROP CONSTRAINT IF EXISTS properties_cover_photo_id_fkey;
+ALTER TABLE properties
+  ADD CONSTRAINT properties_cover_photo_id_fkey
+  FOREIGN KEY (cover_photo_id) REFERENCES property_photos(id) ON DELETE SET NULL;
+
+ALTER TABLE property_photos ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view photos for their properties" ON property_photos;
+DROP POLICY IF EXISTS "Users can manage photos for their properties" ON property_photos;
+
+CREATE POLICY "Users can view photos for their properties"
+  ON property_photos FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_photos.property_id
+    )
+  );
+
+CREATE POLICY "Users can manage photos for their properties"
+  ON property_photos FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_photos.property_id
+    )
+  );
+
+DROP TRIGGER IF EXISTS update_property_photos_updated_at ON property_photos;
+CREATE TRIGGER update_property_photos_updated_at BEFORE UPDATE ON property_photos
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Bring the properties list view (add-property-list-view.sql) up to date with the new columns
+DO $$
+BEGIN
+  IF to_regprocedure('refresh_property_list_view()') IS NOT NULL THEN
+    PERFORM refresh_property_list_view();
+  END IF;
+END $$;
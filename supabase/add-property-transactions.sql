@@ -0,0 +1,59 @@
+-- Migration to add the property_transactions table (property ledger)
+-- Run this in your Supabase SQL editor
+--
+-- amount is always positive; the category decides whether a transaction is
+-- income (rent, other_income) or an expense. Work request costs are posted
+-- here automatically (source = 'work_request').
+
+CREATE TABLE IF NOT EXISTS property_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL, -- Clerk user ID of whoever recorded it
+  date DATE NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount >= 0),
+  category TEXT NOT NULL CHECK (category IN ('rent', 'other_income', 'repairs', 'property_tax', 'insurance', 'mortgage', 'utilities', 'management', 'other_expense')),
+  description TEXT,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'work_request', 'import')),
+  work_request_id UUID UNIQUE REFERENCES work_requests(id) ON DELETE CASCADE, -- Set when posted from a work request
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_transactions_property_id ON property_transactions(property_id);
+CREATE INDEX IF NOT EXISTS idx_property_transactions_date ON property_transactions(date);
+CREATE INDEX IF NOT EXISTS idx_property_transactions_category ON property_transactions(category);
+
+ALTER TABLE property_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view transactions for their properties" ON property_transactions;
+DROP POLICY IF EXISTS "Users can manage transactions for their properties" ON property_transactions;
+
+CREATE POLICY "Users can view transactions for their properties"
+  ON property_transactions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_transactions.property_id
+    )
+  );
+
+CREATE POLICY "Users can manage transactions for their properties"
+  ON property_transactions FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_transactions.property_id
+    )
+  );
+
+DROP TRIGGER IF EXISTS update_property_transactions_updated_at ON property_transactions;
+CREATE TRIGGER update_property_transactions_updated_at BEFORE UPDATE ON property_transactions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Post existing work request costs to the ledger
+INSERT INTO property_transactions (property_id, user_id, date, amount, category, description, source, work_request_id)
+SELECT wr.property_id, p.user_id, wr.date_logged, wr.cost, 'repairs', wr.description, 'work_request', wr.id
+FROM work_requests wr
+JOIN properties p ON p.id = wr.property_id
+WHERE wr.cost > 0
+ON CONFLICT (work_request_id) DO NOTHING;
@@ -0,0 +1,56 @@
+-- Migration to add the property_valuations table (valuation history)
+-- Run this in your Supabase SQL editor
+--
+-- Each row is a dated value from a purchase, appraisal, manual estimate or comps.
+-- The most recent valuation is mirrored into properties.current_est_value.
+
+CREATE TABLE IF NOT EXISTS property_valuations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL, -- Clerk user ID of whoever recorded it
+  date DATE NOT NULL,
+  value DECIMAL(12, 2) NOT NULL CHECK (value >= 0),
+  source TEXT NOT NULL DEFAULT 'estimate' CHECK (source IN ('purchase', 'appraisal', 'estimate', 'comps')),
+  notes TEXT, -- e.g. the appraiser or the comps used
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_valuations_property_id ON property_valuations(property_id);
+CREATE INDEX IF NOT EXISTS idx_property_valuations_date ON property_valuations(date);
+
+ALTER TABLE property_valuations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view valuations for their properties" ON property_valuations;
+DROP POLICY IF EXISTS "Users can manage valuations for their properties" ON property_valuations;
+
+CREATE POLICY "Users can view valuations for their properties"
+  ON property_valuations FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_valuations.property_id
+    )
+  );
+
+CREATE POLICY "Users can manage valuations for their properties"
+  ON property_valuations FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_valuations.property_id
+    )
+  );
+
+DROP TRIGGER IF EXISTS update_property_valuations_updated_at ON property_valuations;
+CREATE TRIGGER update_property_valuations_updated_at BEFORE UPDATE ON property_valuations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Start each property's history with its current estimate
+INSERT INTO property_valuations (property_id, user_id, date, value, source)
+SELECT p.id, p.user_id, COALESCE(p.updated_at, NOW())::date, p.current_est_value, 'estimate'
+FROM properties p
+WHERE p.current_est_value > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM property_valuations v WHERE v.property_id = p.id
+  );
@@ -0,0 +1,186 @@
+-- Migration to add tenants, leases and the tenant ledger
+-- Run this in your Supabase SQL editor
+--
+-- Tenants are linked to rent roll units through leases (lease_tenants lists the primary
+-- tenant and any co-tenants). The tenant ledger records charges, payments and deposit
+-- movements per lease. Existing rent roll units get a tenant and a lease each below.
+
+CREATE TABLE IF NOT EXISTS tenants (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id TEXT NOT NULL, -- Clerk user ID of whoever added the tenant
+  workspace_id TEXT, -- Visible to every member of this workspace
+  name TEXT NOT NULL,
+  email TEXT,
+  phone TEXT,
+  emergency_contact_name TEXT,
+  emergency_contact_phone TEXT,
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS leases (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  unit_id UUID NOT NULL REFERENCES rent_roll_units(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL CHECK (end_date >= start_date),
+  monthly_rent DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  security_deposit DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS lease_tenants (
+  lease_id UUID NOT NULL REFERENCES leases(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  is_primary BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (lease_id, tenant_id)
+);
+
+CREATE TABLE IF NOT EXISTS tenant_ledger_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  lease_id UUID NOT NULL REFERENCES leases(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL, -- Clerk user ID of whoever recorded it
+  date DATE NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('rent', 'late_fee', 'other_charge', 'payment', 'deposit_received', 'deposit_returned', 'deposit_applied')),
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount >= 0), -- Always positive; the type decides how it counts
+  description TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenants_user_id ON tenants(user_id);
+CREATE INDEX IF NOT EXISTS idx_tenants_workspace_id ON tenants(workspace_id);
+
+CREATE INDEX IF NOT EXISTS idx_leases_property_id ON leases(property_id);
+CREATE INDEX IF NOT EXISTS idx_leases_unit_id ON leases(unit_id);
+
+CREATE INDEX IF NOT EXISTS idx_lease_tenants_tenant_id ON lease_tenants(tenant_id);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_ledger_entries_lease_id ON tenant_ledger_entries(lease_id);
+CREATE INDEX IF NOT EXISTS idx_tenant_ledger_entries_date ON tenant_ledger_entries(date);
+
+ALTER TABLE tenants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE leases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lease_tenants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tenant_ledger_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view tenants" ON tenants;
+DROP POLICY IF EXISTS "Users can manage tenants" ON tenants;
+DROP POLICY IF EXISTS "Users can view leases for their properties" ON leases;
+DROP POLICY IF EXISTS "Users can manage leases for their properties" ON leases;
+DROP POLICY IF EXISTS "Users can view lease tenants for their leases" ON lease_tenants;
+DROP POLICY IF EXISTS "Users can manage lease tenants for their leases" ON lease_tenants;
+DROP POLICY IF EXISTS "Users can view tenant ledger entries for their leases" ON tenant_ledger_entries;
+DROP POLICY IF EXISTS "Users can manage tenant ledger entries for their leases" ON tenant_ledger_entries;
+
+-- Tenants policies (access is checked in the API, like properties)
+CREATE POLICY "Users can view tenants"
+  ON tenants FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can manage tenants"
+  ON tenants FOR ALL
+  USING (true);
+
+-- Leases policies (inherit from property)
+CREATE POLICY "Users can view leases for their properties"
+  ON leases FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = leases.property_id
+    )
+  );
+
+CREATE POLICY "Users can manage leases for their properties"
+  ON leases FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = leases.property_id
+    )
+  );
+
+-- Lease tenants policies (inherit from lease)
+CREATE POLICY "Users can view lease tenants for their leases"
+  ON lease_tenants FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM leases
+      WHERE leases.id = lease_tenants.lease_id
+    )
+  );
+
+CREATE POLICY "Users can manage lease tenants for their leases"
+  ON lease_tenants FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM leases
+      WHERE leases.id = lease_tenants.lease_id
+    )
+  );
+
+-- Tenant ledger entries policies (inherit from lease)
+CREATE POLICY "Users can view tenant ledger entries for their leases"
+  ON tenant_ledger_entries FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM leases
+      WHERE leases.id = tenant_ledger_entries.lease_id
+    )
+  );
+
+CREATE POLICY "Users can manage tenant ledger entries for their leases"
+  ON tenant_ledger_entries FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM leases
+      WHERE leases.id = tenant_ledger_entries.lease_id
+    )
+  );
+
+DROP TRIGGER IF EXISTS update_tenants_updated_at ON tenants;
+CREATE TRIGGER update_tenants_updated_at BEFORE UPDATE ON tenants
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_leases_updated_at ON leases;
+CREATE TRIGGER update_leases_updated_at BEFORE UPDATE ON leases
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_tenant_ledger_entries_updated_at ON tenant_ledger_entries;
+CREATE TRIGGER update_tenant_ledger_entries_updated_at BEFORE UPDATE ON tenant_ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Give every existing rent roll unit a tenant and a lease, and record its deposit as held
+DO $$
+DECLARE
+  unit RECORD;
+  new_tenant_id UUID;
+  new_lease_id UUID;
+BEGIN
+  FOR unit IN
+    SELECT r.*, p.user_id AS owner_id, p.workspace_id
+    FROM rent_roll_units r
+    JOIN properties p ON p.id = r.property_id
+    WHERE NOT EXISTS (SELECT 1 FROM leases l WHERE l.unit_id = r.id)
+  LOOP
+    INSERT INTO tenants (user_id, workspace_id, name)
+    VALUES (unit.owner_id, unit.workspace_id, unit.tenant_name)
+    RETURNING id INTO new_tenant_id;
+
+    INSERT INTO leases (property_id, unit_id, start_date, end_date, monthly_rent, security_deposit)
+    VALUES (unit.property_id, unit.id, unit.lease_start, GREATEST(unit.lease_end, unit.lease_start), unit.monthly_rent, unit.security_deposit)
+    RETURNING id INTO new_lease_id;
+
+    INSERT INTO lease_tenants (lease_id, tenant_id, is_primary)
+    VALUES (new_lease_id, new_tenant_id, TRUE);
+
+    IF unit.security_deposit > 0 THEN
+      INSERT INTO tenant_ledger_entries (lease_id, user_id, date, type, amount, description)
+      VALUES (new_lease_id, unit.owner_id, unit.lease_start, 'deposit_received', unit.security_deposit, 'Security deposit');
+    END IF;
+  END LOOP;
+END $$;
@@ -23,3 +23,11 @@ BEGIN
   END IF;
 END $$;
 
+
+-- Bring the properties list view (add-property-list-view.sql) up to date with the new columns
+DO $$
+BEGIN
+  IF to_regprocedure('refresh_property_list_view()') IS NOT NULL THEN
+    PERFORM refresh_property_list_view();
+  END IF;
+END $$;
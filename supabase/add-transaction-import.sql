@@ -0,0 +1,95 @@
+-- Migration for the bank/QuickBooks transaction importer
+-- Run this in your Supabase SQL editor after add-property-transactions.sql
+--
+-- Imported ledger rows carry an import_hash fingerprint of their CSV row, so
+-- re-importing the same file skips rows that are already in the ledger of any
+-- property the import can reach.
+-- transaction_import_rules assign imported rows to a property when their
+-- payee or memo contains a pattern (e.g. a tenant name or loan number). Rules
+-- are shared by the workspace of the property they assign to.
+
+ALTER TABLE property_transactions ADD COLUMN IF NOT EXISTS import_hash TEXT;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'property_transactions_property_id_import_hash_key'
+  ) THEN
+    ALTER TABLE property_transactions
+      ADD CONSTRAINT property_transactions_property_id_import_hash_key UNIQUE (property_id, import_hash);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_property_transactions_import_hash ON property_transactions(import_hash);
+
+CREATE TABLE IF NOT EXISTS transaction_import_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  workspace_id TEXT NOT NULL, -- The property's workspace (the creator's own for properties outside one)
+  user_id TEXT NOT NULL, -- Clerk user ID of whoever made the rule
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  pattern TEXT NOT NULL, -- Case-insensitive text matched against payee and memo
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(workspace_id, pattern)
+);
+
+-- Rules used to belong to the user who made them; move them to a workspace
+ALTER TABLE transaction_import_rules ADD COLUMN IF NOT EXISTS workspace_id TEXT;
+
+UPDATE transaction_import_rules r SET workspace_id = p.workspace_id
+FROM properties p
+WHERE p.id = r.property_id AND r.workspace_id IS NULL;
+
+UPDATE transaction_import_rules r SET workspace_id = (
+  SELECT m.workspace_id FROM workspace_members m
+  WHERE m.user_id = r.user_id
+  ORDER BY m.joined_at
+  LIMIT 1
+)
+WHERE r.workspace_id IS NULL;
+
+-- Where teammates saved the same pattern, the most recently saved rule wins; rules of users
+-- without a workspace can't be shared and are dropped
+DELETE FROM transaction_import_rules r
+USING transaction_import_rules newer
+WHERE r.workspace_id = newer.workspace_id
+  AND r.pattern = newer.pattern
+  AND (r.updated_at, r.id) < (newer.updated_at, newer.id);
+
+DELETE FROM transaction_import_rules WHERE workspace_id IS NULL;
+
+ALTER TABLE transaction_import_rules ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE transaction_import_rules DROP CONSTRAINT IF EXISTS transaction_import_rules_user_id_pattern_key;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'transaction_import_rules_workspace_id_pattern_key'
+  ) THEN
+    ALTER TABLE transaction_import_rules
+      ADD CONSTRAINT transaction_import_rules_workspace_id_pattern_key UNIQUE (workspace_id, pattern);
+  END IF;
+END $$;
+
+DROP INDEX IF EXISTS idx_transaction_import_rules_user_id;
+CREATE INDEX IF NOT EXISTS idx_transaction_import_rules_workspace_id ON transaction_import_rules(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_import_rules_property_id ON transaction_import_rules(property_id);
+
+ALTER TABLE transaction_import_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own import rules" ON transaction_import_rules;
+DROP POLICY IF EXISTS "Users can manage their own import rules" ON transaction_import_rules;
+DROP POLICY IF EXISTS "Users can view import rules" ON transaction_import_rules;
+DROP POLICY IF EXISTS "Users can manage import rules" ON transaction_import_rules;
+
+CREATE POLICY "Users can view import rules"
+  ON transaction_import_rules FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can manage import rules"
+  ON transaction_import_rules FOR ALL
+  USING (true);
+
+DROP TRIGGER IF EXISTS update_transaction_import_rules_updated_at ON transaction_import_rules;
+CREATE TRIGGER update_transaction_import_rules_updated_at BEFORE UPDATE ON transaction_import_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
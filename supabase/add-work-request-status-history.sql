@@ -0,0 +1,39 @@
+-- Migration to add the work_request_status_history table
+-- Run this in your Supabase SQL editor
+
+-- Append-only log of work request status transitions (new -> in_progress -> completed)
+CREATE TABLE IF NOT EXISTS work_request_status_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  work_request_id UUID NOT NULL REFERENCES work_requests(id) ON DELETE CASCADE,
+  from_status TEXT CHECK (from_status IN ('new', 'in_progress', 'completed')), -- NULL when the request is created
+  to_status TEXT NOT NULL CHECK (to_status IN ('new', 'in_progress', 'completed')),
+  changed_by TEXT NOT NULL, -- Clerk user ID
+  changed_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_request_status_history_work_request_id ON work_request_status_history(work_request_id);
+CREATE INDEX IF NOT EXISTS idx_work_request_status_history_changed_at ON work_request_status_history(changed_at);
+
+ALTER TABLE work_request_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view status history for their work requests" ON work_request_status_history;
+DROP POLICY IF EXISTS "Users can add status history for their work requests" ON work_request_status_history;
+
+-- History rows are never updated or deleted, so only SELECT and INSERT policies exist
+CREATE POLICY "Users can view status history for their work requests"
+  ON work_request_status_history FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM work_requests
+      WHERE work_requests.id = work_request_status_history.work_request_id
+    )
+  );
+
+CREATE POLICY "Users can add status history for their work requests"
+  ON work_request_status_history FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM work_requests
+      WHERE work_requests.id = work_request_status_history.work_request_id
+    )
+  );
@@ -64,6 +64,14 @@ CREATE TABLE properties (
   user_id TEXT NOT NULL,
   workspace_id TEXT,
   address TEXT NOT NULL,
+  -- Structured address and coordinates, filled in by the geocoder
+  street TEXT,
+  city TEXT,
+  state TEXT, -- Two-letter code
+  zip TEXT,
+  latitude DECIMAL(9, 6),
+  longitude DECIMAL(9, 6),
+  geocoded_at TIMESTAMP, -- Last geocoding attempt; NULL = not tried yet
   type TEXT NOT NULL,
   status TEXT NOT NULL CHECK (status IN ('rented', 'vacant', 'under_maintenance', 'sold')),
   -- Financial fields
@@ -76,10 +84,22 @@ CREATE TABLE properties (
   monthly_property_tax DECIMAL(10, 2) NOT NULL DEFAULT 0,
   monthly_other_costs DECIMAL(10, 2) NOT NULL DEFAULT 0,
   monthly_gross_rent DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  -- Gross rent less all monthly costs, stored so the properties list can sort and filter on it
+  monthly_cashflow DECIMAL(12, 2) GENERATED ALWAYS AS (
+    monthly_gross_rent - monthly_mortgage_payment - monthly_insurance - monthly_property_tax - monthly_other_costs
+  ) STORED,
+  -- Loan terms
+  down_payment DECIMAL(12, 2), -- NULL = unknown (purchase price less total mortgage is assumed)
+  interest_rate DECIMAL(6, 3), -- Annual rate, in percent
+  amortization_years INTEGER,
+  loan_origination_date DATE,
+  closing_costs DECIMAL(12, 2) NOT NULL DEFAULT 0,
   -- Ownership
-  ownership TEXT CHECK (ownership IN ('100% ownership', '50% partner', '25% partner', '75% partner', '33% partner', '67% partner')),
+  ownership_percentage DECIMAL(5, 2) NOT NULL DEFAULT 100 CHECK (ownership_percentage > 0 AND ownership_percentage <= 100), -- Our equity share
+  partners JSONB NOT NULL DEFAULT '[]', -- Other owners: [{ "name": "...", "percentage": 25 }]
   linked_websites TEXT[], -- Array of website IDs
   custom_fields JSONB, -- Custom field values stored as JSON
+  cover_photo_id UUID, -- property_photos.id of the cover photo (foreign key added after property_photos)
   created_at TIMESTAMP DEFAULT NOW(),
   updated_at TIMESTAMP DEFAULT NOW()
 );
@@ -114,6 +134,240 @@ CREATE TABLE work_requests (
   updated_at TIMESTAMP DEFAULT NOW()
 );
 
+-- ============================================
+-- WORK REQUEST STATUS HISTORY TABLE (append-only)
+-- ============================================
+CREATE TABLE work_request_status_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  work_request_id UUID NOT NULL REFERENCES work_requests(id) ON DELETE CASCADE,
+  from_status TEXT CHECK (from_status IN ('new', 'in_progress', 'completed')), -- NULL when the request is created
+  to_status TEXT NOT NULL CHECK (to_status IN ('new', 'in_progress', 'completed')),
+  changed_by TEXT NOT NULL, -- Clerk user ID
+  changed_at TIMESTAMP DEFAULT NOW()
+);
+
+-- ============================================
+-- PROPERTY DOCUMENTS TABLE (file metadata, contents live in lib/storage)
+-- ============================================
+CREATE TABLE property_documents (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL, -- Clerk user ID of the uploader
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL DEFAULT 0,
+  storage_key TEXT NOT NULL UNIQUE, -- Path of the file in the storage backend
+  category TEXT NOT NULL CHECK (category IN ('insurance', 'tax_bill', 'mortgage', 'lease', 'inspection')),
+  expiry_date DATE, -- Optional, e.g. insurance policy or lease end
+  metadata JSONB NOT NULL DEFAULT '{}', -- Free-form key/value pairs (policy number, provider, ...)
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- ============================================
+-- PROPERTY TRANSACTIONS TABLE (ledger of actual income and expenses)
+-- ============================================
+CREATE TABLE property_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL, -- Clerk user ID of whoever recorded it
+  date DATE NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount >= 0), -- Always positive; the category decides income vs expense
+  category TEXT NOT NULL CHECK (category IN ('rent', 'other_income', 'repairs', 'property_tax', 'insurance', 'mortgage', 'utilities', 'management', 'other_expense')),
+  description TEXT,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'work_request', 'import')),
+  work_request_id UUID UNIQUE REFERENCES work_requests(id) ON DELETE CASCADE, -- Set when posted from a work request
+  import_hash TEXT, -- Fingerprint of the imported CSV row; re-importing the same file skips it
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(property_id, import_hash)
+);
+
+-- ============================================
+-- TRANSACTION IMPORT RULES TABLE (memo rules for the transaction importer)
+-- ============================================
+CREATE TABLE transaction_import_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  workspace_id TEXT NOT NULL, -- The property's workspace (the creator's own for properties outside one)
+  user_id TEXT NOT NULL, -- Clerk user ID of whoever made the rule
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  pattern TEXT NOT NULL, -- Case-insensitive text matched against payee and memo
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(workspace_id, pattern)
+);
+
+-- ============================================
+-- IMPORT MAPPING PROFILES TABLE (saved property import mappings)
+-- ============================================
+CREATE TABLE import_mapping_profiles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  workspace_id TEXT NOT NULL,
+  created_by TEXT NOT NULL, -- Clerk user ID
+  name TEXT NOT NULL,
+  mapping JSONB NOT NULL DEFAULT '{}', -- Target field (built-in or custom_*) -> CSV header
+  header_signature TEXT NOT NULL, -- Normalized, sorted headers of the file the profile was saved from
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(workspace_id, name)
+);
+
+-- ============================================
+-- PROPERTY CUSTOM FIELDS TABLE (custom property column definitions)
+-- ============================================
+CREATE TABLE property_custom_fields (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  workspace_id TEXT NOT NULL,
+  created_by TEXT NOT NULL, -- Clerk user ID
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('text', 'number', 'currency', 'date', 'select', 'boolean', 'url')),
+  options JSONB, -- Allowed values for select fields
+  position INTEGER NOT NULL DEFAULT 0, -- Column order, ascending
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(workspace_id, name)
+);
+
+-- ============================================
+-- PROPERTY PHOTOS TABLE (files and thumbnails live in the storage backend)
+-- ============================================
+CREATE TABLE property_photos (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  unit_id UUID REFERENCES rent_roll_units(id) ON DELETE CASCADE, -- Set for photos of a single unit
+  user_id TEXT NOT NULL, -- Clerk user ID of the uploader
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL DEFAULT 0,
+  width INTEGER,
+  height INTEGER,
+  storage_key TEXT NOT NULL UNIQUE, -- Path of the original in the storage backend
+  thumbnail_key TEXT NOT NULL UNIQUE, -- Path of the generated JPEG thumbnail
+  caption TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- The cover photo shown in the properties list and details header
+ALTER TABLE properties
+  ADD CONSTRAINT properties_cover_photo_id_fkey
+  FOREIGN KEY (cover_photo_id) REFERENCES property_photos(id) ON DELETE SET NULL;
+
+-- ============================================
+-- PROPERTY VALUATIONS TABLE (dated value history; the latest sets current_est_value)
+-- ============================================
+CREATE TABLE property_valuations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL, -- Clerk user ID of whoever recorded it
+  date DATE NOT NULL,
+  value DECIMAL(12, 2) NOT NULL CHECK (value >= 0),
+  source TEXT NOT NULL DEFAULT 'estimate' CHECK (source IN ('purchase', 'appraisal', 'estimate', 'comps')),
+  notes TEXT, -- e.g. the appraiser or the comps used
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- ============================================
+-- TENANTS TABLE (linked to rent roll units through leases)
+-- ============================================
+CREATE TABLE tenants (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id TEXT NOT NULL, -- Clerk user ID of whoever added the tenant
+  workspace_id TEXT, -- Visible to every member of this workspace
+  name TEXT NOT NULL,
+  email TEXT,
+  phone TEXT,
+  emergency_contact_name TEXT,
+  emergency_contact_phone TEXT,
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- ============================================
+-- LEASES TABLE (a unit let to one or more tenants)
+-- ============================================
+CREATE TABLE leases (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  unit_id UUID NOT NULL REFERENCES rent_roll_units(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL CHECK (end_date >= start_date),
+  monthly_rent DECIMAL(10, 2) NOT NULL DEFAULT 0, -- Rent for the first year, before escalations
+  security_deposit DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('draft', 'active', 'ended')), -- "expiring" is derived from end_date
+  terms TEXT,
+  escalation_type TEXT NOT NULL DEFAULT 'none' CHECK (escalation_type IN ('none', 'percent', 'amount')),
+  escalation_value DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (escalation_value >= 0), -- Percent or amount added on each lease anniversary
+  move_in_date DATE,
+  move_out_date DATE,
+  renewed_from_lease_id UUID REFERENCES leases(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- ============================================
+-- LEASE TENANTS TABLE (the primary tenant and co-tenants on a lease)
+-- ============================================
+CREATE TABLE lease_tenants (
+  lease_id UUID NOT NULL REFERENCES leases(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  is_primary BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (lease_id, tenant_id)
+);
+
+-- ============================================
+-- TENANT LEDGER ENTRIES TABLE (charges, payments and deposits per lease)
+-- ============================================
+CREATE TABLE tenant_ledger_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  lease_id UUID NOT NULL REFERENCES leases(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL, -- Clerk user ID of whoever recorded it
+  date DATE NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('rent', 'late_fee', 'other_charge', 'payment', 'deposit_received', 'deposit_returned', 'deposit_applied')),
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount >= 0), -- Always positive; the type decides how it counts
+  description TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- ============================================
+-- LEASE RENEWAL OFFERS TABLE (renewal terms offered to a lease's tenants)
+-- ============================================
+CREATE TABLE lease_renewal_offers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  lease_id UUID NOT NULL REFERENCES leases(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL, -- Clerk user ID of whoever made the offer
+  offered_on DATE NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL CHECK (end_date >= start_date),
+  monthly_rent DECIMAL(10, 2) NOT NULL CHECK (monthly_rent >= 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'withdrawn')),
+  responded_on DATE,
+  renewal_lease_id UUID REFERENCES leases(id) ON DELETE SET NULL, -- The lease created when the offer was accepted
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- ============================================
+-- PROPERTY OCCUPANCY SNAPSHOTS TABLE (status and occupancy as of each day it changed)
+-- ============================================
+CREATE TABLE property_occupancy_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('rented', 'vacant', 'under_maintenance', 'sold')),
+  total_units INTEGER NOT NULL DEFAULT 0,
+  occupied_units INTEGER NOT NULL DEFAULT 0,
+  monthly_gross_rent DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(property_id, date) -- The last change of the day wins
+);
+
 -- ============================================
 -- AGENCY CLIENTS TABLE
 -- ============================================
@@ -187,6 +441,9 @@ CREATE INDEX idx_subscriptions_website_id ON subscriptions(website_id);
 CREATE INDEX idx_properties_user_id ON properties(user_id);
 CREATE INDEX idx_properties_workspace_id ON properties(workspace_id);
 CREATE INDEX idx_properties_status ON properties(status);
+CREATE INDEX idx_properties_created_at ON properties(created_at, id);
+CREATE INDEX idx_properties_current_est_value ON properties(current_est_value, id);
+CREATE INDEX idx_properties_monthly_cashflow ON properties(monthly_cashflow, id);
 
 -- Rent roll units indexes
 CREATE INDEX idx_rent_roll_units_property_id ON rent_roll_units(property_id);
@@ -195,6 +452,62 @@ CREATE INDEX idx_rent_roll_units_property_id ON rent_roll_units(property_id);
 CREATE INDEX idx_work_requests_property_id ON work_requests(property_id);
 CREATE INDEX idx_work_requests_status ON work_requests(status);
 
+-- Work request status history indexes
+CREATE INDEX idx_work_request_status_history_work_request_id ON work_request_status_history(work_request_id);
+CREATE INDEX idx_work_request_status_history_changed_at ON work_request_status_history(changed_at);
+
+-- Property documents indexes
+CREATE INDEX idx_property_documents_property_id ON property_documents(property_id);
+CREATE INDEX idx_property_documents_category ON property_documents(category);
+CREATE INDEX idx_property_documents_expiry_date ON property_documents(expiry_date);
+
+-- Property transactions indexes
+CREATE INDEX idx_property_transactions_property_id ON property_transactions(property_id);
+CREATE INDEX idx_property_transactions_date ON property_transactions(date);
+CREATE INDEX idx_property_transactions_category ON property_transactions(category);
+CREATE INDEX idx_property_transactions_import_hash ON property_transactions(import_hash);
+
+-- Transaction import rules indexes
+CREATE INDEX idx_transaction_import_rules_workspace_id ON transaction_import_rules(workspace_id);
+CREATE INDEX idx_transaction_import_rules_property_id ON transaction_import_rules(property_id);
+
+-- Import mapping profiles indexes
+CREATE INDEX idx_import_mapping_profiles_workspace_id ON import_mapping_profiles(workspace_id);
+CREATE INDEX idx_import_mapping_profiles_header_signature ON import_mapping_profiles(header_signature);
+
+-- Property custom fields indexes
+CREATE INDEX idx_property_custom_fields_workspace_id ON property_custom_fields(workspace_id);
+
+-- Property photos indexes
+CREATE INDEX idx_property_photos_property_id ON property_photos(property_id);
+CREATE INDEX idx_property_photos_unit_id ON property_photos(unit_id);
+
+-- Property valuations indexes
+CREATE INDEX idx_property_valuations_property_id ON property_valuations(property_id);
+CREATE INDEX idx_property_valuations_date ON property_valuations(date);
+
+-- Tenants indexes
+CREATE INDEX idx_tenants_user_id ON tenants(user_id);
+CREATE INDEX idx_tenants_workspace_id ON tenants(workspace_id);
+
+-- Leases indexes
+CREATE INDEX idx_leases_property_id ON leases(property_id);
+CREATE INDEX idx_leases_unit_id ON leases(unit_id);
+
+-- Lease tenants indexes
+CREATE INDEX idx_lease_tenants_tenant_id ON lease_tenants(tenant_id);
+
+-- Tenant ledger entries indexes
+CREATE INDEX idx_tenant_ledger_entries_lease_id ON tenant_ledger_entries(lease_id);
+CREATE INDEX idx_tenant_ledger_entries_date ON tenant_ledger_entries(date);
+
+-- Lease renewal offers indexes
+CREATE INDEX idx_lease_renewal_offers_lease_id ON lease_renewal_offers(lease_id);
+
+-- Property occupancy snapshots indexes
+CREATE INDEX idx_property_occupancy_snapshots_property_id ON property_occupancy_snapshots(property_id);
+CREATE INDEX idx_property_occupancy_snapshots_date ON property_occupancy_snapshots(date);
+
 -- Agency clients indexes
 CREATE INDEX idx_agency_clients_user_id ON agency_clients(user_id);
 CREATE INDEX idx_agency_clients_workspace_id ON agency_clients(workspace_id);
@@ -215,6 +528,20 @@ ALTER TABLE subscriptions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE properties ENABLE ROW LEVEL SECURITY;
 ALTER TABLE rent_roll_units ENABLE ROW LEVEL SECURITY;
 ALTER TABLE work_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE work_request_status_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transaction_import_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_mapping_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_custom_fields ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_photos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_valuations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tenants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE leases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lease_tenants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tenant_ledger_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lease_renewal_offers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_occupancy_snapshots ENABLE ROW LEVEL SECURITY;
 ALTER TABLE agency_clients ENABLE ROW LEVEL SECURITY;
 ALTER TABLE ghl_clients ENABLE ROW LEVEL SECURITY;
 ALTER TABLE ghl_weekly_metrics ENABLE ROW LEVEL SECURITY;
@@ -334,6 +661,232 @@ CREATE POLICY "Users can manage work requests for their properties"
     )
   );
 
+-- Work request status history policies (append-only, inherit from work request)
+CREATE POLICY "Users can view status history for their work requests"
+  ON work_request_status_history FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM work_requests
+      WHERE work_requests.id = work_request_status_history.work_request_id
+    )
+  );
+
+CREATE POLICY "Users can add status history for their work requests"
+  ON work_request_status_history FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM work_requests
+      WHERE work_requests.id = work_request_status_history.work_request_id
+    )
+  );
+
+-- Property documents policies (inherit from property)
+CREATE POLICY "Users can view documents for their properties"
+  ON property_documents FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_documents.property_id
+    )
+  );
+
+CREATE POLICY "Users can manage documents for their properties"
+  ON property_documents FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_documents.property_id
+    )
+  );
+
+-- Property transactions policies (inherit from property)
+CREATE POLICY "Users can view transactions for their properties"
+  ON property_transactions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_transactions.property_id
+    )
+  );
+
+CREATE POLICY "Users can manage transactions for their properties"
+  ON property_transactions FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_transactions.property_id
+    )
+  );
+
+-- Transaction import rules policies
+CREATE POLICY "Users can view import rules"
+  ON transaction_import_rules FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can manage import rules"
+  ON transaction_import_rules FOR ALL
+  USING (true);
+
+-- Import mapping profiles policies
+CREATE POLICY "Users can view import mapping profiles"
+  ON import_mapping_profiles FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can manage import mapping profiles"
+  ON import_mapping_profiles FOR ALL
+  USING (true);
+
+-- Property custom fields policies
+CREATE POLICY "Users can view property custom fields"
+  ON property_custom_fields FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can manage property custom fields"
+  ON property_custom_fields FOR ALL
+  USING (true);
+
+-- Property photos policies (inherit from property)
+CREATE POLICY "Users can view photos for their properties"
+  ON property_photos FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_photos.property_id
+    )
+  );
+
+CREATE POLICY "Users can manage photos for their properties"
+  ON property_photos FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_photos.property_id
+    )
+  );
+
+-- Property valuations policies (inherit from property)
+CREATE POLICY "Users can view valuations for their properties"
+  ON property_valuations FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_valuations.property_id
+    )
+  );
+
+CREATE POLICY "Users can manage valuations for their properties"
+  ON property_valuations FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_valuations.property_id
+    )
+  );
+
+-- Tenants policies (access is checked in the API, like properties)
+CREATE POLICY "Users can view tenants"
+  ON tenants FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can manage tenants"
+  ON tenants FOR ALL
+  USING (true);
+
+-- Leases policies (inherit from property)
+CREATE POLICY "Users can view leases for their properties"
+  ON leases FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = leases.property_id
+    )
+  );
+
+CREATE POLICY "Users can manage leases for their properties"
+  ON leases FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = leases.property_id
+    )
+  );
+
+-- Lease tenants policies (inherit from lease)
+CREATE POLICY "Users can view lease tenants for their leases"
+  ON lease_tenants FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM leases
+      WHERE leases.id = lease_tenants.lease_id
+    )
+  );
+
+CREATE POLICY "Users can manage lease tenants for their leases"
+  ON lease_tenants FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM leases
+      WHERE leases.id = lease_tenants.lease_id
+    )
+  );
+
+-- Tenant ledger entries policies (inherit from lease)
+CREATE POLICY "Users can view tenant ledger entries for their leases"
+  ON tenant_ledger_entries FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM leases
+      WHERE leases.id = tenant_ledger_entries.lease_id
+    )
+  );
+
+CREATE POLICY "Users can manage tenant ledger entries for their leases"
+  ON tenant_ledger_entries FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM leases
+      WHERE leases.id = tenant_ledger_entries.lease_id
+    )
+  );
+
+-- Lease renewal offers policies (inherit from lease)
+CREATE POLICY "Users can view lease renewal offers for their leases"
+  ON lease_renewal_offers FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM leases
+      WHERE leases.id = lease_renewal_offers.lease_id
+    )
+  );
+
+CREATE POLICY "Users can manage lease renewal offers for their leases"
+  ON lease_renewal_offers FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM leases
+      WHERE leases.id = lease_renewal_offers.lease_id
+    )
+  );
+
+-- Property occupancy snapshots policies (inherit from property)
+CREATE POLICY "Users can view occupancy snapshots for their properties"
+  ON property_occupancy_snapshots FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_occupancy_snapshots.property_id
+    )
+  );
+
+CREATE POLICY "Users can manage occupancy snapshots for their properties"
+  ON property_occupancy_snapshots FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM properties
+      WHERE properties.id = property_occupancy_snapshots.property_id
+    )
+  );
+
 -- Agency clients policies
 CREATE POLICY "Users can view their own agency clients"
   ON agency_clients FOR SELECT
@@ -384,6 +937,22 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Properties: updated_at is the concurrency token for edits (see PATCH /api/properties/[id]), so
+-- writes that only fill in the geocoded location don't bump it and don't conflict with edits
+-- of rows loaded before the geocoder ran
+CREATE OR REPLACE FUNCTION update_properties_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF to_jsonb(NEW) - ARRAY['street', 'city', 'state', 'zip', 'latitude', 'longitude', 'geocoded_at', 'monthly_cashflow', 'updated_at']
+    = to_jsonb(OLD) - ARRAY['street', 'city', 'state', 'zip', 'latitude', 'longitude', 'geocoded_at', 'monthly_cashflow', 'updated_at'] THEN
+    NEW.updated_at = OLD.updated_at;
+  ELSE
+    NEW.updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
 -- Triggers for updated_at
 CREATE TRIGGER update_blops_updated_at BEFORE UPDATE ON blops
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -395,7 +964,7 @@ CREATE TRIGGER update_subscriptions_updated_at BEFORE UPDATE ON subscriptions
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 CREATE TRIGGER update_properties_updated_at BEFORE UPDATE ON properties
-  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  FOR EACH ROW EXECUTE FUNCTION update_properties_updated_at_column();
 
 CREATE TRIGGER update_rent_roll_units_updated_at BEFORE UPDATE ON rent_roll_units
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -403,9 +972,132 @@ CREATE TRIGGER update_rent_roll_units_updated_at BEFORE UPDATE ON rent_roll_unit
 CREATE TRIGGER update_work_requests_updated_at BEFORE UPDATE ON work_requests
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_property_documents_updated_at BEFORE UPDATE ON property_documents
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_property_transactions_updated_at BEFORE UPDATE ON property_transactions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_transaction_import_rules_updated_at BEFORE UPDATE ON transaction_import_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_import_mapping_profiles_updated_at BEFORE UPDATE ON import_mapping_profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_property_custom_fields_updated_at BEFORE UPDATE ON property_custom_fields
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_property_photos_updated_at BEFORE UPDATE ON property_photos
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_property_valuations_updated_at BEFORE UPDATE ON property_valuations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_tenants_updated_at BEFORE UPDATE ON tenants
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_leases_updated_at BEFORE UPDATE ON leases
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_tenant_ledger_entries_updated_at BEFORE UPDATE ON tenant_ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_lease_renewal_offers_updated_at BEFORE UPDATE ON lease_renewal_offers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_property_occupancy_snapshots_updated_at BEFORE UPDATE ON property_occupancy_snapshots
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_agency_clients_updated_at BEFORE UPDATE ON agency_clients
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 CREATE TRIGGER update_ghl_clients_updated_at BEFORE UPDATE ON ghl_clients
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+-- ============================================
+-- PROPERTY LIST
+-- ============================================
+
+-- Remaining loan balance as of a date, matching lib/finance.ts calculateCurrentBalance:
+-- payments fall on the origination day of each following month; without complete loan
+-- terms the original loan amount is assumed to be outstanding
+CREATE OR REPLACE FUNCTION property_loan_balance(
+  p_purchase_price NUMERIC,
+  p_total_mortgage_amount NUMERIC,
+  p_down_payment NUMERIC,
+  p_interest_rate NUMERIC,
+  p_amortization_years INTEGER,
+  p_loan_origination_date DATE,
+  p_as_of DATE
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  loan NUMERIC;
+  payments INTEGER;
+  paid INTEGER;
+  monthly_rate DOUBLE PRECISION;
+  payment DOUBLE PRECISION;
+  growth DOUBLE PRECISION;
+BEGIN
+  loan := GREATEST(0, p_purchase_price - COALESCE(
+    p_down_payment,
+    CASE WHEN p_total_mortgage_amount <> 0 THEN GREATEST(0, p_purchase_price - p_total_mortgage_amount) ELSE p_purchase_price END
+  ));
+  payments := ROUND(COALESCE(p_amortization_years, 0) * 12);
+  IF loan <= 0 OR payments <= 0 OR p_loan_origination_date IS NULL THEN
+    RETURN loan;
+  END IF;
+
+  paid := (EXTRACT(YEAR FROM p_as_of) - EXTRACT(YEAR FROM p_loan_origination_date)) * 12
+    + EXTRACT(MONTH FROM p_as_of) - EXTRACT(MONTH FROM p_loan_origination_date);
+  IF p_loan_origination_date + make_interval(months => paid) > p_as_of THEN
+    paid := paid - 1;
+  END IF;
+  paid := LEAST(GREATEST(paid, 0), payments);
+  IF paid = 0 THEN
+    RETURN loan;
+  END IF;
+
+  monthly_rate := COALESCE(p_interest_rate, 0) / 100 / 12;
+  IF monthly_rate = 0 THEN
+    RETURN GREATEST(0, loan - loan / payments * paid);
+  END IF;
+
+  growth := POWER(1 + monthly_rate, paid);
+  payment := loan * monthly_rate / (1 - POWER(1 + monthly_rate, -payments));
+  RETURN GREATEST(0, ROUND((loan * growth - payment * (growth - 1) / monthly_rate)::NUMERIC, 2));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Properties with their return on equity, for sorting and filtering the properties list
+-- (GET /api/properties). ROE depends on today's loan balance, so it can't be a stored column.
+-- Rounded so the value survives a round trip through a pagination cursor.
+-- p.* is expanded when the view is created, so the migrations that add or drop properties
+-- columns call refresh_property_list_view() afterwards to bring the view up to date.
+CREATE OR REPLACE FUNCTION refresh_property_list_view()
+RETURNS VOID AS $$
+BEGIN
+  DROP VIEW IF EXISTS property_list;
+  CREATE VIEW property_list WITH (security_invoker = true) AS
+  SELECT
+    p.*,
+    CASE
+      WHEN equity.value > 0 THEN ROUND(p.monthly_cashflow * 12 / equity.value * 100, 4)
+      ELSE 0
+    END AS roe
+  FROM properties p
+  CROSS JOIN LATERAL (
+    SELECT p.current_est_value - property_loan_balance(
+      p.purchase_price,
+      p.total_mortgage_amount,
+      p.down_payment,
+      p.interest_rate,
+      p.amortization_years,
+      p.loan_origination_date,
+      CURRENT_DATE
+    ) AS value
+  ) equity;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT refresh_property_list_view();
@@ -158,6 +158,13 @@ export interface Database {
           user_id: string
           workspace_id: string | null
           address: string
+          street: string | null
+          city: string | null
+          state: string | null
+          zip: string | null
+          latitude: number | null
+          longitude: number | null
+          geocoded_at: string | null
           type: string
           status: 'rented' | 'vacant' | 'under_maintenance' | 'sold'
           mortgage_holder: string | null
@@ -169,9 +176,17 @@ export interface Database {
           monthly_property_tax: number
           monthly_other_costs: number
           monthly_gross_rent: number
-          ownership: '100% ownership' | '50% partner' | '25% partner' | '75% partner' | '33% partner' | '67% partner' | null
+          monthly_cashflow: number
+          down_payment: number | null
+          interest_rate: number | null
+          amortization_years: number | null
+          loan_origination_date: string | null
+          closing_costs: number
+          ownership_percentage: number
+          partners: { name: string; percentage: number }[]
           linked_websites: string[] | null
           custom_fields: Record<string, any> | null
+          cover_photo_id: string | null
           created_at: string
           updated_at: string
         }
@@ -180,6 +195,13 @@ export interface Database {
           user_id: string
           workspace_id?: string | null
           address: string
+          street?: string | null
+          city?: string | null
+          state?: string | null
+          zip?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          geocoded_at?: string | null
           type: string
           status: 'rented' | 'vacant' | 'under_maintenance' | 'sold'
           mortgage_holder?: string | null
@@ -191,9 +213,16 @@ export interface Database {
           monthly_property_tax?: number
           monthly_other_costs?: number
           monthly_gross_rent?: number
-          ownership?: '100% ownership' | '50% partner' | '25% partner' | '75% partner' | '33% partner' | '67% partner' | null
+          down_payment?: number | null
+          interest_rate?: number | null
+          amortization_years?: number | null
+          loan_origination_date?: string | null
+          closing_costs?: number
+          ownership_percentage?: number
+          partners?: { name: string; percentage: number }[]
           linked_websites?: string[] | null
           custom_fields?: Record<string, any> | null
+          cover_photo_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -202,6 +231,13 @@ export interface Database {
           user_id?: string
           workspace_id?: string | null
           address?: string
+          street?: string | null
+          city?: string | null
+          state?: string | null
+          zip?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          geocoded_at?: string | null
           type?: string
           status?: 'rented' | 'vacant' | 'under_maintenance' | 'sold'
           mortgage_holder?: string | null
@@ -213,9 +249,16 @@ export interface Database {
           monthly_property_tax?: number
           monthly_other_costs?: number
           monthly_gross_rent?: number
-          ownership?: '100% ownership' | '50% partner' | '25% partner' | '75% partner' | '33% partner' | '67% partner' | null
+          down_payment?: number | null
+          interest_rate?: number | null
+          amortization_years?: number | null
+          loan_origination_date?: string | null
+          closing_costs?: number
+          ownership_percentage?: number
+          partners?: { name: string; percentage: number }[]
           linked_websites?: string[] | null
           custom_fields?: Record<string, any> | null
+          cover_photo_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -290,6 +333,535 @@ export interface Database {
           updated_at?: string
         }
       }
+      work_request_status_history: {
+        Row: {
+          id: string
+          work_request_id: string
+          from_status: 'new' | 'in_progress' | 'completed' | null
+          to_status: 'new' | 'in_progress' | 'completed'
+          changed_by: string
+          changed_at: string
+        }
+        Insert: {
+          id?: string
+          work_request_id: string
+          from_status?: 'new' | 'in_progress' | 'completed' | null
+          to_status: 'new' | 'in_progress' | 'completed'
+          changed_by: string
+          changed_at?: string
+        }
+        Update: {
+          id?: string
+          work_request_id?: string
+          from_status?: 'new' | 'in_progress' | 'completed' | null
+          to_status?: 'new' | 'in_progress' | 'completed'
+          changed_by?: string
+          changed_at?: string
+        }
+      }
+      property_documents: {
+        Row: {
+          id: string
+          property_id: string
+          user_id: string
+          file_name: string
+          content_type: string
+          size_bytes: number
+          storage_key: string
+          category: 'insurance' | 'tax_bill' | 'mortgage' | 'lease' | 'inspection'
+          expiry_date: string | null
+          metadata: Record<string, string>
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          property_id: string
+          user_id: string
+          file_name: string
+          content_type: string
+          size_bytes?: number
+          storage_key: string
+          category: 'insurance' | 'tax_bill' | 'mortgage' | 'lease' | 'inspection'
+          expiry_date?: string | null
+          metadata?: Record<string, string>
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          property_id?: string
+          user_id?: string
+          file_name?: string
+          content_type?: string
+          size_bytes?: number
+          storage_key?: string
+          category?: 'insurance' | 'tax_bill' | 'mortgage' | 'lease' | 'inspection'
+          expiry_date?: string | null
+          metadata?: Record<string, string>
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      property_transactions: {
+        Row: {
+          id: string
+          property_id: string
+          user_id: string
+          date: string
+          amount: number
+          category: 'rent' | 'other_income' | 'repairs' | 'property_tax' | 'insurance' | 'mortgage' | 'utilities' | 'management' | 'other_expense'
+          description: string | null
+          source: 'manual' | 'work_request' | 'import'
+          work_request_id: string | null
+          import_hash: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          property_id: string
+          user_id: string
+          date: string
+          amount: number
+          category: 'rent' | 'other_income' | 'repairs' | 'property_tax' | 'insurance' | 'mortgage' | 'utilities' | 'management' | 'other_expense'
+          description?: string | null
+          source?: 'manual' | 'work_request' | 'import'
+          work_request_id?: string | null
+          import_hash?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          property_id?: string
+          user_id?: string
+          date?: string
+          amount?: number
+          category?: 'rent' | 'other_income' | 'repairs' | 'property_tax' | 'insurance' | 'mortgage' | 'utilities' | 'management' | 'other_expense'
+          description?: string | null
+          source?: 'manual' | 'work_request' | 'import'
+          work_request_id?: string | null
+          import_hash?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      transaction_import_rules: {
+        Row: {
+          id: string
+          workspace_id: string
+          user_id: string
+          property_id: string
+          pattern: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          workspace_id: string
+          user_id: string
+          property_id: string
+          pattern: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          workspace_id?: string
+          user_id?: string
+          property_id?: string
+          pattern?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      import_mapping_profiles: {
+        Row: {
+          id: string
+          workspace_id: string
+          created_by: string
+          name: string
+          mapping: Record<string, string>
+          header_signature: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          workspace_id: string
+          created_by: string
+          name: string
+          mapping?: Record<string, string>
+          header_signature: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          workspace_id?: string
+          created_by?: string
+          name?: string
+          mapping?: Record<string, string>
+          header_signature?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      property_custom_fields: {
+        Row: {
+          id: string
+          workspace_id: string
+          created_by: string
+          name: string
+          type: 'text' | 'number' | 'currency' | 'date' | 'select' | 'boolean' | 'url'
+          options: string[] | null
+          position: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          workspace_id: string
+          created_by: string
+          name: string
+          type: 'text' | 'number' | 'currency' | 'date' | 'select' | 'boolean' | 'url'
+          options?: string[] | null
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          workspace_id?: string
+          created_by?: string
+          name?: string
+          type?: 'text' | 'number' | 'currency' | 'date' | 'select' | 'boolean' | 'url'
+          options?: string[] | null
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      property_photos: {
+        Row: {
+          id: string
+          property_id: string
+          unit_id: string | null
+          user_id: string
+          file_name: string
+          content_type: string
+          size_bytes: number
+          width: number | null
+          height: number | null
+          storage_key: string
+          thumbnail_key: string
+          caption: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          property_id: string
+          unit_id?: string | null
+          user_id: string
+          file_name: string
+          content_type: string
+          size_bytes?: number
+          width?: number | null
+          height?: number | null
+          storage_key: string
+          thumbnail_key: string
+          caption?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          property_id?: string
+          unit_id?: string | null
+          user_id?: string
+          file_name?: string
+          content_type?: string
+          size_bytes?: number
+          width?: number | null
+          height?: number | null
+          storage_key?: string
+          thumbnail_key?: string
+          caption?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      property_valuations: {
+        Row: {
+          id: string
+          property_id: string
+          user_id: string
+          date: string
+          value: number
+          source: 'purchase' | 'appraisal' | 'estimate' | 'comps'
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          property_id: string
+          user_id: string
+          date: string
+          value: number
+          source?: 'purchase' | 'appraisal' | 'estimate' | 'comps'
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          property_id?: string
+          user_id?: string
+          date?: string
+          value?: number
+          source?: 'purchase' | 'appraisal' | 'estimate' | 'comps'
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      tenants: {
+        Row: {
+          id: string
+          user_id: string
+          workspace_id: string | null
+          name: string
+          email: string | null
+          phone: string | null
+          emergency_contact_name: string | null
+          emergency_contact_phone: string | null
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          workspace_id?: string | null
+          name: string
+          email?: string | null
+          phone?: string | null
+          emergency_contact_name?: string | null
+          emergency_contact_phone?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          workspace_id?: string | null
+          name?: string
+          email?: string | null
+          phone?: string | null
+          emergency_contact_name?: string | null
+          emergency_contact_phone?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      leases: {
+        Row: {
+          id: string
+          property_id: string
+          unit_id: string
+          start_date: string
+          end_date: string
+          monthly_rent: number
+          security_deposit: number
+          status: 'draft' | 'active' | 'ended'
+          terms: string | null
+          escalation_type: 'none' | 'percent' | 'amount'
+          escalation_value: number
+          move_in_date: string | null
+          move_out_date: string | null
+          renewed_from_lease_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          property_id: string
+          unit_id: string
+          start_date: string
+          end_date: string
+          monthly_rent?: number
+          security_deposit?: number
+          status?: 'draft' | 'active' | 'ended'
+          terms?: string | null
+          escalation_type?: 'none' | 'percent' | 'amount'
+          escalation_value?: number
+          move_in_date?: string | null
+          move_out_date?: string | null
+          renewed_from_lease_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          property_id?: string
+          unit_id?: string
+          start_date?: string
+          end_date?: string
+          monthly_rent?: number
+          security_deposit?: number
+          status?: 'draft' | 'active' | 'ended'
+          terms?: string | null
+          escalation_type?: 'none' | 'percent' | 'amount'
+          escalation_value?: number
+          move_in_date?: string | null
+          move_out_date?: string | null
+          renewed_from_lease_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      lease_tenants: {
+        Row: {
+          lease_id: string
+          tenant_id: string
+          is_primary: boolean
+          created_at: string
+        }
+        Insert: {
+          lease_id: string
+          tenant_id: string
+          is_primary?: boolean
+          created_at?: string
+        }
+        Update: {
+          lease_id?: string
+          tenant_id?: string
+          is_primary?: boolean
+          created_at?: string
+        }
+      }
+      tenant_ledger_entries: {
+        Row: {
+          id: string
+          lease_id: string
+          user_id: string
+          date: string
+          type: 'rent' | 'late_fee' | 'other_charge' | 'payment' | 'deposit_received' | 'deposit_returned' | 'deposit_applied'
+          amount: number
+          description: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          lease_id: string
+          user_id: string
+          date: string
+          type: 'rent' | 'late_fee' | 'other_charge' | 'payment' | 'deposit_received' | 'deposit_returned' | 'deposit_applied'
+          amount: number
+          description?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          lease_id?: string
+          user_id?: string
+          date?: string
+          type?: 'rent' | 'late_fee' | 'other_charge' | 'payment' | 'deposit_received' | 'deposit_returned' | 'deposit_applied'
+          amount?: number
+          description?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      lease_renewal_offers: {
+        Row: {
+          id: string
+          lease_id: string
+          user_id: string
+          offered_on: string
+          start_date: string
+          end_date: string
+          monthly_rent: number
+          status: 'pending' | 'accepted' | 'declined' | 'withdrawn'
+          responded_on: string | null
+          renewal_lease_id: string | null
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          lease_id: string
+          user_id: string
+          offered_on: string
+          start_date: string
+          end_date: string
+          monthly_rent: number
+          status?: 'pending' | 'accepted' | 'declined' | 'withdrawn'
+          responded_on?: string | null
+          renewal_lease_id?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          lease_id?: string
+          user_id?: string
+          offered_on?: string
+          start_date?: string
+          end_date?: string
+          monthly_rent?: number
+          status?: 'pending' | 'accepted' | 'declined' | 'withdrawn'
+          responded_on?: string | null
+          renewal_lease_id?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      property_occupancy_snapshots: {
+        Row: {
+          id: string
+          property_id: string
+          date: string
+          status: 'rented' | 'vacant' | 'under_maintenance' | 'sold'
+          total_units: number
+          occupied_units: number
+          monthly_gross_rent: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          property_id: string
+          date: string
+          status: 'rented' | 'vacant' | 'under_maintenance' | 'sold'
+          total_units?: number
+          occupied_units?: number
+          monthly_gross_rent?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          property_id?: string
+          date?: string
+          status?: 'rented' | 'vacant' | 'under_maintenance' | 'sold'
+          total_units?: number
+          occupied_units?: number
+          monthly_gross_rent?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
       agency_clients: {
         Row: {
           id: string
@@ -416,8 +988,23 @@ export type BlopRow = Database['public']['Tables']['blops']['Row']
 export type WebsiteRow = Database['public']['Tables']['websites']['Row']
 export type SubscriptionRow = Database['public']['Tables']['subscriptions']['Row']
 export type PropertyRow = Database['public']['Tables']['properties']['Row']
+export type PropertyListRow = PropertyRow & { roe: number } // A row of the property_list view
 export type RentRollUnitRow = Database['public']['Tables']['rent_roll_units']['Row']
 export type WorkRequestRow = Database['public']['Tables']['work_requests']['Row']
+export type WorkRequestStatusHistoryRow = Database['public']['Tables']['work_request_status_history']['Row']
+export type PropertyDocumentRow = Database['public']['Tables']['property_documents']['Row']
+export type PropertyTransactionRow = Database['public']['Tables']['property_transactions']['Row']
+export type TransactionImportRuleRow = Database['public']['Tables']['transaction_import_rules']['Row']
+export type ImportMappingProfileRow = Database['public']['Tables']['import_mapping_profiles']['Row']
+export type PropertyCustomFieldRow = Database['public']['Tables']['property_custom_fields']['Row']
+export type PropertyPhotoRow = Database['public']['Tables']['property_photos']['Row']
+export type PropertyValuationRow = Database['public']['Tables']['property_valuations']['Row']
+export type TenantRow = Database['public']['Tables']['tenants']['Row']
+export type LeaseRow = Database['public']['Tables']['leases']['Row']
+export type LeaseTenantRow = Database['public']['Tables']['lease_tenants']['Row']
+export type TenantLedgerEntryRow = Database['public']['Tables']['tenant_ledger_entries']['Row']
+export type LeaseRenewalOfferRow = Database['public']['Tables']['lease_renewal_offers']['Row']
+export type PropertyOccupancySnapshotRow = Database['public']['Tables']['property_occupancy_snapshots']['Row']
 export type AgencyClientRow = Database['public']['Tables']['agency_clients']['Row']
 export type GHLClientRow = Database['public']['Tables']['ghl_clients']['Row']
 export type GHLWeeklyMetricRow = Database['public']['Tables']['ghl_weekly_metrics']['Row']
@@ -36,6 +36,7 @@ export interface Subscription {
 }
 
 export interface RentRollUnit {
+  id: string
   unitName: string
   tenantName: string
   monthlyRent: number
@@ -44,17 +45,198 @@ export interface RentRollUnit {
   securityDeposit: number
 }
 
+export interface WorkRequestStatusChange {
+  id: string
+  fromStatus: WorkRequest["status"] | null
+  toStatus: WorkRequest["status"]
+  changedBy: string
+  changedAt: string
+}
+
 export interface WorkRequest {
   id: string
   dateLogged: string
   description: string
   status: "new" | "in_progress" | "completed"
   cost: number
+  statusHistory?: WorkRequestStatusChange[]
+}
+
+export interface PropertyDocument {
+  id: string
+  fileName: string
+  contentType: string
+  sizeBytes: number
+  category: "insurance" | "tax_bill" | "mortgage" | "lease" | "inspection"
+  expiryDate?: string
+  metadata: Record<string, string>
+  uploadedBy: string
+  createdAt: string
+}
+
+export interface PropertyPhoto {
+  id: string
+  unitId?: string // Set for photos of a single rent roll unit
+  fileName: string
+  contentType: string
+  sizeBytes: number
+  width?: number
+  height?: number
+  caption?: string
+  uploadedBy: string
+  createdAt: string
+}
+
+export interface PropertyTransaction {
+  id: string
+  date: string
+  amount: number // Always positive; the category decides income vs expense
+  category:
+    | "rent"
+    | "other_income"
+    | "repairs"
+    | "property_tax"
+    | "insurance"
+    | "mortgage"
+    | "utilities"
+    | "management"
+    | "other_expense"
+  description?: string
+  source: "manual" | "work_request" | "import"
+  workRequestId?: string
+  createdAt: string
+}
+
+export interface PropertyValuation {
+  id: string
+  date: string
+  value: number
+  source: "purchase" | "appraisal" | "estimate" | "comps"
+  notes?: string
+  createdAt: string
+}
+
+export interface OccupancySnapshot {
+  date: string // Holds until the next snapshot
+  status: Property["status"]
+  totalUnits: number
+  occupiedUnits: number
+  monthlyGrossRent: number
+}
+
+export interface Tenant {
+  id: string
+  workspaceId?: string
+  name: string
+  email?: string
+  phone?: string
+  emergencyContactName?: string
+  emergencyContactPhone?: string
+  notes?: string
+  createdAt: string
+}
+
+export interface LeaseTenant {
+  tenantId: string
+  name: string
+  isPrimary: boolean // Co-tenants are the other tenants on the lease
+}
+
+export interface Lease {
+  id: string
+  propertyId: string
+  unitId: string
+  startDate: string
+  endDate: string
+  monthlyRent: number // First-year rent; escalations apply on each anniversary of startDate
+  securityDeposit: number
+  status: "draft" | "active" | "ended" // Expiring is derived, see getLeaseStatus
+  terms?: string
+  escalationType: "none" | "percent" | "amount"
+  escalationValue: number // Percent or amount added each year
+  moveInDate?: string
+  moveOutDate?: string
+  renewedFromLeaseId?: string
+  tenants: LeaseTenant[] // Primary tenant first
+  createdAt: string
+}
+
+export interface LeaseRenewalOffer {
+  id: string
+  leaseId: string
+  offeredOn: string
+  startDate: string
+  endDate: string
+  monthlyRent: number
+  status: "pending" | "accepted" | "declined" | "withdrawn"
+  respondedOn?: string
+  renewalLeaseId?: string // The lease created when the offer was accepted
+  notes?: string
+  createdAt: string
+}
+
+export interface TenantLedgerEntry {
+  id: string
+  leaseId: string
+  date: string
+  type:
+    | "rent"
+    | "late_fee"
+    | "other_charge"
+    | "payment"
+    | "deposit_received"
+    | "deposit_returned"
+    | "deposit_applied"
+  amount: number // Always positive; the type decides how it counts
+  description?: string
+  createdAt: string
+}
+
+export interface TransactionImportRule {
+  id: string
+  pattern: string // Imported transactions whose payee or memo contains this go to propertyId
+  propertyId: string
+  createdAt: string
+}
+
+export type CustomFieldType = "text" | "number" | "currency" | "date" | "select" | "boolean" | "url"
+
+export interface CustomFieldDefinition {
+  id: string
+  workspaceId: string
+  name: string
+  type: CustomFieldType
+  options?: string[] // Allowed values for select fields
+  position: number // Column order, ascending
+  createdAt: string
+}
+
+export interface ImportMappingProfile {
+  id: string
+  workspaceId: string
+  name: string
+  mapping: Record<string, string> // Target field (built-in or custom_*) -> CSV header
+  headerSignature: string
+  createdBy: string
+  createdAt: string
+  updatedAt: string // Saving under the same name again replaces the profile and bumps this
+}
+
+export interface PropertyPartner {
+  name: string
+  percentage: number
 }
 
 export interface Property {
   id: string
   address: string
+  // Structured address and coordinates, filled in by the geocoder
+  street?: string
+  city?: string
+  state?: string // Two-letter code
+  zip?: string
+  latitude?: number
+  longitude?: number
   type: string
   status: "rented" | "vacant" | "under_maintenance" | "sold"
   // Financial fields
@@ -67,12 +249,33 @@ export interface Property {
   monthlyPropertyTax: number
   monthlyOtherCosts: number
   monthlyGrossRent: number
+  // Loan terms
+  downPayment?: number
+  interestRate?: number // Annual rate, in percent
+  amortizationYears?: number
+  loanOriginationDate?: string
+  closingCosts?: number
   // Operational fields
   rentRoll?: RentRollUnit[]
   workRequests?: WorkRequest[]
   linkedWebsites?: string[]
+  coverPhotoId?: string // PropertyPhoto shown in the properties list and details header
   // Partnership/Ownership
-  ownership?: "100% ownership" | "50% partner" | "25% partner" | "75% partner" | "33% partner" | "67% partner"
+  ownershipPercentage?: number // Our equity share, 0-100 (defaults to 100)
+  partners?: PropertyPartner[]
+  updatedAt?: string // Version of the saved row, sent back when updating it
+}
+
+export interface Reminder {
+  id: string
+  type: "lease_end" | "document_expiry" | "subscription_renewal"
+  title: string
+  dueDate: string
+  daysUntil: number
+  window: 30 | 60 | 90
+  workspaceId: string | null
+  propertyId?: string
+  link: string
 }
 
 export interface Client {